@@ -4,7 +4,11 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import type { Message, Task as SDKTask } from '@a2a-js/sdk';
+import type {
+  Message,
+  Task as SDKTask,
+  TaskStatusUpdateEvent,
+} from '@a2a-js/sdk';
 import type {
   TaskStore,
   AgentExecutor,
@@ -24,6 +28,8 @@ import type {
   StateChange,
   AgentSettings,
   PersistedStateMetadata,
+  PersistedTaskMetadata,
+  TaskSummary,
 } from '../types.js';
 import {
   CoderAgentEvent,
@@ -33,8 +39,11 @@ import {
 import { loadConfig, loadEnvironment, setTargetDir } from '../config/config.js';
 import { loadSettings } from '../config/settings.js';
 import { loadExtensions } from '../config/extension.js';
-import { Task } from './task.js';
-import { requestStorage } from '../http/requestStorage.js';
+import { MAX_RECORDED_STATUS_EVENTS, Task } from './task.js';
+import { isDurableTaskStore } from '../persistence/tenant.js';
+import { toLoadedTask } from '../persistence/workspace.js';
+import { getRequestTenant, requestStorage } from '../http/requestStorage.js';
+import { resolveTenantAgentSettings, type Tenant } from '../config/tenants.js';
 import { pushTaskStateFailed } from '../utils/executor_utils.js';
 
 /**
@@ -44,10 +53,12 @@ import { pushTaskStateFailed } from '../utils/executor_utils.js';
 class TaskWrapper {
   task: Task;
   agentSettings: AgentSettings;
+  tenantId?: string;
 
-  constructor(task: Task, agentSettings: AgentSettings) {
+  constructor(task: Task, agentSettings: AgentSettings, tenantId?: string) {
     this.task = task;
     this.agentSettings = agentSettings;
+    this.tenantId = tenantId;
   }
 
   get id() {
@@ -58,6 +69,10 @@ class TaskWrapper {
     const persistedState: PersistedStateMetadata = {
       _agentSettings: this.agentSettings,
       _taskState: this.task.taskState,
+      _tenantId: this.tenantId,
+      _createdAt: this.task.createdAt,
+      _statusEvents: this.task.statusEvents,
+      _droppedStatusEvents: this.task.droppedStatusEvents,
     };
 
     const sdkTask: SDKTask = {
@@ -75,6 +90,16 @@ class TaskWrapper {
     sdkTask.metadata!['_contextId'] = this.task.contextId;
     return sdkTask;
   }
+
+  toSummary(): TaskSummary {
+    return {
+      id: this.task.id,
+      contextId: this.task.contextId,
+      taskState: this.task.taskState,
+      createdAt: this.task.createdAt,
+      updatedAt: this.task.updatedAt,
+    };
+  }
 }
 
 /**
@@ -82,18 +107,19 @@ class TaskWrapper {
  */
 export class CoderAgentExecutor implements AgentExecutor {
   private tasks: Map<string, TaskWrapper> = new Map();
-  // Track tasks with an active execution loop.
-  private executingTasks = new Set<string>();
+  // Track tasks with an active execution loop, to abort them on cancellation.
+  private executingTasks = new Map<string, AbortController>();
 
   constructor(private taskStore?: TaskStore) {}
 
   private async getConfig(
     agentSettings: AgentSettings,
     taskId: string,
+    tenant?: Tenant,
   ): Promise<Config> {
     const workspaceRoot = setTargetDir(agentSettings);
     loadEnvironment(); // Will override any global env with workspace envs
-    const settings = loadSettings(workspaceRoot);
+    const settings = loadSettings(workspaceRoot, tenant?.settingsPath);
     const extensions = loadExtensions(workspaceRoot);
     return loadConfig(settings, new SimpleExtensionLoader(extensions), taskId);
   }
@@ -115,7 +141,11 @@ export class CoderAgentExecutor implements AgentExecutor {
     }
 
     const agentSettings = persistedState._agentSettings;
-    const config = await this.getConfig(agentSettings, sdkTask.id);
+    const config = await this.getConfig(
+      agentSettings,
+      sdkTask.id,
+      getRequestTenant(),
+    );
     const contextId: string =
       (metadata['_contextId'] as string) || sdkTask.contextId;
     const runtimeTask = await Task.create(
@@ -126,9 +156,16 @@ export class CoderAgentExecutor implements AgentExecutor {
       agentSettings.autoExecute,
     );
     runtimeTask.taskState = persistedState._taskState;
+    runtimeTask.createdAt = persistedState._createdAt ?? runtimeTask.createdAt;
+    runtimeTask.statusEvents = persistedState._statusEvents ?? [];
+    runtimeTask.droppedStatusEvents = persistedState._droppedStatusEvents ?? 0;
     await runtimeTask.geminiClient.initialize();
 
-    const wrapper = new TaskWrapper(runtimeTask, agentSettings);
+    const wrapper = new TaskWrapper(
+      runtimeTask,
+      agentSettings,
+      persistedState._tenantId,
+    );
     this.tasks.set(sdkTask.id, wrapper);
     logger.info(`Task ${sdkTask.id} reconstructed from store.`);
     return wrapper;
@@ -140,8 +177,11 @@ export class CoderAgentExecutor implements AgentExecutor {
     agentSettingsInput?: AgentSettings,
     eventBus?: ExecutionEventBus,
   ): Promise<TaskWrapper> {
-    const agentSettings = agentSettingsInput || ({} as AgentSettings);
-    const config = await this.getConfig(agentSettings, taskId);
+    const tenant = getRequestTenant();
+    const agentSettings =
+      resolveTenantAgentSettings(tenant, agentSettingsInput) ||
+      ({} as AgentSettings);
+    const config = await this.getConfig(agentSettings, taskId, tenant);
     const runtimeTask = await Task.create(
       taskId,
       contextId,
@@ -151,7 +191,7 @@ export class CoderAgentExecutor implements AgentExecutor {
     );
     await runtimeTask.geminiClient.initialize();
 
-    const wrapper = new TaskWrapper(runtimeTask, agentSettings);
+    const wrapper = new TaskWrapper(runtimeTask, agentSettings, tenant?.id);
     this.tasks.set(taskId, wrapper);
     logger.info(`New task ${taskId} created.`);
     return wrapper;
@@ -165,6 +205,82 @@ export class CoderAgentExecutor implements AgentExecutor {
     return Array.from(this.tasks.values());
   }
 
+  /**
+   * Cancels a task that is not in a final state, stops its execution and
+   * saves it. The status update goes to the task's own event bus.
+   *
+   * @throws If saving the canceled task fails.
+   */
+  async cancelRunningTask(wrapper: TaskWrapper): Promise<void> {
+    const taskId = wrapper.id;
+    logger.info(
+      `[CoderAgentExecutor] Initiating cancellation for task ${taskId}.`,
+    );
+    wrapper.task.cancel('Task canceled by user request.');
+    this.executingTasks.get(taskId)?.abort();
+    logger.info(
+      `[CoderAgentExecutor] Task ${taskId} cancellation processed. Saving state.`,
+    );
+    await this.taskStore?.save(wrapper.toSDKTask());
+    logger.info(`[CoderAgentExecutor] Task ${taskId} state CANCELED saved.`);
+  }
+
+  /**
+   * Cancels a task that is only in the store. Nothing runs for it, so only
+   * its persisted state changes; its workspace is not restored.
+   *
+   * @returns The metadata of the canceled task.
+   * @throws If saving the canceled task fails.
+   */
+  async cancelStoredTask(
+    taskId: string,
+    metadata: PersistedTaskMetadata,
+  ): Promise<PersistedTaskMetadata> {
+    const persistedState = getPersistedState(metadata)!;
+    const contextId = (metadata['_contextId'] as string | undefined) ?? taskId;
+    const stateChange: StateChange = {
+      kind: CoderAgentEvent.StateChangeEvent,
+    };
+    const event: TaskStatusUpdateEvent = {
+      kind: 'status-update',
+      taskId,
+      contextId,
+      status: {
+        state: 'canceled',
+        message: {
+          kind: 'message',
+          role: 'agent',
+          parts: [{ kind: 'text', text: 'Task canceled by user request.' }],
+          messageId: uuidv4(),
+          taskId,
+          contextId,
+        },
+        timestamp: new Date().toISOString(),
+      },
+      final: true,
+      metadata: { coderAgent: stateChange },
+    };
+    const statusEvents = [...(persistedState._statusEvents ?? []), event];
+    const dropped = Math.max(
+      0,
+      statusEvents.length - MAX_RECORDED_STATUS_EVENTS,
+    );
+    const canceledMetadata = setPersistedState(metadata, {
+      ...persistedState,
+      _taskState: 'canceled',
+      _statusEvents: statusEvents.slice(dropped),
+      _droppedStatusEvents:
+        (persistedState._droppedStatusEvents ?? 0) + dropped,
+    });
+    if (this.taskStore && isDurableTaskStore(this.taskStore)) {
+      await this.taskStore.saveMetadata(taskId, canceledMetadata);
+    } else {
+      await this.taskStore?.save(toLoadedTask(taskId, canceledMetadata));
+    }
+    logger.info(`[CoderAgentExecutor] Stored task ${taskId} canceled.`);
+    return canceledMetadata;
+  }
+
   cancelTask = async (
     taskId: string,
     eventBus: ExecutionEventBus,
@@ -199,7 +315,7 @@ export class CoderAgentExecutor implements AgentExecutor {
 
     const { task } = wrapper;
 
-    if (task.taskState === 'canceled' || task.taskState === 'failed') {
+    if (['canceled', 'failed', 'completed'].includes(task.taskState)) {
       logger.info(
         `[CoderAgentExecutor] Task ${taskId} is already in a final state: ${task.taskState}. No action needed for cancellation.`,
       );
@@ -228,26 +344,7 @@ export class CoderAgentExecutor implements AgentExecutor {
     }
 
     try {
-      logger.info(
-        `[CoderAgentExecutor] Initiating cancellation for task ${taskId}.`,
-      );
-      task.cancelPendingTools('Task canceled by user request.');
-
-      const stateChange: StateChange = {
-        kind: CoderAgentEvent.StateChangeEvent,
-      };
-      task.setTaskStateAndPublishUpdate(
-        'canceled',
-        stateChange,
-        'Task canceled by user request.',
-        undefined,
-        true,
-      );
-      logger.info(
-        `[CoderAgentExecutor] Task ${taskId} cancellation processed. Saving state.`,
-      );
-      await this.taskStore?.save(wrapper.toSDKTask());
-      logger.info(`[CoderAgentExecutor] Task ${taskId} state CANCELED saved.`);
+      await this.cancelRunningTask(wrapper);
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : 'Unknown error';
@@ -458,7 +555,7 @@ export class CoderAgentExecutor implements AgentExecutor {
     logger.info(
       `[CoderAgentExecutor] Starting main execution for message ${userMessage.messageId} for task ${taskId}.`,
     );
-    this.executingTasks.add(taskId);
+    this.executingTasks.set(taskId, abortController);
 
     try {
       let agentTurnActive = true;
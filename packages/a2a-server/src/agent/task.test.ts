@@ -13,7 +13,7 @@ import {
   afterEach,
   type Mock,
 } from 'vitest';
-import { Task } from './task.js';
+import { MAX_RECORDED_STATUS_EVENTS, Task } from './task.js';
 import {
   GeminiEventType,
   type Config,
@@ -647,4 +647,79 @@ describe('Task', () => {
       expect(task.currentPromptId).toBe(expectedPromptId2);
     });
   });
+
+  describe('status events', () => {
+    let mockEventBus: ExecutionEventBus;
+
+    const createTask = (): Task =>
+      // @ts-expect-error - Calling private constructor
+      new Task(
+        'task-id',
+        'context-id',
+        createMockConfig() as Config,
+        mockEventBus,
+      );
+
+    beforeEach(() => {
+      mockEventBus = {
+        publish: vi.fn(),
+        on: vi.fn(),
+        off: vi.fn(),
+        once: vi.fn(),
+        removeAllListeners: vi.fn(),
+        finished: vi.fn(),
+      };
+    });
+
+    it('records the status updates it publishes', () => {
+      const task = createTask();
+      expect(task.updatedAt).toBe(task.createdAt);
+
+      task.setTaskStateAndPublishUpdate(
+        'working',
+        { kind: CoderAgentEvent.StateChangeEvent },
+        'Working on it',
+      );
+      task._sendTextContent('Hello');
+
+      expect(task.statusEvents).toEqual(
+        vi.mocked(mockEventBus.publish).mock.calls.map(([event]) => event),
+      );
+      expect(task.statusEvents.map((event) => event.status.state)).toEqual([
+        'working',
+        'working',
+      ]);
+      expect(task.updatedAt).toBe(task.statusEvents[1].status.timestamp);
+    });
+
+    it('keeps only the most recent status updates', () => {
+      const task = createTask();
+      for (let i = 0; i <= MAX_RECORDED_STATUS_EVENTS; i++) {
+        task._sendTextContent(`chunk ${i}`);
+      }
+
+      expect(task.statusEvents).toHaveLength(MAX_RECORDED_STATUS_EVENTS);
+      expect(task.statusEvents[0].status.message?.parts).toEqual([
+        { kind: 'text', text: 'chunk 1' },
+      ]);
+      expect(task.droppedStatusEvents).toBe(1);
+    });
+
+    it('cancel moves the task to the final canceled state', () => {
+      const task = createTask();
+      const cancelSpy = vi.spyOn(task, 'cancelPendingTools');
+
+      task.cancel('Stopped by user.');
+
+      expect(cancelSpy).toHaveBeenCalledWith('Stopped by user.');
+      expect(task.taskState).toBe('canceled');
+      expect(mockEventBus.publish).toHaveBeenCalledWith(
+        expect.objectContaining({
+          kind: 'status-update',
+          status: expect.objectContaining({ state: 'canceled' }),
+          final: true,
+        }),
+      );
+    });
+  });
 });
@@ -59,6 +59,12 @@ import type { PartUnion, Part as genAiPart } from '@google/genai';
 
 type UnionKeys<T> = T extends T ? keyof T : never;
 
+/**
+ * Status updates recorded per task for replay. Text is streamed in many small
+ * updates, so long-running tasks keep only the most recent ones.
+ */
+export const MAX_RECORDED_STATUS_EVENTS = 1000;
+
 export class Task {
   id: string;
   contextId: string;
@@ -74,6 +80,11 @@ export class Task {
   currentPromptId: string | undefined;
   promptCount = 0;
   autoExecute: boolean;
+  createdAt: string;
+  /** The status updates published by this task, oldest first. */
+  statusEvents: TaskStatusUpdateEvent[] = [];
+  /** How many of the oldest status updates were dropped from `statusEvents`. */
+  droppedStatusEvents = 0;
 
   // For tool waiting logic
   private pendingToolCalls: Map<string, string> = new Map(); //toolCallId --> status
@@ -97,6 +108,7 @@ export class Task {
     this.geminiClient = this.config.getGeminiClient();
     this.pendingToolConfirmationDetails = new Map();
     this.taskState = 'submitted';
+    this.createdAt = new Date().toISOString();
     this.eventBus = eventBus;
     this.completedToolCalls = [];
     this._resetToolCompletionPromise();
@@ -153,6 +165,14 @@ export class Task {
     return metadata;
   }
 
+  /** The time of the last status update, or the creation time. */
+  get updatedAt(): string {
+    return (
+      this.statusEvents[this.statusEvents.length - 1]?.status.timestamp ??
+      this.createdAt
+    );
+  }
+
   private _resetToolCompletionPromise(): void {
     this.toolCompletionPromise = new Promise((resolve, reject) => {
       this.toolCompletionNotifier = { resolve, reject };
@@ -210,6 +230,24 @@ export class Task {
     this._resetToolCompletionPromise();
   }
 
+  /**
+   * Moves the task to the final `canceled` state, cancelling its pending
+   * tool calls.
+   */
+  cancel(reason: string): void {
+    this.cancelPendingTools(reason);
+    const stateChange: StateChange = {
+      kind: CoderAgentEvent.StateChangeEvent,
+    };
+    this.setTaskStateAndPublishUpdate(
+      'canceled',
+      stateChange,
+      reason,
+      undefined,
+      true,
+    );
+  }
+
   private _createTextMessage(
     text: string,
     role: 'agent' | 'user' = 'agent',
@@ -224,6 +262,15 @@ export class Task {
     };
   }
 
+  private _publishStatusUpdate(event: TaskStatusUpdateEvent): void {
+    this.statusEvents.push(event);
+    if (this.statusEvents.length > MAX_RECORDED_STATUS_EVENTS) {
+      this.statusEvents.shift();
+      this.droppedStatusEvents++;
+    }
+    this.eventBus?.publish(event);
+  }
+
   private _createStatusUpdateEvent(
     stateToReport: TaskState,
     coderAgentMessage: CoderAgentMessage,
@@ -301,7 +348,7 @@ export class Task {
       metadataError,
       traceId,
     );
-    this.eventBus?.publish(event);
+    this._publishStatusUpdate(event);
   }
 
   private _schedulerOutputUpdate(
@@ -396,7 +443,7 @@ export class Task {
           message,
           false, // Always false for these continuous updates
         );
-        this.eventBus?.publish(event);
+        this._publishStatusUpdate(event);
       }
     });
 
@@ -862,7 +909,7 @@ export class Task {
         message,
         false,
       );
-      this.eventBus?.publish(event);
+      this._publishStatusUpdate(event);
       return false;
     }
   }
@@ -1014,7 +1061,7 @@ export class Task {
     const textContent: TextContent = {
       kind: CoderAgentEvent.TextContentEvent,
     };
-    this.eventBus?.publish(
+    this._publishStatusUpdate(
       this._createStatusUpdateEvent(
         this.taskState,
         textContent,
@@ -1048,7 +1095,7 @@ export class Task {
     const thought: Thought = {
       kind: CoderAgentEvent.ThoughtEvent,
     };
-    this.eventBus?.publish(
+    this._publishStatusUpdate(
       this._createStatusUpdateEvent(
         this.taskState,
         thought,
@@ -1070,7 +1117,7 @@ export class Task {
     const citationEvent: Citation = {
       kind: CoderAgentEvent.CitationEvent,
     };
-    this.eventBus?.publish(
+    this._publishStatusUpdate(
       this._createStatusUpdateEvent(this.taskState, citationEvent, message),
     );
   }
@@ -89,7 +89,8 @@ export class InitCommand implements Command {
 
     const agentSettings: AgentSettings = {
       kind: CoderAgentEvent.StateAgentSettingsEvent,
-      workspacePath: process.env['CODER_AGENT_WORKSPACE_PATH']!,
+      workspacePath:
+        context.workspacePath ?? process.env['CODER_AGENT_WORKSPACE_PATH']!,
       autoExecute: true,
     };
 
@@ -135,7 +136,7 @@ export class InitCommand implements Command {
     }
 
     const geminiMdPath = path.join(
-      process.env['CODER_AGENT_WORKSPACE_PATH']!,
+      context.workspacePath ?? process.env['CODER_AGENT_WORKSPACE_PATH']!,
       'GEMINI.md',
     );
     const result = performInit(fs.existsSync(geminiMdPath));
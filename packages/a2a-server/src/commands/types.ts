@@ -12,6 +12,8 @@ export interface CommandContext {
   git?: GitService;
   agentExecutor?: AgentExecutor;
   eventBus?: ExecutionEventBus;
+  /** The workspace of the caller, when it differs from the server's. */
+  workspacePath?: string;
 }
 
 export interface CommandArgument {
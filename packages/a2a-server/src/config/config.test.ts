@@ -5,8 +5,10 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
 import * as path from 'node:path';
-import { loadConfig } from './config.js';
+import { loadConfig, readEnvironment } from './config.js';
 import type { Settings } from './settings.js';
 import {
   type ExtensionLoader,
@@ -128,4 +130,37 @@ describe('loadConfig', () => {
       customIgnoreFilePaths: [testPath],
     });
   });
+
+  it('should read the given workspace and environment', async () => {
+    const config = await loadConfig(mockSettings, mockExtensionLoader, taskId, {
+      workspaceDir: '/tenant/workspace',
+      env: { GEMINI_API_KEY: 'test-key', CUSTOM_IGNORE_FILE_PATHS: '/ignore' },
+    });
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    expect((config as any).targetDir).toBe('/tenant/workspace');
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    expect((config as any).fileFiltering.customIgnoreFilePaths).toEqual([
+      '/ignore',
+    ]);
+  });
+});
+
+describe('readEnvironment', () => {
+  let workspaceDir: string;
+
+  beforeEach(() => {
+    workspaceDir = fs.mkdtempSync(path.join(os.tmpdir(), 'a2a-env-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspaceDir, { recursive: true, force: true });
+  });
+
+  it('overrides process.env with the .env file without changing it', () => {
+    fs.writeFileSync(path.join(workspaceDir, '.env'), 'A2A_TEST_VALUE=file');
+
+    expect(readEnvironment(workspaceDir)['A2A_TEST_VALUE']).toBe('file');
+    expect(process.env['A2A_TEST_VALUE']).toBeUndefined();
+  });
 });
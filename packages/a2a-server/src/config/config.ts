@@ -30,20 +30,28 @@ import { logger } from '../utils/logger.js';
 import type { Settings } from './settings.js';
 import { type AgentSettings, CoderAgentEvent } from '../types.js';
 
+export interface LoadConfigOptions {
+  /** The workspace of the config; the current directory by default. */
+  workspaceDir?: string;
+  /** The environment that the config reads; `process.env` by default. */
+  env?: NodeJS.ProcessEnv;
+}
+
 export async function loadConfig(
   settings: Settings,
   extensionLoader: ExtensionLoader,
   taskId: string,
+  options: LoadConfigOptions = {},
 ): Promise<Config> {
-  const workspaceDir = process.cwd();
-  const adcFilePath = process.env['GOOGLE_APPLICATION_CREDENTIALS'];
+  const workspaceDir = options.workspaceDir ?? process.cwd();
+  const env = options.env ?? process.env;
+  const adcFilePath = env['GOOGLE_APPLICATION_CREDENTIALS'];
 
   const folderTrust =
-    settings.folderTrust === true ||
-    process.env['GEMINI_FOLDER_TRUST'] === 'true';
+    settings.folderTrust === true || env['GEMINI_FOLDER_TRUST'] === 'true';
 
-  let checkpointing = process.env['CHECKPOINTING']
-    ? process.env['CHECKPOINTING'] === 'true'
+  let checkpointing = env['CHECKPOINTING']
+    ? env['CHECKPOINTING'] === 'true'
     : settings.checkpointing?.enabled;
 
   if (checkpointing) {
@@ -63,14 +71,14 @@ export async function loadConfig(
     embeddingModel: DEFAULT_GEMINI_EMBEDDING_MODEL,
     sandbox: undefined, // Sandbox might not be relevant for a server-side agent
     targetDir: workspaceDir, // Or a specific directory the agent operates on
-    debugMode: process.env['DEBUG'] === 'true' || false,
+    debugMode: env['DEBUG'] === 'true' || false,
     question: '', // Not used in server mode directly like CLI
 
     coreTools: settings.coreTools || undefined,
     excludeTools: settings.excludeTools || undefined,
     showMemoryUsage: settings.showMemoryUsage || false,
     approvalMode:
-      process.env['GEMINI_YOLO_MODE'] === 'true'
+      env['GEMINI_YOLO_MODE'] === 'true'
         ? ApprovalMode.YOLO
         : ApprovalMode.DEFAULT,
     mcpServers: settings.mcpServers,
@@ -79,8 +87,7 @@ export async function loadConfig(
       enabled: settings.telemetry?.enabled,
       target: settings.telemetry?.target as TelemetryTarget,
       otlpEndpoint:
-        process.env['OTEL_EXPORTER_OTLP_ENDPOINT'] ??
-        settings.telemetry?.otlpEndpoint,
+        env['OTEL_EXPORTER_OTLP_ENDPOINT'] ?? settings.telemetry?.otlpEndpoint,
       logPrompts: settings.telemetry?.logPrompts,
     },
     // Git-aware file filtering settings
@@ -91,8 +98,8 @@ export async function loadConfig(
         settings.fileFiltering?.enableRecursiveFileSearch,
       customIgnoreFilePaths: [
         ...(settings.fileFiltering?.customIgnoreFilePaths || []),
-        ...(process.env['CUSTOM_IGNORE_FILE_PATHS']
-          ? process.env['CUSTOM_IGNORE_FILE_PATHS'].split(path.delimiter)
+        ...(env['CUSTOM_IGNORE_FILE_PATHS']
+          ? env['CUSTOM_IGNORE_FILE_PATHS'].split(path.delimiter)
           : []),
       ],
     },
@@ -131,7 +138,7 @@ export async function loadConfig(
   await config.initialize();
   startupProfiler.flush(config);
 
-  if (process.env['USE_CCPA']) {
+  if (env['USE_CCPA']) {
     logger.info('[Config] Using CCPA Auth:');
     try {
       if (adcFilePath) {
@@ -144,9 +151,9 @@ export async function loadConfig(
     }
     await config.refreshAuth(AuthType.LOGIN_WITH_GOOGLE);
     logger.info(
-      `[Config] GOOGLE_CLOUD_PROJECT: ${process.env['GOOGLE_CLOUD_PROJECT']}`,
+      `[Config] GOOGLE_CLOUD_PROJECT: ${env['GOOGLE_CLOUD_PROJECT']}`,
     );
-  } else if (process.env['GEMINI_API_KEY']) {
+  } else if (env['GEMINI_API_KEY']) {
     logger.info('[Config] Using Gemini API Key');
     await config.refreshAuth(AuthType.USE_GEMINI);
   } else {
@@ -159,24 +166,34 @@ export async function loadConfig(
   return config;
 }
 
-export function setTargetDir(agentSettings: AgentSettings | undefined): string {
-  const originalCWD = process.cwd();
+/**
+ * Returns the workspace directory selected by `CODER_AGENT_WORKSPACE_PATH`
+ * or `agentSettings`, without changing the current directory.
+ */
+export function resolveTargetDir(
+  agentSettings: AgentSettings | undefined,
+): string | undefined {
   const targetDir =
     process.env['CODER_AGENT_WORKSPACE_PATH'] ??
     (agentSettings?.kind === CoderAgentEvent.StateAgentSettingsEvent
       ? agentSettings.workspacePath
       : undefined);
+  return targetDir ? path.resolve(targetDir) : undefined;
+}
 
-  if (!targetDir) {
+export function setTargetDir(agentSettings: AgentSettings | undefined): string {
+  const originalCWD = process.cwd();
+  const resolvedPath = resolveTargetDir(agentSettings);
+
+  if (!resolvedPath) {
     return originalCWD;
   }
 
   logger.info(
-    `[CoderAgentExecutor] Overriding workspace path to: ${targetDir}`,
+    `[CoderAgentExecutor] Overriding workspace path to: ${resolvedPath}`,
   );
 
   try {
-    const resolvedPath = path.resolve(targetDir);
     process.chdir(resolvedPath);
     return resolvedPath;
   } catch (e) {
@@ -194,6 +211,17 @@ export function loadEnvironment(): void {
   }
 }
 
+/**
+ * Returns `process.env` overridden by the `.env` file of `workspaceDir`,
+ * like {@link loadEnvironment} but without changing `process.env`.
+ */
+export function readEnvironment(workspaceDir: string): NodeJS.ProcessEnv {
+  const envFilePath = findEnvFile(workspaceDir);
+  return envFilePath
+    ? { ...process.env, ...dotenv.parse(fs.readFileSync(envFilePath)) }
+    : { ...process.env };
+}
+
 function findEnvFile(startDir: string): string | null {
   let currentDir = path.resolve(startDir);
   while (true) {
@@ -209,7 +237,7 @@ function findEnvFile(startDir: string): string | null {
     const parentDir = path.dirname(currentDir);
     if (parentDir === currentDir || !parentDir) {
       // check .env under home as fallback, again preferring gemini-specific .env
-      const homeGeminiEnvPath = path.join(process.cwd(), GEMINI_DIR, '.env');
+      const homeGeminiEnvPath = path.join(homedir(), GEMINI_DIR, '.env');
       if (fs.existsSync(homeGeminiEnvPath)) {
         return homeGeminiEnvPath;
       }
@@ -55,30 +55,35 @@ export interface CheckpointingSettings {
 
 /**
  * Loads settings from user and workspace directories.
- * Project settings override user settings.
+ * Project settings override user settings. Tenants of a shared server pass
+ * their own file in place of the user settings.
  *
  * How is it different to gemini-cli/cli: Returns already merged settings rather
  * than `LoadedSettings` (unnecessary since we are not modifying users
  * settings.json).
  */
-export function loadSettings(workspaceDir: string): Settings {
+export function loadSettings(
+  workspaceDir: string,
+  userSettingsPath: string = USER_SETTINGS_PATH,
+  env: NodeJS.ProcessEnv = process.env,
+): Settings {
   let userSettings: Settings = {};
   let workspaceSettings: Settings = {};
   const settingsErrors: SettingsError[] = [];
 
   // Load user settings
   try {
-    if (fs.existsSync(USER_SETTINGS_PATH)) {
-      const userContent = fs.readFileSync(USER_SETTINGS_PATH, 'utf-8');
+    if (fs.existsSync(userSettingsPath)) {
+      const userContent = fs.readFileSync(userSettingsPath, 'utf-8');
       const parsedUserSettings = JSON.parse(
         stripJsonComments(userContent),
       ) as Settings;
-      userSettings = resolveEnvVarsInObject(parsedUserSettings);
+      userSettings = resolveEnvVarsInObject(parsedUserSettings, env);
     }
   } catch (error: unknown) {
     settingsErrors.push({
       message: getErrorMessage(error),
-      path: USER_SETTINGS_PATH,
+      path: userSettingsPath,
     });
   }
 
@@ -95,7 +100,7 @@ export function loadSettings(workspaceDir: string): Settings {
       const parsedWorkspaceSettings = JSON.parse(
         stripJsonComments(projectContent),
       ) as Settings;
-      workspaceSettings = resolveEnvVarsInObject(parsedWorkspaceSettings);
+      workspaceSettings = resolveEnvVarsInObject(parsedWorkspaceSettings, env);
     }
   } catch (error: unknown) {
     settingsErrors.push({
@@ -120,18 +125,21 @@ export function loadSettings(workspaceDir: string): Settings {
   };
 }
 
-function resolveEnvVarsInString(value: string): string {
+function resolveEnvVarsInString(value: string, env: NodeJS.ProcessEnv): string {
   const envVarRegex = /\$(?:(\w+)|{([^}]+)})/g; // Find $VAR_NAME or ${VAR_NAME}
   return value.replace(envVarRegex, (match, varName1, varName2) => {
     const varName = varName1 || varName2;
-    if (process && process.env && typeof process.env[varName] === 'string') {
-      return process.env[varName];
+    if (typeof env[varName] === 'string') {
+      return env[varName];
     }
     return match;
   });
 }
 
-function resolveEnvVarsInObject<T>(obj: T): T {
+export function resolveEnvVarsInObject<T>(
+  obj: T,
+  env: NodeJS.ProcessEnv = process.env,
+): T {
   if (
     obj === null ||
     obj === undefined ||
@@ -142,18 +150,18 @@ function resolveEnvVarsInObject<T>(obj: T): T {
   }
 
   if (typeof obj === 'string') {
-    return resolveEnvVarsInString(obj) as unknown as T;
+    return resolveEnvVarsInString(obj, env) as unknown as T;
   }
 
   if (Array.isArray(obj)) {
-    return obj.map((item) => resolveEnvVarsInObject(item)) as unknown as T;
+    return obj.map((item) => resolveEnvVarsInObject(item, env)) as unknown as T;
   }
 
   if (typeof obj === 'object') {
     const newObj = { ...obj } as T;
     for (const key in newObj) {
       if (Object.prototype.hasOwnProperty.call(newObj, key)) {
-        newObj[key] = resolveEnvVarsInObject(newObj[key]);
+        newObj[key] = resolveEnvVarsInObject(newObj[key], env);
       }
     }
     return newObj;
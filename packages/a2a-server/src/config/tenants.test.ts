@@ -0,0 +1,163 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { loadAuthConfig, resolveTenantAgentSettings } from './tenants.js';
+import { CoderAgentEvent } from '../types.js';
+
+describe('loadAuthConfig', () => {
+  let testDir: string;
+
+  const writeConfig = (content: string) => {
+    const configPath = path.join(testDir, 'tenants.json');
+    fs.writeFileSync(configPath, content);
+    vi.stubEnv('CODER_AGENT_AUTH_CONFIG', configPath);
+  };
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'a2a-tenants-'));
+    vi.stubEnv('CODER_AGENT_WORKSPACE_PATH', '');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('returns undefined when authentication is not configured', () => {
+    vi.stubEnv('CODER_AGENT_AUTH_CONFIG', '');
+    expect(loadAuthConfig()).toBeUndefined();
+  });
+
+  it('loads tenants with comments and environment variables', () => {
+    vi.stubEnv('TEAM_A_TOKEN', 'secret-token');
+    writeConfig(`{
+      // The only tenant.
+      "tenants": [{ "id": "team-a", "bearerTokens": ["$TEAM_A_TOKEN"] }]
+    }`);
+
+    expect(loadAuthConfig()).toEqual({
+      tenants: [{ id: 'team-a', bearerTokens: ['secret-token'] }],
+    });
+  });
+
+  it.each([
+    ['no tenants', { tenants: [] }, 'must list at least one tenant'],
+    ['an invalid id', { tenants: [{ id: '../a' }] }, 'Invalid tenant id'],
+    [
+      'duplicate ids',
+      { tenants: [{ id: 'a' }, { id: 'a' }] },
+      'Duplicate tenant id',
+    ],
+    [
+      'a shared token',
+      {
+        tenants: [
+          { id: 'a', bearerTokens: ['token'] },
+          { id: 'b', bearerTokens: ['token'] },
+        ],
+      },
+      'reuses a bearer token',
+    ],
+    [
+      'an empty token',
+      { tenants: [{ id: 'a', bearerTokens: [''] }] },
+      'has an empty bearer token',
+    ],
+    [
+      'an HMAC key without secret',
+      { tenants: [{ id: 'a', hmacKeys: [{ id: 'key' }] }] },
+      'has no secret',
+    ],
+    [
+      'a relative workspace root',
+      { tenants: [{ id: 'a', workspaceRoot: 'work' }] },
+      'must be an absolute path',
+    ],
+  ])('rejects a config with %s', (_name, config, error) => {
+    writeConfig(JSON.stringify(config));
+    expect(() => loadAuthConfig()).toThrow(error);
+  });
+
+  it('rejects workspace roots when the workspace path is fixed', () => {
+    vi.stubEnv('CODER_AGENT_WORKSPACE_PATH', testDir);
+    writeConfig(
+      JSON.stringify({ tenants: [{ id: 'a', workspaceRoot: testDir }] }),
+    );
+    expect(() => loadAuthConfig()).toThrow('CODER_AGENT_WORKSPACE_PATH');
+  });
+});
+
+describe('resolveTenantAgentSettings', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'a2a-tenant-root-'));
+    fs.mkdirSync(path.join(root, 'project'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('keeps the settings of tenants without a workspace root', () => {
+    const settings = {
+      kind: CoderAgentEvent.StateAgentSettingsEvent,
+      workspacePath: '/anywhere',
+    } as const;
+    expect(resolveTenantAgentSettings({ id: 'a' }, settings)).toBe(settings);
+    expect(resolveTenantAgentSettings(undefined, undefined)).toBeUndefined();
+  });
+
+  it('uses the workspace root when no workspace is given', () => {
+    expect(
+      resolveTenantAgentSettings({ id: 'a', workspaceRoot: root }, undefined),
+    ).toEqual({
+      kind: CoderAgentEvent.StateAgentSettingsEvent,
+      workspacePath: root,
+    });
+  });
+
+  it('resolves relative workspaces against the workspace root', () => {
+    expect(
+      resolveTenantAgentSettings(
+        { id: 'a', workspaceRoot: root },
+        {
+          kind: CoderAgentEvent.StateAgentSettingsEvent,
+          workspacePath: 'project',
+        },
+      )?.workspacePath,
+    ).toBe(path.join(root, 'project'));
+  });
+
+  it('rejects workspaces outside the workspace root', () => {
+    expect(() =>
+      resolveTenantAgentSettings(
+        { id: 'a', workspaceRoot: root },
+        {
+          kind: CoderAgentEvent.StateAgentSettingsEvent,
+          workspacePath: '../elsewhere',
+        },
+      ),
+    ).toThrow('outside the workspace root of tenant "a"');
+  });
+
+  it('rejects workspaces that do not exist', () => {
+    expect(() =>
+      resolveTenantAgentSettings(
+        { id: 'a', workspaceRoot: root },
+        {
+          kind: CoderAgentEvent.StateAgentSettingsEvent,
+          workspacePath: 'missing',
+        },
+      ),
+    ).toThrow('does not exist');
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import stripJsonComments from 'strip-json-comments';
+import { CoderAgentEvent, type AgentSettings } from '../types.js';
+import { resolveEnvVarsInObject } from './settings.js';
+
+/**
+ * A caller of a shared server. Tasks belong to the tenant that created them
+ * and are only visible to it.
+ */
+export interface Tenant {
+  id: string;
+  /** Workspaces of the tenant's tasks must be inside this directory. */
+  workspaceRoot?: string;
+  /** Used in place of the user settings file for the tenant's tasks. */
+  settingsPath?: string;
+}
+
+export interface HmacKey {
+  /** Sent by the caller in the key id header to select the secret. */
+  id: string;
+  secret: string;
+}
+
+/**
+ * A tenant together with the credentials that authenticate as it. Values
+ * may reference environment variables as `$VAR` or `${VAR}`.
+ */
+export interface TenantConfig extends Tenant {
+  bearerTokens?: string[];
+  hmacKeys?: HmacKey[];
+  /** Common names of client certificates, for mTLS. */
+  clientCertSubjects?: string[];
+}
+
+export interface AuthConfig {
+  tenants: TenantConfig[];
+}
+
+const TENANT_ID_REGEX = /^[a-zA-Z0-9_-]+$/;
+
+/**
+ * Loads and validates the tenants file named by `CODER_AGENT_AUTH_CONFIG`.
+ *
+ * @returns The config, or `undefined` when authentication is not configured.
+ */
+export function loadAuthConfig(): AuthConfig | undefined {
+  const configPath = process.env['CODER_AGENT_AUTH_CONFIG'];
+  if (!configPath) {
+    return undefined;
+  }
+  const content = fs.readFileSync(configPath, 'utf-8');
+  const config = resolveEnvVarsInObject(
+    JSON.parse(stripJsonComments(content)) as AuthConfig,
+  );
+  validateAuthConfig(config, configPath);
+  return config;
+}
+
+function validateAuthConfig(config: AuthConfig, configPath: string): void {
+  if (!Array.isArray(config?.tenants) || config.tenants.length === 0) {
+    throw new Error(`${configPath} must list at least one tenant.`);
+  }
+  const tenantIds = new Set<string>();
+  const credentials = new Set<string>();
+  const addCredential = (kind: string, value: string, tenantId: string) => {
+    if (!value) {
+      throw new Error(`Tenant "${tenantId}" has an empty ${kind}.`);
+    }
+    const key = `${kind}:${value}`;
+    if (credentials.has(key)) {
+      throw new Error(
+        `Tenant "${tenantId}" reuses a ${kind} of another tenant.`,
+      );
+    }
+    credentials.add(key);
+  };
+
+  for (const tenant of config.tenants) {
+    if (!TENANT_ID_REGEX.test(tenant.id ?? '')) {
+      throw new Error(
+        `Invalid tenant id "${tenant.id}" in ${configPath}. Use letters, digits, dashes and underscores.`,
+      );
+    }
+    if (tenantIds.has(tenant.id)) {
+      throw new Error(`Duplicate tenant id "${tenant.id}" in ${configPath}.`);
+    }
+    tenantIds.add(tenant.id);
+    if (tenant.workspaceRoot && !path.isAbsolute(tenant.workspaceRoot)) {
+      throw new Error(
+        `The workspace root of tenant "${tenant.id}" must be an absolute path.`,
+      );
+    }
+    if (tenant.workspaceRoot && process.env['CODER_AGENT_WORKSPACE_PATH']) {
+      throw new Error(
+        `Tenant "${tenant.id}" has a workspace root, which CODER_AGENT_WORKSPACE_PATH would override. Unset one of them.`,
+      );
+    }
+    for (const token of tenant.bearerTokens ?? []) {
+      addCredential('bearer token', token, tenant.id);
+    }
+    for (const key of tenant.hmacKeys ?? []) {
+      addCredential('HMAC key id', key.id, tenant.id);
+      if (!key.secret) {
+        throw new Error(
+          `HMAC key "${key.id}" of tenant "${tenant.id}" has no secret.`,
+        );
+      }
+    }
+    for (const subject of tenant.clientCertSubjects ?? []) {
+      addCredential('client certificate subject', subject, tenant.id);
+    }
+  }
+}
+
+/**
+ * Places the workspace of a new task inside the workspace root of its
+ * tenant. A relative `workspacePath` is resolved against the root, and
+ * without one the task works in the root itself.
+ */
+export function resolveTenantAgentSettings(
+  tenant: Tenant | undefined,
+  agentSettings: AgentSettings | undefined,
+): AgentSettings | undefined {
+  if (!tenant?.workspaceRoot) {
+    return agentSettings;
+  }
+  const root = path.resolve(tenant.workspaceRoot);
+  const workspacePath = agentSettings?.workspacePath
+    ? path.resolve(root, agentSettings.workspacePath)
+    : root;
+  const relative = path.relative(root, workspacePath);
+  if (
+    relative === '..' ||
+    relative.startsWith(`..${path.sep}`) ||
+    path.isAbsolute(relative)
+  ) {
+    throw new Error(
+      `Workspace ${workspacePath} is outside the workspace root of tenant "${tenant.id}".`,
+    );
+  }
+  if (!fs.existsSync(workspacePath)) {
+    throw new Error(`Workspace ${workspacePath} does not exist.`);
+  }
+  return {
+    ...agentSettings,
+    kind: CoderAgentEvent.StateAgentSettingsEvent,
+    workspacePath,
+  };
+}
@@ -5,8 +5,11 @@
  */
 
 import express from 'express';
+import * as fs from 'node:fs';
+import * as https from 'node:https';
+import * as path from 'node:path';
 
-import type { AgentCard, Message } from '@a2a-js/sdk';
+import type { AgentCard, Message, TaskStatusUpdateEvent } from '@a2a-js/sdk';
 import type { TaskStore } from '@a2a-js/sdk/server';
 import {
   DefaultRequestHandler,
@@ -17,12 +20,38 @@ import {
 import { A2AExpressApp } from '@a2a-js/sdk/server/express'; // Import server components
 import { v4 as uuidv4 } from 'uuid';
 import { logger } from '../utils/logger.js';
-import type { AgentSettings } from '../types.js';
-import { GCSTaskStore, NoOpTaskStore } from '../persistence/gcs.js';
+import {
+  getPersistedState,
+  type AgentSettings,
+  type TaskSummary,
+} from '../types.js';
+import { NoOpTaskStore } from '../persistence/gcs.js';
+import { closeTaskStore, createTaskStore } from '../persistence/taskStore.js';
+import { TenantTaskStore } from '../persistence/tenant.js';
+import {
+  toStoredTaskMetadata,
+  toStoredTaskSummary,
+} from '../persistence/workspace.js';
 import { CoderAgentExecutor } from '../agent/executor.js';
-import { requestStorage } from './requestStorage.js';
-import { loadConfig, loadEnvironment, setTargetDir } from '../config/config.js';
+import { getRequestTenant, requestStorage } from './requestStorage.js';
+import {
+  listTasks,
+  parseTaskListQuery,
+  type TaskListQuery,
+} from './taskList.js';
+import {
+  createAuthenticators,
+  createAuthMiddleware,
+  keepRawBody,
+} from './auth.js';
+import {
+  loadConfig,
+  loadEnvironment,
+  readEnvironment,
+  setTargetDir,
+} from '../config/config.js';
 import { loadSettings } from '../config/settings.js';
+import { loadAuthConfig, type Tenant } from '../config/tenants.js';
 import { loadExtensions } from '../config/extension.js';
 import { commandRegistry } from '../commands/command-registry.js';
 import { debugLogger, SimpleExtensionLoader } from '@google/gemini-cli-core';
@@ -74,18 +103,65 @@ const coderAgentCard: AgentCard = {
   supportsAuthenticatedExtendedCard: false,
 };
 
-export function updateCoderAgentCardUrl(port: number) {
-  coderAgentCard.url = `http://localhost:${port}/`;
+export function updateCoderAgentCardUrl(
+  port: number,
+  host = 'localhost',
+  protocol = 'http',
+) {
+  coderAgentCard.url = `${protocol}://${host}:${port}/`;
+}
+
+type ExecuteCommandContext = {
+  config: Awaited<ReturnType<typeof loadConfig>>;
+  git: GitService | undefined;
+  agentExecutor: CoderAgentExecutor;
+  workspacePath?: string;
+};
+
+async function createGitService(
+  config: ExecuteCommandContext['config'],
+): Promise<GitService | undefined> {
+  if (!config.getCheckpointingEnabled()) {
+    return undefined;
+  }
+  const git = new GitService(config.getTargetDir(), config.storage);
+  await git.initialize();
+  return git;
+}
+
+/**
+ * Loads the context that the commands of a tenant run in: the tenant's
+ * workspace root, its `.env` file and its settings file. Tenants without a
+ * workspace root share the server workspace. Neither the current directory
+ * nor `process.env` change, since other tenants and tasks share them.
+ */
+async function loadTenantCommandContext(
+  tenant: Tenant,
+  serverWorkspace: string,
+  agentExecutor: CoderAgentExecutor,
+): Promise<ExecuteCommandContext> {
+  const workspaceDir = path.resolve(tenant.workspaceRoot ?? serverWorkspace);
+  const env = readEnvironment(workspaceDir);
+  const settings = loadSettings(workspaceDir, tenant.settingsPath, env);
+  const extensions = loadExtensions(workspaceDir);
+  const config = await loadConfig(
+    settings,
+    new SimpleExtensionLoader(extensions),
+    'a2a-server',
+    { workspaceDir, env },
+  );
+  return {
+    config,
+    git: await createGitService(config),
+    agentExecutor,
+    workspacePath: tenant.workspaceRoot && workspaceDir,
+  };
 }
 
 async function handleExecuteCommand(
   req: express.Request,
   res: express.Response,
-  context: {
-    config: Awaited<ReturnType<typeof loadConfig>>;
-    git: GitService | undefined;
-    agentExecutor: CoderAgentExecutor;
-  },
+  context: ExecuteCommandContext,
 ) {
   logger.info('[CoreAgent] Received /executeCommand request: ', req.body);
   const { command, args } = req.body;
@@ -101,7 +177,10 @@ async function handleExecuteCommand(
     const commandToExecute = commandRegistry.get(command);
 
     if (commandToExecute?.requiresWorkspace) {
-      if (!process.env['CODER_AGENT_WORKSPACE_PATH']) {
+      if (
+        !context.workspacePath &&
+        !process.env['CODER_AGENT_WORKSPACE_PATH']
+      ) {
         return res.status(400).json({
           error: `Command "${command}" requires a workspace, but CODER_AGENT_WORKSPACE_PATH is not set.`,
         });
@@ -148,12 +227,21 @@ async function handleExecuteCommand(
   }
 }
 
+// The task store of each app, closed when its server closes.
+const appTaskStores = new WeakMap<express.Express, TaskStore>();
+
 export async function createApp() {
   try {
     // Load the server configuration once on startup.
     const workspaceRoot = setTargetDir(undefined);
     loadEnvironment();
     const settings = loadSettings(workspaceRoot);
+    const authConfig = loadAuthConfig();
+    for (const tenant of authConfig?.tenants ?? []) {
+      if (tenant.workspaceRoot) {
+        fs.mkdirSync(tenant.workspaceRoot, { recursive: true });
+      }
+    }
     const extensions = loadExtensions(workspaceRoot);
     const config = await loadConfig(
       settings,
@@ -161,32 +249,43 @@ export async function createApp() {
       'a2a-server',
     );
 
-    let git: GitService | undefined;
-    if (config.getCheckpointingEnabled()) {
-      git = new GitService(config.getTargetDir(), config.storage);
-      await git.initialize();
-    }
+    const git = await createGitService(config);
 
     // loadEnvironment() is called within getConfig now
-    const bucketName = process.env['GCS_BUCKET_NAME'];
-    let taskStoreForExecutor: TaskStore;
-    let taskStoreForHandler: TaskStore;
-
-    if (bucketName) {
-      logger.info(`Using GCSTaskStore with bucket: ${bucketName}`);
-      const gcsTaskStore = new GCSTaskStore(bucketName);
-      taskStoreForExecutor = gcsTaskStore;
-      taskStoreForHandler = new NoOpTaskStore(gcsTaskStore);
-    } else {
-      logger.info('Using InMemoryTaskStore');
-      const inMemoryTaskStore = new InMemoryTaskStore();
-      taskStoreForExecutor = inMemoryTaskStore;
-      taskStoreForHandler = inMemoryTaskStore;
-    }
+    const taskStoreForExecutor = createTaskStore();
+    // Durable stores snapshot the workspace on every save, so only the
+    // executor saves to them.
+    const taskStoreForHandler: TaskStore = new TenantTaskStore(
+      taskStoreForExecutor instanceof InMemoryTaskStore
+        ? taskStoreForExecutor
+        : new NoOpTaskStore(taskStoreForExecutor),
+    );
+    // Lookups outside the request handler must not see other tenants either.
+    const tenantTaskStore = new TenantTaskStore(taskStoreForExecutor);
 
     const agentExecutor = new CoderAgentExecutor(taskStoreForExecutor);
 
-    const context = { config, git, agentExecutor };
+    const context: ExecuteCommandContext = { config, git, agentExecutor };
+    // Commands of a tenant run with its own workspace and settings, never
+    // with those of the server.
+    const tenantContexts = new Map<string, Promise<ExecuteCommandContext>>();
+    const getCommandContext = (): Promise<ExecuteCommandContext> => {
+      const tenant = getRequestTenant();
+      if (!tenant) {
+        return Promise.resolve(context);
+      }
+      let tenantContext = tenantContexts.get(tenant.id);
+      if (!tenantContext) {
+        tenantContext = loadTenantCommandContext(
+          tenant,
+          workspaceRoot,
+          agentExecutor,
+        );
+        tenantContexts.set(tenant.id, tenantContext);
+        tenantContext.catch(() => tenantContexts.delete(tenant.id));
+      }
+      return tenantContext;
+    };
 
     const requestHandler = new DefaultRequestHandler(
       coderAgentCard,
@@ -198,9 +297,15 @@ export async function createApp() {
     expressApp.use((req, res, next) => {
       requestStorage.run({ req }, next);
     });
+    if (authConfig) {
+      // Signed requests are verified against the body as it was sent.
+      expressApp.use(express.json({ verify: keepRawBody }));
+      expressApp.use(createAuthMiddleware(createAuthenticators(authConfig)));
+    }
 
     const appBuilder = new A2AExpressApp(requestHandler);
     expressApp = appBuilder.setupRoutes(expressApp, '');
+    appTaskStores.set(expressApp, taskStoreForExecutor);
     expressApp.use(express.json());
 
     expressApp.post('/tasks', async (req, res) => {
@@ -228,7 +333,18 @@ export async function createApp() {
     });
 
     expressApp.post('/executeCommand', (req, res) => {
-      void handleExecuteCommand(req, res, context);
+      void getCommandContext().then(
+        (commandContext) => handleExecuteCommand(req, res, commandContext),
+        (error: unknown) => {
+          logger.error('[CoreAgent] Error loading the command context:', error);
+          res.status(500).json({
+            error:
+              error instanceof Error
+                ? error.message
+                : 'Unknown error loading the command context',
+          });
+        },
+      );
     });
 
     expressApp.get('/listCommands', (req, res) => {
@@ -282,7 +398,10 @@ export async function createApp() {
         });
       }
       try {
-        const wrappers = agentExecutor.getAllTasks();
+        const tenantId = getRequestTenant()?.id;
+        const wrappers = agentExecutor
+          .getAllTasks()
+          .filter((wrapper) => wrapper.tenantId === tenantId);
         if (wrappers && wrappers.length > 0) {
           const tasksMetadata = await Promise.all(
             wrappers.map((wrapper) => wrapper.task.getMetadata()),
@@ -301,20 +420,154 @@ export async function createApp() {
       }
     });
 
+    // Finds a task of the caller's tenant that is in memory.
+    const findLiveTask = (taskId: string) => {
+      const wrapper = agentExecutor.getTask(taskId);
+      return wrapper?.tenantId === getRequestTenant()?.id ? wrapper : undefined;
+    };
+
+    expressApp.get('/tasks', async (req, res) => {
+      let query: TaskListQuery;
+      try {
+        query = parseTaskListQuery(req.query);
+      } catch (error) {
+        res.status(400).send({ error: (error as Error).message });
+        return;
+      }
+      try {
+        // Stored tasks outlive restarts; the live ones are more recent.
+        const tasks = new Map<string, TaskSummary>();
+        for (const summary of await tenantTaskStore.list()) {
+          tasks.set(summary.id, summary);
+        }
+        const tenantId = getRequestTenant()?.id;
+        for (const wrapper of agentExecutor.getAllTasks()) {
+          if (wrapper.tenantId === tenantId) {
+            tasks.set(wrapper.id, wrapper.toSummary());
+          }
+        }
+        res.status(200).json(listTasks([...tasks.values()], query));
+      } catch (error) {
+        logger.error('[CoreAgent] Error listing tasks:', error);
+        const errorMessage =
+          error instanceof Error
+            ? error.message
+            : 'Unknown error listing tasks';
+        res.status(500).send({ error: errorMessage });
+      }
+    });
+
     expressApp.get('/tasks/:taskId/metadata', async (req, res) => {
       const taskId = req.params.taskId;
-      let wrapper = agentExecutor.getTask(taskId);
-      if (!wrapper) {
-        const sdkTask = await taskStoreForExecutor.load(taskId);
-        if (sdkTask) {
-          wrapper = await agentExecutor.reconstruct(sdkTask);
+      const wrapper = findLiveTask(taskId);
+      if (wrapper) {
+        res.json({ metadata: await wrapper.task.getMetadata() });
+        return;
+      }
+      // Stored tasks are described from their metadata alone, without
+      // restoring their workspace or agent.
+      const metadata = agentExecutor.getTask(taskId)
+        ? undefined
+        : await tenantTaskStore.loadMetadata(taskId);
+      if (!metadata) {
+        res.status(404).send({ error: 'Task not found' });
+        return;
+      }
+      res.json({ metadata: toStoredTaskMetadata(taskId, metadata) });
+    });
+
+    expressApp.post('/tasks/:taskId/cancel', async (req, res) => {
+      const taskId = req.params.taskId;
+      try {
+        const wrapper = findLiveTask(taskId);
+        const metadata =
+          wrapper || agentExecutor.getTask(taskId)
+            ? undefined
+            : await tenantTaskStore.loadMetadata(taskId);
+        const taskState = wrapper
+          ? wrapper.task.taskState
+          : metadata && getPersistedState(metadata)?._taskState;
+        if (!taskState) {
+          res.status(404).send({ error: 'Task not found' });
+          return;
+        }
+        if (['canceled', 'failed', 'completed'].includes(taskState)) {
+          res
+            .status(409)
+            .send({ error: `Task ${taskId} is already ${taskState}.` });
+          return;
+        }
+        if (wrapper) {
+          // The cancellation is published to the task's own event bus, so
+          // clients streaming the task see it too. A failed save is an error.
+          await agentExecutor.cancelRunningTask(wrapper);
+          res.status(200).json(wrapper.toSummary());
+          return;
+        }
+        // Nothing runs for a task that is only stored.
+        const canceledMetadata = await agentExecutor.cancelStoredTask(
+          taskId,
+          metadata!,
+        );
+        res
+          .status(200)
+          .json(
+            toStoredTaskSummary(
+              taskId,
+              canceledMetadata,
+              getRequestTenant()?.id,
+              Date.now(),
+            ),
+          );
+      } catch (error) {
+        logger.error(`[CoreAgent] Error canceling task ${taskId}:`, error);
+        const errorMessage =
+          error instanceof Error
+            ? error.message
+            : 'Unknown error canceling task';
+        res.status(500).send({ error: errorMessage });
+      }
+    });
+
+    expressApp.get('/tasks/:taskId/events', async (req, res) => {
+      const taskId = req.params.taskId;
+      let events: TaskStatusUpdateEvent[] | undefined;
+      let droppedEvents = 0;
+      const wrapper = agentExecutor.getTask(taskId);
+      if (wrapper) {
+        if (wrapper.tenantId === getRequestTenant()?.id) {
+          events = wrapper.task.statusEvents;
+          droppedEvents = wrapper.task.droppedStatusEvents;
+        }
+      } else {
+        // Replaying does not need a live task or its workspace, only the
+        // recorded events.
+        const metadata = await tenantTaskStore.loadMetadata(taskId);
+        if (metadata) {
+          const persistedState = getPersistedState(metadata);
+          events = persistedState?._statusEvents ?? [];
+          droppedEvents = persistedState?._droppedStatusEvents ?? 0;
         }
       }
-      if (!wrapper) {
+      if (!events) {
         res.status(404).send({ error: 'Task not found' });
         return;
       }
-      res.json({ metadata: await wrapper.task.getMetadata() });
+      // Tasks only keep their most recent events; tell clients how many of
+      // the older ones are missing from the replay.
+      res.setHeader('X-Dropped-Events', String(droppedEvents));
+      if (req.accepts(['json', 'text/event-stream']) !== 'text/event-stream') {
+        res
+          .status(200)
+          .json({ events, truncated: droppedEvents > 0, droppedEvents });
+        return;
+      }
+      res.setHeader('Content-Type', 'text/event-stream');
+      for (const event of events) {
+        const jsonRpcResponse = { jsonrpc: '2.0', id: taskId, result: event };
+        res.write(`data: ${JSON.stringify(jsonRpcResponse)}\n\n`);
+      }
+      res.end();
     });
     return expressApp;
   } catch (error) {
@@ -323,12 +576,41 @@ export async function createApp() {
   }
 }
 
+/**
+ * Serves HTTPS when `CODER_AGENT_TLS_CERT` and `CODER_AGENT_TLS_KEY` are
+ * set. With `CODER_AGENT_TLS_CLIENT_CA`, clients are asked for certificates
+ * signed by that CA; the auth middleware decides whether one is required.
+ */
+function createTlsServer(
+  expressApp: express.Express,
+): https.Server | undefined {
+  const certPath = process.env['CODER_AGENT_TLS_CERT'];
+  const keyPath = process.env['CODER_AGENT_TLS_KEY'];
+  if (!certPath || !keyPath) {
+    return undefined;
+  }
+  const clientCaPath = process.env['CODER_AGENT_TLS_CLIENT_CA'];
+  return https.createServer(
+    {
+      cert: fs.readFileSync(certPath),
+      key: fs.readFileSync(keyPath),
+      ca: clientCaPath ? fs.readFileSync(clientCaPath) : undefined,
+      requestCert: !!clientCaPath,
+      rejectUnauthorized: false,
+    },
+    expressApp,
+  );
+}
+
 export async function main() {
   try {
     const expressApp = await createApp();
     const port = Number(process.env['CODER_AGENT_PORT'] || 0);
+    const host = process.env['CODER_AGENT_HOST'] || 'localhost';
+    const tlsServer = createTlsServer(expressApp);
+    const protocol = tlsServer ? 'https' : 'http';
 
-    const server = expressApp.listen(port, 'localhost', () => {
+    const onListening = () => {
       const address = server.address();
       let actualPort;
       if (process.env['CODER_AGENT_PORT']) {
@@ -338,14 +620,23 @@ export async function main() {
       } else {
         throw new Error('[Core Agent] Could not find port number.');
       }
-      updateCoderAgentCardUrl(Number(actualPort));
+      updateCoderAgentCardUrl(Number(actualPort), host, protocol);
       logger.info(
-        `[CoreAgent] Agent Server started on http://localhost:${actualPort}`,
+        `[CoreAgent] Agent Server started on ${protocol}://${host}:${actualPort}`,
       );
       logger.info(
-        `[CoreAgent] Agent Card: http://localhost:${actualPort}/.well-known/agent-card.json`,
+        `[CoreAgent] Agent Card: ${protocol}://${host}:${actualPort}/.well-known/agent-card.json`,
       );
       logger.info('[CoreAgent] Press Ctrl+C to stop the server');
+    };
+    const server = tlsServer
+      ? tlsServer.listen(port, host, onListening)
+      : expressApp.listen(port, host, onListening);
+    server.on('close', () => {
+      const taskStore = appTaskStores.get(expressApp);
+      if (taskStore) {
+        closeTaskStore(taskStore);
+      }
     });
   } catch (error) {
     logger.error('[CoreAgent] Error during startup:', error);
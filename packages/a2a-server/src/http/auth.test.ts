@@ -0,0 +1,196 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import express from 'express';
+import request from 'supertest';
+import { describe, expect, it, vi } from 'vitest';
+
+import {
+  BearerTokenAuthenticator,
+  ClientCertificateAuthenticator,
+  createAuthenticators,
+  createAuthMiddleware,
+  HMAC_KEY_ID_HEADER,
+  HMAC_SIGNATURE_HEADER,
+  HMAC_TIMESTAMP_HEADER,
+  HmacAuthenticator,
+  keepRawBody,
+  signRequest,
+  type Authenticator,
+} from './auth.js';
+import { getRequestTenant, requestStorage } from './requestStorage.js';
+import type { AuthConfig } from '../config/tenants.js';
+
+vi.mock('../utils/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const tenantA = { id: 'team-a' };
+const tenantB = { id: 'team-b' };
+
+function createTestApp(authenticators: Authenticator[]) {
+  const app = express();
+  app.use((req, res, next) => {
+    requestStorage.run({ req }, next);
+  });
+  app.use(express.json({ verify: keepRawBody }));
+  app.use(createAuthMiddleware(authenticators));
+  app.get('/.well-known/agent-card.json', (req, res) => {
+    res.json({ name: 'card' });
+  });
+  app.all('/whoami', (req, res) => {
+    res.json({ tenant: getRequestTenant()?.id });
+  });
+  return app;
+}
+
+describe('BearerTokenAuthenticator', () => {
+  const app = createTestApp([
+    new BearerTokenAuthenticator([
+      { token: 'token-a', tenant: tenantA },
+      { token: 'token-b', tenant: tenantB },
+    ]),
+  ]);
+
+  it('maps tokens to their tenant', async () => {
+    const response = await request(app)
+      .get('/whoami')
+      .set('Authorization', 'Bearer token-b');
+    expect(response.body).toEqual({ tenant: 'team-b' });
+  });
+
+  it('rejects unknown tokens and missing credentials', async () => {
+    const unknown = await request(app)
+      .get('/whoami')
+      .set('Authorization', 'Bearer other');
+    const missing = await request(app).get('/whoami');
+
+    expect(unknown.status).toBe(401);
+    expect(missing.status).toBe(401);
+    expect(missing.body).toEqual({ error: 'Unauthorized' });
+  });
+
+  it('serves the agent card without credentials', async () => {
+    const response = await request(app).get('/.well-known/agent-card.json');
+    expect(response.status).toBe(200);
+  });
+});
+
+describe('HmacAuthenticator', () => {
+  const now = Date.UTC(2026, 0, 1);
+  const timestamp = String(now / 1000);
+  const body = JSON.stringify({ hello: 'world' });
+  const app = createTestApp([
+    new HmacAuthenticator(
+      [{ key: { id: 'key-a', secret: 'secret-a' }, tenant: tenantA }],
+      () => now,
+    ),
+  ]);
+
+  const signedRequest = (signature: string, signedAt = timestamp) =>
+    request(app)
+      .post('/whoami?x=1')
+      .set('Content-Type', 'application/json')
+      .set(HMAC_KEY_ID_HEADER, 'key-a')
+      .set(HMAC_TIMESTAMP_HEADER, signedAt)
+      .set(HMAC_SIGNATURE_HEADER, signature)
+      .send(body);
+
+  it('accepts requests signed with the key of a tenant', async () => {
+    const response = await signedRequest(
+      signRequest('secret-a', timestamp, 'POST', '/whoami?x=1', body),
+    );
+    expect(response.body).toEqual({ tenant: 'team-a' });
+  });
+
+  it('rejects signatures over a different body', async () => {
+    const response = await signedRequest(
+      signRequest('secret-a', timestamp, 'POST', '/whoami?x=1', '{}'),
+    );
+    expect(response.status).toBe(401);
+  });
+
+  it('rejects signatures with another secret', async () => {
+    const response = await signedRequest(
+      signRequest('secret-b', timestamp, 'POST', '/whoami?x=1', body),
+    );
+    expect(response.status).toBe(401);
+  });
+
+  it('rejects stale timestamps', async () => {
+    const stale = String(now / 1000 - 600);
+    const response = await signedRequest(
+      signRequest('secret-a', stale, 'POST', '/whoami?x=1', body),
+      stale,
+    );
+    expect(response.status).toBe(401);
+  });
+});
+
+describe('ClientCertificateAuthenticator', () => {
+  it('ignores requests that did not arrive over TLS', async () => {
+    const app = createTestApp([
+      new ClientCertificateAuthenticator([
+        { subject: 'client-a', tenant: tenantA },
+      ]),
+    ]);
+    const response = await request(app).get('/whoami');
+    expect(response.status).toBe(401);
+  });
+});
+
+describe('createAuthenticators', () => {
+  it('creates one authenticator per kind of credential in use', () => {
+    const config: AuthConfig = {
+      tenants: [
+        { id: 'team-a', bearerTokens: ['token-a'] },
+        {
+          id: 'team-b',
+          hmacKeys: [{ id: 'key-b', secret: 'secret-b' }],
+          clientCertSubjects: ['client-b'],
+        },
+      ],
+    };
+
+    const authenticators = createAuthenticators(config);
+
+    expect(authenticators.map((a) => a.constructor)).toEqual([
+      BearerTokenAuthenticator,
+      HmacAuthenticator,
+      ClientCertificateAuthenticator,
+    ]);
+  });
+
+  it('strips credentials from the tenants it resolves', async () => {
+    const app = createTestApp(
+      createAuthenticators({
+        tenants: [
+          {
+            id: 'team-a',
+            workspaceRoot: '/work/team-a',
+            bearerTokens: ['token-a'],
+          },
+        ],
+      }),
+    );
+    app.get('/tenant', (req, res) => {
+      res.json(getRequestTenant());
+    });
+
+    const response = await request(app)
+      .get('/tenant')
+      .set('Authorization', 'Bearer token-a');
+
+    expect(response.body).toEqual({
+      id: 'team-a',
+      workspaceRoot: '/work/team-a',
+    });
+  });
+});
@@ -0,0 +1,244 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type express from 'express';
+import { createHash, createHmac, timingSafeEqual } from 'node:crypto';
+import { TLSSocket } from 'node:tls';
+import { AGENT_CARD_PATH } from '@a2a-js/sdk';
+import { logger } from '../utils/logger.js';
+import type { AuthConfig, HmacKey, Tenant } from '../config/tenants.js';
+import { requestStorage } from './requestStorage.js';
+
+export const HMAC_KEY_ID_HEADER = 'x-a2a-key-id';
+export const HMAC_TIMESTAMP_HEADER = 'x-a2a-timestamp';
+export const HMAC_SIGNATURE_HEADER = 'x-a2a-signature';
+
+/** How far the timestamp of a signed request may be from the server time. */
+const HMAC_MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+/**
+ * A request whose body was kept by the JSON parser, for signature checks.
+ */
+export type RequestWithRawBody = express.Request & { rawBody?: Buffer };
+
+/**
+ * Maps the credentials of a request to a tenant.
+ */
+export interface Authenticator {
+  /**
+   * @returns The tenant the request authenticates as, or `undefined` if it
+   * does not carry credentials this authenticator accepts.
+   */
+  authenticate(req: RequestWithRawBody): Tenant | undefined;
+}
+
+/**
+ * Accepts `Authorization: Bearer <token>` with a static token of a tenant.
+ * Tokens are compared by their SHA-256 digest.
+ */
+export class BearerTokenAuthenticator implements Authenticator {
+  private readonly tenantsByDigest = new Map<string, Tenant>();
+
+  constructor(tokens: Array<{ token: string; tenant: Tenant }>) {
+    for (const { token, tenant } of tokens) {
+      this.tenantsByDigest.set(sha256(token), tenant);
+    }
+  }
+
+  authenticate(req: RequestWithRawBody): Tenant | undefined {
+    const match = /^Bearer\s+(.+)$/i.exec(req.header('authorization') ?? '');
+    return match ? this.tenantsByDigest.get(sha256(match[1])) : undefined;
+  }
+}
+
+/**
+ * Accepts requests signed with a shared secret. The caller sends the key
+ * id, a Unix timestamp in seconds, and the hex HMAC-SHA256 of
+ * {@link getSignedPayload} in the `X-A2A-Key-Id`, `X-A2A-Timestamp` and
+ * `X-A2A-Signature` headers.
+ */
+export class HmacAuthenticator implements Authenticator {
+  private readonly keys = new Map<string, { secret: string; tenant: Tenant }>();
+
+  constructor(
+    keys: Array<{ key: HmacKey; tenant: Tenant }>,
+    private readonly now: () => number = Date.now,
+  ) {
+    for (const { key, tenant } of keys) {
+      this.keys.set(key.id, { secret: key.secret, tenant });
+    }
+  }
+
+  authenticate(req: RequestWithRawBody): Tenant | undefined {
+    const keyId = req.header(HMAC_KEY_ID_HEADER);
+    const timestamp = req.header(HMAC_TIMESTAMP_HEADER);
+    const signature = req.header(HMAC_SIGNATURE_HEADER);
+    const key = keyId ? this.keys.get(keyId) : undefined;
+    if (!key || !timestamp || !signature) {
+      return undefined;
+    }
+    const timestampMs = Number(timestamp) * 1000;
+    if (
+      !Number.isFinite(timestampMs) ||
+      Math.abs(this.now() - timestampMs) > HMAC_MAX_CLOCK_SKEW_MS
+    ) {
+      logger.warn(`[Auth] Rejected signed request with stale timestamp.`);
+      return undefined;
+    }
+    const expected = signRequest(
+      key.secret,
+      timestamp,
+      req.method,
+      req.originalUrl,
+      req.rawBody,
+    );
+    return safeEqual(expected, signature) ? key.tenant : undefined;
+  }
+}
+
+/**
+ * Accepts client certificates that the TLS server verified against its
+ * client CA, by the common name of their subject.
+ */
+export class ClientCertificateAuthenticator implements Authenticator {
+  private readonly tenantsBySubject = new Map<string, Tenant>();
+
+  constructor(subjects: Array<{ subject: string; tenant: Tenant }>) {
+    for (const { subject, tenant } of subjects) {
+      this.tenantsBySubject.set(subject, tenant);
+    }
+  }
+
+  authenticate(req: RequestWithRawBody): Tenant | undefined {
+    const socket = req.socket;
+    if (!(socket instanceof TLSSocket) || !socket.authorized) {
+      return undefined;
+    }
+    const commonName = socket.getPeerCertificate().subject?.CN;
+    return commonName ? this.tenantsBySubject.get(commonName) : undefined;
+  }
+}
+
+/**
+ * The text that a signed request signs: its timestamp, method, URL and
+ * body, separated by newlines.
+ */
+export function getSignedPayload(
+  timestamp: string,
+  method: string,
+  url: string,
+  body: Buffer | string = '',
+): Buffer {
+  return Buffer.concat([
+    Buffer.from(`${timestamp}\n${method.toUpperCase()}\n${url}\n`),
+    Buffer.from(body),
+  ]);
+}
+
+/**
+ * Computes the `X-A2A-Signature` header of a request.
+ */
+export function signRequest(
+  secret: string,
+  timestamp: string,
+  method: string,
+  url: string,
+  body?: Buffer | string,
+): string {
+  return createHmac('sha256', secret)
+    .update(getSignedPayload(timestamp, method, url, body))
+    .digest('hex');
+}
+
+/**
+ * Creates an authenticator for each kind of credential that a tenant in
+ * `config` uses.
+ */
+export function createAuthenticators(config: AuthConfig): Authenticator[] {
+  const authenticators: Authenticator[] = [];
+  const tenants = config.tenants.map(
+    ({ id, workspaceRoot, settingsPath, ...credentials }) => ({
+      tenant: { id, workspaceRoot, settingsPath },
+      credentials,
+    }),
+  );
+
+  const tokens = tenants.flatMap(({ tenant, credentials }) =>
+    (credentials.bearerTokens ?? []).map((token) => ({ token, tenant })),
+  );
+  if (tokens.length > 0) {
+    authenticators.push(new BearerTokenAuthenticator(tokens));
+  }
+  const keys = tenants.flatMap(({ tenant, credentials }) =>
+    (credentials.hmacKeys ?? []).map((key) => ({ key, tenant })),
+  );
+  if (keys.length > 0) {
+    authenticators.push(new HmacAuthenticator(keys));
+  }
+  const subjects = tenants.flatMap(({ tenant, credentials }) =>
+    (credentials.clientCertSubjects ?? []).map((subject) => ({
+      subject,
+      tenant,
+    })),
+  );
+  if (subjects.length > 0) {
+    authenticators.push(new ClientCertificateAuthenticator(subjects));
+  }
+  return authenticators;
+}
+
+/**
+ * Rejects requests that none of `authenticators` accepts with 401, and
+ * records the tenant of the others in the request storage. The agent card
+ * stays public so that clients can discover the server.
+ */
+export function createAuthMiddleware(
+  authenticators: Authenticator[],
+): express.RequestHandler {
+  return (req, res, next) => {
+    if (req.method === 'GET' && req.path === `/${AGENT_CARD_PATH}`) {
+      next();
+      return;
+    }
+    for (const authenticator of authenticators) {
+      const tenant = authenticator.authenticate(req);
+      if (tenant) {
+        const store = requestStorage.getStore();
+        if (store) {
+          store.tenant = tenant;
+        }
+        next();
+        return;
+      }
+    }
+    logger.warn(`[Auth] Rejected unauthenticated ${req.method} ${req.path}`);
+    res.status(401).json({ error: 'Unauthorized' });
+  };
+}
+
+/**
+ * Keeps the raw body of JSON requests for {@link HmacAuthenticator}.
+ */
+export function keepRawBody(
+  req: RequestWithRawBody,
+  _res: unknown,
+  body: Buffer,
+): void {
+  req.rawBody = body;
+}
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+function safeEqual(expected: string, actual: string): boolean {
+  const expectedBuffer = Buffer.from(expected);
+  const actualBuffer = Buffer.from(actual);
+  return (
+    expectedBuffer.length === actualBuffer.length &&
+    timingSafeEqual(expectedBuffer, actualBuffer)
+  );
+}
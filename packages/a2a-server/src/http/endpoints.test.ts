@@ -12,9 +12,17 @@ import * as path from 'node:path';
 import * as os from 'node:os';
 import type { Server } from 'node:http';
 import type { AddressInfo } from 'node:net';
+import { InMemoryTaskStore } from '@a2a-js/sdk/server';
 
 import { createApp, updateCoderAgentCardUrl } from './app.js';
-import type { TaskMetadata } from '../types.js';
+import { loadConfig } from '../config/config.js';
+import { Task } from '../agent/task.js';
+import {
+  CoderAgentEvent,
+  setPersistedState,
+  type TaskMetadata,
+} from '../types.js';
+import { SQLiteTaskStore } from '../persistence/sqlite.js';
 import { createMockConfig } from '../utils/testing_utils.js';
 import { debugLogger, type Config } from '@google/gemini-cli-core';
 
@@ -30,6 +38,10 @@ vi.mock('../agent/task.js', () => {
     id: string;
     contextId: string;
     taskState = 'submitted';
+    createdAt = new Date().toISOString();
+    updatedAt = this.createdAt;
+    statusEvents: unknown[] = [];
+    droppedStatusEvents = 0;
     config = {
       getContentGeneratorConfig: vi
         .fn()
@@ -47,6 +59,16 @@ vi.mock('../agent/task.js', () => {
       .mockImplementation((id, contextId) =>
         Promise.resolve(new MockTask(id, contextId)),
       );
+    cancel = vi.fn().mockImplementation(() => {
+      this.taskState = 'canceled';
+      this.statusEvents.push({
+        kind: 'status-update',
+        taskId: this.id,
+        contextId: this.contextId,
+        status: { state: 'canceled' },
+        final: true,
+      });
+    });
     getMetadata = vi.fn().mockImplementation(async () => ({
       id: this.id,
       contextId: this.contextId,
@@ -56,7 +78,7 @@ vi.mock('../agent/task.js', () => {
       availableTools: [],
     }));
   }
-  return { Task: MockTask };
+  return { Task: MockTask, MAX_RECORDED_STATUS_EVENTS: 1000 };
 });
 
 vi.mock('../config/config.js', async () => {
@@ -147,6 +169,71 @@ describe('Agent Server Endpoints', () => {
     expect(taskMetadata).toBeDefined();
   });
 
+  it('should list tasks with filters via GET /tasks', async () => {
+    const taskId = (await createTask('test-context-list')).body;
+
+    const submitted = await request(app).get('/tasks?state=submitted');
+    const completed = await request(app).get('/tasks?state=completed');
+    const invalid = await request(app).get('/tasks?limit=0');
+
+    expect(submitted.status).toBe(200);
+    expect(submitted.body.tasks).toContainEqual(
+      expect.objectContaining({ id: taskId, taskState: 'submitted' }),
+    );
+    expect(completed.body).toEqual({ tasks: [] });
+    expect(invalid.status).toBe(400);
+  });
+
+  it('should cancel a task via POST /tasks/:taskId/cancel', async () => {
+    const taskId = (await createTask('test-context-cancel')).body;
+
+    const response = await request(app).post(`/tasks/${taskId}/cancel`);
+    const again = await request(app).post(`/tasks/${taskId}/cancel`);
+    const missing = await request(app).post('/tasks/fake-task/cancel');
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ id: taskId, taskState: 'canceled' });
+    expect(again.status).toBe(409);
+    expect(missing.status).toBe(404);
+  });
+
+  it('should fail to cancel a task whose canceled state is not saved', async () => {
+    const taskId = (await createTask('test-context-cancel-save')).body;
+    vi.spyOn(InMemoryTaskStore.prototype, 'save').mockRejectedValueOnce(
+      new Error('Disk full'),
+    );
+
+    const response = await request(app).post(`/tasks/${taskId}/cancel`);
+
+    expect(response.status).toBe(500);
+    expect(response.body.error).toBe('Disk full');
+  });
+
+  it('should replay recorded events via GET /tasks/:taskId/events', async () => {
+    const taskId = (await createTask('test-context-events')).body;
+    await request(app).post(`/tasks/${taskId}/cancel`);
+
+    const json = await request(app).get(`/tasks/${taskId}/events`);
+    const stream = await request(app)
+      .get(`/tasks/${taskId}/events`)
+      .set('Accept', 'text/event-stream');
+    const missing = await request(app).get('/tasks/fake-task/events');
+
+    expect(json.status).toBe(200);
+    expect(json.body).toMatchObject({ truncated: false, droppedEvents: 0 });
+    expect(json.body.events).toEqual([
+      expect.objectContaining({
+        kind: 'status-update',
+        status: { state: 'canceled' },
+      }),
+    ]);
+    expect(stream.headers['content-type']).toContain('text/event-stream');
+    expect(stream.text).toBe(
+      `data: ${JSON.stringify({ jsonrpc: '2.0', id: taskId, result: json.body.events[0] })}\n\n`,
+    );
+    expect(missing.status).toBe(404);
+  });
+
   it('should return 404 for a non-existent task', async () => {
     const response = await request(app).get('/tasks/fake-task/metadata');
     expect(response.status).toBe(404);
@@ -160,3 +247,260 @@ describe('Agent Server Endpoints', () => {
     expect(response.body.url).toBe(`http://localhost:${port}/`);
   });
 });
+
+describe('Agent Server Endpoints with a durable task store', () => {
+  let testDir: string;
+  let workspacePath: string;
+
+  beforeAll(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gemini-agent-store-'));
+    workspacePath = path.join(testDir, 'workspace');
+    fs.mkdirSync(workspacePath);
+    // Saving a task archives the current directory.
+    process.chdir(workspacePath);
+    vi.stubEnv('CODER_AGENT_TASK_STORE', 'sqlite');
+    vi.stubEnv('CODER_AGENT_TASK_STORE_PATH', path.join(testDir, 'tasks.db'));
+  });
+
+  afterAll(() => {
+    process.chdir(os.tmpdir());
+    vi.unstubAllEnvs();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('lists the stored tasks after a restart', async () => {
+    const taskId = (
+      await request(await createApp())
+        .post('/tasks')
+        .send({
+          contextId: 'stored-context',
+          agentSettings: { kind: 'agent-settings', workspacePath },
+        })
+    ).body;
+
+    const restarted = await createApp();
+    const list = await request(restarted).get('/tasks');
+
+    expect(list.status).toBe(200);
+    expect(list.body.tasks).toEqual([
+      expect.objectContaining({
+        id: taskId,
+        contextId: 'stored-context',
+        taskState: 'submitted',
+      }),
+    ]);
+  });
+
+  it('reports the events that a stored task dropped', async () => {
+    const event = {
+      kind: 'status-update' as const,
+      taskId: 'task-dropped',
+      contextId: 'dropped-context',
+      status: { state: 'completed' as const },
+      final: true,
+    };
+    const store = new SQLiteTaskStore(path.join(testDir, 'tasks.db'));
+    await store.save({
+      id: 'task-dropped',
+      contextId: 'dropped-context',
+      kind: 'task',
+      status: { state: 'completed' },
+      metadata: setPersistedState(
+        {},
+        {
+          _agentSettings: {
+            kind: CoderAgentEvent.StateAgentSettingsEvent,
+            workspacePath,
+          },
+          _taskState: 'completed',
+          _statusEvents: [event],
+          _droppedStatusEvents: 5,
+        },
+      ),
+    });
+    store.close();
+
+    const response = await request(await createApp()).get(
+      '/tasks/task-dropped/events',
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.headers['x-dropped-events']).toBe('5');
+    expect(response.body).toEqual({
+      events: [event],
+      truncated: true,
+      droppedEvents: 5,
+    });
+  });
+
+  it('serves and cancels stored tasks without restoring them', async () => {
+    const taskId = (
+      await request(await createApp())
+        .post('/tasks')
+        .send({
+          contextId: 'restored-context',
+          agentSettings: { kind: 'agent-settings', workspacePath },
+        })
+    ).body;
+    const restarted = await createApp();
+    const load = vi.spyOn(SQLiteTaskStore.prototype, 'load');
+    vi.mocked(Task.create).mockClear();
+
+    const metadata = await request(restarted).get(`/tasks/${taskId}/metadata`);
+    const cancel = await request(restarted).post(`/tasks/${taskId}/cancel`);
+    const again = await request(restarted).post(`/tasks/${taskId}/cancel`);
+    const events = await request(restarted).get(`/tasks/${taskId}/events`);
+
+    expect(metadata.status).toBe(200);
+    expect(metadata.body.metadata).toMatchObject({
+      id: taskId,
+      contextId: 'restored-context',
+      taskState: 'submitted',
+    });
+    expect(cancel.status).toBe(200);
+    expect(cancel.body).toMatchObject({ id: taskId, taskState: 'canceled' });
+    expect(again.status).toBe(409);
+    expect(events.body.events).toEqual([
+      expect.objectContaining({
+        status: expect.objectContaining({ state: 'canceled' }),
+      }),
+    ]);
+    expect(load).not.toHaveBeenCalled();
+    expect(Task.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('Agent Server Endpoints with tenants', () => {
+  let app: express.Express;
+  let testDir: string;
+
+  const asTenant = (token: string) => ({ Authorization: `Bearer ${token}` });
+
+  const createTask = (token: string, workspacePath?: string) =>
+    request(app)
+      .post('/tasks')
+      .set(asTenant(token))
+      .send({
+        contextId: 'tenant-context',
+        agentSettings: { kind: 'agent-settings', workspacePath },
+      });
+
+  beforeAll(async () => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gemini-agent-tenants-'));
+    const configPath = path.join(testDir, 'tenants.json');
+    fs.writeFileSync(
+      configPath,
+      JSON.stringify({
+        tenants: [
+          {
+            id: 'team-a',
+            bearerTokens: ['token-a'],
+            workspaceRoot: path.join(testDir, 'team-a'),
+          },
+          {
+            id: 'team-b',
+            bearerTokens: ['token-b'],
+            workspaceRoot: path.join(testDir, 'team-b'),
+          },
+        ],
+      }),
+    );
+    vi.stubEnv('CODER_AGENT_AUTH_CONFIG', configPath);
+    app = await createApp();
+  });
+
+  afterAll(() => {
+    // Creating tasks changes into their workspaces.
+    process.chdir(os.tmpdir());
+    vi.unstubAllEnvs();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('rejects requests without credentials', async () => {
+    const response = await request(app).post('/tasks').send({});
+    expect(response.status).toBe(401);
+  });
+
+  it('serves the agent card without credentials', async () => {
+    const response = await request(app).get('/.well-known/agent-card.json');
+    expect(response.status).toBe(200);
+  });
+
+  it('creates the workspace roots of the tenants', () => {
+    expect(fs.existsSync(path.join(testDir, 'team-a'))).toBe(true);
+    expect(fs.existsSync(path.join(testDir, 'team-b'))).toBe(true);
+  });
+
+  it('only shows tasks to the tenant that created them', async () => {
+    const taskId = (await createTask('token-a')).body;
+
+    const own = await request(app)
+      .get(`/tasks/${taskId}/metadata`)
+      .set(asTenant('token-a'));
+    const foreign = await request(app)
+      .get(`/tasks/${taskId}/metadata`)
+      .set(asTenant('token-b'));
+    const ownList = await request(app)
+      .get('/tasks/metadata')
+      .set(asTenant('token-a'));
+    const foreignList = await request(app)
+      .get('/tasks/metadata')
+      .set(asTenant('token-b'));
+
+    expect(own.status).toBe(200);
+    expect(foreign.status).toBe(404);
+    expect(ownList.body.map((m: TaskMetadata) => m.id)).toContain(taskId);
+    expect(foreignList.status).toBe(204);
+  });
+
+  it('hides the tasks of other tenants from listing, events and cancel', async () => {
+    const taskId = (await createTask('token-a')).body;
+
+    const list = await request(app).get('/tasks').set(asTenant('token-b'));
+    const events = await request(app)
+      .get(`/tasks/${taskId}/events`)
+      .set(asTenant('token-b'));
+    const cancel = await request(app)
+      .post(`/tasks/${taskId}/cancel`)
+      .set(asTenant('token-b'));
+
+    expect(list.body).toEqual({ tasks: [] });
+    expect(events.status).toBe(404);
+    expect(cancel.status).toBe(404);
+  });
+
+  it('runs commands with the workspace and environment of the tenant', async () => {
+    fs.writeFileSync(path.join(testDir, 'team-a', '.env'), 'TEAM_NAME=alpha');
+    fs.writeFileSync(path.join(testDir, 'team-b', '.env'), 'TEAM_NAME=beta');
+    vi.mocked(loadConfig).mockImplementation(
+      async (_settings, _extensionLoader, _taskId, options) =>
+        createMockConfig({
+          getUserMemory: () =>
+            `memory of ${path.basename(options!.workspaceDir!)} for ${options!.env!['TEAM_NAME']}`,
+          getGeminiMdFileCount: () => 1,
+        }) as Config,
+    );
+    const cwd = process.cwd();
+    const showMemory = (token: string) =>
+      request(app)
+        .post('/executeCommand')
+        .set(asTenant(token))
+        .send({ command: 'memory show' });
+
+    const teamA = await showMemory('token-a');
+    const teamB = await showMemory('token-b');
+
+    expect(teamA.status).toBe(200);
+    expect(teamA.body.data).toContain('memory of team-a for alpha');
+    expect(teamB.status).toBe(200);
+    expect(teamB.body.data).toContain('memory of team-b for beta');
+    expect(process.cwd()).toBe(cwd);
+    expect(process.env['TEAM_NAME']).toBeUndefined();
+  });
+
+  it('rejects workspaces outside the root of the tenant', async () => {
+    const response = await createTask('token-a', path.join(testDir, 'team-b'));
+    expect(response.status).toBe(500);
+    expect(response.body.error).toContain('outside the workspace root');
+  });
+});
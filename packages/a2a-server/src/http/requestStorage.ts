@@ -6,5 +6,18 @@
 
 import type express from 'express';
 import { AsyncLocalStorage } from 'node:async_hooks';
+import type { Tenant } from '../config/tenants.js';
 
-export const requestStorage = new AsyncLocalStorage<{ req: express.Request }>();
+export const requestStorage = new AsyncLocalStorage<{
+  req: express.Request;
+  /** The tenant the caller authenticated as, when auth is configured. */
+  tenant?: Tenant;
+}>();
+
+/**
+ * Returns the tenant of the current request, or `undefined` when the server
+ * runs without authentication.
+ */
+export function getRequestTenant(): Tenant | undefined {
+  return requestStorage.getStore()?.tenant;
+}
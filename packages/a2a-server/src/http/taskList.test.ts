@@ -0,0 +1,119 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+
+import {
+  DEFAULT_TASK_LIST_LIMIT,
+  listTasks,
+  parseTaskListQuery,
+} from './taskList.js';
+import type { TaskSummary } from '../types.js';
+
+function createSummary(
+  id: string,
+  taskState: TaskSummary['taskState'],
+  updatedAt: string,
+): TaskSummary {
+  return {
+    id,
+    contextId: `${id}-context`,
+    taskState,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt,
+  };
+}
+
+describe('parseTaskListQuery', () => {
+  it('uses defaults for an empty query', () => {
+    expect(parseTaskListQuery({})).toEqual({
+      states: undefined,
+      updatedAfter: undefined,
+      updatedBefore: undefined,
+      limit: DEFAULT_TASK_LIST_LIMIT,
+      offset: 0,
+    });
+  });
+
+  it('parses repeated and comma-separated states, times and paging', () => {
+    expect(
+      parseTaskListQuery({
+        state: ['working,input-required', 'failed'],
+        updatedAfter: '2026-01-01T00:00:00Z',
+        updatedBefore: '2026-01-02T00:00:00Z',
+        limit: '5',
+        pageToken: '10',
+      }),
+    ).toEqual({
+      states: ['working', 'input-required', 'failed'],
+      updatedAfter: Date.UTC(2026, 0, 1),
+      updatedBefore: Date.UTC(2026, 0, 2),
+      limit: 5,
+      offset: 10,
+    });
+  });
+
+  it.each([
+    [{ state: 'sleeping' }, 'Invalid state "sleeping"'],
+    [{ updatedAfter: 'yesterday' }, '"updatedAfter" must be an ISO 8601'],
+    [{ updatedBefore: ['a', 'b'] }, '"updatedBefore" must be given at most'],
+    [{ limit: '0' }, 'Invalid "limit": 0.'],
+    [{ limit: '101' }, 'Invalid "limit": 101.'],
+    [{ pageToken: '-1' }, 'Invalid "pageToken": -1.'],
+  ])('rejects %o', (query, error) => {
+    expect(() => parseTaskListQuery(query)).toThrow(error);
+  });
+});
+
+describe('listTasks', () => {
+  const tasks = [
+    createSummary('a', 'completed', '2026-01-01T10:00:00.000Z'),
+    createSummary('b', 'working', '2026-01-03T10:00:00.000Z'),
+    createSummary('c', 'input-required', '2026-01-02T10:00:00.000Z'),
+    createSummary('d', 'working', '2026-01-02T10:00:00.000Z'),
+  ];
+  const ids = (page: { tasks: TaskSummary[] }) =>
+    page.tasks.map((task) => task.id);
+
+  it('lists the most recently updated tasks first', () => {
+    expect(ids(listTasks(tasks, parseTaskListQuery({})))).toEqual([
+      'b',
+      'c',
+      'd',
+      'a',
+    ]);
+  });
+
+  it('filters by state and update time', () => {
+    expect(
+      ids(listTasks(tasks, parseTaskListQuery({ state: 'working' }))),
+    ).toEqual(['b', 'd']);
+    expect(
+      ids(
+        listTasks(
+          tasks,
+          parseTaskListQuery({
+            updatedAfter: '2026-01-02T10:00:00Z',
+            updatedBefore: '2026-01-03T10:00:00Z',
+          }),
+        ),
+      ),
+    ).toEqual(['c', 'd']);
+  });
+
+  it('pages through the results', () => {
+    const first = listTasks(tasks, parseTaskListQuery({ limit: '3' }));
+    const second = listTasks(
+      tasks,
+      parseTaskListQuery({ limit: '3', pageToken: first.nextPageToken }),
+    );
+
+    expect(ids(first)).toEqual(['b', 'c', 'd']);
+    expect(first.nextPageToken).toBe('3');
+    expect(ids(second)).toEqual(['a']);
+    expect(second.nextPageToken).toBeUndefined();
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type express from 'express';
+import type { TaskState } from '@a2a-js/sdk';
+import type { TaskSummary } from '../types.js';
+
+export const DEFAULT_TASK_LIST_LIMIT = 20;
+export const MAX_TASK_LIST_LIMIT = 100;
+
+const TASK_STATES: readonly TaskState[] = [
+  'submitted',
+  'working',
+  'input-required',
+  'completed',
+  'canceled',
+  'failed',
+  'rejected',
+  'auth-required',
+  'unknown',
+];
+
+export interface TaskListQuery {
+  /** Only tasks in one of these states; all states when unset. */
+  states?: TaskState[];
+  /** Only tasks last updated at or after this time, in milliseconds. */
+  updatedAfter?: number;
+  /** Only tasks last updated before this time, in milliseconds. */
+  updatedBefore?: number;
+  limit: number;
+  offset: number;
+}
+
+export interface TaskListPage {
+  tasks: TaskSummary[];
+  /** Pass as `pageToken` to get the next page; unset on the last page. */
+  nextPageToken?: string;
+}
+
+/**
+ * Parses the query of `GET /tasks`: `state` (repeated or comma-separated),
+ * `updatedAfter` and `updatedBefore` (ISO 8601), `limit` and `pageToken`.
+ *
+ * @throws If a parameter is invalid. The message can be shown to the caller.
+ */
+export function parseTaskListQuery(
+  query: express.Request['query'],
+): TaskListQuery {
+  const states = getValues(query['state']);
+  for (const state of states) {
+    if (!TASK_STATES.includes(state as TaskState)) {
+      throw new Error(
+        `Invalid state "${state}". Expected one of: ${TASK_STATES.join(', ')}.`,
+      );
+    }
+  }
+  return {
+    states: states.length > 0 ? (states as TaskState[]) : undefined,
+    updatedAfter: parseTime(query, 'updatedAfter'),
+    updatedBefore: parseTime(query, 'updatedBefore'),
+    limit:
+      parseInteger(query, 'limit', 1, MAX_TASK_LIST_LIMIT) ??
+      DEFAULT_TASK_LIST_LIMIT,
+    offset: parseInteger(query, 'pageToken', 0) ?? 0,
+  };
+}
+
+/**
+ * Filters tasks by `query` and returns the requested page, most recently
+ * updated first.
+ */
+export function listTasks(
+  tasks: TaskSummary[],
+  query: TaskListQuery,
+): TaskListPage {
+  const matching = tasks
+    .filter((task) => {
+      const updatedAt = Date.parse(task.updatedAt);
+      return (
+        (!query.states || query.states.includes(task.taskState)) &&
+        (query.updatedAfter === undefined || updatedAt >= query.updatedAfter) &&
+        (query.updatedBefore === undefined || updatedAt < query.updatedBefore)
+      );
+    })
+    .sort(
+      (a, b) =>
+        Date.parse(b.updatedAt) - Date.parse(a.updatedAt) ||
+        a.id.localeCompare(b.id),
+    );
+  const end = query.offset + query.limit;
+  return {
+    tasks: matching.slice(query.offset, end),
+    nextPageToken: end < matching.length ? String(end) : undefined,
+  };
+}
+
+function getValues(value: unknown): string[] {
+  const values = Array.isArray(value) ? value : [value];
+  return values
+    .filter((item): item is string => typeof item === 'string')
+    .flatMap((item) => item.split(','))
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function getSingleValue(
+  query: express.Request['query'],
+  name: string,
+): string | undefined {
+  const value = query[name];
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'string') {
+    throw new Error(`"${name}" must be given at most once.`);
+  }
+  return value;
+}
+
+function parseTime(
+  query: express.Request['query'],
+  name: string,
+): number | undefined {
+  const value = getSingleValue(query, name);
+  if (value === undefined) {
+    return undefined;
+  }
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new Error(`"${name}" must be an ISO 8601 timestamp.`);
+  }
+  return time;
+}
+
+function parseInteger(
+  query: express.Request['query'],
+  name: string,
+  min: number,
+  max = Number.MAX_SAFE_INTEGER,
+): number | undefined {
+  const value = getSingleValue(query, name);
+  if (value === undefined) {
+    return undefined;
+  }
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < min || number > max) {
+    throw new Error(`Invalid "${name}": ${value}.`);
+  }
+  return number;
+}
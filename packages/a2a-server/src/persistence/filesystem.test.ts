@@ -0,0 +1,233 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fse from 'fs-extra';
+import { mkdtemp } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { FileSystemTaskStore } from './filesystem.js';
+import * as configModule from '../config/config.js';
+import { createPersistedTask } from '../utils/testing_utils.js';
+
+vi.mock('../utils/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+vi.mock('../config/config.js', () => ({
+  resolveTargetDir: vi.fn(),
+  setTargetDir: vi.fn(),
+}));
+
+describe('FileSystemTaskStore', () => {
+  let testDir: string;
+  let storeDir: string;
+  let workspaceDir: string;
+
+  beforeEach(async () => {
+    testDir = await mkdtemp(join(tmpdir(), 'a2a-fs-store-'));
+    storeDir = join(testDir, 'store');
+    workspaceDir = join(testDir, 'workspace');
+    await fse.ensureDir(workspaceDir);
+    // Stores snapshot the current directory and restore into the target
+    // directory of the task; both are the test workspace here.
+    vi.spyOn(process, 'cwd').mockReturnValue(workspaceDir);
+    vi.mocked(configModule.setTargetDir).mockReturnValue(workspaceDir);
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fse.remove(testDir);
+  });
+
+  it('resumes a task and its workspace after a restart', async () => {
+    const task = createPersistedTask('task-1', workspaceDir);
+    await fse.outputFile(join(workspaceDir, 'src', 'app.ts'), 'v1');
+    await new FileSystemTaskStore(storeDir).save(task);
+
+    // The server restarts with an empty workspace.
+    await fse.emptyDir(workspaceDir);
+    const loaded = await new FileSystemTaskStore(storeDir).load('task-1');
+
+    expect(loaded).toMatchObject({
+      id: 'task-1',
+      contextId: 'task-1-context',
+      status: { state: 'input-required' },
+      metadata: task.metadata,
+    });
+    expect(
+      await fse.readFile(join(workspaceDir, 'src', 'app.ts'), 'utf8'),
+    ).toBe('v1');
+  });
+
+  it('replaces the saved task on later saves', async () => {
+    const store = new FileSystemTaskStore(storeDir);
+    await fse.outputFile(join(workspaceDir, 'app.ts'), 'v1');
+    await store.save(createPersistedTask('task-1', workspaceDir, 'working'));
+    await fse.outputFile(join(workspaceDir, 'app.ts'), 'v2');
+    await store.save(createPersistedTask('task-1', workspaceDir, 'completed'));
+
+    await fse.emptyDir(workspaceDir);
+    const loaded = await store.load('task-1');
+
+    expect(loaded?.status.state).toBe('completed');
+    expect(await fse.readFile(join(workspaceDir, 'app.ts'), 'utf8')).toBe('v2');
+    expect(await fse.readdir(join(storeDir, 'tasks', 'task-1'))).toEqual([
+      'metadata.tar.gz',
+      'workspace.tar.gz',
+    ]);
+  });
+
+  it('lists the tasks of a tenant without restoring workspaces', async () => {
+    const store = new FileSystemTaskStore(storeDir);
+    await store.save(createPersistedTask('task-1', workspaceDir));
+    await store.save(
+      createPersistedTask('task-2', workspaceDir, 'completed', 'team-a'),
+    );
+    await fse.emptyDir(workspaceDir);
+
+    const restarted = new FileSystemTaskStore(storeDir);
+
+    expect(await restarted.list(undefined)).toEqual([
+      expect.objectContaining({
+        id: 'task-1',
+        contextId: 'task-1-context',
+        taskState: 'input-required',
+      }),
+    ]);
+    expect(await restarted.list('team-a')).toEqual([
+      expect.objectContaining({ id: 'task-2', taskState: 'completed' }),
+    ]);
+    expect(await fse.readdir(workspaceDir)).toEqual([]);
+  });
+
+  it("saves the task's own workspace rather than the current directory", async () => {
+    const otherDir = join(testDir, 'other');
+    await fse.outputFile(join(otherDir, 'secret.txt'), 'other');
+    await fse.outputFile(join(workspaceDir, 'app.ts'), 'mine');
+    vi.spyOn(process, 'cwd').mockReturnValue(otherDir);
+    vi.mocked(configModule.resolveTargetDir).mockReturnValue(workspaceDir);
+    const store = new FileSystemTaskStore(storeDir);
+    await store.save(createPersistedTask('task-1', workspaceDir));
+
+    await fse.emptyDir(workspaceDir);
+    await store.load('task-1');
+
+    expect(await fse.readdir(workspaceDir)).toEqual(['app.ts']);
+  });
+
+  it('reads the metadata of a task without restoring its workspace', async () => {
+    const task = createPersistedTask('task-1', workspaceDir);
+    await fse.outputFile(join(workspaceDir, 'app.ts'), 'v1');
+    const store = new FileSystemTaskStore(storeDir);
+    await store.save(task);
+    await fse.emptyDir(workspaceDir);
+
+    expect(await store.loadMetadata('task-1')).toEqual(task.metadata);
+    expect(await store.loadMetadata('missing')).toBeUndefined();
+    expect(await fse.readdir(workspaceDir)).toEqual([]);
+    expect(configModule.setTargetDir).not.toHaveBeenCalled();
+  });
+
+  it('replaces the metadata of a task and keeps its workspace', async () => {
+    const task = createPersistedTask('task-1', workspaceDir);
+    await fse.outputFile(join(workspaceDir, 'app.ts'), 'v1');
+    const store = new FileSystemTaskStore(storeDir);
+    await store.save(task);
+    const canceled = createPersistedTask('task-1', workspaceDir, 'canceled');
+
+    await store.saveMetadata('task-1', canceled.metadata!);
+    await fse.emptyDir(workspaceDir);
+    const loaded = await store.load('task-1');
+
+    expect(loaded?.metadata).toEqual(canceled.metadata);
+    expect(await fse.readFile(join(workspaceDir, 'app.ts'), 'utf-8')).toBe(
+      'v1',
+    );
+  });
+
+  it('returns undefined for unknown tasks', async () => {
+    expect(
+      await new FileSystemTaskStore(storeDir).load('missing'),
+    ).toBeUndefined();
+  });
+
+  it('rejects task ids with path traversal sequences', async () => {
+    const store = new FileSystemTaskStore(storeDir);
+    await expect(store.load('../escape')).rejects.toThrow(
+      'Invalid taskId: ../escape',
+    );
+  });
+
+  it('prunes tasks by age and count', async () => {
+    const ids = ['older', 'old', 'third', 'recent', 'newest'];
+    const ages = [10 * 60_000, 5 * 60_000, 3_000, 2_000, 1_000];
+    const writer = new FileSystemTaskStore(storeDir);
+    const now = Date.now();
+    for (const [index, id] of ids.entries()) {
+      await writer.save(createPersistedTask(id, workspaceDir));
+      const savedAt = new Date(now - ages[index]);
+      await fse.utimes(
+        join(storeDir, 'tasks', id, 'metadata.tar.gz'),
+        savedAt,
+        savedAt,
+      );
+    }
+
+    const store = new FileSystemTaskStore(storeDir, {
+      maxAgeMs: 60_000,
+      maxTasks: 2,
+    });
+
+    expect((await store.prune(now)).sort()).toEqual(['old', 'older', 'third']);
+    expect((await fse.readdir(join(storeDir, 'tasks'))).sort()).toEqual([
+      'newest',
+      'recent',
+    ]);
+  });
+
+  it('keeps maxTasks tasks per tenant', async () => {
+    const writer = new FileSystemTaskStore(storeDir);
+    await writer.save(createPersistedTask('mine', workspaceDir));
+    await writer.save(
+      createPersistedTask('theirs', workspaceDir, 'working', 'team-a'),
+    );
+
+    const store = new FileSystemTaskStore(storeDir, { maxTasks: 1 });
+
+    expect(await store.prune()).toEqual([]);
+  });
+
+  it('prunes at startup and periodically until closed', async () => {
+    const store = new FileSystemTaskStore(storeDir, { maxTasks: 1 });
+    const prune = vi.spyOn(store, 'prune').mockResolvedValue([]);
+    vi.useFakeTimers();
+    try {
+      store.startPruning(1_000);
+      expect(prune).toHaveBeenCalledTimes(1);
+      vi.advanceTimersByTime(1_000);
+      expect(prune).toHaveBeenCalledTimes(2);
+      store.close();
+      vi.advanceTimersByTime(1_000);
+      expect(prune).toHaveBeenCalledTimes(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('does not schedule pruning without a retention policy', () => {
+    const store = new FileSystemTaskStore(storeDir);
+    const prune = vi.spyOn(store, 'prune');
+
+    store.startPruning();
+
+    expect(prune).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,253 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fse from 'fs-extra';
+import { promises as fsPromises } from 'node:fs';
+import { join } from 'node:path';
+import type { Task as SDKTask } from '@a2a-js/sdk';
+import { logger } from '../utils/logger.js';
+import {
+  archiveWorkspace,
+  assertPersistedState,
+  assertTaskIdValid,
+  compressMetadata,
+  decompressMetadata,
+  extractWorkspace,
+  getTaskWorkspaceDir,
+  prepareWorkspace,
+  toLoadedTask,
+  toStoredTaskSummary,
+} from './workspace.js';
+import type { DurableTaskStore } from './tenant.js';
+import {
+  getPersistedState,
+  type PersistedTaskMetadata,
+  type TaskSummary,
+} from '../types.js';
+import {
+  getExpiredTaskIds,
+  hasRetentionLimits,
+  schedulePruning,
+  type StoredTaskInfo,
+  type TaskRetentionPolicy,
+} from './retention.js';
+
+type FileType = 'metadata' | 'workspace';
+
+/**
+ * Stores tasks in a local directory, laid out like the objects of the GCS
+ * store: `tasks/<taskId>/metadata.tar.gz` and
+ * `tasks/<taskId>/workspace.tar.gz`. Files are replaced atomically, so a
+ * crash during a save leaves the previous version of the task.
+ */
+export class FileSystemTaskStore implements DurableTaskStore {
+  private readonly tasksDir: string;
+  private stopPruning?: () => void;
+
+  constructor(
+    rootDir: string,
+    private readonly retention: TaskRetentionPolicy = {},
+  ) {
+    if (!rootDir) {
+      throw new Error('Task store directory is required.');
+    }
+    this.tasksDir = join(rootDir, 'tasks');
+    logger.info(`FileSystemTaskStore using directory: ${rootDir}`);
+  }
+
+  private getFilePath(taskId: string, type: FileType): string {
+    assertTaskIdValid(taskId);
+    return join(this.tasksDir, taskId, `${type}.tar.gz`);
+  }
+
+  async save(task: SDKTask): Promise<void> {
+    const taskId = task.id;
+    assertPersistedState(task);
+    const metadataPath = this.getFilePath(taskId, 'metadata');
+    const workspacePath = this.getFilePath(taskId, 'workspace');
+
+    try {
+      await fse.ensureDir(join(this.tasksDir, taskId));
+      await replaceFile(metadataPath, (tmpPath) =>
+        fse.writeFile(tmpPath, compressMetadata(task.metadata)),
+      );
+      logger.info(`Task ${taskId} metadata saved to ${metadataPath}`);
+
+      const workspaceSaved = await archiveWorkspace(
+        taskId,
+        getTaskWorkspaceDir(task),
+        (tmpArchiveFile) =>
+          replaceFile(workspacePath, (tmpPath) =>
+            fse.copy(tmpArchiveFile, tmpPath),
+          ),
+      );
+      if (workspaceSaved) {
+        logger.info(`Task ${taskId} workspace saved to ${workspacePath}`);
+      }
+    } catch (error) {
+      logger.error(`Failed to save task ${taskId} to ${this.tasksDir}:`, error);
+      throw error;
+    }
+
+    await this.prune();
+  }
+
+  async loadMetadata(
+    taskId: string,
+  ): Promise<PersistedTaskMetadata | undefined> {
+    const metadataPath = this.getFilePath(taskId, 'metadata');
+    if (!(await fse.pathExists(metadataPath))) {
+      logger.info(`Task ${taskId} metadata not found in ${this.tasksDir}.`);
+      return undefined;
+    }
+    const loadedMetadata = decompressMetadata(await fse.readFile(metadataPath));
+    logger.info(`Task ${taskId} metadata loaded from ${metadataPath}.`);
+    return loadedMetadata;
+  }
+
+  async saveMetadata(
+    taskId: string,
+    metadata: PersistedTaskMetadata,
+  ): Promise<void> {
+    const metadataPath = this.getFilePath(taskId, 'metadata');
+    await replaceFile(metadataPath, (tmpPath) =>
+      fse.writeFile(tmpPath, compressMetadata(metadata)),
+    );
+    logger.info(`Task ${taskId} metadata saved to ${metadataPath}`);
+  }
+
+  async load(taskId: string): Promise<SDKTask | undefined> {
+    const workspacePath = this.getFilePath(taskId, 'workspace');
+
+    try {
+      const loadedMetadata = await this.loadMetadata(taskId);
+      if (!loadedMetadata) {
+        return undefined;
+      }
+
+      const workDir = await prepareWorkspace(taskId, loadedMetadata);
+      if (await fse.pathExists(workspacePath)) {
+        await extractWorkspace(workspacePath, workDir);
+        logger.info(
+          `Task ${taskId} workspace restored from ${workspacePath} to ${workDir}`,
+        );
+      } else {
+        logger.info(`Task ${taskId} workspace archive not found.`);
+      }
+
+      return toLoadedTask(taskId, loadedMetadata);
+    } catch (error) {
+      logger.error(
+        `Failed to load task ${taskId} from ${this.tasksDir}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  async list(tenantId: string | undefined): Promise<TaskSummary[]> {
+    const taskIds = (await fse.pathExists(this.tasksDir))
+      ? await fsPromises.readdir(this.tasksDir)
+      : [];
+    const summaries: TaskSummary[] = [];
+    for (const id of taskIds) {
+      const metadataPath = join(this.tasksDir, id, 'metadata.tar.gz');
+      let metadata: Buffer;
+      let storedAt: number;
+      try {
+        storedAt = (await fsPromises.stat(metadataPath)).mtimeMs;
+        metadata = await fse.readFile(metadataPath);
+      } catch {
+        // Not a task, or one whose first save has not completed yet.
+        continue;
+      }
+      const summary = toStoredTaskSummary(
+        id,
+        decompressMetadata(metadata),
+        tenantId,
+        storedAt,
+      );
+      if (summary) {
+        summaries.push(summary);
+      }
+    }
+    return summaries;
+  }
+
+  /**
+   * Prunes the tasks now and then every `intervalMs`, so that the retention
+   * policy also applies while no task is saved. {@link close} stops it.
+   */
+  startPruning(intervalMs?: number): void {
+    if (!hasRetentionLimits(this.retention) || this.stopPruning) {
+      return;
+    }
+    this.stopPruning = schedulePruning(() => this.prune(), intervalMs);
+  }
+
+  /**
+   * Removes the tasks that the retention policy no longer keeps. A task's
+   * age is taken from the modification time of its metadata file.
+   *
+   * @returns The ids of the removed tasks.
+   */
+  async prune(now: number = Date.now()): Promise<string[]> {
+    if (!hasRetentionLimits(this.retention)) {
+      return [];
+    }
+    try {
+      const taskIds = (await fse.pathExists(this.tasksDir))
+        ? await fsPromises.readdir(this.tasksDir)
+        : [];
+      const tasks: StoredTaskInfo[] = [];
+      for (const id of taskIds) {
+        try {
+          const metadataPath = this.getFilePath(id, 'metadata');
+          const stats = await fsPromises.stat(metadataPath);
+          const metadata = decompressMetadata(await fse.readFile(metadataPath));
+          tasks.push({
+            id,
+            updatedAt: stats.mtimeMs,
+            tenantId: getPersistedState(metadata)?._tenantId,
+          });
+        } catch {
+          // Not a task, or one whose first save has not completed yet.
+        }
+      }
+      const expiredIds = getExpiredTaskIds(tasks, this.retention, now);
+      for (const id of expiredIds) {
+        await fse.remove(join(this.tasksDir, id));
+        logger.info(`Task ${id} removed by the retention policy.`);
+      }
+      return expiredIds;
+    } catch (error) {
+      logger.error(`Failed to prune tasks in ${this.tasksDir}:`, error);
+      return [];
+    }
+  }
+
+  close(): void {
+    this.stopPruning?.();
+    this.stopPruning = undefined;
+  }
+}
+
+/**
+ * Writes a file next to `path` with `write` and then renames it over
+ * `path`, so readers never see a partially written file.
+ */
+async function replaceFile(
+  path: string,
+  write: (tmpPath: string) => Promise<void>,
+): Promise<void> {
+  const tmpPath = `${path}.tmp`;
+  try {
+    await write(tmpPath);
+    await fsPromises.rename(tmpPath, path);
+  } finally {
+    await fse.remove(tmpPath);
+  }
+}
@@ -81,6 +81,7 @@ vi.mock('../utils/logger.js', () => ({
   },
 }));
 vi.mock('../config/config.js', () => ({
+  resolveTargetDir: vi.fn(),
   setTargetDir: vi.fn(),
 }));
 vi.mock('node:stream/promises', () => ({
@@ -400,6 +401,44 @@ describe('GCSTaskStore', () => {
     });
   });
 
+  describe('list', () => {
+    it('should list the tasks from their metadata objects', async () => {
+      mockGunzipSync.mockReturnValue(
+        Buffer.from(JSON.stringify({ _contextId: 'ctx1' })),
+      );
+      const getFiles = vi.fn().mockResolvedValue([
+        [
+          {
+            name: 'tasks/task1/metadata.tar.gz',
+            metadata: { updated: '2026-01-01T00:00:00.000Z' },
+            download: vi
+              .fn()
+              .mockResolvedValue([Buffer.from('compressed metadata')]),
+          },
+        ],
+      ]);
+      Object.assign(mockBucket, { getFiles });
+
+      const store = new GCSTaskStore(bucketName);
+      const tasks = await store.list(undefined);
+
+      expect(getFiles).toHaveBeenCalledWith({
+        prefix: 'tasks/',
+        matchGlob: 'tasks/*/metadata.tar.gz',
+      });
+      expect(tasks).toEqual([
+        {
+          id: 'task1',
+          contextId: 'ctx1',
+          taskState: 'submitted',
+          createdAt: '2026-01-01T00:00:00.000Z',
+          updatedAt: '2026-01-01T00:00:00.000Z',
+        },
+      ]);
+      expect(mockTar.x).not.toHaveBeenCalled();
+    });
+  });
+
   it('should throw an error if taskId contains path traversal sequences', async () => {
     const store = new GCSTaskStore('test-bucket');
     const maliciousTaskId = '../../../malicious-task';
@@ -5,32 +5,29 @@
  */
 
 import { Storage } from '@google-cloud/storage';
-import { gzipSync, gunzipSync } from 'node:zlib';
-import * as tar from 'tar';
-import * as fse from 'fs-extra';
-import { promises as fsPromises, createReadStream } from 'node:fs';
-import { tmpdir } from '@google/gemini-cli-core';
-import { join } from 'node:path';
+import { createReadStream } from 'node:fs';
 import type { Task as SDKTask } from '@a2a-js/sdk';
 import type { TaskStore } from '@a2a-js/sdk/server';
 import { logger } from '../utils/logger.js';
-import { setTargetDir } from '../config/config.js';
-import { getPersistedState, type PersistedTaskMetadata } from '../types.js';
-import { v4 as uuidv4 } from 'uuid';
+import {
+  archiveWorkspace,
+  assertPersistedState,
+  assertTaskIdValid,
+  compressMetadata,
+  decompressMetadata,
+  extractWorkspace,
+  getTaskWorkspaceDir,
+  prepareWorkspace,
+  toLoadedTask,
+  toStoredTaskSummary,
+  withTmpArchiveFile,
+} from './workspace.js';
+import type { DurableTaskStore } from './tenant.js';
+import type { PersistedTaskMetadata, TaskSummary } from '../types.js';
 
 type ObjectType = 'metadata' | 'workspace';
 
-const getTmpArchiveFilename = (taskId: string): string =>
-  `task-${taskId}-workspace-${uuidv4()}.tar.gz`;
-
-// Validate the taskId to prevent path traversal attacks by ensuring it only contains safe characters.
-const isTaskIdValid = (taskId: string): boolean => {
-  // Allow only alphanumeric characters, dashes, and underscores, and ensure it's not empty.
-  const validTaskIdRegex = /^[a-zA-Z0-9_-]+$/;
-  return validTaskIdRegex.test(taskId);
-};
-
-export class GCSTaskStore implements TaskStore {
+export class GCSTaskStore implements DurableTaskStore {
   private storage: Storage;
   private bucketName: string;
   private bucketInitialized: Promise<void>;
@@ -85,32 +82,21 @@ export class GCSTaskStore implements TaskStore {
   }
 
   private getObjectPath(taskId: string, type: ObjectType): string {
-    if (!isTaskIdValid(taskId)) {
-      throw new Error(`Invalid taskId: ${taskId}`);
-    }
+    assertTaskIdValid(taskId);
     return `tasks/${taskId}/${type}.tar.gz`;
   }
 
   async save(task: SDKTask): Promise<void> {
     await this.ensureBucketInitialized();
     const taskId = task.id;
-    const persistedState = getPersistedState(
-      task.metadata as PersistedTaskMetadata,
-    );
-
-    if (!persistedState) {
-      throw new Error(`Task ${taskId} is missing persisted state in metadata.`);
-    }
-    const workDir = process.cwd();
+    assertPersistedState(task);
+    const workDir = getTaskWorkspaceDir(task);
 
     const metadataObjectPath = this.getObjectPath(taskId, 'metadata');
     const workspaceObjectPath = this.getObjectPath(taskId, 'workspace');
 
-    const dataToStore = task.metadata;
-
     try {
-      const jsonString = JSON.stringify(dataToStore);
-      const compressedMetadata = gzipSync(Buffer.from(jsonString));
+      const compressedMetadata = compressMetadata(task.metadata);
       const metadataFile = this.storage
         .bucket(this.bucketName)
         .file(metadataObjectPath);
@@ -121,106 +107,55 @@ export class GCSTaskStore implements TaskStore {
         `Task ${taskId} metadata saved to GCS: gs://${this.bucketName}/${metadataObjectPath}`,
       );
 
-      if (await fse.pathExists(workDir)) {
-        const entries = await fsPromises.readdir(workDir);
-        if (entries.length > 0) {
-          const tmpArchiveFile = join(tmpdir(), getTmpArchiveFilename(taskId));
-          try {
-            await tar.c(
-              {
-                gzip: true,
-                file: tmpArchiveFile,
-                cwd: workDir,
-                portable: true,
-              },
-              entries,
-            );
+      const workspaceSaved = await archiveWorkspace(
+        taskId,
+        workDir,
+        async (tmpArchiveFile) => {
+          const workspaceFile = this.storage
+            .bucket(this.bucketName)
+            .file(workspaceObjectPath);
+          const sourceStream = createReadStream(tmpArchiveFile);
+          const destStream = workspaceFile.createWriteStream({
+            contentType: 'application/gzip',
+            resumable: true,
+          });
 
-            if (!(await fse.pathExists(tmpArchiveFile))) {
-              throw new Error(
-                `tar.c command failed to create ${tmpArchiveFile}`,
+          await new Promise<void>((resolve, reject) => {
+            sourceStream.on('error', (err) => {
+              logger.error(
+                `Error in source stream for ${tmpArchiveFile}:`,
+                err,
               );
-            }
-
-            const workspaceFile = this.storage
-              .bucket(this.bucketName)
-              .file(workspaceObjectPath);
-            const sourceStream = createReadStream(tmpArchiveFile);
-            const destStream = workspaceFile.createWriteStream({
-              contentType: 'application/gzip',
-              resumable: true,
+              // Attempt to close destStream if source fails
+              if (!destStream.destroyed) {
+                destStream.destroy(err);
+              }
+              reject(err);
             });
 
-            await new Promise<void>((resolve, reject) => {
-              sourceStream.on('error', (err) => {
-                logger.error(
-                  `Error in source stream for ${tmpArchiveFile}:`,
-                  err,
-                );
-                // Attempt to close destStream if source fails
-                if (!destStream.destroyed) {
-                  destStream.destroy(err);
-                }
-                reject(err);
-              });
-
-              destStream.on('error', (err) => {
-                logger.error(
-                  `Error in GCS dest stream for ${workspaceObjectPath}:`,
-                  err,
-                );
-                reject(err);
-              });
-
-              destStream.on('finish', () => {
-                logger.info(
-                  `GCS destStream finished for ${workspaceObjectPath}`,
-                );
-                resolve();
-              });
-
-              logger.info(
-                `Piping ${tmpArchiveFile} to GCS object ${workspaceObjectPath}`,
+            destStream.on('error', (err) => {
+              logger.error(
+                `Error in GCS dest stream for ${workspaceObjectPath}:`,
+                err,
               );
-              sourceStream.pipe(destStream);
+              reject(err);
+            });
+
+            destStream.on('finish', () => {
+              logger.info(`GCS destStream finished for ${workspaceObjectPath}`);
+              resolve();
             });
+
             logger.info(
-              `Task ${taskId} workspace saved to GCS: gs://${this.bucketName}/${workspaceObjectPath}`,
+              `Piping ${tmpArchiveFile} to GCS object ${workspaceObjectPath}`,
             );
-          } catch (error) {
-            logger.error(
-              `Error during workspace save process for ${taskId}:`,
-              error,
-            );
-            throw error;
-          } finally {
-            logger.info(`Cleaning up temporary file: ${tmpArchiveFile}`);
-            try {
-              if (await fse.pathExists(tmpArchiveFile)) {
-                await fse.remove(tmpArchiveFile);
-                logger.info(
-                  `Successfully removed temporary file: ${tmpArchiveFile}`,
-                );
-              } else {
-                logger.warn(
-                  `Temporary file not found for cleanup: ${tmpArchiveFile}`,
-                );
-              }
-            } catch (removeError) {
-              logger.error(
-                `Error removing temporary file ${tmpArchiveFile}:`,
-                removeError,
-              );
-            }
-          }
-        } else {
-          logger.info(
-            `Workspace directory ${workDir} is empty, skipping workspace save for task ${taskId}.`,
-          );
-        }
-      } else {
+            sourceStream.pipe(destStream);
+          });
+        },
+      );
+      if (workspaceSaved) {
         logger.info(
-          `Workspace directory ${workDir} not found, skipping workspace save for task ${taskId}.`,
+          `Task ${taskId} workspace saved to GCS: gs://${this.bucketName}/${workspaceObjectPath}`,
         );
       }
     } catch (error) {
@@ -229,73 +164,92 @@ export class GCSTaskStore implements TaskStore {
     }
   }
 
-  async load(taskId: string): Promise<SDKTask | undefined> {
+  async loadMetadata(
+    taskId: string,
+  ): Promise<PersistedTaskMetadata | undefined> {
+    await this.ensureBucketInitialized();
+    const metadataFile = this.storage
+      .bucket(this.bucketName)
+      .file(this.getObjectPath(taskId, 'metadata'));
+    const [metadataExists] = await metadataFile.exists();
+    if (!metadataExists) {
+      logger.info(`Task ${taskId} metadata not found in GCS.`);
+      return undefined;
+    }
+    const [compressedMetadata] = await metadataFile.download();
+    logger.info(`Task ${taskId} metadata loaded from GCS.`);
+    return decompressMetadata(compressedMetadata);
+  }
+
+  async saveMetadata(
+    taskId: string,
+    metadata: PersistedTaskMetadata,
+  ): Promise<void> {
     await this.ensureBucketInitialized();
     const metadataObjectPath = this.getObjectPath(taskId, 'metadata');
+    await this.storage
+      .bucket(this.bucketName)
+      .file(metadataObjectPath)
+      .save(compressMetadata(metadata), { contentType: 'application/gzip' });
+    logger.info(
+      `Task ${taskId} metadata saved to GCS: gs://${this.bucketName}/${metadataObjectPath}`,
+    );
+  }
+
+  async load(taskId: string): Promise<SDKTask | undefined> {
     const workspaceObjectPath = this.getObjectPath(taskId, 'workspace');
 
     try {
-      const metadataFile = this.storage
-        .bucket(this.bucketName)
-        .file(metadataObjectPath);
-      const [metadataExists] = await metadataFile.exists();
-      if (!metadataExists) {
-        logger.info(`Task ${taskId} metadata not found in GCS.`);
+      const loadedMetadata = await this.loadMetadata(taskId);
+      if (!loadedMetadata) {
         return undefined;
       }
-      const [compressedMetadata] = await metadataFile.download();
-      const jsonData = gunzipSync(compressedMetadata).toString();
-      const loadedMetadata = JSON.parse(jsonData);
-      logger.info(`Task ${taskId} metadata loaded from GCS.`);
-
-      const persistedState = getPersistedState(loadedMetadata);
-      if (!persistedState) {
-        throw new Error(
-          `Loaded metadata for task ${taskId} is missing internal persisted state.`,
-        );
-      }
-      const agentSettings = persistedState._agentSettings;
 
-      const workDir = setTargetDir(agentSettings);
-      await fse.ensureDir(workDir);
+      const workDir = await prepareWorkspace(taskId, loadedMetadata);
       const workspaceFile = this.storage
         .bucket(this.bucketName)
         .file(workspaceObjectPath);
       const [workspaceExists] = await workspaceFile.exists();
       if (workspaceExists) {
-        const tmpArchiveFile = join(tmpdir(), getTmpArchiveFilename(taskId));
-        try {
+        await withTmpArchiveFile(taskId, async (tmpArchiveFile) => {
           await workspaceFile.download({ destination: tmpArchiveFile });
-          await tar.x({ file: tmpArchiveFile, cwd: workDir });
+          await extractWorkspace(tmpArchiveFile, workDir);
           logger.info(
             `Task ${taskId} workspace restored from GCS to ${workDir}`,
           );
-        } finally {
-          if (await fse.pathExists(tmpArchiveFile)) {
-            await fse.remove(tmpArchiveFile);
-          }
-        }
+        });
       } else {
         logger.info(`Task ${taskId} workspace archive not found in GCS.`);
       }
 
-      return {
-        id: taskId,
-        contextId: loadedMetadata._contextId || uuidv4(),
-        kind: 'task',
-        status: {
-          state: persistedState._taskState,
-          timestamp: new Date().toISOString(),
-        },
-        metadata: loadedMetadata,
-        history: [],
-        artifacts: [],
-      };
+      return toLoadedTask(taskId, loadedMetadata);
     } catch (error) {
       logger.error(`Failed to load task ${taskId} from GCS:`, error);
       throw error;
     }
   }
+
+  async list(tenantId: string | undefined): Promise<TaskSummary[]> {
+    await this.ensureBucketInitialized();
+    const [files] = await this.storage
+      .bucket(this.bucketName)
+      .getFiles({ prefix: 'tasks/', matchGlob: 'tasks/*/metadata.tar.gz' });
+    const summaries: TaskSummary[] = [];
+    for (const file of files) {
+      const taskId = file.name.split('/')[1];
+      const [compressedMetadata] = await file.download();
+      const summary = toStoredTaskSummary(
+        taskId,
+        decompressMetadata(compressedMetadata),
+        tenantId,
+        Date.parse(file.metadata.updated ?? '') || Date.now(),
+      );
+      if (summary) {
+        summaries.push(summary);
+      }
+    }
+    return summaries;
+  }
 }
 
 export class NoOpTaskStore implements TaskStore {
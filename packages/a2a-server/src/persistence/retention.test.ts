@@ -0,0 +1,61 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getExpiredTaskIds, schedulePruning } from './retention.js';
+
+describe('getExpiredTaskIds', () => {
+  const now = 100_000;
+  const tasks = [
+    { id: 'a', updatedAt: now - 50_000 },
+    { id: 'b', updatedAt: now - 1_000 },
+    { id: 'c', updatedAt: now - 10_000 },
+  ];
+
+  it('keeps every task without a policy', () => {
+    expect(getExpiredTaskIds(tasks, {}, now)).toEqual([]);
+  });
+
+  it('expires tasks older than maxAgeMs', () => {
+    expect(getExpiredTaskIds(tasks, { maxAgeMs: 20_000 }, now)).toEqual(['a']);
+  });
+
+  it('keeps only the maxTasks most recently saved tasks', () => {
+    expect(getExpiredTaskIds(tasks, { maxTasks: 1 }, now)).toEqual(['c', 'a']);
+  });
+
+  it('counts maxTasks per tenant', () => {
+    const tenantTasks = [
+      { id: 'a1', updatedAt: now - 3_000, tenantId: 'team-a' },
+      { id: 'a2', updatedAt: now - 1_000, tenantId: 'team-a' },
+      { id: 'b1', updatedAt: now - 5_000, tenantId: 'team-b' },
+      { id: 'none', updatedAt: now - 9_000 },
+    ];
+
+    expect(getExpiredTaskIds(tenantTasks, { maxTasks: 1 }, now)).toEqual([
+      'a1',
+    ]);
+  });
+});
+
+describe('schedulePruning', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('prunes now and on every interval until stopped', () => {
+    vi.useFakeTimers();
+    const prune = vi.fn().mockResolvedValue([]);
+
+    const stop = schedulePruning(prune, 1_000);
+    expect(prune).toHaveBeenCalledTimes(1);
+    vi.advanceTimersByTime(2_000);
+    expect(prune).toHaveBeenCalledTimes(3);
+    stop();
+    vi.advanceTimersByTime(2_000);
+    expect(prune).toHaveBeenCalledTimes(3);
+  });
+});
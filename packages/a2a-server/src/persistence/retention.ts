@@ -0,0 +1,70 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * How long a durable task store keeps tasks. Tasks are pruned by the time
+ * they were last saved, so a task that is still being worked on is kept.
+ */
+export interface TaskRetentionPolicy {
+  /** Tasks not saved for longer than this are removed. */
+  maxAgeMs?: number;
+  /**
+   * Only this many of the most recently saved tasks of each tenant are
+   * kept. Tasks without tenant count as one more tenant.
+   */
+  maxTasks?: number;
+}
+
+export interface StoredTaskInfo {
+  id: string;
+  /** When the task was last saved, in milliseconds since the epoch. */
+  updatedAt: number;
+  tenantId?: string;
+}
+
+/** How often durable task stores prune their tasks, besides on saves. */
+export const TASK_PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+export function hasRetentionLimits(policy: TaskRetentionPolicy): boolean {
+  return policy.maxAgeMs !== undefined || policy.maxTasks !== undefined;
+}
+
+/**
+ * Runs `prune` now and then every `intervalMs`, until the returned function
+ * is called. The timer does not keep the process alive.
+ */
+export function schedulePruning(
+  prune: () => Promise<unknown>,
+  intervalMs: number = TASK_PRUNE_INTERVAL_MS,
+): () => void {
+  void prune();
+  const timer = setInterval(() => void prune(), intervalMs);
+  timer.unref();
+  return () => clearInterval(timer);
+}
+
+/**
+ * Returns the ids of the tasks that `policy` no longer keeps.
+ */
+export function getExpiredTaskIds(
+  tasks: StoredTaskInfo[],
+  policy: TaskRetentionPolicy,
+  now: number = Date.now(),
+): string[] {
+  const newestFirst = [...tasks].sort((a, b) => b.updatedAt - a.updatedAt);
+  const newerTaskCounts = new Map<string | undefined, number>();
+  return newestFirst
+    .filter((task) => {
+      const index = newerTaskCounts.get(task.tenantId) ?? 0;
+      newerTaskCounts.set(task.tenantId, index + 1);
+      return (
+        (policy.maxAgeMs !== undefined &&
+          now - task.updatedAt > policy.maxAgeMs) ||
+        (policy.maxTasks !== undefined && index >= policy.maxTasks)
+      );
+    })
+    .map((task) => task.id);
+}
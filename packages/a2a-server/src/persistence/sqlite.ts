@@ -0,0 +1,235 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import Database from 'better-sqlite3';
+import * as fse from 'fs-extra';
+import { dirname } from 'node:path';
+import type { Task as SDKTask } from '@a2a-js/sdk';
+import { logger } from '../utils/logger.js';
+import {
+  archiveWorkspace,
+  assertPersistedState,
+  assertTaskIdValid,
+  compressMetadata,
+  decompressMetadata,
+  extractWorkspace,
+  getTaskWorkspaceDir,
+  prepareWorkspace,
+  toLoadedTask,
+  toStoredTaskSummary,
+  withTmpArchiveFile,
+} from './workspace.js';
+import type { DurableTaskStore } from './tenant.js';
+import {
+  getPersistedState,
+  type PersistedTaskMetadata,
+  type TaskSummary,
+} from '../types.js';
+import {
+  getExpiredTaskIds,
+  hasRetentionLimits,
+  schedulePruning,
+  type TaskRetentionPolicy,
+} from './retention.js';
+
+interface TaskRow {
+  metadata: Buffer;
+  workspace: Buffer | null;
+}
+
+/**
+ * Stores tasks in a SQLite database, one row per task with its gzipped
+ * metadata and workspace archive.
+ */
+export class SQLiteTaskStore implements DurableTaskStore {
+  private readonly db: Database.Database;
+  private stopPruning?: () => void;
+
+  constructor(
+    private readonly databasePath: string,
+    private readonly retention: TaskRetentionPolicy = {},
+  ) {
+    if (!databasePath) {
+      throw new Error('SQLite database path is required.');
+    }
+    if (databasePath !== ':memory:') {
+      fse.ensureDirSync(dirname(databasePath));
+    }
+    this.db = new Database(databasePath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS tasks (
+        id TEXT PRIMARY KEY,
+        metadata BLOB NOT NULL,
+        workspace BLOB,
+        updated_at INTEGER NOT NULL
+      )
+    `);
+    logger.info(`SQLiteTaskStore using database: ${databasePath}`);
+  }
+
+  async save(task: SDKTask): Promise<void> {
+    const taskId = task.id;
+    assertTaskIdValid(taskId);
+    assertPersistedState(task);
+
+    try {
+      let workspace: Buffer | null = null;
+      await archiveWorkspace(
+        taskId,
+        getTaskWorkspaceDir(task),
+        async (tmpArchiveFile) => {
+          workspace = await fse.readFile(tmpArchiveFile);
+        },
+      );
+      // Like the other stores, an empty workspace keeps the last archive.
+      this.db
+        .prepare(
+          `INSERT INTO tasks (id, metadata, workspace, updated_at)
+           VALUES (?, ?, ?, ?)
+           ON CONFLICT (id) DO UPDATE SET
+             metadata = excluded.metadata,
+             workspace = COALESCE(excluded.workspace, tasks.workspace),
+             updated_at = excluded.updated_at`,
+        )
+        .run(taskId, compressMetadata(task.metadata), workspace, Date.now());
+      logger.info(`Task ${taskId} saved to ${this.databasePath}`);
+    } catch (error) {
+      logger.error(
+        `Failed to save task ${taskId} to ${this.databasePath}:`,
+        error,
+      );
+      throw error;
+    }
+
+    await this.prune();
+  }
+
+  async loadMetadata(
+    taskId: string,
+  ): Promise<PersistedTaskMetadata | undefined> {
+    assertTaskIdValid(taskId);
+    const row = this.db
+      .prepare('SELECT metadata FROM tasks WHERE id = ?')
+      .get(taskId) as Pick<TaskRow, 'metadata'> | undefined;
+    return row ? decompressMetadata(row.metadata) : undefined;
+  }
+
+  async saveMetadata(
+    taskId: string,
+    metadata: PersistedTaskMetadata,
+  ): Promise<void> {
+    assertTaskIdValid(taskId);
+    this.db
+      .prepare('UPDATE tasks SET metadata = ?, updated_at = ? WHERE id = ?')
+      .run(compressMetadata(metadata), Date.now(), taskId);
+    logger.info(`Task ${taskId} metadata saved to ${this.databasePath}`);
+  }
+
+  async load(taskId: string): Promise<SDKTask | undefined> {
+    assertTaskIdValid(taskId);
+
+    try {
+      const row = this.db
+        .prepare('SELECT metadata, workspace FROM tasks WHERE id = ?')
+        .get(taskId) as TaskRow | undefined;
+      if (!row) {
+        logger.info(`Task ${taskId} not found in ${this.databasePath}.`);
+        return undefined;
+      }
+      const loadedMetadata = decompressMetadata(row.metadata);
+      logger.info(`Task ${taskId} metadata loaded from ${this.databasePath}.`);
+
+      const workDir = await prepareWorkspace(taskId, loadedMetadata);
+      const { workspace } = row;
+      if (workspace) {
+        await withTmpArchiveFile(taskId, async (tmpArchiveFile) => {
+          await fse.writeFile(tmpArchiveFile, workspace);
+          await extractWorkspace(tmpArchiveFile, workDir);
+        });
+        logger.info(`Task ${taskId} workspace restored to ${workDir}`);
+      } else {
+        logger.info(`Task ${taskId} workspace archive not found.`);
+      }
+
+      return toLoadedTask(taskId, loadedMetadata);
+    } catch (error) {
+      logger.error(
+        `Failed to load task ${taskId} from ${this.databasePath}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  async list(tenantId: string | undefined): Promise<TaskSummary[]> {
+    const rows = this.db
+      .prepare('SELECT id, metadata, updated_at AS updatedAt FROM tasks')
+      .all() as Array<{ id: string; metadata: Buffer; updatedAt: number }>;
+    return rows.flatMap(
+      (row) =>
+        toStoredTaskSummary(
+          row.id,
+          decompressMetadata(row.metadata),
+          tenantId,
+          row.updatedAt,
+        ) ?? [],
+    );
+  }
+
+  /**
+   * Prunes the tasks now and then every `intervalMs`, so that the retention
+   * policy also applies while no task is saved. {@link close} stops it.
+   */
+  startPruning(intervalMs?: number): void {
+    if (!hasRetentionLimits(this.retention) || this.stopPruning) {
+      return;
+    }
+    this.stopPruning = schedulePruning(() => this.prune(), intervalMs);
+  }
+
+  /**
+   * Removes the tasks that the retention policy no longer keeps.
+   *
+   * @returns The ids of the removed tasks.
+   */
+  async prune(now: number = Date.now()): Promise<string[]> {
+    if (!hasRetentionLimits(this.retention)) {
+      return [];
+    }
+    try {
+      const rows = this.db
+        .prepare('SELECT id, metadata, updated_at AS updatedAt FROM tasks')
+        .all() as Array<{ id: string; metadata: Buffer; updatedAt: number }>;
+      const tasks = rows.map((row) => ({
+        id: row.id,
+        updatedAt: row.updatedAt,
+        tenantId: getPersistedState(decompressMetadata(row.metadata))
+          ?._tenantId,
+      }));
+      const expiredIds = getExpiredTaskIds(tasks, this.retention, now);
+      const remove = this.db.prepare('DELETE FROM tasks WHERE id = ?');
+      this.db.transaction(() => {
+        for (const id of expiredIds) {
+          remove.run(id);
+        }
+      })();
+      for (const id of expiredIds) {
+        logger.info(`Task ${id} removed by the retention policy.`);
+      }
+      return expiredIds;
+    } catch (error) {
+      logger.error(`Failed to prune tasks in ${this.databasePath}:`, error);
+      return [];
+    }
+  }
+
+  close(): void {
+    this.stopPruning?.();
+    this.stopPruning = undefined;
+    this.db.close();
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { InMemoryTaskStore } from '@a2a-js/sdk/server';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { createTaskStore } from './taskStore.js';
+import { GCSTaskStore } from './gcs.js';
+import { FileSystemTaskStore } from './filesystem.js';
+import { SQLiteTaskStore } from './sqlite.js';
+
+vi.mock('./gcs.js', () => ({ GCSTaskStore: vi.fn() }));
+vi.mock('./filesystem.js', () => ({
+  FileSystemTaskStore: vi.fn(() => ({ startPruning: vi.fn() })),
+}));
+vi.mock('./sqlite.js', () => ({
+  SQLiteTaskStore: vi.fn(() => ({ startPruning: vi.fn() })),
+}));
+vi.mock('../utils/logger.js', () => ({
+  logger: { info: vi.fn() },
+}));
+
+describe('createTaskStore', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv('CODER_AGENT_TASK_STORE', '');
+    vi.stubEnv('CODER_AGENT_TASK_STORE_PATH', '');
+    vi.stubEnv('CODER_AGENT_TASK_RETENTION_DAYS', '');
+    vi.stubEnv('CODER_AGENT_TASK_MAX_COUNT', '');
+    vi.stubEnv('GCS_BUCKET_NAME', '');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('stores tasks in memory by default', () => {
+    expect(createTaskStore()).toBeInstanceOf(InMemoryTaskStore);
+  });
+
+  it('stores tasks in GCS when a bucket is configured', () => {
+    vi.stubEnv('GCS_BUCKET_NAME', 'bucket');
+    createTaskStore();
+    expect(GCSTaskStore).toHaveBeenCalledWith('bucket');
+  });
+
+  it('creates a filesystem store with the retention policy', () => {
+    vi.stubEnv('CODER_AGENT_TASK_STORE', 'filesystem');
+    vi.stubEnv('CODER_AGENT_TASK_STORE_PATH', '/var/lib/a2a');
+    vi.stubEnv('CODER_AGENT_TASK_RETENTION_DAYS', '7');
+    vi.stubEnv('CODER_AGENT_TASK_MAX_COUNT', '100');
+    const store = createTaskStore() as FileSystemTaskStore;
+    expect(FileSystemTaskStore).toHaveBeenCalledWith('/var/lib/a2a', {
+      maxAgeMs: 7 * 24 * 60 * 60 * 1000,
+      maxTasks: 100,
+    });
+    expect(store.startPruning).toHaveBeenCalled();
+  });
+
+  it('creates a SQLite store, even when a bucket is configured', () => {
+    vi.stubEnv('CODER_AGENT_TASK_STORE', 'sqlite');
+    vi.stubEnv('CODER_AGENT_TASK_STORE_PATH', '/var/lib/a2a/tasks.db');
+    vi.stubEnv('GCS_BUCKET_NAME', 'bucket');
+    createTaskStore();
+    expect(SQLiteTaskStore).toHaveBeenCalledWith('/var/lib/a2a/tasks.db', {
+      maxAgeMs: undefined,
+      maxTasks: undefined,
+    });
+    expect(GCSTaskStore).not.toHaveBeenCalled();
+  });
+
+  it('rejects unknown stores and invalid retention settings', () => {
+    vi.stubEnv('CODER_AGENT_TASK_STORE', 'redis');
+    expect(() => createTaskStore()).toThrow(
+      'Invalid CODER_AGENT_TASK_STORE "redis"',
+    );
+    vi.stubEnv('CODER_AGENT_TASK_STORE', 'sqlite');
+    vi.stubEnv('CODER_AGENT_TASK_MAX_COUNT', '-1');
+    expect(() => createTaskStore()).toThrow(
+      'CODER_AGENT_TASK_MAX_COUNT must be a positive number, got "-1".',
+    );
+  });
+});
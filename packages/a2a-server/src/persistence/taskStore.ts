@@ -0,0 +1,114 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { join } from 'node:path';
+import { InMemoryTaskStore, type TaskStore } from '@a2a-js/sdk/server';
+import { Storage } from '@google/gemini-cli-core';
+import { logger } from '../utils/logger.js';
+import { GCSTaskStore } from './gcs.js';
+import { FileSystemTaskStore } from './filesystem.js';
+import { SQLiteTaskStore } from './sqlite.js';
+import type { TaskRetentionPolicy } from './retention.js';
+
+const TASK_STORE_KINDS = ['memory', 'gcs', 'filesystem', 'sqlite'] as const;
+
+export type TaskStoreKind = (typeof TASK_STORE_KINDS)[number];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Creates the task store selected by `CODER_AGENT_TASK_STORE`. Without it,
+ * tasks are stored in GCS when `GCS_BUCKET_NAME` is set and in memory
+ * otherwise.
+ *
+ * The filesystem and SQLite stores keep their data at
+ * `CODER_AGENT_TASK_STORE_PATH` (a directory or a database file), and prune
+ * tasks according to `CODER_AGENT_TASK_RETENTION_DAYS` and
+ * `CODER_AGENT_TASK_MAX_COUNT`: at startup, periodically and after saves,
+ * until {@link closeTaskStore}.
+ */
+export function createTaskStore(): TaskStore {
+  const kind = getTaskStoreKind();
+  const bucketName = process.env['GCS_BUCKET_NAME'];
+  const storePath = process.env['CODER_AGENT_TASK_STORE_PATH'];
+
+  switch (kind) {
+    case 'gcs':
+      if (!bucketName) {
+        throw new Error(
+          'GCS_BUCKET_NAME is required when CODER_AGENT_TASK_STORE is "gcs".',
+        );
+      }
+      logger.info(`Using GCSTaskStore with bucket: ${bucketName}`);
+      return new GCSTaskStore(bucketName);
+    case 'filesystem': {
+      const rootDir =
+        storePath ?? join(Storage.getGlobalGeminiDir(), 'a2a-tasks');
+      logger.info(`Using FileSystemTaskStore in: ${rootDir}`);
+      const store = new FileSystemTaskStore(rootDir, getRetentionPolicy());
+      store.startPruning();
+      return store;
+    }
+    case 'sqlite': {
+      const databasePath =
+        storePath ?? join(Storage.getGlobalGeminiDir(), 'a2a-tasks.db');
+      logger.info(`Using SQLiteTaskStore with database: ${databasePath}`);
+      const store = new SQLiteTaskStore(databasePath, getRetentionPolicy());
+      store.startPruning();
+      return store;
+    }
+    default:
+      logger.info('Using InMemoryTaskStore');
+      return new InMemoryTaskStore();
+  }
+}
+
+/**
+ * Stops the pruning of a store created by {@link createTaskStore} and
+ * releases its resources.
+ */
+export function closeTaskStore(store: TaskStore): void {
+  if (
+    store instanceof FileSystemTaskStore ||
+    store instanceof SQLiteTaskStore
+  ) {
+    store.close();
+  }
+}
+
+function getTaskStoreKind(): TaskStoreKind {
+  const kind = process.env['CODER_AGENT_TASK_STORE'];
+  if (!kind) {
+    return process.env['GCS_BUCKET_NAME'] ? 'gcs' : 'memory';
+  }
+  if (!(TASK_STORE_KINDS as readonly string[]).includes(kind)) {
+    throw new Error(
+      `Invalid CODER_AGENT_TASK_STORE "${kind}". Expected one of: ${TASK_STORE_KINDS.join(', ')}.`,
+    );
+  }
+  return kind as TaskStoreKind;
+}
+
+function getRetentionPolicy(): TaskRetentionPolicy {
+  const retentionDays = getPositiveNumber('CODER_AGENT_TASK_RETENTION_DAYS');
+  const maxTasks = getPositiveNumber('CODER_AGENT_TASK_MAX_COUNT');
+  return {
+    maxAgeMs: retentionDays === undefined ? undefined : retentionDays * DAY_MS,
+    maxTasks: maxTasks === undefined ? undefined : Math.floor(maxTasks),
+  };
+}
+
+function getPositiveNumber(name: string): number | undefined {
+  const value = process.env[name];
+  if (!value) {
+    return undefined;
+  }
+  const number = Number(value);
+  if (!Number.isFinite(number) || number <= 0) {
+    throw new Error(`${name} must be a positive number, got "${value}".`);
+  }
+  return number;
+}
@@ -0,0 +1,139 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type express from 'express';
+import type { Task as SDKTask } from '@a2a-js/sdk';
+import { InMemoryTaskStore } from '@a2a-js/sdk/server';
+import { describe, expect, it, vi } from 'vitest';
+
+import { getTaskTenantId, TenantTaskStore } from './tenant.js';
+import { requestStorage } from '../http/requestStorage.js';
+import type { Tenant } from '../config/tenants.js';
+import { CoderAgentEvent, setPersistedState } from '../types.js';
+
+vi.mock('../utils/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+function createTenantTask(id: string, tenantId?: string): SDKTask {
+  return {
+    id,
+    contextId: `${id}-context`,
+    kind: 'task',
+    status: { state: 'submitted' },
+    metadata: setPersistedState(
+      {},
+      {
+        _agentSettings: {
+          kind: CoderAgentEvent.StateAgentSettingsEvent,
+          workspacePath: '/workspace',
+        },
+        _taskState: 'submitted',
+        _tenantId: tenantId,
+      },
+    ),
+  };
+}
+
+function asTenant<T>(tenant: Tenant | undefined, fn: () => T): T {
+  return requestStorage.run({ req: {} as express.Request, tenant }, fn);
+}
+
+describe('getTaskTenantId', () => {
+  it('reads the tenant from the persisted state', () => {
+    expect(getTaskTenantId(createTenantTask('task-1', 'team-a'))).toBe(
+      'team-a',
+    );
+    expect(getTaskTenantId(createTenantTask('task-1'))).toBeUndefined();
+  });
+});
+
+describe('TenantTaskStore', () => {
+  it('only loads tasks of the tenant of the request', async () => {
+    const store = new TenantTaskStore(new InMemoryTaskStore());
+    await store.save(createTenantTask('task-a', 'team-a'));
+
+    expect(
+      await asTenant({ id: 'team-a' }, () => store.load('task-a')),
+    ).toMatchObject({ id: 'task-a' });
+    expect(
+      await asTenant({ id: 'team-b' }, () => store.load('task-a')),
+    ).toBeUndefined();
+    expect(await asTenant(undefined, () => store.load('task-a'))).toBe(
+      undefined,
+    );
+  });
+
+  it('loads tasks without tenant when authentication is off', async () => {
+    const store = new TenantTaskStore(new InMemoryTaskStore());
+    await store.save(createTenantTask('task-1'));
+
+    expect(await store.load('task-1')).toMatchObject({ id: 'task-1' });
+    expect(
+      await asTenant({ id: 'team-a' }, () => store.load('task-1')),
+    ).toBeUndefined();
+  });
+
+  it('checks the owner before restoring a task from a durable store', async () => {
+    const task = createTenantTask('task-a', 'team-a');
+    const realStore = Object.assign(new InMemoryTaskStore(), {
+      list: vi.fn(),
+      loadMetadata: vi.fn().mockResolvedValue(task.metadata),
+      saveMetadata: vi.fn(),
+    });
+    const load = vi.spyOn(realStore, 'load').mockResolvedValue(task);
+    const store = new TenantTaskStore(realStore);
+
+    expect(
+      await asTenant({ id: 'team-b' }, () => store.load('task-a')),
+    ).toBeUndefined();
+    expect(load).not.toHaveBeenCalled();
+    expect(
+      await asTenant({ id: 'team-a' }, () => store.load('task-a')),
+    ).toMatchObject({ id: 'task-a' });
+    expect(load).toHaveBeenCalledWith('task-a');
+  });
+
+  it('only reads the metadata of tasks of the tenant of the request', async () => {
+    const store = new TenantTaskStore(new InMemoryTaskStore());
+    await store.save(createTenantTask('task-a', 'team-a'));
+
+    expect(
+      await asTenant({ id: 'team-a' }, () => store.loadMetadata('task-a')),
+    ).toBeDefined();
+    expect(
+      await asTenant({ id: 'team-b' }, () => store.loadMetadata('task-a')),
+    ).toBeUndefined();
+  });
+
+  it('lists the stored tasks of the tenant of the request', async () => {
+    const list = vi.fn().mockResolvedValue([]);
+    const store = new TenantTaskStore(
+      Object.assign(new InMemoryTaskStore(), {
+        list,
+        loadMetadata: vi.fn(),
+        saveMetadata: vi.fn(),
+      }),
+    );
+
+    await asTenant({ id: 'team-a' }, () => store.list());
+    await store.list();
+
+    expect(list).toHaveBeenNthCalledWith(1, 'team-a');
+    expect(list).toHaveBeenNthCalledWith(2, undefined);
+  });
+
+  it('lists no tasks when the store cannot list them', async () => {
+    const store = new TenantTaskStore(new InMemoryTaskStore());
+    await store.save(createTenantTask('task-1'));
+
+    expect(await store.list()).toEqual([]);
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Task as SDKTask } from '@a2a-js/sdk';
+import type { TaskStore } from '@a2a-js/sdk/server';
+import { logger } from '../utils/logger.js';
+import { getRequestTenant } from '../http/requestStorage.js';
+import {
+  getPersistedState,
+  type PersistedTaskMetadata,
+  type TaskSummary,
+} from '../types.js';
+
+/**
+ * Returns the id of the tenant that owns a task.
+ */
+export function getTaskTenantId(task: SDKTask): string | undefined {
+  return getPersistedState(task.metadata as PersistedTaskMetadata)?._tenantId;
+}
+
+/**
+ * A task store that can read what it holds without restoring workspaces.
+ */
+export interface DurableTaskStore extends TaskStore {
+  /** Lists the tasks of `tenantId`, or those without tenant. */
+  list(tenantId: string | undefined): Promise<TaskSummary[]>;
+  /** Reads the metadata of a task; `undefined` if it is not stored. */
+  loadMetadata(taskId: string): Promise<PersistedTaskMetadata | undefined>;
+  /** Replaces the metadata of a stored task and keeps its workspace. */
+  saveMetadata(taskId: string, metadata: PersistedTaskMetadata): Promise<void>;
+}
+
+export function isDurableTaskStore(
+  store: TaskStore,
+): store is DurableTaskStore {
+  const durableStore = store as Partial<DurableTaskStore>;
+  return (
+    typeof durableStore.list === 'function' &&
+    typeof durableStore.loadMetadata === 'function' &&
+    typeof durableStore.saveMetadata === 'function'
+  );
+}
+
+/**
+ * Hides the tasks of other tenants: loading a task that belongs to another
+ * tenant than the one of the current request behaves as if the task did not
+ * exist. Without authentication, neither side has a tenant and every task
+ * is visible.
+ */
+export class TenantTaskStore implements TaskStore {
+  constructor(private realStore: TaskStore) {}
+
+  async save(task: SDKTask): Promise<void> {
+    return this.realStore.save(task);
+  }
+
+  async load(taskId: string): Promise<SDKTask | undefined> {
+    // Loading from a durable store restores the workspace of the task, so
+    // the owner is checked on the metadata first.
+    if (
+      isDurableTaskStore(this.realStore) &&
+      !this.isVisible(taskId, await this.realStore.loadMetadata(taskId))
+    ) {
+      return undefined;
+    }
+    const task = await this.realStore.load(taskId);
+    return task && this.isVisible(taskId, task.metadata) ? task : undefined;
+  }
+
+  /**
+   * Reads the metadata of a task of the tenant of the current request,
+   * without restoring its workspace.
+   */
+  async loadMetadata(
+    taskId: string,
+  ): Promise<PersistedTaskMetadata | undefined> {
+    const metadata = isDurableTaskStore(this.realStore)
+      ? await this.realStore.loadMetadata(taskId)
+      : ((await this.realStore.load(taskId))?.metadata as
+          | PersistedTaskMetadata
+          | undefined);
+    return this.isVisible(taskId, metadata) ? metadata : undefined;
+  }
+
+  /**
+   * Lists the stored tasks of the tenant of the current request. Stores that
+   * cannot list their tasks return none.
+   */
+  async list(): Promise<TaskSummary[]> {
+    return isDurableTaskStore(this.realStore)
+      ? this.realStore.list(getRequestTenant()?.id)
+      : [];
+  }
+
+  private isVisible(
+    taskId: string,
+    metadata: PersistedTaskMetadata | undefined,
+  ): boolean {
+    if (!metadata) {
+      return false;
+    }
+    const tenantId = getRequestTenant()?.id;
+    if (getPersistedState(metadata)?._tenantId !== tenantId) {
+      logger.warn(
+        `[TenantTaskStore] Task ${taskId} is not visible to tenant ${tenantId}.`,
+      );
+      return false;
+    }
+    return true;
+  }
+}
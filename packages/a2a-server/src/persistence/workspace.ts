@@ -0,0 +1,251 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { gzipSync, gunzipSync } from 'node:zlib';
+import * as tar from 'tar';
+import * as fse from 'fs-extra';
+import { promises as fsPromises } from 'node:fs';
+import { tmpdir } from '@google/gemini-cli-core';
+import { join } from 'node:path';
+import type { Task as SDKTask } from '@a2a-js/sdk';
+import { logger } from '../utils/logger.js';
+import { resolveTargetDir, setTargetDir } from '../config/config.js';
+import {
+  getPersistedState,
+  type PersistedTaskMetadata,
+  type TaskMetadata,
+  type TaskSummary,
+} from '../types.js';
+import { v4 as uuidv4 } from 'uuid';
+
+const getTmpArchiveFilename = (taskId: string): string =>
+  `task-${taskId}-workspace-${uuidv4()}.tar.gz`;
+
+// Validate the taskId to prevent path traversal attacks by ensuring it only contains safe characters.
+const isTaskIdValid = (taskId: string): boolean => {
+  // Allow only alphanumeric characters, dashes, and underscores, and ensure it's not empty.
+  const validTaskIdRegex = /^[a-zA-Z0-9_-]+$/;
+  return validTaskIdRegex.test(taskId);
+};
+
+/**
+ * Throws if `taskId` is not safe to use in a file or object path.
+ */
+export function assertTaskIdValid(taskId: string): void {
+  if (!isTaskIdValid(taskId)) {
+    throw new Error(`Invalid taskId: ${taskId}`);
+  }
+}
+
+export function compressMetadata(
+  metadata: PersistedTaskMetadata | undefined,
+): Buffer {
+  return gzipSync(Buffer.from(JSON.stringify(metadata)));
+}
+
+export function decompressMetadata(
+  compressedMetadata: Buffer,
+): PersistedTaskMetadata {
+  return JSON.parse(gunzipSync(compressedMetadata).toString());
+}
+
+/**
+ * Throws if the metadata of a task to save lacks its persisted state.
+ */
+export function assertPersistedState(task: SDKTask): void {
+  if (!getPersistedState(task.metadata as PersistedTaskMetadata)) {
+    throw new Error(`Task ${task.id} is missing persisted state in metadata.`);
+  }
+}
+
+/**
+ * Runs `fn` with the path of a temporary archive file for a task, and
+ * removes the file afterwards.
+ */
+export async function withTmpArchiveFile<T>(
+  taskId: string,
+  fn: (tmpArchiveFile: string) => Promise<T>,
+): Promise<T> {
+  const tmpArchiveFile = join(tmpdir(), getTmpArchiveFilename(taskId));
+  try {
+    return await fn(tmpArchiveFile);
+  } finally {
+    logger.info(`Cleaning up temporary file: ${tmpArchiveFile}`);
+    try {
+      if (await fse.pathExists(tmpArchiveFile)) {
+        await fse.remove(tmpArchiveFile);
+        logger.info(`Successfully removed temporary file: ${tmpArchiveFile}`);
+      } else {
+        logger.warn(`Temporary file not found for cleanup: ${tmpArchiveFile}`);
+      }
+    } catch (removeError) {
+      logger.error(
+        `Error removing temporary file ${tmpArchiveFile}:`,
+        removeError,
+      );
+    }
+  }
+}
+
+/**
+ * Archives the contents of `workDir` to a temporary tar.gz file and passes
+ * it to `store`. Nothing is archived if the directory is missing or empty.
+ *
+ * @returns Whether an archive was passed to `store`.
+ */
+export async function archiveWorkspace(
+  taskId: string,
+  workDir: string,
+  store: (tmpArchiveFile: string) => Promise<void>,
+): Promise<boolean> {
+  if (!(await fse.pathExists(workDir))) {
+    logger.info(
+      `Workspace directory ${workDir} not found, skipping workspace save for task ${taskId}.`,
+    );
+    return false;
+  }
+  const entries = await fsPromises.readdir(workDir);
+  if (entries.length === 0) {
+    logger.info(
+      `Workspace directory ${workDir} is empty, skipping workspace save for task ${taskId}.`,
+    );
+    return false;
+  }
+  await withTmpArchiveFile(taskId, async (tmpArchiveFile) => {
+    try {
+      await tar.c(
+        {
+          gzip: true,
+          file: tmpArchiveFile,
+          cwd: workDir,
+          portable: true,
+        },
+        entries,
+      );
+
+      if (!(await fse.pathExists(tmpArchiveFile))) {
+        throw new Error(`tar.c command failed to create ${tmpArchiveFile}`);
+      }
+
+      await store(tmpArchiveFile);
+    } catch (error) {
+      logger.error(`Error during workspace save process for ${taskId}:`, error);
+      throw error;
+    }
+  });
+  return true;
+}
+
+/**
+ * Returns the workspace directory of a task to save: the one its agent
+ * settings select, or the current directory for tasks without one.
+ */
+export function getTaskWorkspaceDir(task: SDKTask): string {
+  const persistedState = getPersistedState(
+    task.metadata as PersistedTaskMetadata,
+  );
+  return resolveTargetDir(persistedState?._agentSettings) ?? process.cwd();
+}
+
+/**
+ * Points the server at the workspace of a loaded task and makes sure the
+ * directory exists, so that its archive can be extracted into it.
+ *
+ * @returns The workspace directory.
+ */
+export async function prepareWorkspace(
+  taskId: string,
+  loadedMetadata: PersistedTaskMetadata,
+): Promise<string> {
+  const persistedState = getPersistedState(loadedMetadata);
+  if (!persistedState) {
+    throw new Error(
+      `Loaded metadata for task ${taskId} is missing internal persisted state.`,
+    );
+  }
+  const workDir = setTargetDir(persistedState._agentSettings);
+  await fse.ensureDir(workDir);
+  return workDir;
+}
+
+export async function extractWorkspace(
+  archiveFile: string,
+  workDir: string,
+): Promise<void> {
+  await tar.x({ file: archiveFile, cwd: workDir });
+}
+
+/**
+ * Builds the task handed back by a store from its loaded metadata. History
+ * and artifacts are not persisted.
+ */
+export function toLoadedTask(
+  taskId: string,
+  loadedMetadata: PersistedTaskMetadata,
+): SDKTask {
+  const persistedState = getPersistedState(loadedMetadata)!;
+  return {
+    id: taskId,
+    contextId: (loadedMetadata['_contextId'] as string | undefined) || uuidv4(),
+    kind: 'task',
+    status: {
+      state: persistedState._taskState,
+      timestamp: new Date().toISOString(),
+    },
+    metadata: loadedMetadata,
+    history: [],
+    artifacts: [],
+  };
+}
+
+/**
+ * Builds the summary of a stored task from its metadata, or returns
+ * `undefined` when the task belongs to another tenant than `tenantId`.
+ * `storedAt` stands in for the times that the metadata does not record.
+ */
+export function toStoredTaskSummary(
+  taskId: string,
+  metadata: PersistedTaskMetadata,
+  tenantId: string | undefined,
+  storedAt: number,
+): TaskSummary | undefined {
+  const persistedState = getPersistedState(metadata);
+  if (!persistedState || persistedState._tenantId !== tenantId) {
+    return undefined;
+  }
+  const createdAt =
+    persistedState._createdAt ?? new Date(storedAt).toISOString();
+  const statusEvents = persistedState._statusEvents ?? [];
+  return {
+    id: taskId,
+    contextId: (metadata['_contextId'] as string | undefined) ?? taskId,
+    taskState: persistedState._taskState,
+    createdAt,
+    updatedAt:
+      statusEvents[statusEvents.length - 1]?.status.timestamp ?? createdAt,
+  };
+}
+
+/**
+ * Builds the metadata of a stored task that has no running agent. Its MCP
+ * servers and tools are only known to a running agent, so they are empty.
+ */
+export function toStoredTaskMetadata(
+  taskId: string,
+  metadata: PersistedTaskMetadata,
+): TaskMetadata {
+  const persistedState = getPersistedState(metadata)!;
+  const statusEvents = persistedState._statusEvents ?? [];
+  const lastEventMetadata = statusEvents[statusEvents.length - 1]?.metadata;
+  return {
+    id: taskId,
+    contextId: (metadata['_contextId'] as string | undefined) ?? taskId,
+    taskState: persistedState._taskState,
+    model: (lastEventMetadata?.['model'] as string | undefined) ?? '',
+    mcpServers: [],
+    availableTools: [],
+  };
+}
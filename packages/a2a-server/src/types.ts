@@ -8,7 +8,7 @@ import type {
   MCPServerStatus,
   ToolConfirmationOutcome,
 } from '@google/gemini-cli-core';
-import type { TaskState } from '@a2a-js/sdk';
+import type { TaskState, TaskStatusUpdateEvent } from '@a2a-js/sdk';
 
 // Interfaces and enums for the CoderAgent protocol.
 
@@ -113,9 +113,24 @@ export interface TaskMetadata {
   }>;
 }
 
+export interface TaskSummary {
+  id: string;
+  contextId: string;
+  taskState: TaskState;
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface PersistedStateMetadata {
   _agentSettings: AgentSettings;
   _taskState: TaskState;
+  /** The tenant that owns the task, when the server has tenants. */
+  _tenantId?: string;
+  _createdAt?: string;
+  /** The status updates recorded by the task, for replay. */
+  _statusEvents?: TaskStatusUpdateEvent[];
+  /** How many older status updates were dropped from `_statusEvents`. */
+  _droppedStatusEvents?: number;
 }
 
 export type PersistedTaskMetadata = { [k: string]: unknown };
@@ -6,6 +6,7 @@
 
 import type {
   Task as SDKTask,
+  TaskState,
   TaskStatusUpdateEvent,
   SendStreamingMessageSuccessResponse,
 } from '@a2a-js/sdk';
@@ -21,6 +22,7 @@ import {
 import { createMockMessageBus } from '@google/gemini-cli-core/src/test-utils/mock-message-bus.js';
 import type { Config, Storage } from '@google/gemini-cli-core';
 import { expect, vi } from 'vitest';
+import { CoderAgentEvent, setPersistedState } from '../types.js';
 
 export function createMockConfig(
   overrides: Partial<Config> = {},
@@ -176,3 +178,31 @@ export function assertTaskCreationAndWorkingStatus(
   expect(workingEvent.kind).toBe('status-update');
   expect(workingEvent.status.state).toBe('working');
 }
+
+/**
+ * Creates a task with the persisted state that durable task stores require.
+ */
+export function createPersistedTask(
+  id: string,
+  workspacePath: string,
+  taskState: TaskState = 'input-required',
+  tenantId?: string,
+): SDKTask {
+  return {
+    id,
+    contextId: `${id}-context`,
+    kind: 'task',
+    status: { state: taskState },
+    metadata: setPersistedState(
+      { _contextId: `${id}-context` },
+      {
+        _agentSettings: {
+          kind: CoderAgentEvent.StateAgentSettingsEvent,
+          workspacePath,
+        },
+        _taskState: taskState,
+        ...(tenantId && { _tenantId: tenantId }),
+      },
+    ),
+  };
+}
@@ -7,6 +7,7 @@
 import { AuthType } from '@google/gemini-cli-core';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import { validateAuthMethod } from './auth.js';
+import { loadSettings } from './settings.js';
 
 vi.mock('./settings.js', () => ({
   loadEnvironment: vi.fn(),
@@ -21,6 +22,12 @@ describe('validateAuthMethod', () => {
     vi.stubEnv('GOOGLE_CLOUD_PROJECT', undefined);
     vi.stubEnv('GOOGLE_CLOUD_LOCATION', undefined);
     vi.stubEnv('GOOGLE_API_KEY', undefined);
+    vi.stubEnv('CUSTOM_LLM_ENDPOINT', undefined);
+    vi.stubEnv('CUSTOM_LLM_MODEL_NAME', undefined);
+    vi.stubEnv('ANTHROPIC_MODEL', undefined);
+    vi.stubEnv('ANTHROPIC_API_KEY', undefined);
+    vi.stubEnv('ANTHROPIC_AUTH_TOKEN', undefined);
+    vi.stubEnv('OLLAMA_MODEL', undefined);
   });
 
   afterEach(() => {
@@ -83,6 +90,56 @@ describe('validateAuthMethod', () => {
         '• GOOGLE_API_KEY environment variable (if using express mode).\n' +
         'Update your environment and try again (no reload needed if using .env)!',
     },
+    {
+      description:
+        'should return null for CUSTOM_LLM_API if the legacy environment variables are set',
+      authType: AuthType.CUSTOM_LLM_API,
+      envs: {
+        CUSTOM_LLM_ENDPOINT: 'http://localhost:8000/v1',
+        CUSTOM_LLM_MODEL_NAME: 'qwen',
+      },
+      expected: null,
+    },
+    {
+      description:
+        'should return an error message for CUSTOM_LLM_API if no provider is configured',
+      authType: AuthType.CUSTOM_LLM_API,
+      envs: {},
+      expected:
+        'CUSTOM_LLM_ENDPOINT environment variable not found. Add that to your environment (e.g. .env) and try again!',
+    },
+    {
+      description:
+        'should return null for ANTHROPIC_API if the model and API key are set',
+      authType: AuthType.ANTHROPIC_API,
+      envs: {
+        ANTHROPIC_MODEL: 'claude-sonnet-4-5',
+        ANTHROPIC_API_KEY: 'test-key',
+      },
+      expected: null,
+    },
+    {
+      description:
+        'should return an error message for ANTHROPIC_API if no API key is set',
+      authType: AuthType.ANTHROPIC_API,
+      envs: { ANTHROPIC_MODEL: 'claude-sonnet-4-5' },
+      expected:
+        'ANTHROPIC_API_KEY (or ANTHROPIC_AUTH_TOKEN) environment variable not found. Add that to your environment (e.g. .env) and try again!',
+    },
+    {
+      description: 'should return null for OLLAMA if OLLAMA_MODEL is set',
+      authType: AuthType.OLLAMA,
+      envs: { OLLAMA_MODEL: 'qwen3:8b' },
+      expected: null,
+    },
+    {
+      description:
+        'should return an error message for OLLAMA if no model is set',
+      authType: AuthType.OLLAMA,
+      envs: {},
+      expected:
+        'OLLAMA_MODEL environment variable not found. Add that to your environment (e.g. .env) and try again!',
+    },
     {
       description: 'should return an error message for an invalid auth method',
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -96,4 +153,37 @@ describe('validateAuthMethod', () => {
     }
     expect(validateAuthMethod(authType)).toBe(expected);
   });
+
+  describe('with customLlm.providers configured', () => {
+    const mockSettingsWith = (customLlm: unknown) =>
+      vi.mocked(loadSettings).mockReturnValueOnce({
+        merged: { customLlm },
+      } as unknown as ReturnType<typeof loadSettings>);
+
+    it('should return null when the default provider is complete', () => {
+      mockSettingsWith({
+        provider: 'local',
+        providers: {
+          local: { baseURL: 'http://localhost:8000/v1', model: 'qwen' },
+        },
+      });
+      expect(validateAuthMethod(AuthType.CUSTOM_LLM_API)).toBeNull();
+    });
+
+    it('should report a provider whose API key variable is unset', () => {
+      vi.stubEnv('GATEWAY_KEY', undefined);
+      mockSettingsWith({
+        providers: {
+          gateway: {
+            baseURL: 'https://gateway.example.com/v1',
+            model: 'gpt-4o',
+            apiKeyEnv: 'GATEWAY_KEY',
+          },
+        },
+      });
+      expect(validateAuthMethod(AuthType.CUSTOM_LLM_API)).toBe(
+        'Environment variable GATEWAY_KEY (the API key for custom LLM provider "gateway") is not set.',
+      );
+    });
+  });
 });
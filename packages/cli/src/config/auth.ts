@@ -4,11 +4,18 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { AuthType } from '@google/gemini-cli-core';
+import {
+  AuthType,
+  getErrorMessage,
+  resolveAnthropicConfig,
+  resolveCustomLlmProvider,
+  resolveOllamaConfig,
+} from '@google/gemini-cli-core';
 import { loadEnvironment, loadSettings } from './settings.js';
 
 export function validateAuthMethod(authMethod: string): string | null {
-  loadEnvironment(loadSettings().merged, process.cwd());
+  const settings = loadSettings().merged;
+  loadEnvironment(settings, process.cwd());
   if (
     authMethod === AuthType.LOGIN_WITH_GOOGLE ||
     authMethod === AuthType.COMPUTE_ADC
@@ -43,11 +50,28 @@ export function validateAuthMethod(authMethod: string): string | null {
   }
 
   if (authMethod === AuthType.CUSTOM_LLM_API) {
-    if (!process.env['CUSTOM_LLM_ENDPOINT']) {
-      return 'CUSTOM_LLM_ENDPOINT environment variable not found. Add that to your environment (e.g. .env) and try again!';
+    try {
+      resolveCustomLlmProvider(settings.customLlm);
+    } catch (error) {
+      return getErrorMessage(error);
     }
-    if (!process.env['CUSTOM_LLM_MODEL_NAME']) {
-      return 'CUSTOM_LLM_MODEL_NAME environment variable not found. Add that to your environment (e.g. .env) and try again!';
+    return null;
+  }
+
+  if (authMethod === AuthType.ANTHROPIC_API) {
+    try {
+      resolveAnthropicConfig();
+    } catch (error) {
+      return getErrorMessage(error);
+    }
+    return null;
+  }
+
+  if (authMethod === AuthType.OLLAMA) {
+    try {
+      resolveOllamaConfig();
+    } catch (error) {
+      return getErrorMessage(error);
     }
     return null;
   }
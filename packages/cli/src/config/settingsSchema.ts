@@ -19,6 +19,7 @@ import {
   type AuthType,
   type AgentOverride,
   type CustomTheme,
+  type CustomLlmProviderConfig,
 } from '@google/gemini-cli-core';
 import type { SessionRetentionSettings } from './settings.js';
 import { DEFAULT_MIN_RETENTION } from '../utils/sessionCleanup.js';
@@ -833,6 +834,46 @@ const SETTINGS_SCHEMA = {
     },
   },
 
+  customLlm: {
+    type: 'object',
+    label: 'Custom LLM',
+    category: 'Model',
+    requiresRestart: false,
+    default: {},
+    description: oneLine`
+      OpenAI-compatible providers used when authenticating with a custom LLM.
+      Switch between them for the current session with /provider.
+    `,
+    showInDialog: false,
+    properties: {
+      provider: {
+        type: 'string',
+        label: 'Custom LLM Provider',
+        category: 'Model',
+        requiresRestart: true,
+        default: undefined as string | undefined,
+        description:
+          'Id of the provider in `customLlm.providers` to use by default. When unset, the first configured provider is used.',
+        showInDialog: false,
+      },
+      providers: {
+        type: 'object',
+        label: 'Custom LLM Providers',
+        category: 'Model',
+        requiresRestart: true,
+        default: {} as Record<string, CustomLlmProviderConfig>,
+        description:
+          'OpenAI-compatible backends keyed by provider id. When empty, the `CUSTOM_LLM_*` environment variables are used.',
+        showInDialog: false,
+        mergeStrategy: MergeStrategy.SHALLOW_MERGE,
+        additionalProperties: {
+          type: 'object',
+          ref: 'CustomLlmProvider',
+        },
+      },
+    },
+  },
+
   agents: {
     type: 'object',
     label: 'Agents',
@@ -2099,6 +2140,21 @@ export const SETTINGS_SCHEMA_DEFINITIONS: Record<
             type: 'number',
             description: 'The maximum number of conversational turns.',
           },
+          maxInputTokens: {
+            type: 'number',
+            description:
+              'The maximum number of input tokens, summed over all model calls.',
+          },
+          maxOutputTokens: {
+            type: 'number',
+            description:
+              'The maximum number of output tokens including thoughts, summed over all model calls.',
+          },
+          maxToolCalls: {
+            type: 'number',
+            description:
+              'The maximum number of tool calls, not counting complete_task.',
+          },
         },
       },
       enabled: {
@@ -2107,6 +2163,221 @@ export const SETTINGS_SCHEMA_DEFINITIONS: Record<
       },
     },
   },
+  CustomLlmProvider: {
+    type: 'object',
+    description: 'An OpenAI-compatible backend for custom LLM requests.',
+    additionalProperties: false,
+    properties: {
+      displayName: {
+        type: 'string',
+        description: 'Label shown in the footer and in /provider listings.',
+      },
+      baseURL: {
+        type: 'string',
+        description:
+          'Base URL of the OpenAI-compatible API (for example `http://localhost:8000/v1`).',
+      },
+      apiKeyEnv: {
+        type: 'string',
+        description:
+          'Name of the environment variable that holds the API key for this provider.',
+      },
+      model: {
+        type: 'string',
+        description: 'Default model requested from this provider.',
+      },
+      models: {
+        type: 'object',
+        description:
+          'Models used instead of the default model for particular roles: "pro", "flash" and "flash-lite" (the Gemini models they stand for), "classifier", "summarizer", "compression", "loop-detection", "next-speaker", "edit-fixer", "prompt-completion", or any model config alias. For example {"pro": "qwen-72b", "flash-lite": "qwen-7b"}.',
+        additionalProperties: { type: 'string' },
+      },
+      headers: {
+        type: 'object',
+        description: 'Additional HTTP headers sent with every request.',
+        additionalProperties: { type: 'string' },
+      },
+      wireApi: {
+        type: 'string',
+        description:
+          'API used for generation: Chat Completions ("chat", the default) or Responses ("responses").',
+        enum: ['chat', 'responses'],
+      },
+      timeout: {
+        type: 'number',
+        description:
+          'Time in milliseconds after which a request to the provider is abandoned. Defaults to 10 minutes.',
+      },
+      caCertPath: {
+        type: 'string',
+        description:
+          'Path to a PEM file with the CA certificate that signed the provider TLS certificate.',
+      },
+      parallelToolCalls: {
+        type: 'boolean',
+        description:
+          'Whether the model may return several tool calls in one response (parallel_tool_calls). Left to the provider when unset.',
+      },
+      toolCalling: {
+        type: 'string',
+        description:
+          'How the model calls tools: native function calling ("native", the default) or <tool_call> blocks in its text output ("text"), for models without function calling.',
+        enum: ['native', 'text'],
+      },
+      temperature: {
+        type: 'number',
+        description: 'Sampling temperature.',
+      },
+      maxTokens: {
+        type: 'number',
+        description:
+          'Maximum number of tokens to generate per response. Defaults to 8192, or less when the model cannot generate that many.',
+      },
+      topP: {
+        type: 'number',
+        description: 'Nucleus sampling probability mass.',
+      },
+      unsupportedMedia: {
+        type: 'string',
+        description:
+          'How to handle attachments the provider cannot accept (anything other than PNG, JPEG, WebP or GIF images): replace them with a text placeholder, or fail the request.',
+        enum: ['placeholder', 'error'],
+      },
+      structuredOutput: {
+        type: 'string',
+        description:
+          'How JSON output is requested: as a response_format JSON schema ("json_schema", the default for models with JSON schema support), as JSON mode with the schema in the prompt ("json_object"), or through the prompt alone ("none"). Responses are validated against the schema and repaired when they do not match.',
+        enum: ['json_schema', 'json_object', 'none'],
+      },
+      reasoning: {
+        type: 'object',
+        description:
+          'How reasoning (thinking) output from the provider is handled.',
+        additionalProperties: false,
+        properties: {
+          history: {
+            type: 'string',
+            description:
+              'Whether reasoning from earlier turns is sent back to the provider as reasoning_content ("send") or dropped ("strip").',
+            enum: ['send', 'strip'],
+          },
+          control: {
+            type: 'string',
+            description:
+              'How the thinking budget is passed to the provider: as reasoning_effort, as chat_template_kwargs.enable_thinking, or not at all.',
+            enum: ['none', 'reasoning_effort', 'enable_thinking'],
+          },
+        },
+      },
+      messages: {
+        type: 'object',
+        description:
+          'How chat messages are shaped for servers with strict chat templates.',
+        additionalProperties: false,
+        properties: {
+          systemPrompt: {
+            type: 'string',
+            description:
+              'Where the system prompt is sent: as a system message ("system", the default) or at the start of the first user message ("user"), for chat templates that reject the system role.',
+            enum: ['system', 'user'],
+          },
+          mergeConsecutive: {
+            type: 'boolean',
+            description:
+              'Merge consecutive messages of the same role into one, for chat templates that require user and assistant turns to alternate.',
+          },
+        },
+      },
+      promptCache: {
+        type: 'object',
+        description:
+          'How requests are shaped so that the provider can reuse its cached prompt prefix.',
+        additionalProperties: false,
+        properties: {
+          stablePrefix: {
+            type: 'boolean',
+            description:
+              'Send tools sorted by name so that the prompt prefix stays the same across requests. Defaults to true.',
+          },
+          cacheControl: {
+            type: 'boolean',
+            description:
+              'Mark the system prompt and the latest message as cache breakpoints with Anthropic-style cache_control, for gateways that support them (LiteLLM, OpenRouter). Chat Completions only.',
+          },
+          cacheKey: {
+            type: 'boolean',
+            description:
+              'Send the session ID as prompt_cache_key, which OpenAI uses to route requests with the same prefix to the same cache.',
+          },
+          sessionHeader: {
+            type: 'string',
+            description:
+              'Header that carries the session ID, for load balancers that keep a session on the replica holding its cached prefix.',
+          },
+        },
+      },
+      contextWindow: {
+        type: 'number',
+        description:
+          'Context window of the model in tokens. Used to decide when to compress the chat. Defaults to the window of a well-known model, or 131072.',
+      },
+      capabilities: {
+        type: 'object',
+        description:
+          'What the model supports. Unset values come from the built-in profile of well-known models (GPT, o-series, Qwen, DeepSeek, Gemma) and default to supported for other models.',
+        additionalProperties: false,
+        properties: {
+          maxOutputTokens: {
+            type: 'number',
+            description:
+              'Largest number of tokens the model can generate in one response.',
+          },
+          vision: {
+            type: 'boolean',
+            description:
+              'Whether the model accepts images. Without vision, images are replaced by placeholders and file tools do not offer to read images.',
+          },
+          tools: {
+            type: 'boolean',
+            description:
+              'Whether the model supports function calling. Without it, no tools are sent to the provider.',
+          },
+          reasoning: {
+            type: 'boolean',
+            description:
+              'Whether the model produces reasoning. Without it, no thoughts are requested.',
+          },
+          jsonSchema: {
+            type: 'boolean',
+            description:
+              'Whether the provider accepts a json_schema response format. Without it, structuredOutput defaults to "json_object".',
+          },
+        },
+      },
+      tokenizer: {
+        type: 'string',
+        description:
+          'Tokenizer used to count tokens: "auto" picks a bundled encoding from the model name, or use a specific encoding or the rough word-based heuristic.',
+        enum: ['auto', 'cl100k_base', 'o200k_base', 'heuristic'],
+      },
+      tokenizeURL: {
+        type: 'string',
+        description:
+          'Tokenize endpoint of the server (vLLM, SGLang or llama.cpp), e.g. http://localhost:8000/tokenize. Used with tokenizer "auto" for models without a bundled encoding.',
+      },
+      embeddingModel: {
+        type: 'string',
+        description:
+          "Model used for requests to the provider's /embeddings endpoint. Embeddings are unavailable without one.",
+      },
+      embeddingBatchSize: {
+        type: 'number',
+        description:
+          'Maximum number of texts sent in one embeddings request. Defaults to 32.',
+      },
+    },
+    required: ['baseURL', 'model'],
+  },
   CustomTheme: {
     type: 'object',
     description:
@@ -43,6 +43,7 @@ import { permissionsCommand } from '../ui/commands/permissionsCommand.js';
 import { privacyCommand } from '../ui/commands/privacyCommand.js';
 import { policiesCommand } from '../ui/commands/policiesCommand.js';
 import { profileCommand } from '../ui/commands/profileCommand.js';
+import { providerCommand } from '../ui/commands/providerCommand.js';
 import { quitCommand } from '../ui/commands/quitCommand.js';
 import { restoreCommand } from '../ui/commands/restoreCommand.js';
 import { resumeCommand } from '../ui/commands/resumeCommand.js';
@@ -145,6 +146,7 @@ export class BuiltinCommandLoader implements ICommandLoader {
       privacyCommand,
       policiesCommand,
       ...(isDevelopment ? [profileCommand] : []),
+      providerCommand,
       quitCommand,
       restoreCommand(this.config),
       resumeCommand,
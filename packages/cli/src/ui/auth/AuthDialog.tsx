@@ -81,6 +81,16 @@ export function AuthDialog({
       value: AuthType.CUSTOM_LLM_API,
       key: AuthType.CUSTOM_LLM_API,
     },
+    {
+      label: 'Use Anthropic Messages API',
+      value: AuthType.ANTHROPIC_API,
+      key: AuthType.ANTHROPIC_API,
+    },
+    {
+      label: 'Use Ollama',
+      value: AuthType.OLLAMA,
+      key: AuthType.OLLAMA,
+    },
   ];
 
   if (settings.merged.security.auth.enforcedType) {
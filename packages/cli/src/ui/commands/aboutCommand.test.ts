@@ -40,6 +40,7 @@ describe('aboutCommand', () => {
           getModel: vi.fn(),
           getIdeMode: vi.fn().mockReturnValue(true),
           getUserTierName: vi.fn().mockReturnValue(undefined),
+          getCustomLlmModelRoles: vi.fn().mockReturnValue(undefined),
         },
         settings: {
           merged: {
@@ -175,4 +176,25 @@ describe('aboutCommand', () => {
       }),
     );
   });
+
+  it('should display the models serving each custom LLM role', async () => {
+    vi.mocked(
+      mockContext.services.config!.getCustomLlmModelRoles,
+    ).mockReturnValue([
+      { role: 'pro', model: 'qwen-72b' },
+      { role: 'flash-lite', model: 'qwen-7b' },
+      { role: 'summarizer', model: 'qwen-7b' },
+    ]);
+    if (!aboutCommand.action) {
+      throw new Error('The about command must have an action.');
+    }
+
+    await aboutCommand.action(mockContext, '');
+
+    expect(mockContext.ui.addItem).toHaveBeenCalledWith(
+      expect.objectContaining({
+        modelRoles: ['qwen-72b (pro)', 'qwen-7b (flash-lite, summarizer)'],
+      }),
+    );
+  });
 });
@@ -8,6 +8,7 @@ import type { CommandContext, SlashCommand } from './types.js';
 import { CommandKind } from './types.js';
 import process from 'node:process';
 import { MessageType, type HistoryItemAbout } from '../types.js';
+import { formatModelRoles } from '../utils/formatters.js';
 import {
   IdeClient,
   UserAccountManager,
@@ -45,6 +46,7 @@ export const aboutCommand: SlashCommand = {
     const userEmail = cachedAccount ?? undefined;
 
     const tier = context.services.config?.getUserTierName();
+    const modelRoles = context.services.config?.getCustomLlmModelRoles();
 
     const aboutItem: Omit<HistoryItemAbout, 'id'> = {
       type: MessageType.ABOUT,
@@ -57,6 +59,7 @@ export const aboutCommand: SlashCommand = {
       ideClient,
       userEmail,
       tier,
+      modelRoles: modelRoles ? formatModelRoles(modelRoles) : undefined,
     };
 
     context.ui.addItem(aboutItem);
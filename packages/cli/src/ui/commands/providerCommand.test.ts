@@ -0,0 +1,121 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { AuthType, type Config } from '@google/gemini-cli-core';
+import { providerCommand } from './providerCommand.js';
+import { type CommandContext } from './types.js';
+import { createMockCommandContext } from '../../test-utils/mockCommandContext.js';
+
+describe('providerCommand', () => {
+  let mockContext: CommandContext;
+  let mockConfig: {
+    getCustomLlmSettings: ReturnType<typeof vi.fn>;
+    getActiveCustomLlmProvider: ReturnType<typeof vi.fn>;
+    getContentGeneratorConfig: ReturnType<typeof vi.fn>;
+    setCustomLlmProvider: ReturnType<typeof vi.fn>;
+    getModel: ReturnType<typeof vi.fn>;
+  };
+
+  beforeEach(() => {
+    mockConfig = {
+      getCustomLlmSettings: vi.fn().mockReturnValue({
+        provider: 'local',
+        providers: {
+          local: { baseURL: 'http://localhost:8000/v1', model: 'qwen' },
+          gateway: {
+            displayName: 'Team Gateway',
+            baseURL: 'https://gateway.example.com/v1',
+            model: 'gpt-4o',
+          },
+        },
+      }),
+      getActiveCustomLlmProvider: vi.fn().mockReturnValue({ id: 'local' }),
+      getContentGeneratorConfig: vi
+        .fn()
+        .mockReturnValue({ authType: AuthType.CUSTOM_LLM_API }),
+      setCustomLlmProvider: vi.fn().mockResolvedValue(undefined),
+      getModel: vi.fn().mockReturnValue('gpt-4o'),
+    };
+    mockContext = createMockCommandContext({
+      services: { config: mockConfig as unknown as Config },
+    });
+  });
+
+  it('should list configured providers and mark the active one', async () => {
+    const result = await providerCommand.action!(mockContext, '');
+
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'info',
+      content:
+        'Custom LLM providers:\n' +
+        '* local: qwen @ http://localhost:8000/v1\n' +
+        '  gateway (Team Gateway): gpt-4o @ https://gateway.example.com/v1',
+    });
+  });
+
+  it('should explain how to configure providers when none exist', async () => {
+    mockConfig.getCustomLlmSettings.mockReturnValue({});
+
+    const result = await providerCommand.action!(mockContext, '');
+
+    expect(result).toMatchObject({
+      messageType: 'info',
+      content: expect.stringContaining('customLlm.providers'),
+    });
+  });
+
+  it('should switch to the requested provider', async () => {
+    const result = await providerCommand.action!(mockContext, ' gateway ');
+
+    expect(mockConfig.setCustomLlmProvider).toHaveBeenCalledWith('gateway');
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'info',
+      content: "Switched to custom LLM provider 'gateway' (model: gpt-4o).",
+    });
+  });
+
+  it('should not switch when the provider is already active', async () => {
+    const result = await providerCommand.action!(mockContext, 'local');
+
+    expect(mockConfig.setCustomLlmProvider).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ messageType: 'info' });
+  });
+
+  it('should report errors from switching', async () => {
+    mockConfig.setCustomLlmProvider.mockRejectedValue(
+      new Error('Unknown custom LLM provider "nope".'),
+    );
+
+    const result = await providerCommand.action!(mockContext, 'nope');
+
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'error',
+      content:
+        'Failed to switch custom LLM provider: Unknown custom LLM provider "nope".',
+    });
+  });
+
+  it('should refuse to switch when not using custom LLM auth', async () => {
+    mockConfig.getContentGeneratorConfig.mockReturnValue({
+      authType: AuthType.USE_GEMINI,
+    });
+
+    const result = await providerCommand.action!(mockContext, 'gateway');
+
+    expect(mockConfig.setCustomLlmProvider).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ messageType: 'error' });
+  });
+
+  it('should complete provider ids', async () => {
+    const completions = await providerCommand.completion!(mockContext, 'ga');
+
+    expect(completions).toEqual(['gateway']);
+  });
+});
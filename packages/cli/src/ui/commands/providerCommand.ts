@@ -0,0 +1,103 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  AuthType,
+  getCustomLlmProviderIds,
+  getErrorMessage,
+  type MessageActionReturn,
+} from '@google/gemini-cli-core';
+import type { CommandContext, SlashCommand } from './types.js';
+import { CommandKind } from './types.js';
+
+function listProviders(context: CommandContext): MessageActionReturn {
+  const { config } = context.services;
+  const providers = config?.getCustomLlmSettings().providers ?? {};
+  const ids = Object.keys(providers);
+  if (ids.length === 0) {
+    return {
+      type: 'message',
+      messageType: 'info',
+      content:
+        'No custom LLM providers configured. Add them under "customLlm.providers" in settings.json.',
+    };
+  }
+
+  const activeId = config?.getActiveCustomLlmProvider()?.id;
+  const lines = ids.map((id) => {
+    const { displayName, model, baseURL } = providers[id];
+    const marker = id === activeId ? '*' : ' ';
+    const label = displayName && displayName !== id ? ` (${displayName})` : '';
+    return `${marker} ${id}${label}: ${model ?? '<no model>'} @ ${baseURL ?? '<no baseURL>'}`;
+  });
+  return {
+    type: 'message',
+    messageType: 'info',
+    content: `Custom LLM providers:\n${lines.join('\n')}`,
+  };
+}
+
+export const providerCommand: SlashCommand = {
+  name: 'provider',
+  description:
+    'List custom LLM providers or switch provider for this session. Usage: /provider [id]',
+  kind: CommandKind.BUILT_IN,
+  autoExecute: false,
+  action: async (context, args): Promise<MessageActionReturn> => {
+    const { config } = context.services;
+    if (!config) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: 'Config not loaded.',
+      };
+    }
+
+    const providerId = args.trim();
+    if (!providerId) {
+      return listProviders(context);
+    }
+
+    if (
+      config.getContentGeneratorConfig()?.authType !== AuthType.CUSTOM_LLM_API
+    ) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content:
+          'Switching providers requires custom LLM authentication. Select it with /auth first.',
+      };
+    }
+
+    if (config.getActiveCustomLlmProvider()?.id === providerId) {
+      return {
+        type: 'message',
+        messageType: 'info',
+        content: `Already using custom LLM provider '${providerId}'.`,
+      };
+    }
+
+    try {
+      await config.setCustomLlmProvider(providerId);
+    } catch (error) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: `Failed to switch custom LLM provider: ${getErrorMessage(error)}`,
+      };
+    }
+
+    return {
+      type: 'message',
+      messageType: 'info',
+      content: `Switched to custom LLM provider '${providerId}' (model: ${config.getModel()}).`,
+    };
+  },
+  completion: async (context, partialArg) =>
+    getCustomLlmProviderIds(
+      context.services.config?.getCustomLlmSettings(),
+    ).filter((id) => id.startsWith(partialArg)),
+};
@@ -48,6 +48,18 @@ describe('AboutBox', () => {
     expect(output).toContain(value);
   });
 
+  it('renders the models serving custom LLM roles', () => {
+    const props = {
+      ...defaultProps,
+      modelRoles: ['qwen-72b (pro)', 'qwen-7b (flash-lite, summarizer)'],
+    };
+    const { lastFrame } = renderWithProviders(<AboutBox {...props} />);
+    const output = lastFrame();
+    expect(output).toContain('Model Roles');
+    expect(output).toContain('qwen-72b (pro)');
+    expect(output).toContain('qwen-7b (flash-lite, summarizer)');
+  });
+
   it('renders Auth Method with email when userEmail is provided', () => {
     const props = { ...defaultProps, userEmail: 'test@example.com' };
     const { lastFrame } = renderWithProviders(<AboutBox {...props} />);
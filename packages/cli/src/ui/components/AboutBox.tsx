@@ -20,6 +20,7 @@ interface AboutBoxProps {
   ideClient: string;
   userEmail?: string;
   tier?: string;
+  modelRoles?: string[];
 }
 
 export const AboutBox: React.FC<AboutBoxProps> = ({
@@ -32,6 +33,7 @@ export const AboutBox: React.FC<AboutBoxProps> = ({
   ideClient,
   userEmail,
   tier,
+  modelRoles,
 }) => {
   const settings = useSettings();
   const showUserIdentity = settings.merged.ui.showUserIdentity;
@@ -82,6 +84,22 @@ export const AboutBox: React.FC<AboutBoxProps> = ({
           <Text color={theme.text.primary}>{modelVersion}</Text>
         </Box>
       </Box>
+      {modelRoles && modelRoles.length > 0 && (
+        <Box flexDirection="row">
+          <Box width="35%">
+            <Text bold color={theme.text.link}>
+              Model Roles
+            </Text>
+          </Box>
+          <Box flexDirection="column">
+            {modelRoles.map((line) => (
+              <Text key={line} color={theme.text.primary}>
+                {line}
+              </Text>
+            ))}
+          </Box>
+        </Box>
+      )}
       <Box flexDirection="row">
         <Box width="35%">
           <Text bold color={theme.text.link}>
@@ -5,6 +5,7 @@
  */
 
 import { Box, Text } from 'ink';
+import { AuthType } from '@google/gemini-cli-core';
 import { IdeIntegrationNudge } from '../IdeIntegrationNudge.js';
 import { LoopDetectionConfirmation } from './LoopDetectionConfirmation.js';
 import { FolderTrustDialog } from './FolderTrustDialog.js';
@@ -23,6 +24,7 @@ import { RELAUNCH_EXIT_CODE } from '../../utils/processUtils.js';
 import { SessionBrowser } from './SessionBrowser.js';
 import { PermissionsModifyTrustDialog } from './PermissionsModifyTrustDialog.js';
 import { ModelDialog } from './ModelDialog.js';
+import { OllamaModelDialog } from './OllamaModelDialog.js';
 import { theme } from '../semantic-colors.js';
 import { useUIState } from '../contexts/UIStateContext.js';
 import { useUIActions } from '../contexts/UIActionsContext.js';
@@ -186,6 +188,9 @@ export const DialogManager = ({
     );
   }
   if (uiState.isModelDialogOpen) {
+    if (config.getContentGeneratorConfig()?.authType === AuthType.OLLAMA) {
+      return <OllamaModelDialog onClose={uiActions.closeModelDialog} />;
+    }
     return <ModelDialog onClose={uiActions.closeModelDialog} />;
   }
   if (
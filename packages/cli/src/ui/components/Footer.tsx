@@ -73,12 +73,17 @@ export const Footer: React.FC = () => {
 
   const showDebugProfiler = debugMode || isDevelopment;
 
+  const activeCustomProvider = config.getActiveCustomLlmProvider();
   const useCustomLLM =
-    process.env['USE_CUSTOM_LLM'] &&
-    process.env['USE_CUSTOM_LLM'] !== 'false';
+    !!activeCustomProvider ||
+    (process.env['USE_CUSTOM_LLM'] &&
+      process.env['USE_CUSTOM_LLM'] !== 'false');
   const customModelName =
-    process.env['CUSTOM_LLM_MODEL_NAME']?.trim() || model;
-  const customProvider = process.env['CUSTOM_LLM_PROVIDER']?.trim();
+    activeCustomProvider?.model ??
+    (process.env['CUSTOM_LLM_MODEL_NAME']?.trim() || model);
+  const customProvider = activeCustomProvider
+    ? activeCustomProvider.displayName
+    : process.env['CUSTOM_LLM_PROVIDER']?.trim();
   const displayModelLabel = useCustomLLM
     ? `${customModelName}${customProvider ? ` (${customProvider})` : ''}`
     : getDisplayString(model, config.getPreviewFeatures());
@@ -113,6 +113,7 @@ export const HistoryItemDisplay: React.FC<HistoryItemDisplayProps> = ({
           ideClient={itemForDisplay.ideClient}
           userEmail={itemForDisplay.userEmail}
           tier={itemForDisplay.tier}
+          modelRoles={itemForDisplay.modelRoles}
         />
       )}
       {itemForDisplay.type === 'help' && commands && (
@@ -45,12 +45,16 @@ describe('<ModelDialog />', () => {
   const mockGetPreviewFeatures = vi.fn();
   const mockOnClose = vi.fn();
   const mockGetHasAccessToPreviewModel = vi.fn();
+  const mockGetCustomLlmModelRoles = vi.fn();
 
   interface MockConfig extends Partial<Config> {
     setModel: (model: string, isTemporary?: boolean) => void;
     getModel: () => string;
     getPreviewFeatures: () => boolean;
     getHasAccessToPreviewModel: () => boolean;
+    getCustomLlmModelRoles: () =>
+      | Array<{ role: string; model: string }>
+      | undefined;
   }
 
   const mockConfig: MockConfig = {
@@ -58,6 +62,7 @@ describe('<ModelDialog />', () => {
     getModel: mockGetModel,
     getPreviewFeatures: mockGetPreviewFeatures,
     getHasAccessToPreviewModel: mockGetHasAccessToPreviewModel,
+    getCustomLlmModelRoles: mockGetCustomLlmModelRoles,
   };
 
   beforeEach(() => {
@@ -101,6 +106,18 @@ describe('<ModelDialog />', () => {
     expect(lastFrame()).toContain('Auto (Preview)');
   });
 
+  it('lists the models serving each custom LLM role', () => {
+    mockGetCustomLlmModelRoles.mockReturnValue([
+      { role: 'pro', model: 'qwen-72b' },
+      { role: 'flash', model: 'qwen-72b' },
+      { role: 'summarizer', model: 'local-8b' },
+    ]);
+    const { lastFrame } = renderComponent();
+    expect(lastFrame()).toContain('Custom LLM models by role:');
+    expect(lastFrame()).toContain('qwen-72b (pro, flash)');
+    expect(lastFrame()).toContain('local-8b (summarizer)');
+  });
+
   it('switches to "manual" view when "Manual" is selected', async () => {
     const { lastFrame, stdin } = renderComponent();
 
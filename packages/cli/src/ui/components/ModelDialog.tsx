@@ -24,6 +24,7 @@ import { theme } from '../semantic-colors.js';
 import { DescriptiveRadioButtonSelect } from './shared/DescriptiveRadioButtonSelect.js';
 import { ConfigContext } from '../contexts/ConfigContext.js';
 import { ThemedGradient } from './ThemedGradient.js';
+import { formatModelRoles } from '../utils/formatters.js';
 
 interface ModelDialogProps {
   onClose: () => void;
@@ -40,6 +41,13 @@ export function ModelDialog({ onClose }: ModelDialogProps): React.JSX.Element {
   const shouldShowPreviewModels =
     config?.getPreviewFeatures() && config.getHasAccessToPreviewModel();
 
+  // With a custom LLM provider, Gemini models only name the roles that the
+  // provider's models serve.
+  const modelRoles = useMemo(() => {
+    const roles = config?.getCustomLlmModelRoles();
+    return roles ? formatModelRoles(roles) : undefined;
+  }, [config]);
+
   const manualModelSelected = useMemo(() => {
     const manualModels = [
       DEFAULT_GEMINI_MODEL,
@@ -219,6 +227,16 @@ export function ModelDialog({ onClose }: ModelDialogProps): React.JSX.Element {
           showNumbers={true}
         />
       </Box>
+      {modelRoles && (
+        <Box marginTop={1} flexDirection="column">
+          <Text color={theme.text.primary}>Custom LLM models by role:</Text>
+          {modelRoles.map((line) => (
+            <Text key={line} color={theme.text.secondary}>
+              {`  ${line}`}
+            </Text>
+          ))}
+        </Box>
+      )}
       <Box marginTop={1} flexDirection="column">
         <Box>
           <Text color={theme.text.primary}>
@@ -0,0 +1,163 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { render } from 'ink-testing-library';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { OllamaModelDialog } from './OllamaModelDialog.js';
+import { ConfigContext } from '../contexts/ConfigContext.js';
+import { KeypressProvider } from '../contexts/KeypressContext.js';
+import type { Config, OllamaPullProgress } from '@google/gemini-cli-core';
+
+const mockListOllamaModels = vi.fn();
+const mockPullOllamaModel = vi.fn();
+
+vi.mock('@google/gemini-cli-core', async () => {
+  const actual = await vi.importActual('@google/gemini-cli-core');
+  return {
+    ...actual,
+    listOllamaModels: (host: string) => mockListOllamaModels(host),
+    pullOllamaModel: (
+      host: string,
+      model: string,
+      onProgress: (progress: OllamaPullProgress) => void,
+    ) => mockPullOllamaModel(host, model, onProgress),
+  };
+});
+
+describe('<OllamaModelDialog />', () => {
+  const mockOnClose = vi.fn();
+  const mockGetModel = vi.fn();
+  const mockSetOllamaModel = vi.fn();
+
+  const mockConfig = {
+    getModel: mockGetModel,
+    setOllamaModel: mockSetOllamaModel,
+    getContentGeneratorConfig: () => ({
+      ollama: { host: 'http://localhost:11434' },
+    }),
+  } as unknown as Config;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    mockGetModel.mockReturnValue('qwen3:8b');
+    mockSetOllamaModel.mockResolvedValue(undefined);
+  });
+
+  const renderComponent = () =>
+    render(
+      <KeypressProvider>
+        <ConfigContext.Provider value={mockConfig}>
+          <OllamaModelDialog onClose={mockOnClose} />
+        </ConfigContext.Provider>
+      </KeypressProvider>,
+    );
+
+  const waitForUpdate = () =>
+    new Promise((resolve) => setTimeout(resolve, 150));
+
+  it('lists the installed models', async () => {
+    mockListOllamaModels.mockResolvedValue([
+      {
+        name: 'qwen3:8b',
+        size: 5_200_000_000,
+        details: { parameter_size: '8.2B', quantization_level: 'Q4_K_M' },
+      },
+      { name: 'llama3.2' },
+    ]);
+
+    const { lastFrame } = renderComponent();
+    await waitForUpdate();
+
+    expect(mockListOllamaModels).toHaveBeenCalledWith('http://localhost:11434');
+    expect(lastFrame()).toContain('Select Ollama Model');
+    expect(lastFrame()).toContain('qwen3:8b');
+    expect(lastFrame()).toContain('8.2B · Q4_K_M · 4.84 GB');
+    expect(lastFrame()).toContain('llama3.2');
+    expect(lastFrame()).not.toContain('Pull');
+  });
+
+  it('switches to the selected model and closes', async () => {
+    mockListOllamaModels.mockResolvedValue([
+      { name: 'qwen3:8b' },
+      { name: 'llama3.2' },
+    ]);
+
+    const { stdin } = renderComponent();
+    await waitForUpdate();
+    stdin.write('\u001B[B'); // Arrow Down
+    await waitForUpdate();
+    stdin.write('\r');
+    await waitForUpdate();
+
+    expect(mockSetOllamaModel).toHaveBeenCalledWith('llama3.2');
+    expect(mockOnClose).toHaveBeenCalled();
+  });
+
+  it('pulls a missing model with progress and reloads the list', async () => {
+    mockListOllamaModels
+      .mockResolvedValueOnce([{ name: 'llama3.2' }])
+      .mockResolvedValueOnce([{ name: 'llama3.2' }, { name: 'qwen3:8b' }]);
+    let finishPull: () => void = () => {};
+    mockPullOllamaModel.mockImplementation(
+      (
+        _host: string,
+        _model: string,
+        onProgress: (progress: OllamaPullProgress) => void,
+      ) => {
+        onProgress({
+          status: 'pulling manifest',
+        });
+        onProgress({
+          status: 'downloading',
+          total: 1_000_000,
+          completed: 250_000,
+        });
+        return new Promise<void>((resolve) => {
+          finishPull = resolve;
+        });
+      },
+    );
+
+    const { lastFrame, stdin } = renderComponent();
+    await waitForUpdate();
+    expect(lastFrame()).toContain('Pull qwen3:8b');
+
+    stdin.write('\r');
+    await waitForUpdate();
+    expect(mockPullOllamaModel).toHaveBeenCalledWith(
+      'http://localhost:11434',
+      'qwen3:8b',
+      expect.any(Function),
+    );
+    expect(lastFrame()).toContain('downloading 25%');
+
+    finishPull();
+    await waitForUpdate();
+    expect(mockListOllamaModels).toHaveBeenCalledTimes(2);
+    expect(lastFrame()).not.toContain('Pull qwen3:8b');
+    expect(mockSetOllamaModel).not.toHaveBeenCalled();
+  });
+
+  it('shows errors from the server', async () => {
+    mockListOllamaModels.mockRejectedValue(new Error('connection refused'));
+
+    const { lastFrame } = renderComponent();
+    await waitForUpdate();
+
+    expect(lastFrame()).toContain('connection refused');
+  });
+
+  it('closes on escape', async () => {
+    mockListOllamaModels.mockResolvedValue([]);
+
+    const { stdin } = renderComponent();
+    await waitForUpdate();
+    stdin.write('\u001B');
+    await waitForUpdate();
+
+    expect(mockOnClose).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type React from 'react';
+import { useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { Box, Text } from 'ink';
+import {
+  getErrorMessage,
+  listOllamaModels,
+  pullOllamaModel,
+  type OllamaModel,
+  type OllamaPullProgress,
+} from '@google/gemini-cli-core';
+import { useKeypress } from '../hooks/useKeypress.js';
+import { theme } from '../semantic-colors.js';
+import { DescriptiveRadioButtonSelect } from './shared/DescriptiveRadioButtonSelect.js';
+import { ConfigContext } from '../contexts/ConfigContext.js';
+import { formatBytes } from '../utils/formatters.js';
+
+const PULL_PREFIX = 'pull:';
+
+interface OllamaModelDialogProps {
+  onClose: () => void;
+}
+
+function describeModel(model: OllamaModel): string | undefined {
+  const details = [
+    model.details?.parameter_size,
+    model.details?.quantization_level,
+    model.size ? formatBytes(model.size) : undefined,
+  ].filter(Boolean);
+  return details.length > 0 ? details.join(' · ') : undefined;
+}
+
+function formatProgress(progress: OllamaPullProgress): string {
+  if (progress.total && progress.completed !== undefined) {
+    const percent = Math.floor((progress.completed / progress.total) * 100);
+    return `${progress.status} ${percent}% (${formatBytes(progress.completed)} / ${formatBytes(progress.total)})`;
+  }
+  return progress.status;
+}
+
+/**
+ * Model picker shown by /model when the session uses Ollama. Lists the models
+ * installed on the server and offers to pull the configured model when it is
+ * missing.
+ */
+export function OllamaModelDialog({
+  onClose,
+}: OllamaModelDialogProps): React.JSX.Element {
+  const config = useContext(ConfigContext);
+  const host = config?.getContentGeneratorConfig()?.ollama?.host;
+  const currentModel = config?.getModel() ?? '';
+  const [models, setModels] = useState<OllamaModel[] | undefined>(undefined);
+  const [error, setError] = useState<string | undefined>(undefined);
+  const [progress, setProgress] = useState<string | undefined>(undefined);
+  const [reloadCount, setReloadCount] = useState(0);
+  const pullController = useRef<AbortController | undefined>(undefined);
+
+  useEffect(() => {
+    if (!host) {
+      return;
+    }
+    const controller = new AbortController();
+    listOllamaModels(host, controller.signal).then(
+      (result) => setModels(result),
+      (err: unknown) => {
+        if (!controller.signal.aborted) {
+          setError(getErrorMessage(err));
+          setModels([]);
+        }
+      },
+    );
+    return () => controller.abort();
+  }, [host, reloadCount]);
+
+  useEffect(() => () => pullController.current?.abort(), []);
+
+  useKeypress(
+    (key) => {
+      if (key.name === 'escape') {
+        if (pullController.current) {
+          pullController.current.abort();
+        } else {
+          onClose();
+        }
+        return true;
+      }
+      return false;
+    },
+    { isActive: true },
+  );
+
+  const pull = useCallback(
+    async (model: string) => {
+      if (!host) {
+        return;
+      }
+      const controller = new AbortController();
+      pullController.current = controller;
+      setError(undefined);
+      setProgress(`Pulling ${model}...`);
+      try {
+        await pullOllamaModel(
+          host,
+          model,
+          (update) => setProgress(formatProgress(update)),
+          controller.signal,
+        );
+        setReloadCount((count) => count + 1);
+      } catch (err) {
+        setError(
+          controller.signal.aborted
+            ? `Pulling ${model} was cancelled.`
+            : getErrorMessage(err),
+        );
+      } finally {
+        pullController.current = undefined;
+        setProgress(undefined);
+      }
+    },
+    [host],
+  );
+
+  const handleSelect = useCallback(
+    async (value: string) => {
+      if (value.startsWith(PULL_PREFIX)) {
+        await pull(value.slice(PULL_PREFIX.length));
+        return;
+      }
+      try {
+        await config?.setOllamaModel(value);
+        onClose();
+      } catch (err) {
+        setError(getErrorMessage(err));
+      }
+    },
+    [config, onClose, pull],
+  );
+
+  const options = (models ?? []).map((model) => ({
+    value: model.name,
+    title: model.name,
+    description: describeModel(model),
+    key: model.name,
+  }));
+  if (
+    models &&
+    currentModel &&
+    !models.some((model) => model.name === currentModel)
+  ) {
+    options.unshift({
+      value: `${PULL_PREFIX}${currentModel}`,
+      title: `Pull ${currentModel}`,
+      description: 'The current model is not installed on the Ollama server',
+      key: `${PULL_PREFIX}${currentModel}`,
+    });
+  }
+  const initialIndex = Math.max(
+    options.findIndex((option) => option.value === currentModel),
+    0,
+  );
+
+  let body: React.JSX.Element;
+  if (!host) {
+    body = <Text color={theme.status.error}>Ollama is not configured.</Text>;
+  } else if (progress) {
+    body = (
+      <Box flexDirection="column">
+        <Text>{progress}</Text>
+        <Text color={theme.text.secondary}>(Press Esc to cancel)</Text>
+      </Box>
+    );
+  } else if (!models) {
+    body = <Text color={theme.text.secondary}>Loading models...</Text>;
+  } else if (options.length === 0) {
+    body = (
+      <Text color={theme.text.secondary}>
+        No models are installed on {host}.
+      </Text>
+    );
+  } else {
+    body = (
+      <DescriptiveRadioButtonSelect
+        items={options}
+        onSelect={handleSelect}
+        initialIndex={initialIndex}
+        showNumbers={true}
+        showScrollArrows={true}
+      />
+    );
+  }
+
+  return (
+    <Box
+      borderStyle="round"
+      borderColor={theme.border.default}
+      flexDirection="column"
+      padding={1}
+      width="100%"
+    >
+      <Text bold>Select Ollama Model</Text>
+      <Box marginTop={1} flexDirection="column">
+        {body}
+      </Box>
+      {error && (
+        <Box marginTop={1}>
+          <Text color={theme.status.error}>{error}</Text>
+        </Box>
+      )}
+      <Box marginTop={1} flexDirection="column">
+        <Text color={theme.text.secondary}>(Press Esc to close)</Text>
+      </Box>
+    </Box>
+  );
+}
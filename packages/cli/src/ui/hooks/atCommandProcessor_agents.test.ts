@@ -70,6 +70,7 @@ describe('handleAtCommand with Agents', () => {
       getFileService: () => new FileDiscoveryService(testRootDir),
       getFileFilteringRespectGitIgnore: () => true,
       getFileFilteringRespectGeminiIgnore: () => true,
+      getModelCapabilities: () => undefined,
       getFileFilteringOptions: () => ({
         respectGitIgnore: true,
         respectGeminiIgnore: true,
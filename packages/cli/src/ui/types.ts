@@ -146,6 +146,8 @@ export type HistoryItemAbout = HistoryItemBase & {
   ideClient: string;
   userEmail?: string;
   tier?: string;
+  /** Models serving each role of a custom LLM provider, one line per model. */
+  modelRoles?: string[];
 };
 
 export type HistoryItemHelp = HistoryItemBase & {
@@ -9,6 +9,7 @@ import {
   formatDuration,
   formatBytes,
   formatTimeAgo,
+  formatModelRoles,
   stripReferenceContent,
 } from './formatters.js';
 
@@ -163,4 +164,16 @@ describe('formatters', () => {
       expect(stripReferenceContent(text)).toBe('Start\nMiddle\nEnd');
     });
   });
+
+  describe('formatModelRoles', () => {
+    it('should group roles by the model that serves them', () => {
+      expect(
+        formatModelRoles([
+          { role: 'pro', model: 'qwen-72b' },
+          { role: 'flash-lite', model: 'qwen-7b' },
+          { role: 'compression', model: 'qwen-72b' },
+        ]),
+      ).toEqual(['qwen-72b (pro, compression)', 'qwen-7b (flash-lite)']);
+    });
+  });
 });
@@ -97,3 +97,19 @@ export function stripReferenceContent(text: string): string {
 
   return text.replace(pattern, '').trim();
 }
+
+/**
+ * Formats the models serving each role of a custom LLM provider as one line
+ * per model, e.g. "qwen-72b (pro, flash)", in order of first appearance.
+ */
+export function formatModelRoles(
+  roles: Array<{ role: string; model: string }>,
+): string[] {
+  const rolesByModel = new Map<string, string[]>();
+  for (const { role, model } of roles) {
+    rolesByModel.set(model, [...(rolesByModel.get(model) ?? []), role]);
+  }
+  return [...rolesByModel].map(
+    ([model, modelRoles]) => `${model} (${modelRoles.join(', ')})`,
+  );
+}
@@ -284,6 +284,29 @@ Body`);
       expect(result.modelConfig.model).toBe('auto');
     });
 
+    it('should convert budgets to the run config', () => {
+      const markdown = {
+        kind: 'local' as const,
+        name: 'test-agent',
+        description: 'A test agent',
+        system_prompt: 'You are a test agent.',
+        max_input_tokens: 200000,
+        max_output_tokens: 20000,
+        max_tool_calls: 50,
+      };
+
+      const result = markdownToAgentDefinition(
+        markdown,
+      ) as LocalAgentDefinition;
+      expect(result.runConfig).toEqual({
+        maxTimeMinutes: 5,
+        maxTurns: undefined,
+        maxInputTokens: 200000,
+        maxOutputTokens: 20000,
+        maxToolCalls: 50,
+      });
+    });
+
     it('should convert remote agent definition', () => {
       const markdown = {
         kind: 'remote' as const,
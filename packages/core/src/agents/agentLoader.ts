@@ -33,6 +33,9 @@ interface FrontmatterLocalAgentDefinition
   temperature?: number;
   max_turns?: number;
   timeout_mins?: number;
+  max_input_tokens?: number;
+  max_output_tokens?: number;
+  max_tool_calls?: number;
 }
 
 interface FrontmatterRemoteAgentDefinition
@@ -88,6 +91,9 @@ const localAgentSchema = z
     temperature: z.number().optional(),
     max_turns: z.number().int().positive().optional(),
     timeout_mins: z.number().int().positive().optional(),
+    max_input_tokens: z.number().int().positive().optional(),
+    max_output_tokens: z.number().int().positive().optional(),
+    max_tool_calls: z.number().int().positive().optional(),
   })
   .strict();
 
@@ -292,6 +298,9 @@ export function markdownToAgentDefinition(
     runConfig: {
       maxTurns: markdown.max_turns,
       maxTimeMinutes: markdown.timeout_mins || 5,
+      maxInputTokens: markdown.max_input_tokens,
+      maxOutputTokens: markdown.max_output_tokens,
+      maxToolCalls: markdown.max_tool_calls,
     },
     toolConfig: markdown.tools
       ? {
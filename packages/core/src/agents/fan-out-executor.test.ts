@@ -0,0 +1,203 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { type z } from 'zod';
+import { LocalAgentExecutor } from './local-executor.js';
+import {
+  getInputKeys,
+  runAgentFanOut,
+  type FanOutEvent,
+} from './fan-out-executor.js';
+import {
+  AgentTerminateMode,
+  type AgentInputs,
+  type LocalAgentDefinition,
+  type SubagentActivityEvent,
+} from './types.js';
+import { makeFakeConfig } from '../test-utils/config.js';
+
+vi.mock('./local-executor.js');
+
+const MockLocalAgentExecutor = vi.mocked(LocalAgentExecutor);
+
+const testDefinition: LocalAgentDefinition<z.ZodUnknown> = {
+  kind: 'local',
+  name: 'MockAgent',
+  description: 'A mock agent.',
+  inputConfig: {
+    inputSchema: {
+      type: 'object',
+      properties: { path: { type: 'string' } },
+      required: ['path'],
+    },
+  },
+  modelConfig: { model: 'test' },
+  runConfig: { maxTimeMinutes: 1 },
+  promptConfig: { systemPrompt: 'test' },
+};
+
+/**
+ * Makes each executor run until it is released, reporting a thought first.
+ */
+function mockExecutors() {
+  const running: Array<{ inputs: AgentInputs; release: () => void }> = [];
+  let maxRunning = 0;
+  MockLocalAgentExecutor.create.mockImplementation(
+    async (_definition, _config, onActivity) =>
+      ({
+        run: vi.fn(async (inputs: AgentInputs) => {
+          onActivity?.({
+            isSubagentActivityEvent: true,
+            agentName: 'MockAgent',
+            type: 'THOUGHT_CHUNK',
+            data: { text: `Reading ${inputs['path']}` },
+          } as SubagentActivityEvent);
+          await new Promise<void>((resolve) => {
+            running.push({ inputs, release: resolve });
+            maxRunning = Math.max(maxRunning, running.length);
+          });
+          if (inputs['path'] === 'broken') {
+            throw new Error('Model unavailable');
+          }
+          return {
+            result: `Summary of ${inputs['path']}`,
+            terminate_reason: AgentTerminateMode.GOAL,
+          };
+        }),
+      }) as unknown as LocalAgentExecutor<z.ZodTypeAny>,
+  );
+  return {
+    running,
+    getMaxRunning: () => maxRunning,
+    /** Finishes the oldest running child and lets the pool move on. */
+    async releaseNext() {
+      await vi.waitFor(() => expect(running.length).toBeGreaterThan(0));
+      running.shift()!.release();
+    },
+  };
+}
+
+describe('runAgentFanOut', () => {
+  const config = makeFakeConfig();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('runs every input with at most maxConcurrency children at a time', async () => {
+    const executors = mockExecutors();
+    const inputsList = ['a', 'b', 'c'].map((path) => ({ path }));
+
+    const promise = runAgentFanOut(testDefinition, config, inputsList, {
+      maxConcurrency: 2,
+      signal: new AbortController().signal,
+    });
+    for (let i = 0; i < inputsList.length; i++) {
+      await executors.releaseNext();
+    }
+    const results = await promise;
+
+    expect(executors.getMaxRunning()).toBe(2);
+    expect(MockLocalAgentExecutor.create).toHaveBeenCalledTimes(3);
+    expect(results).toEqual([
+      {
+        key: 'a',
+        inputs: { path: 'a' },
+        result: 'Summary of a',
+        terminate_reason: AgentTerminateMode.GOAL,
+      },
+      {
+        key: 'b',
+        inputs: { path: 'b' },
+        result: 'Summary of b',
+        terminate_reason: AgentTerminateMode.GOAL,
+      },
+      {
+        key: 'c',
+        inputs: { path: 'c' },
+        result: 'Summary of c',
+        terminate_reason: AgentTerminateMode.GOAL,
+      },
+    ]);
+  });
+
+  it('reports the failure of one child without stopping the others', async () => {
+    const executors = mockExecutors();
+    const events: FanOutEvent[] = [];
+
+    const promise = runAgentFanOut(
+      testDefinition,
+      config,
+      [{ path: 'broken' }, { path: 'b' }],
+      {
+        maxConcurrency: 2,
+        signal: new AbortController().signal,
+        onEvent: (event) => events.push(event),
+      },
+    );
+    await executors.releaseNext();
+    await executors.releaseNext();
+    const results = await promise;
+
+    expect(results.map((result) => result.terminate_reason)).toEqual([
+      AgentTerminateMode.ERROR,
+      AgentTerminateMode.GOAL,
+    ]);
+    expect(results[0].result).toBe('Agent failed: Model unavailable');
+    expect(events.map(({ type, index }) => `${type}:${index}`)).toEqual([
+      'START:0',
+      'START:1',
+      'ACTIVITY:0',
+      'ACTIVITY:1',
+      'FINISH:0',
+      'FINISH:1',
+    ]);
+  });
+
+  it('does not start queued children once aborted', async () => {
+    const executors = mockExecutors();
+    const controller = new AbortController();
+
+    const promise = runAgentFanOut(
+      testDefinition,
+      config,
+      [{ path: 'a' }, { path: 'b' }],
+      { maxConcurrency: 1, signal: controller.signal },
+    );
+    controller.abort();
+    await executors.releaseNext();
+    const results = await promise;
+
+    expect(MockLocalAgentExecutor.create).toHaveBeenCalledTimes(1);
+    expect(results[1]).toEqual({
+      key: 'b',
+      inputs: { path: 'b' },
+      result: 'Agent was not started because the fan-out was aborted.',
+      terminate_reason: AgentTerminateMode.ABORTED,
+    });
+  });
+});
+
+describe('getInputKeys', () => {
+  it('names inputs by their single string value or their JSON', () => {
+    expect(
+      getInputKeys([
+        { path: 'src' },
+        { path: 'src', depth: 2 },
+        { count: 3 },
+        { path: 'src' },
+        { path: 'src (2)' },
+      ]),
+    ).toEqual([
+      'src',
+      '{"path":"src","depth":2}',
+      '{"count":3}',
+      'src (2)',
+      'src (2) (2)',
+    ]);
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Config } from '../config/config.js';
+import { getErrorMessage } from '../utils/errors.js';
+import { LocalAgentExecutor } from './local-executor.js';
+import {
+  AgentTerminateMode,
+  type AgentInputs,
+  type LocalAgentDefinition,
+  type OutputObject,
+  type SubagentActivityEvent,
+} from './types.js';
+
+/**
+ * The outcome of one agent run in a fan-out.
+ */
+export interface FanOutChildResult extends OutputObject {
+  /** Identifies the input of the run in the aggregate. */
+  key: string;
+  inputs: AgentInputs;
+}
+
+/**
+ * Progress of a fan-out, reported per child by the index of its input.
+ */
+export type FanOutEvent =
+  | { type: 'START'; index: number }
+  | { type: 'ACTIVITY'; index: number; activity: SubagentActivityEvent }
+  | { type: 'FINISH'; index: number; result: FanOutChildResult };
+
+export interface FanOutOptions {
+  /** How many children may run at the same time. */
+  maxConcurrency: number;
+  signal: AbortSignal;
+  onEvent?: (event: FanOutEvent) => void;
+}
+
+/**
+ * Runs a local agent once for each of `inputsList`, with at most
+ * `maxConcurrency` runs at a time. Every run gets its own executor and so
+ * its own history and tool registry. A run that fails does not stop the
+ * others; its error is reported as its result.
+ *
+ * @returns The results in the order of `inputsList`.
+ */
+export async function runAgentFanOut(
+  definition: LocalAgentDefinition,
+  config: Config,
+  inputsList: AgentInputs[],
+  { maxConcurrency, signal, onEvent }: FanOutOptions,
+): Promise<FanOutChildResult[]> {
+  const keys = getInputKeys(inputsList);
+  const results: FanOutChildResult[] = [];
+  let nextIndex = 0;
+
+  const runChild = async (index: number): Promise<OutputObject> => {
+    if (signal.aborted) {
+      return {
+        result: 'Agent was not started because the fan-out was aborted.',
+        terminate_reason: AgentTerminateMode.ABORTED,
+      };
+    }
+    try {
+      const executor = await LocalAgentExecutor.create(
+        definition,
+        config,
+        (activity) => onEvent?.({ type: 'ACTIVITY', index, activity }),
+      );
+      return await executor.run(inputsList[index], signal);
+    } catch (error) {
+      return {
+        result: `Agent failed: ${getErrorMessage(error)}`,
+        terminate_reason: signal.aborted
+          ? AgentTerminateMode.ABORTED
+          : AgentTerminateMode.ERROR,
+      };
+    }
+  };
+
+  const worker = async () => {
+    while (nextIndex < inputsList.length) {
+      const index = nextIndex++;
+      onEvent?.({ type: 'START', index });
+      const output = await runChild(index);
+      const result = { key: keys[index], inputs: inputsList[index], ...output };
+      results[index] = result;
+      onEvent?.({ type: 'FINISH', index, result });
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(maxConcurrency, inputsList.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results;
+}
+
+/**
+ * Names each input for the aggregate. An input with a single string value
+ * is named by that value, any other input by its JSON. Repeated names get a
+ * ` (2)`, ` (3)`, ... suffix.
+ */
+export function getInputKeys(inputsList: AgentInputs[]): string[] {
+  const usedKeys = new Set<string>();
+  return inputsList.map((inputs) => {
+    const values = Object.values(inputs);
+    const baseKey =
+      values.length === 1 && typeof values[0] === 'string'
+        ? values[0]
+        : JSON.stringify(inputs);
+    let key = baseKey;
+    for (let count = 2; usedKeys.has(key); count++) {
+      key = `${baseKey} (${count})`;
+    }
+    usedKeys.add(key);
+    return key;
+  });
+}
@@ -0,0 +1,172 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { type z } from 'zod';
+import { LocalAgentExecutor } from './local-executor.js';
+import { AgentFanOutTool } from './fan-out-tool.js';
+import {
+  AgentTerminateMode,
+  type AgentInputs,
+  type LocalAgentDefinition,
+  type SubagentActivityEvent,
+} from './types.js';
+import { makeFakeConfig } from '../test-utils/config.js';
+import { createMockMessageBus } from '../test-utils/mock-message-bus.js';
+
+vi.mock('./local-executor.js');
+
+const MockLocalAgentExecutor = vi.mocked(LocalAgentExecutor);
+
+const testDefinition: LocalAgentDefinition<z.ZodUnknown> = {
+  kind: 'local',
+  name: 'MockAgent',
+  description: 'A mock agent.',
+  inputConfig: {
+    inputSchema: {
+      type: 'object',
+      properties: { path: { type: 'string' } },
+      required: ['path'],
+    },
+  },
+  modelConfig: { model: 'test' },
+  runConfig: { maxTimeMinutes: 1 },
+  promptConfig: { systemPrompt: 'test' },
+};
+
+describe('AgentFanOutTool', () => {
+  let tool: AgentFanOutTool;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    tool = new AgentFanOutTool(
+      [testDefinition],
+      makeFakeConfig(),
+      createMockMessageBus(),
+    );
+    MockLocalAgentExecutor.create.mockImplementation(
+      async (_definition, _config, onActivity) =>
+        ({
+          run: vi.fn(async (inputs: AgentInputs) => {
+            onActivity?.({
+              isSubagentActivityEvent: true,
+              agentName: 'MockAgent',
+              type: 'TOOL_CALL_START',
+              data: { name: 'read_file', args: {} },
+            } as SubagentActivityEvent);
+            return inputs['path'] === 'docs'
+              ? {
+                  result: 'Ran out of turns.',
+                  terminate_reason: AgentTerminateMode.MAX_TURNS,
+                }
+              : {
+                  result: `Summary of ${inputs['path']}`,
+                  terminate_reason: AgentTerminateMode.GOAL,
+                };
+          }),
+        }) as unknown as LocalAgentExecutor<z.ZodTypeAny>,
+    );
+  });
+
+  it('rejects agents it was not given', () => {
+    expect(() =>
+      tool.build({ agent_name: 'other', inputs: [{ path: 'src' }] }),
+    ).toThrow();
+  });
+
+  it('rejects inputs that do not match the input schema of the agent', () => {
+    expect(() =>
+      tool.build({
+        agent_name: 'MockAgent',
+        inputs: [{ path: 'src' }, { dir: 'docs' }],
+      }),
+    ).toThrow(/Input 2 is invalid for agent 'MockAgent'/);
+  });
+
+  it('streams grouped progress and returns the results keyed by input', async () => {
+    const updateOutput = vi.fn();
+    const invocation = tool.build({
+      agent_name: 'MockAgent',
+      inputs: [{ path: 'src' }, { path: 'docs' }],
+      max_concurrency: 1,
+    });
+
+    const result = await invocation.execute(
+      new AbortController().signal,
+      updateOutput,
+    );
+
+    expect(updateOutput).toHaveBeenCalledWith(
+      "Subagent 'MockAgent' on 2 inputs: 0 done, 0 running, 2 queued\n\n- ⏳ src: queued\n- ⏳ docs: queued\n",
+    );
+    expect(updateOutput).toHaveBeenCalledWith(
+      "Subagent 'MockAgent' on 2 inputs: 1 done, 1 running, 0 queued\n\n- ✅ src: GOAL\n- 🤖 docs: 🔧 read_file\n",
+    );
+    expect(updateOutput).toHaveBeenLastCalledWith(
+      "Subagent 'MockAgent' on 2 inputs: 2 done, 0 running, 0 queued\n\n- ✅ src: GOAL\n- ❌ docs: MAX_TURNS\n",
+    );
+    expect(result.llmContent).toEqual([
+      {
+        text: `Subagent 'MockAgent' finished on 2 inputs.
+Results by input:
+${JSON.stringify(
+  {
+    src: { terminate_reason: 'GOAL', result: 'Summary of src' },
+    docs: { terminate_reason: 'MAX_TURNS', result: 'Ran out of turns.' },
+  },
+  null,
+  2,
+)}`,
+      },
+    ]);
+    expect(result.returnDisplay).toContain(
+      '### docs\n\nTermination Reason: MAX_TURNS\n\nRan out of turns.',
+    );
+  });
+
+  it('shows the budget usage of running agents', async () => {
+    MockLocalAgentExecutor.create.mockImplementation(
+      async (_definition, _config, onActivity) =>
+        ({
+          run: vi.fn(async () => {
+            onActivity?.({
+              isSubagentActivityEvent: true,
+              agentName: 'MockAgent',
+              type: 'TOOL_CALL_START',
+              data: { name: 'read_file', args: {} },
+            } as SubagentActivityEvent);
+            onActivity?.({
+              isSubagentActivityEvent: true,
+              agentName: 'MockAgent',
+              type: 'BUDGET_UPDATE',
+              data: {
+                inputTokens: 1200,
+                outputTokens: 80,
+                toolCalls: 1,
+                maxInputTokens: 10000,
+                maxToolCalls: 5,
+              },
+            } as SubagentActivityEvent);
+            return {
+              result: 'Done',
+              terminate_reason: AgentTerminateMode.GOAL,
+            };
+          }),
+        }) as unknown as LocalAgentExecutor<z.ZodTypeAny>,
+    );
+    const updateOutput = vi.fn();
+    const invocation = tool.build({
+      agent_name: 'MockAgent',
+      inputs: [{ path: 'src' }],
+    });
+
+    await invocation.execute(new AbortController().signal, updateOutput);
+
+    expect(updateOutput).toHaveBeenCalledWith(
+      "Subagent 'MockAgent' on 1 inputs: 0 done, 1 running, 0 queued\n\n- 🤖 src: 🔧 read_file (📊 Budget used: 1200/10000 input tokens, 1/5 tool calls)\n",
+    );
+  });
+});
@@ -0,0 +1,295 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  BaseDeclarativeTool,
+  BaseToolInvocation,
+  Kind,
+  type ToolCallConfirmationDetails,
+  type ToolInvocation,
+  type ToolResult,
+} from '../tools/tools.js';
+import type { AnsiOutput } from '../utils/terminalSerializer.js';
+import type { Config } from '../config/config.js';
+import type { MessageBus } from '../confirmation-bus/message-bus.js';
+import { SchemaValidator } from '../utils/schemaValidator.js';
+import {
+  AGENT_FAN_OUT_TOOL_NAME,
+  AgentTerminateMode,
+  type AgentInputs,
+  type LocalAgentDefinition,
+  type SubagentActivityEvent,
+} from './types.js';
+import {
+  getInputKeys,
+  runAgentFanOut,
+  type FanOutChildResult,
+  type FanOutEvent,
+} from './fan-out-executor.js';
+import { formatBudgetUpdate } from './utils.js';
+
+export const DEFAULT_FAN_OUT_CONCURRENCY = 4;
+export const MAX_FAN_OUT_CONCURRENCY = 8;
+export const MAX_FAN_OUT_INPUTS = 20;
+
+const KEY_PREVIEW_MAX_LENGTH = 60;
+const ACTIVITY_PREVIEW_MAX_LENGTH = 80;
+
+export interface AgentFanOutParams {
+  agent_name: string;
+  inputs: AgentInputs[];
+  max_concurrency?: number;
+}
+
+/**
+ * Runs one local agent over a list of inputs in parallel and returns the
+ * results of all runs keyed by input.
+ */
+export class AgentFanOutTool extends BaseDeclarativeTool<
+  AgentFanOutParams,
+  ToolResult
+> {
+  /**
+   * @param definitions The local agents that can be fanned out.
+   */
+  constructor(
+    private readonly definitions: LocalAgentDefinition[],
+    private readonly config: Config,
+    messageBus: MessageBus,
+  ) {
+    const agentNames = definitions.map((definition) => definition.name);
+    super(
+      AGENT_FAN_OUT_TOOL_NAME,
+      'Fan Out Agent',
+      `Runs one agent several times in parallel, once for each input, and returns the results of all runs keyed by input. Use it to apply the same task to many independent items, such as each package of a repository, instead of calling the agent once per item. Each run has its own history and does not see the others. Agents that can be fanned out: ${agentNames.join(', ')}.`,
+      Kind.Think,
+      {
+        type: 'object',
+        properties: {
+          agent_name: {
+            type: 'string',
+            enum: agentNames,
+            description: 'The name of the agent to run.',
+          },
+          inputs: {
+            type: 'array',
+            minItems: 1,
+            maxItems: MAX_FAN_OUT_INPUTS,
+            items: { type: 'object' },
+            description:
+              'One input object for each run. Each must match the parameters of the agent tool with the same name.',
+          },
+          max_concurrency: {
+            type: 'integer',
+            minimum: 1,
+            maximum: MAX_FAN_OUT_CONCURRENCY,
+            description: `How many runs may happen at the same time. Defaults to ${DEFAULT_FAN_OUT_CONCURRENCY}.`,
+          },
+        },
+        required: ['agent_name', 'inputs'],
+      },
+      messageBus,
+      /* isOutputMarkdown */ true,
+      /* canUpdateOutput */ true,
+    );
+  }
+
+  protected override validateToolParamValues(
+    params: AgentFanOutParams,
+  ): string | null {
+    const definition = this.getDefinition(params.agent_name);
+    if (!definition) {
+      return `Agent '${params.agent_name}' cannot be fanned out.`;
+    }
+    for (const [index, inputs] of params.inputs.entries()) {
+      const error = SchemaValidator.validate(
+        definition.inputConfig.inputSchema,
+        inputs,
+      );
+      if (error) {
+        return `Input ${index + 1} is invalid for agent '${definition.name}': ${error}. Input schema: ${JSON.stringify(definition.inputConfig.inputSchema)}.`;
+      }
+    }
+    return null;
+  }
+
+  protected createInvocation(
+    params: AgentFanOutParams,
+    messageBus: MessageBus,
+    _toolName?: string,
+    _toolDisplayName?: string,
+  ): ToolInvocation<AgentFanOutParams, ToolResult> {
+    return new AgentFanOutInvocation(
+      params,
+      this.getDefinition(params.agent_name)!,
+      this.config,
+      messageBus,
+      _toolName,
+      _toolDisplayName,
+    );
+  }
+
+  private getDefinition(name: string): LocalAgentDefinition | undefined {
+    return this.definitions.find((definition) => definition.name === name);
+  }
+}
+
+interface ChildState {
+  key: string;
+  status: 'queued' | 'running' | 'done';
+  lastActivity?: string;
+  /** The latest budget usage, for agents whose run config sets budgets. */
+  budget?: string;
+  terminateReason?: AgentTerminateMode;
+}
+
+class AgentFanOutInvocation extends BaseToolInvocation<
+  AgentFanOutParams,
+  ToolResult
+> {
+  constructor(
+    params: AgentFanOutParams,
+    private readonly definition: LocalAgentDefinition,
+    private readonly config: Config,
+    messageBus: MessageBus,
+    _toolName?: string,
+    _toolDisplayName?: string,
+  ) {
+    super(params, messageBus, _toolName, _toolDisplayName);
+  }
+
+  getDescription(): string {
+    return `Running subagent '${this.definition.name}' on ${this.params.inputs.length} inputs`;
+  }
+
+  override async shouldConfirmExecute(
+    _abortSignal: AbortSignal,
+  ): Promise<ToolCallConfirmationDetails | false> {
+    // As with a single local agent, the tool calls of the runs ask for
+    // confirmation themselves.
+    return false;
+  }
+
+  async execute(
+    signal: AbortSignal,
+    updateOutput?: (output: string | AnsiOutput) => void,
+  ): Promise<ToolResult> {
+    const children: ChildState[] = getInputKeys(this.params.inputs).map(
+      (key) => ({ key, status: 'queued' }),
+    );
+    updateOutput?.(this.renderProgress(children));
+
+    const onEvent = (event: FanOutEvent): void => {
+      const child = children[event.index];
+      if (event.type === 'START') {
+        child.status = 'running';
+      } else if (event.type === 'FINISH') {
+        child.status = 'done';
+        child.terminateReason = event.result.terminate_reason;
+      } else if (event.activity.type === 'BUDGET_UPDATE') {
+        const budget = formatBudgetUpdate(event.activity.data);
+        if (!budget) {
+          return;
+        }
+        child.budget = budget;
+      } else {
+        const summary = summarizeActivity(event.activity);
+        if (!summary) {
+          return;
+        }
+        child.lastActivity = summary;
+      }
+      updateOutput?.(this.renderProgress(children));
+    };
+
+    const results = await runAgentFanOut(
+      this.definition,
+      this.config,
+      this.params.inputs,
+      {
+        maxConcurrency:
+          this.params.max_concurrency ?? DEFAULT_FAN_OUT_CONCURRENCY,
+        signal,
+        onEvent,
+      },
+    );
+
+    return {
+      llmContent: [{ text: this.toLlmContent(results) }],
+      returnDisplay: this.toDisplay(results),
+    };
+  }
+
+  /**
+   * Renders the status of every run, grouped as a list. The whole view is
+   * rendered on each update since live output replaces the previous one.
+   */
+  private renderProgress(children: ChildState[]): string {
+    const count = (status: ChildState['status']) =>
+      children.filter((child) => child.status === status).length;
+    const lines = children.map((child) => {
+      const key = truncate(child.key, KEY_PREVIEW_MAX_LENGTH);
+      switch (child.status) {
+        case 'queued':
+          return `- ⏳ ${key}: queued`;
+        case 'running': {
+          const budget = child.budget ? ` (📊 ${child.budget})` : '';
+          return `- 🤖 ${key}: ${child.lastActivity ?? 'starting...'}${budget}`;
+        }
+        default:
+          return `- ${child.terminateReason === AgentTerminateMode.GOAL ? '✅' : '❌'} ${key}: ${child.terminateReason}`;
+      }
+    });
+    return `Subagent '${this.definition.name}' on ${children.length} inputs: ${count('done')} done, ${count('running')} running, ${count('queued')} queued\n\n${lines.join('\n')}\n`;
+  }
+
+  private toLlmContent(results: FanOutChildResult[]): string {
+    const aggregate = Object.fromEntries(
+      results.map((result) => [
+        result.key,
+        { terminate_reason: result.terminate_reason, result: result.result },
+      ]),
+    );
+    return `Subagent '${this.definition.name}' finished on ${results.length} inputs.
+Results by input:
+${JSON.stringify(aggregate, null, 2)}`;
+  }
+
+  private toDisplay(results: FanOutChildResult[]): string {
+    const sections = results.map(
+      (result) => `### ${result.key}
+
+Termination Reason: ${result.terminate_reason}
+
+${result.result}`,
+    );
+    return `Subagent ${this.definition.name} Finished on ${results.length} Inputs
+
+${sections.join('\n\n')}
+`;
+  }
+}
+
+function summarizeActivity(activity: SubagentActivityEvent): string | null {
+  const { data } = activity;
+  switch (activity.type) {
+    case 'THOUGHT_CHUNK':
+      return typeof data['text'] === 'string'
+        ? `💭 ${truncate(data['text'], ACTIVITY_PREVIEW_MAX_LENGTH)}`
+        : null;
+    case 'TOOL_CALL_START':
+      return `🔧 ${String(data['name'])}`;
+    case 'ERROR':
+      return `⚠️ ${truncate(String(data['error']), ACTIVITY_PREVIEW_MAX_LENGTH)}`;
+    default:
+      return null;
+  }
+}
+
+function truncate(text: string, maxLength: number): string {
+  const line = text.trim().split('\n')[0];
+  return line.length > maxLength ? `${line.slice(0, maxLength - 3)}...` : line;
+}
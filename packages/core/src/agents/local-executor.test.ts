@@ -1946,6 +1946,145 @@ describe('LocalAgentExecutor', () => {
       );
     });
   });
+  describe('run (Budgets)', () => {
+    const mockWorkResponse = (
+      ids: string[],
+      usageMetadata?: GenerateContentResponse['usageMetadata'],
+    ) => {
+      const responseChunk = createMockResponseChunk(
+        [],
+        ids.map((id) => ({ name: LS_TOOL_NAME, args: { path: '.' }, id })),
+      );
+      responseChunk.usageMetadata = usageMetadata;
+      mockSendMessageStream.mockImplementationOnce(async () =>
+        (async function* () {
+          yield {
+            type: StreamEventType.CHUNK,
+            value: responseChunk,
+          } as StreamEvent;
+        })(),
+      );
+      mockScheduleAgentTools.mockImplementationOnce(
+        async (_ctx, requests: ToolCallRequestInfo[]) =>
+          requests.map((request) => ({
+            status: 'success',
+            request,
+            tool: {} as AnyDeclarativeTool,
+            invocation: {} as AnyToolInvocation,
+            response: {
+              callId: request.callId,
+              resultDisplay: 'ok',
+              responseParts: [
+                {
+                  functionResponse: {
+                    name: LS_TOOL_NAME,
+                    response: {},
+                    id: request.callId,
+                  },
+                },
+              ],
+              error: undefined,
+              errorType: undefined,
+              contentLength: undefined,
+            },
+          })),
+      );
+    };
+
+    it('should stop at the token budget and recover during the grace turn', async () => {
+      const definition = createTestDefinition([LS_TOOL_NAME], {
+        maxOutputTokens: 100,
+      });
+      const executor = await LocalAgentExecutor.create(
+        definition,
+        mockConfig,
+        onActivity,
+      );
+
+      mockWorkResponse(['t1'], {
+        promptTokenCount: 50,
+        candidatesTokenCount: 80,
+        thoughtsTokenCount: 30,
+      });
+      mockModelResponse([
+        {
+          name: TASK_COMPLETE_TOOL_NAME,
+          args: { finalResult: 'Partial results' },
+          id: 't2',
+        },
+      ]);
+
+      const output = await executor.run({ goal: 'Budget test' }, signal);
+
+      expect(output).toEqual({
+        result: 'Partial results',
+        terminate_reason: AgentTerminateMode.GOAL,
+      });
+      expect(mockSendMessageStream).toHaveBeenCalledTimes(2);
+      const { message } = getMockMessageParams(1);
+      expect((message as Part[])[0].text).toContain(
+        'You have used up your output token budget (100 tokens). Report the partial results you have so far.',
+      );
+      expect(activities).toContainEqual(
+        expect.objectContaining({
+          type: 'BUDGET_UPDATE',
+          data: {
+            inputTokens: 50,
+            outputTokens: 110,
+            toolCalls: 1,
+            maxInputTokens: undefined,
+            maxOutputTokens: 100,
+            maxToolCalls: undefined,
+          },
+        }),
+      );
+    });
+
+    it('should not run tool calls over the budget and fail if the grace turn does not complete', async () => {
+      const definition = createTestDefinition([LS_TOOL_NAME], {
+        maxToolCalls: 1,
+      });
+      const executor = await LocalAgentExecutor.create(
+        definition,
+        mockConfig,
+        onActivity,
+      );
+
+      mockWorkResponse(['t1', 't2']);
+      mockModelResponse([], 'I give up');
+
+      const output = await executor.run({ goal: 'Budget test' }, signal);
+
+      expect(output).toEqual({
+        result: 'Agent used up its tool call budget (1 calls).',
+        terminate_reason: AgentTerminateMode.BUDGET_EXCEEDED,
+      });
+      const scheduledRequests = mockScheduleAgentTools.mock.calls[0][1];
+      expect(scheduledRequests).toHaveLength(1);
+      expect(scheduledRequests[0].callId).toBe('t1');
+      expect(activities).toContainEqual(
+        expect.objectContaining({
+          type: 'ERROR',
+          data: {
+            context: 'budget_exceeded',
+            name: LS_TOOL_NAME,
+            callId: 't2',
+            error: `Tool call budget of 1 calls is used up, so this call was not run. Call '${TASK_COMPLETE_TOOL_NAME}' with the results you have so far.`,
+          },
+        }),
+      );
+      expect(activities).toContainEqual(
+        expect.objectContaining({
+          type: 'ERROR',
+          data: {
+            error: 'Agent used up its tool call budget (1 calls).',
+            context: 'budget_exceeded',
+          },
+        }),
+      );
+    });
+  });
+
   describe('Telemetry and Logging', () => {
     const mockWorkResponse = (id: string) => {
       mockModelResponse([{ name: LS_TOOL_NAME, args: { path: '.' }, id }]);
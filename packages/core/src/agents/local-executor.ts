@@ -13,6 +13,7 @@ import type {
   Part,
   FunctionCall,
   FunctionDeclaration,
+  GenerateContentResponseUsageMetadata,
   Schema,
 } from '@google/genai';
 import { ToolRegistry } from '../tools/tool-registry.js';
@@ -40,8 +41,13 @@ import type {
   AgentInputs,
   OutputObject,
   SubagentActivityEvent,
+  AgentBudgetUsage,
+} from './types.js';
+import {
+  AGENT_FAN_OUT_TOOL_NAME,
+  AgentTerminateMode,
+  DEFAULT_QUERY_STRING,
 } from './types.js';
-import { AgentTerminateMode, DEFAULT_QUERY_STRING } from './types.js';
 import { templateString } from './utils.js';
 import { DEFAULT_GEMINI_MODEL, isAutoModel } from '../config/models.js';
 import type { RoutingContext } from '../routing/routingStrategy.js';
@@ -92,6 +98,11 @@ export class LocalAgentExecutor<TOutput extends z.ZodTypeAny> {
   private readonly compressionService: ChatCompressionService;
   private readonly parentCallId?: string;
   private hasFailedCompressionAttempt = false;
+  private readonly budgetUsage: AgentBudgetUsage = {
+    inputTokens: 0,
+    outputTokens: 0,
+    toolCalls: 0,
+  };
 
   /**
    * Creates and validates a new `AgentExecutor` instance.
@@ -122,7 +133,7 @@ export class LocalAgentExecutor<TOutput extends z.ZodTypeAny> {
     const registerToolByName = (toolName: string) => {
       // Check if the tool is a subagent to prevent recursion.
       // We do not allow agents to call other agents.
-      if (allAgentNames.has(toolName)) {
+      if (allAgentNames.has(toolName) || toolName === AGENT_FAN_OUT_TOOL_NAME) {
         debugLogger.warn(
           `[LocalAgentExecutor] Skipping subagent tool '${toolName}' for agent '${definition.name}' to prevent recursion.`,
         );
@@ -284,7 +295,8 @@ export class LocalAgentExecutor<TOutput extends z.ZodTypeAny> {
     reason:
       | AgentTerminateMode.TIMEOUT
       | AgentTerminateMode.MAX_TURNS
-      | AgentTerminateMode.ERROR_NO_COMPLETE_TASK_CALL,
+      | AgentTerminateMode.ERROR_NO_COMPLETE_TASK_CALL
+      | AgentTerminateMode.BUDGET_EXCEEDED,
   ): string {
     let explanation = '';
     switch (reason) {
@@ -297,6 +309,9 @@ export class LocalAgentExecutor<TOutput extends z.ZodTypeAny> {
       case AgentTerminateMode.ERROR_NO_COMPLETE_TASK_CALL:
         explanation = 'You have stopped calling tools without finishing.';
         break;
+      case AgentTerminateMode.BUDGET_EXCEEDED:
+        explanation = `You have used up your ${this.getExceededBudget()}. Report the partial results you have so far.`;
+        break;
       default:
         throw new Error(`Unknown terminate reason: ${reason}`);
     }
@@ -315,7 +330,8 @@ export class LocalAgentExecutor<TOutput extends z.ZodTypeAny> {
     reason:
       | AgentTerminateMode.TIMEOUT
       | AgentTerminateMode.MAX_TURNS
-      | AgentTerminateMode.ERROR_NO_COMPLETE_TASK_CALL,
+      | AgentTerminateMode.ERROR_NO_COMPLETE_TASK_CALL
+      | AgentTerminateMode.BUDGET_EXCEEDED,
     externalSignal: AbortSignal, // The original signal passed to run()
   ): Promise<string | null> {
     this.emitActivity('THOUGHT_CHUNK', {
@@ -351,6 +367,7 @@ export class LocalAgentExecutor<TOutput extends z.ZodTypeAny> {
         combinedSignal,
         graceTimeoutController.signal, // Pass grace signal to identify a *grace* timeout
       );
+      this.emitBudgetUpdate();
 
       if (
         turnResult.status === 'stop' &&
@@ -463,6 +480,7 @@ export class LocalAgentExecutor<TOutput extends z.ZodTypeAny> {
           combinedSignal,
           timeoutController.signal,
         );
+        this.emitBudgetUpdate();
 
         if (turnResult.status === 'stop') {
           terminateReason = turnResult.terminateReason;
@@ -510,6 +528,12 @@ export class LocalAgentExecutor<TOutput extends z.ZodTypeAny> {
               error: finalResult,
               context: 'max_turns',
             });
+          } else if (terminateReason === AgentTerminateMode.BUDGET_EXCEEDED) {
+            finalResult = `Agent used up its ${this.getExceededBudget()}.`;
+            this.emitActivity('ERROR', {
+              error: finalResult,
+              context: 'budget_exceeded',
+            });
           } else if (
             terminateReason === AgentTerminateMode.ERROR_NO_COMPLETE_TASK_CALL
           ) {
@@ -683,6 +707,8 @@ export class LocalAgentExecutor<TOutput extends z.ZodTypeAny> {
 
     const functionCalls: FunctionCall[] = [];
     let textResponse = '';
+    // Streamed usage is cumulative, so only the last report counts.
+    let usageMetadata: GenerateContentResponseUsageMetadata | undefined;
 
     for await (const resp of responseStream) {
       if (signal.aborted) break;
@@ -704,6 +730,8 @@ export class LocalAgentExecutor<TOutput extends z.ZodTypeAny> {
           functionCalls.push(...chunk.functionCalls);
         }
 
+        usageMetadata = chunk.usageMetadata ?? usageMetadata;
+
         // Handle text response (non-thought text)
         const text =
           parts
@@ -717,6 +745,13 @@ export class LocalAgentExecutor<TOutput extends z.ZodTypeAny> {
       }
     }
 
+    if (usageMetadata) {
+      this.budgetUsage.inputTokens += usageMetadata.promptTokenCount ?? 0;
+      this.budgetUsage.outputTokens +=
+        (usageMetadata.candidatesTokenCount ?? 0) +
+        (usageMetadata.thoughtsTokenCount ?? 0);
+    }
+
     return { functionCalls, textResponse };
   }
 
@@ -951,6 +986,29 @@ export class LocalAgentExecutor<TOutput extends z.ZodTypeAny> {
         continue;
       }
 
+      const { maxToolCalls } = this.definition.runConfig;
+      if (
+        maxToolCalls !== undefined &&
+        this.budgetUsage.toolCalls >= maxToolCalls
+      ) {
+        const error = `Tool call budget of ${maxToolCalls} calls is used up, so this call was not run. Call '${TASK_COMPLETE_TOOL_NAME}' with the results you have so far.`;
+        syncResults.set(callId, {
+          functionResponse: {
+            name: toolName,
+            id: callId,
+            response: { error },
+          },
+        });
+        this.emitActivity('ERROR', {
+          context: 'budget_exceeded',
+          name: toolName,
+          callId,
+          error,
+        });
+        continue;
+      }
+      this.budgetUsage.toolCalls++;
+
       toolRequests.push({
         callId,
         name: toolName,
@@ -1169,9 +1227,56 @@ Important Rules:
       return AgentTerminateMode.MAX_TURNS;
     }
 
+    if (this.getExceededBudget()) {
+      return AgentTerminateMode.BUDGET_EXCEEDED;
+    }
+
     return null;
   }
 
+  /**
+   * Describes the first budget in the run config that the agent has used up.
+   *
+   * @returns The description, or `null` if every budget has some left.
+   */
+  private getExceededBudget(): string | null {
+    const { maxInputTokens, maxOutputTokens, maxToolCalls } =
+      this.definition.runConfig;
+    const { inputTokens, outputTokens, toolCalls } = this.budgetUsage;
+
+    if (maxInputTokens !== undefined && inputTokens >= maxInputTokens) {
+      return `input token budget (${maxInputTokens} tokens)`;
+    }
+    if (maxOutputTokens !== undefined && outputTokens >= maxOutputTokens) {
+      return `output token budget (${maxOutputTokens} tokens)`;
+    }
+    if (maxToolCalls !== undefined && toolCalls >= maxToolCalls) {
+      return `tool call budget (${maxToolCalls} calls)`;
+    }
+    return null;
+  }
+
+  /**
+   * Reports the budget consumed so far, if the run config sets any budget.
+   */
+  private emitBudgetUpdate(): void {
+    const { maxInputTokens, maxOutputTokens, maxToolCalls } =
+      this.definition.runConfig;
+    if (
+      maxInputTokens === undefined &&
+      maxOutputTokens === undefined &&
+      maxToolCalls === undefined
+    ) {
+      return;
+    }
+    this.emitActivity('BUDGET_UPDATE', {
+      ...this.budgetUsage,
+      maxInputTokens,
+      maxOutputTokens,
+      maxToolCalls,
+    });
+  }
+
   /** Emits an activity event to the configured callback. */
   private emitActivity(
     type: SubagentActivityEvent['type'],
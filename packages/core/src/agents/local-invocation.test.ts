@@ -214,6 +214,34 @@ describe('LocalSubagentInvocation', () => {
       expect(updateOutput).toHaveBeenCalledTimes(3); // Initial message + 2 thoughts
     });
 
+    it('should stream BUDGET_UPDATE activities from the executor', async () => {
+      mockExecutorInstance.run.mockImplementation(async () => {
+        const onActivity = MockLocalAgentExecutor.create.mock.calls[0][2];
+
+        if (onActivity) {
+          onActivity({
+            isSubagentActivityEvent: true,
+            agentName: 'MockAgent',
+            type: 'BUDGET_UPDATE',
+            data: {
+              inputTokens: 50,
+              outputTokens: 110,
+              toolCalls: 1,
+              maxOutputTokens: 100,
+            },
+          } as SubagentActivityEvent);
+        }
+        return { result: 'Done', terminate_reason: AgentTerminateMode.GOAL };
+      });
+
+      await invocation.execute(signal, updateOutput);
+
+      expect(updateOutput).toHaveBeenCalledWith(
+        '🤖📊 Budget used: 110/100 output tokens',
+      );
+      expect(updateOutput).toHaveBeenCalledTimes(2);
+    });
+
     it('should NOT stream other activities (e.g., TOOL_CALL_START, ERROR)', async () => {
       mockExecutorInstance.run.mockImplementation(async () => {
         const onActivity = MockLocalAgentExecutor.create.mock.calls[0][2];
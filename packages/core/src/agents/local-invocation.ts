@@ -6,6 +6,7 @@
 
 import type { Config } from '../config/config.js';
 import { LocalAgentExecutor } from './local-executor.js';
+import { formatBudgetUpdate } from './utils.js';
 import type { AnsiOutput } from '../utils/terminalSerializer.js';
 import { BaseToolInvocation, type ToolResult } from '../tools/tools.js';
 import { ToolErrorType } from '../tools/tool-error.js';
@@ -25,8 +26,8 @@ const DESCRIPTION_MAX_LENGTH = 200;
  * This class orchestrates the execution of a defined agent by:
  * 1. Initializing the {@link LocalAgentExecutor}.
  * 2. Running the agent's execution loop.
- * 3. Bridging the agent's streaming activity (e.g., thoughts) to the tool's
- * live output stream.
+ * 3. Bridging the agent's streaming activity (e.g., thoughts and budget
+ * usage) to the tool's live output stream.
  * 4. Formatting the final result into a {@link ToolResult}.
  */
 export class LocalSubagentInvocation extends BaseToolInvocation<
@@ -98,6 +99,11 @@ export class LocalSubagentInvocation extends BaseToolInvocation<
           typeof activity.data['text'] === 'string'
         ) {
           updateOutput(`🤖💭 ${activity.data['text']}`);
+        } else if (activity.type === 'BUDGET_UPDATE') {
+          const budget = formatBudgetUpdate(activity.data);
+          if (budget) {
+            updateOutput(`🤖📊 ${budget}`);
+          }
         }
       };
 
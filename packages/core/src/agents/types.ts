@@ -24,6 +24,7 @@ export enum AgentTerminateMode {
   MAX_TURNS = 'MAX_TURNS',
   ABORTED = 'ABORTED',
   ERROR_NO_COMPLETE_TASK_CALL = 'ERROR_NO_COMPLETE_TASK_CALL',
+  BUDGET_EXCEEDED = 'BUDGET_EXCEEDED',
 }
 
 /**
@@ -39,6 +40,12 @@ export interface OutputObject {
  */
 export const DEFAULT_QUERY_STRING = 'Get Started!';
 
+/**
+ * The name of the tool that runs one local agent over a list of inputs in
+ * parallel. Like the agent tools themselves, it is not available to agents.
+ */
+export const AGENT_FAN_OUT_TOOL_NAME = 'fan_out_agent';
+
 /**
  * Represents the validated input parameters passed to an agent upon invocation.
  * Used primarily for templating the system prompt. (Replaces ContextState)
@@ -56,10 +63,28 @@ export type RemoteAgentInputs = { query: string };
 export interface SubagentActivityEvent {
   isSubagentActivityEvent: true;
   agentName: string;
-  type: 'TOOL_CALL_START' | 'TOOL_CALL_END' | 'THOUGHT_CHUNK' | 'ERROR';
+  type:
+    | 'TOOL_CALL_START'
+    | 'TOOL_CALL_END'
+    | 'THOUGHT_CHUNK'
+    | 'ERROR'
+    | 'BUDGET_UPDATE';
   data: Record<string, unknown>;
 }
 
+/**
+ * What an agent has consumed of the budgets in its {@link RunConfig}.
+ * Reported in the data of `BUDGET_UPDATE` activity events.
+ */
+export interface AgentBudgetUsage {
+  /** Input tokens, summed over all model calls. */
+  inputTokens: number;
+  /** Output tokens including thoughts, summed over all model calls. */
+  outputTokens: number;
+  /** Tool calls that were run, not counting `complete_task`. */
+  toolCalls: number;
+}
+
 /**
  * The base definition for an agent.
  * @template TOutput The specific Zod schema for the agent's final output object.
@@ -180,4 +205,13 @@ export interface RunConfig {
   maxTimeMinutes: number;
   /** The maximum number of conversational turns. */
   maxTurns?: number;
+  /** The maximum number of input tokens, summed over all model calls. */
+  maxInputTokens?: number;
+  /**
+   * The maximum number of output tokens including thoughts, summed over all
+   * model calls.
+   */
+  maxOutputTokens?: number;
+  /** The maximum number of tool calls, not counting `complete_task`. */
+  maxToolCalls?: number;
 }
@@ -5,7 +5,7 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { templateString } from './utils.js';
+import { formatBudgetUpdate, templateString } from './utils.js';
 import type { AgentInputs } from './types.js';
 
 describe('templateString', () => {
@@ -113,3 +113,24 @@ describe('templateString', () => {
     expect(result).toBe('Static text.');
   });
 });
+
+describe('formatBudgetUpdate', () => {
+  it('lists the usage of the budgets that are set', () => {
+    expect(
+      formatBudgetUpdate({
+        inputTokens: 50,
+        outputTokens: 110,
+        toolCalls: 3,
+        maxInputTokens: undefined,
+        maxOutputTokens: 100,
+        maxToolCalls: 10,
+      }),
+    ).toBe('Budget used: 110/100 output tokens, 3/10 tool calls');
+  });
+
+  it('returns null when no budget is set', () => {
+    expect(
+      formatBudgetUpdate({ inputTokens: 50, outputTokens: 10, toolCalls: 0 }),
+    ).toBeNull();
+  });
+});
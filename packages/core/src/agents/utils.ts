@@ -41,3 +41,25 @@ export function templateString(template: string, inputs: AgentInputs): string {
     String(inputs[key]),
   );
 }
+
+const BUDGETS = [
+  ['inputTokens', 'maxInputTokens', 'input tokens'],
+  ['outputTokens', 'maxOutputTokens', 'output tokens'],
+  ['toolCalls', 'maxToolCalls', 'tool calls'],
+] as const;
+
+/**
+ * Formats the data of a `BUDGET_UPDATE` activity event for display, e.g.
+ * `Budget used: 3/10 tool calls`. Only the budgets that are set are listed.
+ *
+ * @returns The formatted usage, or `null` if the data sets no budget.
+ */
+export function formatBudgetUpdate(
+  data: Record<string, unknown>,
+): string | null {
+  const parts = BUDGETS.filter(([, max]) => typeof data[max] === 'number').map(
+    ([used, max, label]) =>
+      `${String(data[used])}/${String(data[max])} ${label}`,
+  );
+  return parts.length > 0 ? `Budget used: ${parts.join(', ')}` : null;
+}
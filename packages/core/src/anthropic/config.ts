@@ -0,0 +1,52 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { ResolvedAnthropicConfig } from './types.js';
+
+const DEFAULT_BASE_URL = 'https://api.anthropic.com';
+const DEFAULT_MAX_TOKENS = 8192;
+const DEFAULT_CONTEXT_WINDOW = 200_000;
+
+/**
+ * Resolves the Anthropic Messages API settings from the environment:
+ * `ANTHROPIC_MODEL` (required), `ANTHROPIC_API_KEY` or `ANTHROPIC_AUTH_TOKEN`
+ * (required), `ANTHROPIC_BASE_URL`, `ANTHROPIC_MAX_TOKENS`,
+ * `ANTHROPIC_CONTEXT_WINDOW` and `ANTHROPIC_PROMPT_CACHING`.
+ *
+ * @throws If a required variable is missing.
+ */
+export function resolveAnthropicConfig(): ResolvedAnthropicConfig {
+  const model = process.env['ANTHROPIC_MODEL']?.trim();
+  if (!model) {
+    throw new Error(
+      'ANTHROPIC_MODEL environment variable not found. Add that to your environment (e.g. .env) and try again!',
+    );
+  }
+  const apiKey = process.env['ANTHROPIC_API_KEY'] || undefined;
+  const authToken = process.env['ANTHROPIC_AUTH_TOKEN'] || undefined;
+  if (!apiKey && !authToken) {
+    throw new Error(
+      'ANTHROPIC_API_KEY (or ANTHROPIC_AUTH_TOKEN) environment variable not found. Add that to your environment (e.g. .env) and try again!',
+    );
+  }
+
+  return {
+    baseURL: (process.env['ANTHROPIC_BASE_URL'] || DEFAULT_BASE_URL).replace(
+      /\/+$/,
+      '',
+    ),
+    apiKey,
+    authToken,
+    model,
+    maxTokens: Number(
+      process.env['ANTHROPIC_MAX_TOKENS'] || DEFAULT_MAX_TOKENS,
+    ),
+    contextWindow: Number(
+      process.env['ANTHROPIC_CONTEXT_WINDOW'] || DEFAULT_CONTEXT_WINDOW,
+    ),
+    promptCaching: process.env['ANTHROPIC_PROMPT_CACHING'] !== 'false',
+  };
+}
@@ -0,0 +1,420 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { FinishReason, type GenerateContentParameters } from '@google/genai';
+import {
+  AnthropicApiError,
+  AnthropicConverter,
+  decodeThinkingSignature,
+  encodeThinkingSignature,
+} from './converter.js';
+import type {
+  AnthropicMessage,
+  AnthropicStreamEvent,
+  ResolvedAnthropicConfig,
+} from './types.js';
+
+const config: ResolvedAnthropicConfig = {
+  baseURL: 'http://localhost:8100',
+  apiKey: 'test-key',
+  model: 'claude-sonnet-4-5',
+  maxTokens: 4096,
+  contextWindow: 200_000,
+  promptCaching: false,
+};
+
+function message(overrides: Partial<AnthropicMessage>): AnthropicMessage {
+  return {
+    id: 'msg_1',
+    type: 'message',
+    role: 'assistant',
+    model: 'claude-sonnet-4-5',
+    content: [],
+    stop_reason: 'end_turn',
+    usage: { input_tokens: 10, output_tokens: 5 },
+    ...overrides,
+  };
+}
+
+describe('AnthropicConverter.toMessagesRequest', () => {
+  it('converts the system prompt, tools and a tool round trip', () => {
+    const request: GenerateContentParameters = {
+      model: 'gemini-2.5-pro',
+      contents: [
+        { role: 'user', parts: [{ text: 'List the files.' }] },
+        {
+          role: 'model',
+          parts: [
+            { text: 'Listing.' },
+            {
+              functionCall: {
+                id: 'toolu_1',
+                name: 'list_directory',
+                args: { path: '.' },
+              },
+            },
+          ],
+        },
+        {
+          role: 'user',
+          parts: [
+            {
+              functionResponse: {
+                id: 'toolu_1',
+                name: 'list_directory',
+                response: { output: 'a.txt' },
+              },
+            },
+          ],
+        },
+      ],
+      config: {
+        systemInstruction: 'You are a helpful assistant.',
+        temperature: 0.2,
+        tools: [
+          {
+            functionDeclarations: [
+              {
+                name: 'list_directory',
+                description: 'Lists a directory.',
+                parametersJsonSchema: {
+                  type: 'object',
+                  properties: { path: { type: 'string' } },
+                },
+              },
+            ],
+          },
+        ],
+      },
+    };
+
+    const result = AnthropicConverter.toMessagesRequest(request, config);
+
+    expect(result).toMatchObject({
+      model: 'claude-sonnet-4-5',
+      max_tokens: 4096,
+      temperature: 0.2,
+      system: [{ type: 'text', text: 'You are a helpful assistant.' }],
+      tools: [
+        {
+          name: 'list_directory',
+          description: 'Lists a directory.',
+          input_schema: {
+            type: 'object',
+            properties: { path: { type: 'string' } },
+          },
+        },
+      ],
+    });
+    expect(result.messages).toEqual([
+      { role: 'user', content: [{ type: 'text', text: 'List the files.' }] },
+      {
+        role: 'assistant',
+        content: [
+          { type: 'text', text: 'Listing.' },
+          {
+            type: 'tool_use',
+            id: 'toolu_1',
+            name: 'list_directory',
+            input: { path: '.' },
+          },
+        ],
+      },
+      {
+        role: 'user',
+        content: [
+          { type: 'tool_result', tool_use_id: 'toolu_1', content: 'a.txt' },
+        ],
+      },
+    ]);
+  });
+
+  it('merges consecutive messages of the same role with tool results first', () => {
+    const result = AnthropicConverter.toMessages({
+      model: 'gemini-2.5-pro',
+      contents: [
+        { role: 'user', parts: [{ text: 'Also check this.' }] },
+        {
+          role: 'user',
+          parts: [
+            {
+              functionResponse: {
+                id: 'toolu_1',
+                name: 'read_file',
+                response: { error: 'not found' },
+              },
+            },
+          ],
+        },
+      ],
+    });
+
+    expect(result).toEqual([
+      {
+        role: 'user',
+        content: [
+          {
+            type: 'tool_result',
+            tool_use_id: 'toolu_1',
+            content: 'Error: not found',
+            is_error: true,
+          },
+          { type: 'text', text: 'Also check this.' },
+        ],
+      },
+    ]);
+  });
+
+  it('enables extended thinking and leaves room for the answer', () => {
+    const result = AnthropicConverter.toMessagesRequest(
+      {
+        model: 'gemini-2.5-pro',
+        contents: 'Hi',
+        config: {
+          temperature: 0.5,
+          maxOutputTokens: 2000,
+          thinkingConfig: { thinkingBudget: 8000 },
+        },
+      },
+      config,
+    );
+
+    expect(result.thinking).toEqual({ type: 'enabled', budget_tokens: 8000 });
+    expect(result.max_tokens).toBe(12096);
+    expect(result.temperature).toBeUndefined();
+  });
+
+  it('adds cache markers to the system prompt, tools and last message', () => {
+    const result = AnthropicConverter.toMessagesRequest(
+      {
+        model: 'gemini-2.5-pro',
+        contents: [{ role: 'user', parts: [{ text: 'a' }, { text: 'b' }] }],
+        config: {
+          systemInstruction: { parts: [{ text: 'System.' }] },
+          tools: [
+            {
+              functionDeclarations: [
+                { name: 'one', parametersJsonSchema: { type: 'object' } },
+                { name: 'two', parametersJsonSchema: { type: 'object' } },
+              ],
+            },
+          ],
+        },
+      },
+      { ...config, promptCaching: true },
+    );
+
+    expect(result.system?.[0].cache_control).toEqual({ type: 'ephemeral' });
+    expect(result.tools?.[0].cache_control).toBeUndefined();
+    expect(result.tools?.[1].cache_control).toEqual({ type: 'ephemeral' });
+    expect(result.messages[0].content).toEqual([
+      { type: 'text', text: 'a' },
+      { type: 'text', text: 'b', cache_control: { type: 'ephemeral' } },
+    ]);
+  });
+
+  it('replays signed thinking blocks from the thought signature', () => {
+    const reasoning = [
+      { type: 'thinking' as const, thinking: 'Plan.', signature: 'sig' },
+    ];
+    const result = AnthropicConverter.toMessages({
+      model: 'gemini-2.5-pro',
+      contents: [
+        {
+          role: 'model',
+          parts: [
+            {
+              functionCall: { id: 'toolu_1', name: 'ls', args: {} },
+              thoughtSignature: encodeThinkingSignature(reasoning),
+            },
+          ],
+        },
+      ],
+    });
+
+    expect(result[0].content).toEqual([
+      ...reasoning,
+      { type: 'tool_use', id: 'toolu_1', name: 'ls', input: {} },
+    ]);
+  });
+});
+
+describe('AnthropicConverter.toGeminiResponse', () => {
+  it('converts thinking, text and tool use blocks', () => {
+    const response = AnthropicConverter.toGeminiResponse(
+      message({
+        content: [
+          { type: 'thinking', thinking: 'Plan.', signature: 'sig' },
+          { type: 'text', text: 'Listing.' },
+          {
+            type: 'tool_use',
+            id: 'toolu_1',
+            name: 'list_directory',
+            input: { path: '.' },
+          },
+        ],
+        stop_reason: 'tool_use',
+        usage: {
+          input_tokens: 10,
+          output_tokens: 5,
+          cache_read_input_tokens: 100,
+          cache_creation_input_tokens: 20,
+        },
+      }),
+    );
+
+    const candidate = response.candidates![0];
+    const [thought, answer, call] = candidate.content!.parts!;
+    expect(thought).toEqual({ text: 'Plan.', thought: true });
+    expect(answer.text).toBe('Listing.');
+    expect(decodeThinkingSignature(answer.thoughtSignature)).toEqual([
+      { type: 'thinking', thinking: 'Plan.', signature: 'sig' },
+    ]);
+    expect(call.functionCall).toEqual({
+      id: 'toolu_1',
+      name: 'list_directory',
+      args: { path: '.' },
+    });
+    expect(response.functionCalls).toHaveLength(1);
+    expect(candidate.finishReason).toBe(FinishReason.STOP);
+    expect(response.usageMetadata).toEqual({
+      promptTokenCount: 130,
+      candidatesTokenCount: 5,
+      totalTokenCount: 135,
+      cachedContentTokenCount: 100,
+    });
+  });
+
+  it('maps max_tokens and refusal stop reasons', () => {
+    expect(
+      AnthropicConverter.toGeminiResponse(
+        message({ stop_reason: 'max_tokens' }),
+      ).candidates![0].finishReason,
+    ).toBe(FinishReason.MAX_TOKENS);
+    expect(
+      AnthropicConverter.toGeminiResponse(message({ stop_reason: 'refusal' }))
+        .candidates![0].finishReason,
+    ).toBe(FinishReason.SAFETY);
+  });
+});
+
+describe('AnthropicConverter.processStreamEvent', () => {
+  function run(events: AnthropicStreamEvent[]) {
+    const state = AnthropicConverter.createStreamState();
+    return events
+      .map((event) => AnthropicConverter.processStreamEvent(event, state))
+      .filter((response) => response !== undefined);
+  }
+
+  it('streams thoughts, text and tool calls, then the finish reason and usage', () => {
+    const responses = run([
+      {
+        type: 'message_start',
+        message: message({
+          stop_reason: null,
+          usage: { input_tokens: 10, output_tokens: 1 },
+        }),
+      },
+      {
+        type: 'content_block_start',
+        index: 0,
+        content_block: { type: 'thinking', thinking: '', signature: '' },
+      },
+      {
+        type: 'content_block_delta',
+        index: 0,
+        delta: { type: 'thinking_delta', thinking: 'Plan.' },
+      },
+      {
+        type: 'content_block_delta',
+        index: 0,
+        delta: { type: 'signature_delta', signature: 'sig' },
+      },
+      { type: 'content_block_stop', index: 0 },
+      {
+        type: 'content_block_start',
+        index: 1,
+        content_block: { type: 'text', text: '' },
+      },
+      {
+        type: 'content_block_delta',
+        index: 1,
+        delta: { type: 'text_delta', text: 'Listing.' },
+      },
+      { type: 'content_block_stop', index: 1 },
+      {
+        type: 'content_block_start',
+        index: 2,
+        content_block: {
+          type: 'tool_use',
+          id: 'toolu_1',
+          name: 'list_directory',
+          input: {},
+        },
+      },
+      {
+        type: 'content_block_delta',
+        index: 2,
+        delta: { type: 'input_json_delta', partial_json: '{"path":' },
+      },
+      {
+        type: 'content_block_delta',
+        index: 2,
+        delta: { type: 'input_json_delta', partial_json: '"."}' },
+      },
+      { type: 'content_block_stop', index: 2 },
+      {
+        type: 'message_delta',
+        delta: { stop_reason: 'tool_use' },
+        usage: { output_tokens: 42 },
+      },
+      { type: 'message_stop' },
+    ]);
+
+    const parts = responses.flatMap(
+      (response) => response.candidates![0].content!.parts!,
+    );
+    expect(parts[0]).toEqual({ text: 'Plan.', thought: true });
+    expect(parts[1].text).toBe('Listing.');
+    expect(decodeThinkingSignature(parts[1].thoughtSignature)).toEqual([
+      { type: 'thinking', thinking: 'Plan.', signature: 'sig' },
+    ]);
+    expect(parts[2].functionCall).toEqual({
+      id: 'toolu_1',
+      name: 'list_directory',
+      args: { path: '.' },
+    });
+    expect(responses[2].functionCalls).toHaveLength(1);
+
+    const last = responses[responses.length - 1];
+    expect(last.candidates![0].finishReason).toBe(FinishReason.STOP);
+    expect(last.usageMetadata).toEqual({
+      promptTokenCount: 10,
+      candidatesTokenCount: 42,
+      totalTokenCount: 52,
+    });
+  });
+
+  it('throws an error with the matching HTTP status for error events', () => {
+    const state = AnthropicConverter.createStreamState();
+    let thrown: unknown;
+    try {
+      AnthropicConverter.processStreamEvent(
+        {
+          type: 'error',
+          error: { type: 'overloaded_error', message: 'Overloaded' },
+        },
+        state,
+      );
+    } catch (error) {
+      thrown = error;
+    }
+
+    expect(thrown).toBeInstanceOf(AnthropicApiError);
+    expect(thrown).toMatchObject({ status: 529, type: 'overloaded_error' });
+  });
+});
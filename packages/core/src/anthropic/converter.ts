@@ -0,0 +1,676 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  FinishReason,
+  GenerateContentResponse,
+  type ContentUnion,
+  type FunctionCall,
+  type GenerateContentParameters,
+  type GenerateContentResponseUsageMetadata,
+  type Part,
+  type PartUnion,
+} from '@google/genai';
+import {
+  extractToolFunctions,
+  isValidFunctionCall,
+  isValidFunctionResponse,
+  normalizeContents,
+} from '../custom_llm/util.js';
+import { takeCompleteParagraphs } from '../custom_llm/reasoning.js';
+import type {
+  AnthropicContentBlock,
+  AnthropicImageBlock,
+  AnthropicMessage,
+  AnthropicMessageParam,
+  AnthropicMessagesRequest,
+  AnthropicReasoningBlock,
+  AnthropicStreamEvent,
+  AnthropicStreamState,
+  AnthropicTextBlock,
+  AnthropicUsage,
+  ResolvedAnthropicConfig,
+} from './types.js';
+
+const SUPPORTED_IMAGE_MIME_TYPES = new Set([
+  'image/png',
+  'image/jpeg',
+  'image/webp',
+  'image/gif',
+]);
+
+// Extended thinking rejects budgets below this.
+const MIN_THINKING_BUDGET = 1024;
+
+const THINKING_SIGNATURE_PREFIX = 'anthropic-thinking:';
+
+/**
+ * Error reported by the Messages API, either as an HTTP error response or as
+ * an `error` event in a stream. Carries the HTTP status so that the usual
+ * retry handling applies.
+ */
+export class AnthropicApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number | undefined,
+    readonly type?: string,
+  ) {
+    super(message);
+    this.name = 'AnthropicApiError';
+  }
+}
+
+// Stream `error` events carry no HTTP status; these are the statuses the API
+// uses for the same error types.
+const STREAM_ERROR_STATUS: Record<string, number> = {
+  invalid_request_error: 400,
+  authentication_error: 401,
+  permission_error: 403,
+  not_found_error: 404,
+  request_too_large: 413,
+  rate_limit_error: 429,
+  api_error: 500,
+  overloaded_error: 529,
+};
+
+export class AnthropicConverter {
+  /**
+   * Convert a Gemini request to a Messages API request.
+   */
+  static toMessagesRequest(
+    request: GenerateContentParameters,
+    config: ResolvedAnthropicConfig,
+  ): AnthropicMessagesRequest {
+    const requestConfig = request.config;
+    const messages = this.toMessages(request);
+    const systemText = toSystemText(requestConfig?.systemInstruction);
+    const system: AnthropicTextBlock[] | undefined = systemText
+      ? [{ type: 'text', text: systemText }]
+      : undefined;
+    const tools = extractToolFunctions(requestConfig)?.flatMap((tool) =>
+      tool.type === 'function'
+        ? [
+            {
+              name: tool.function.name,
+              description: tool.function.description,
+              input_schema: tool.function.parameters ?? {
+                type: 'object',
+                properties: {},
+              },
+            },
+          ]
+        : [],
+    );
+
+    let maxTokens = requestConfig?.maxOutputTokens ?? config.maxTokens;
+    const budget = requestConfig?.thinkingConfig?.thinkingBudget;
+    let thinking: AnthropicMessagesRequest['thinking'];
+    if (budget !== undefined && budget > 0) {
+      const budgetTokens = Math.max(budget, MIN_THINKING_BUDGET);
+      thinking = { type: 'enabled', budget_tokens: budgetTokens };
+      // The thinking budget counts towards max_tokens.
+      if (maxTokens <= budgetTokens) {
+        maxTokens = budgetTokens + config.maxTokens;
+      }
+    }
+
+    if (config.promptCaching) {
+      addCacheMarkers(system, tools, messages);
+    }
+
+    return {
+      model: config.model,
+      max_tokens: maxTokens,
+      messages,
+      system,
+      tools,
+      // Extended thinking does not allow changing the temperature.
+      temperature: thinking ? undefined : requestConfig?.temperature,
+      stop_sequences: requestConfig?.stopSequences,
+      thinking,
+    };
+  }
+
+  /**
+   * Convert Gemini contents to Messages API messages. Consecutive contents of
+   * the same role are merged, since the API expects alternating roles.
+   */
+  static toMessages(
+    request: GenerateContentParameters,
+  ): AnthropicMessageParam[] {
+    const messages: AnthropicMessageParam[] = [];
+    for (const content of normalizeContents(request.contents)) {
+      const role = content.role === 'model' ? 'assistant' : 'user';
+      const blocks = toContentBlocks(content.parts ?? [], role);
+      if (blocks.length === 0) {
+        continue;
+      }
+      const previous = messages[messages.length - 1];
+      if (previous?.role === role) {
+        previous.content.push(...blocks);
+      } else {
+        messages.push({ role, content: blocks });
+      }
+    }
+    for (const message of messages) {
+      if (message.role === 'user') {
+        // Tool results must come first in the message that follows tool use.
+        message.content.sort(
+          (left, right) =>
+            Number(right.type === 'tool_result') -
+            Number(left.type === 'tool_result'),
+        );
+      }
+    }
+    return messages;
+  }
+
+  /**
+   * Convert a Messages API response to a Gemini response.
+   */
+  static toGeminiResponse(
+    message: AnthropicMessage,
+    options: { includeThoughts?: boolean } = {},
+  ): GenerateContentResponse {
+    const thoughtParts: Part[] = [];
+    const answerParts: Part[] = [];
+    const reasoning: AnthropicReasoningBlock[] = [];
+    const functionCalls: FunctionCall[] = [];
+    for (const block of message.content) {
+      switch (block.type) {
+        case 'thinking':
+          reasoning.push(block);
+          if (block.thinking && options.includeThoughts !== false) {
+            thoughtParts.push({ text: block.thinking, thought: true });
+          }
+          break;
+        case 'redacted_thinking':
+          reasoning.push(block);
+          break;
+        case 'text':
+          if (block.text) {
+            answerParts.push({ text: block.text });
+          }
+          break;
+        case 'tool_use': {
+          const functionCall: FunctionCall = {
+            id: block.id,
+            name: block.name,
+            args: toArgs(block.input),
+          };
+          functionCalls.push(functionCall);
+          answerParts.push({ functionCall });
+          break;
+        }
+        default:
+          break;
+      }
+    }
+    if (answerParts.length > 0) {
+      answerParts[0] = withThinkingSignature(answerParts[0], reasoning);
+    }
+
+    const response = new GenerateContentResponse();
+    response.candidates = [
+      {
+        content: { role: 'model', parts: [...thoughtParts, ...answerParts] },
+        finishReason: toFinishReason(message.stop_reason),
+        index: 0,
+        safetyRatings: [],
+      },
+    ];
+    attachFunctionCalls(response, functionCalls);
+    response.usageMetadata = toUsageMetadata(message.usage);
+    return response;
+  }
+
+  /**
+   * Create the state tracked across the events of one streamed response.
+   */
+  static createStreamState(
+    options: { includeThoughts?: boolean } = {},
+  ): AnthropicStreamState {
+    return {
+      blocks: new Map(),
+      includeThoughts: options.includeThoughts ?? true,
+      pendingThought: '',
+      reasoning: [],
+      reasoningAttached: false,
+      usage: {},
+    };
+  }
+
+  /**
+   * Convert one stream event to a Gemini response, if it completes any part.
+   * The finish reason and usage are reported once `message_stop` arrives.
+   *
+   * @throws AnthropicApiError for `error` events.
+   */
+  static processStreamEvent(
+    event: AnthropicStreamEvent,
+    state: AnthropicStreamState,
+  ): GenerateContentResponse | undefined {
+    const parts: Part[] = [];
+    const functionCalls: FunctionCall[] = [];
+    switch (event.type) {
+      case 'message_start':
+        state.usage = { ...event.message.usage };
+        break;
+      case 'content_block_start': {
+        const block = event.content_block;
+        state.blocks.set(event.index, {
+          type: block.type,
+          text: '',
+          signature: block.type === 'thinking' ? block.signature : '',
+          data: block.type === 'redacted_thinking' ? block.data : '',
+          toolUse:
+            block.type === 'tool_use'
+              ? { id: block.id, name: block.name }
+              : undefined,
+          inputJson: '',
+        });
+        if (block.type === 'text' && block.text) {
+          pushAnswer(state, parts, { text: block.text });
+        } else if (block.type === 'thinking' && block.thinking) {
+          appendThinking(state, parts, event.index, block.thinking);
+        }
+        break;
+      }
+      case 'content_block_delta': {
+        const block = state.blocks.get(event.index);
+        if (!block) {
+          break;
+        }
+        const delta = event.delta;
+        if (delta.type === 'text_delta') {
+          pushAnswer(state, parts, { text: delta.text });
+        } else if (delta.type === 'thinking_delta') {
+          appendThinking(state, parts, event.index, delta.thinking);
+        } else if (delta.type === 'signature_delta') {
+          block.signature += delta.signature;
+        } else if (delta.type === 'input_json_delta') {
+          block.inputJson += delta.partial_json;
+        }
+        break;
+      }
+      case 'content_block_stop': {
+        const block = state.blocks.get(event.index);
+        state.blocks.delete(event.index);
+        if (block?.type === 'thinking') {
+          state.reasoning.push({
+            type: 'thinking',
+            thinking: block.text,
+            signature: block.signature,
+          });
+          flushPendingThought(state, parts);
+        } else if (block?.type === 'redacted_thinking') {
+          state.reasoning.push({ type: 'redacted_thinking', data: block.data });
+        } else if (block?.toolUse) {
+          const functionCall: FunctionCall = {
+            ...block.toolUse,
+            args: toArgs(safeJsonParse(block.inputJson || '{}')),
+          };
+          functionCalls.push(functionCall);
+          pushAnswer(state, parts, { functionCall });
+        }
+        break;
+      }
+      case 'message_delta':
+        state.stopReason = event.delta.stop_reason ?? state.stopReason;
+        state.usage = { ...state.usage, ...event.usage };
+        break;
+      case 'message_stop': {
+        flushPendingThought(state, parts);
+        const response = buildResponse(parts, functionCalls);
+        response.candidates![0].finishReason = toFinishReason(state.stopReason);
+        response.usageMetadata = toUsageMetadata(state.usage);
+        return response;
+      }
+      case 'error':
+        throw new AnthropicApiError(
+          `Anthropic API stream error (${event.error.type}): ${event.error.message}`,
+          STREAM_ERROR_STATUS[event.error.type],
+          event.error.type,
+        );
+      default:
+        break;
+    }
+
+    if (parts.length === 0) {
+      return undefined;
+    }
+    return buildResponse(parts, functionCalls);
+  }
+}
+
+/**
+ * Encodes a turn's thinking blocks as a `thoughtSignature`. Chat history drops
+ * thought parts but keeps signatures, and the API requires the signed thinking
+ * blocks to be sent back with the tool results of the same turn.
+ */
+export function encodeThinkingSignature(
+  blocks: AnthropicReasoningBlock[],
+): string {
+  return `${THINKING_SIGNATURE_PREFIX}${Buffer.from(JSON.stringify(blocks), 'utf8').toString('base64')}`;
+}
+
+/**
+ * Returns the thinking blocks stored by `encodeThinkingSignature`, or
+ * undefined for any other signature.
+ */
+export function decodeThinkingSignature(
+  signature: string | undefined,
+): AnthropicReasoningBlock[] | undefined {
+  if (!signature?.startsWith(THINKING_SIGNATURE_PREFIX)) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(
+      Buffer.from(
+        signature.slice(THINKING_SIGNATURE_PREFIX.length),
+        'base64',
+      ).toString('utf8'),
+    ) as AnthropicReasoningBlock[];
+  } catch {
+    return undefined;
+  }
+}
+
+function toSystemText(
+  systemInstruction: ContentUnion | undefined,
+): string | undefined {
+  if (!systemInstruction) {
+    return undefined;
+  }
+  if (typeof systemInstruction === 'string') {
+    return systemInstruction;
+  }
+  const parts: PartUnion[] = Array.isArray(systemInstruction)
+    ? systemInstruction
+    : 'parts' in systemInstruction
+      ? (systemInstruction.parts ?? [])
+      : [systemInstruction as Part];
+  return parts
+    .map((part) => (typeof part === 'string' ? part : (part.text ?? '')))
+    .filter(Boolean)
+    .join('\n');
+}
+
+function toContentBlocks(
+  parts: Part[],
+  role: 'user' | 'assistant',
+): AnthropicContentBlock[] {
+  const blocks: AnthropicContentBlock[] = [];
+  if (role === 'assistant') {
+    const reasoning = parts
+      .map((part) => decodeThinkingSignature(part.thoughtSignature))
+      .find((decoded) => decoded !== undefined);
+    blocks.push(...(reasoning ?? []));
+  }
+
+  for (const part of parts) {
+    if (part.thought) {
+      continue;
+    }
+    if (isValidFunctionResponse(part)) {
+      const { id, response } = part.functionResponse;
+      const media = (part.functionResponse.parts ?? [])
+        .filter((nested) => nested.inlineData || nested.fileData)
+        .map(toMediaBlock)
+        .filter((block) => block.type !== 'document') as Array<
+        AnthropicTextBlock | AnthropicImageBlock
+      >;
+      const output = response.error
+        ? `Error: ${response.error}`
+        : (response.output ?? '');
+      blocks.push({
+        type: 'tool_result',
+        tool_use_id: id,
+        content:
+          media.length > 0
+            ? [
+                ...(output ? [{ type: 'text' as const, text: output }] : []),
+                ...media,
+              ]
+            : output,
+        ...(response.error ? { is_error: true } : {}),
+      });
+    } else if (isValidFunctionCall(part)) {
+      blocks.push({
+        type: 'tool_use',
+        id: part.functionCall.id,
+        name: part.functionCall.name,
+        input: part.functionCall.args ?? {},
+      });
+    } else if (typeof part.text === 'string') {
+      // The API rejects empty text blocks.
+      if (part.text.length > 0) {
+        blocks.push({ type: 'text', text: part.text });
+      }
+    } else if (part.inlineData || part.fileData) {
+      blocks.push(toMediaBlock(part));
+    }
+  }
+  return blocks;
+}
+
+/**
+ * Converts an `inlineData` or `fileData` part to an image or PDF document
+ * block, or to a text placeholder for anything else.
+ */
+function toMediaBlock(part: Part): AnthropicContentBlock {
+  const mimeType =
+    part.inlineData?.mimeType ?? part.fileData?.mimeType ?? 'unknown';
+  const isImage = SUPPORTED_IMAGE_MIME_TYPES.has(mimeType);
+  if (isImage || mimeType === 'application/pdf') {
+    const type = isImage ? 'image' : 'document';
+    if (part.inlineData?.data) {
+      return {
+        type,
+        source: {
+          type: 'base64',
+          media_type: mimeType,
+          data: part.inlineData.data,
+        },
+      };
+    }
+    const fileUri = part.fileData?.fileUri;
+    if (fileUri && /^https?:/.test(fileUri)) {
+      return { type, source: { type: 'url', url: fileUri } };
+    }
+  }
+
+  const name =
+    part.inlineData?.displayName ??
+    part.fileData?.displayName ??
+    part.fileData?.fileUri;
+  const description = name ? `${name} (${mimeType})` : mimeType;
+  return {
+    type: 'text',
+    text: `[Attachment omitted: ${description} is not supported by this provider]`,
+  };
+}
+
+/**
+ * Marks the system prompt, the tool definitions and the conversation so far
+ * as cacheable. The API caches the prefix up to each marker, so later
+ * requests in the same chat reuse it.
+ */
+function addCacheMarkers(
+  system: AnthropicTextBlock[] | undefined,
+  tools: AnthropicMessagesRequest['tools'],
+  messages: AnthropicMessageParam[],
+): void {
+  const cacheControl = { type: 'ephemeral' } as const;
+  if (system && system.length > 0) {
+    system[system.length - 1].cache_control = cacheControl;
+  }
+  if (tools && tools.length > 0) {
+    tools[tools.length - 1].cache_control = cacheControl;
+  }
+  const lastMessage = messages[messages.length - 1];
+  const lastBlock = lastMessage?.content
+    .slice()
+    .reverse()
+    .find(
+      (block) =>
+        block.type !== 'thinking' && block.type !== 'redacted_thinking',
+    );
+  if (lastBlock) {
+    (lastBlock as { cache_control?: typeof cacheControl }).cache_control =
+      cacheControl;
+  }
+}
+
+function appendThinking(
+  state: AnthropicStreamState,
+  parts: Part[],
+  index: number,
+  text: string,
+): void {
+  const block = state.blocks.get(index);
+  if (block) {
+    block.text += text;
+  }
+  const [complete, rest] = takeCompleteParagraphs(state.pendingThought + text);
+  state.pendingThought = rest;
+  pushThought(state, parts, complete);
+}
+
+function flushPendingThought(state: AnthropicStreamState, parts: Part[]): void {
+  pushThought(state, parts, state.pendingThought.trim());
+  state.pendingThought = '';
+}
+
+function pushThought(
+  state: AnthropicStreamState,
+  parts: Part[],
+  text: string,
+): void {
+  if (text && state.includeThoughts) {
+    parts.push({ text, thought: true });
+  }
+}
+
+/**
+ * Adds an answer part, attaching the turn's thinking blocks to the first one.
+ */
+function pushAnswer(
+  state: AnthropicStreamState,
+  parts: Part[],
+  part: Part,
+): void {
+  flushPendingThought(state, parts);
+  if (!state.reasoningAttached && state.reasoning.length > 0) {
+    state.reasoningAttached = true;
+    parts.push(withThinkingSignature(part, state.reasoning));
+    return;
+  }
+  parts.push(part);
+}
+
+function withThinkingSignature(
+  part: Part,
+  reasoning: AnthropicReasoningBlock[],
+): Part {
+  if (reasoning.length === 0) {
+    return part;
+  }
+  return { ...part, thoughtSignature: encodeThinkingSignature(reasoning) };
+}
+
+/**
+ * Maps a Messages API stop reason to its Gemini equivalent. Gemini reports
+ * function calls with `STOP`, so `tool_use` maps there too.
+ */
+function toFinishReason(
+  stopReason: string | null | undefined,
+): FinishReason | undefined {
+  switch (stopReason) {
+    case undefined:
+    case null:
+      return undefined;
+    case 'end_turn':
+    case 'stop_sequence':
+    case 'tool_use':
+      return FinishReason.STOP;
+    case 'max_tokens':
+      return FinishReason.MAX_TOKENS;
+    case 'refusal':
+      return FinishReason.SAFETY;
+    default:
+      return FinishReason.OTHER;
+  }
+}
+
+/**
+ * Maps Messages API usage to Gemini usage metadata. The API reports cached
+ * and newly cached prompt tokens separately from `input_tokens`, while
+ * Gemini's prompt count includes cached tokens.
+ */
+function toUsageMetadata(
+  usage: AnthropicUsage,
+): GenerateContentResponseUsageMetadata {
+  const cacheRead = usage.cache_read_input_tokens ?? 0;
+  const promptTokens =
+    (usage.input_tokens ?? 0) +
+    cacheRead +
+    (usage.cache_creation_input_tokens ?? 0);
+  const outputTokens = usage.output_tokens ?? 0;
+  const metadata: GenerateContentResponseUsageMetadata = {
+    promptTokenCount: promptTokens,
+    candidatesTokenCount: outputTokens,
+    totalTokenCount: promptTokens + outputTokens,
+  };
+  if (cacheRead > 0) {
+    metadata.cachedContentTokenCount = cacheRead;
+  }
+  return metadata;
+}
+
+function buildResponse(
+  parts: Part[],
+  functionCalls: FunctionCall[],
+): GenerateContentResponse {
+  const response = new GenerateContentResponse();
+  response.candidates = [
+    {
+      content: { role: 'model', parts },
+      index: 0,
+      safetyRatings: [],
+    },
+  ];
+  attachFunctionCalls(response, functionCalls);
+  return response;
+}
+
+function attachFunctionCalls(
+  response: GenerateContentResponse,
+  functionCalls: FunctionCall[],
+): void {
+  if (functionCalls.length === 0) {
+    return;
+  }
+  Object.defineProperty(response, 'functionCalls', {
+    value: functionCalls,
+    enumerable: true,
+    configurable: true,
+  });
+}
+
+function toArgs(input: unknown): Record<string, unknown> {
+  return typeof input === 'object' && input !== null && !Array.isArray(input)
+    ? (input as Record<string, unknown>)
+    : {};
+}
+
+function safeJsonParse(raw: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return {};
+  }
+}
@@ -0,0 +1,201 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { http, HttpResponse } from 'msw';
+import { FinishReason } from '@google/genai';
+import { server } from '../mocks/msw.js';
+import { AnthropicContentGenerator } from './index.js';
+import type { AnthropicStreamEvent, ResolvedAnthropicConfig } from './types.js';
+
+const BASE_URL = 'http://localhost:8100';
+
+const config: ResolvedAnthropicConfig = {
+  baseURL: BASE_URL,
+  apiKey: 'test-key',
+  model: 'claude-sonnet-4-5',
+  maxTokens: 1024,
+  contextWindow: 200_000,
+  promptCaching: true,
+};
+
+function toServerSentEvents(events: AnthropicStreamEvent[]): string {
+  return events
+    .map((event) => `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`)
+    .join('');
+}
+
+describe('AnthropicContentGenerator', () => {
+  const generator = new AnthropicContentGenerator(config, {
+    userAgent: 'GeminiCLI/test',
+  });
+
+  beforeAll(() => {
+    server.listen({ onUnhandledRequest: 'error' });
+  });
+
+  afterEach(() => {
+    server.resetHandlers();
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  it('sends a Messages API request and converts the response', async () => {
+    let headers: Headers | undefined;
+    let body: Record<string, unknown> | undefined;
+    server.resetHandlers(
+      http.post(`${BASE_URL}/v1/messages`, async ({ request }) => {
+        headers = request.headers;
+        body = (await request.json()) as Record<string, unknown>;
+        return HttpResponse.json({
+          id: 'msg_1',
+          type: 'message',
+          role: 'assistant',
+          model: 'claude-sonnet-4-5',
+          content: [{ type: 'text', text: 'Hello!' }],
+          stop_reason: 'end_turn',
+          usage: { input_tokens: 3, output_tokens: 2 },
+        });
+      }),
+    );
+
+    const response = await generator.generateContent(
+      { model: 'gemini-2.5-pro', contents: 'Hi' },
+      'prompt-id',
+    );
+
+    expect(response.text).toBe('Hello!');
+    expect(response.candidates![0].finishReason).toBe(FinishReason.STOP);
+    expect(headers?.get('x-api-key')).toBe('test-key');
+    expect(headers?.get('anthropic-version')).toBe('2023-06-01');
+    expect(body).toEqual({
+      model: 'claude-sonnet-4-5',
+      max_tokens: 1024,
+      messages: [
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'Hi', cache_control: { type: 'ephemeral' } },
+          ],
+        },
+      ],
+    });
+  });
+
+  it('streams server-sent events', async () => {
+    let stream: unknown;
+    server.resetHandlers(
+      http.post(`${BASE_URL}/v1/messages`, async ({ request }) => {
+        stream = ((await request.json()) as { stream?: boolean }).stream;
+        return new HttpResponse(
+          toServerSentEvents([
+            {
+              type: 'message_start',
+              message: {
+                id: 'msg_1',
+                type: 'message',
+                role: 'assistant',
+                model: 'claude-sonnet-4-5',
+                content: [],
+                stop_reason: null,
+                usage: { input_tokens: 3, output_tokens: 1 },
+              },
+            },
+            {
+              type: 'content_block_start',
+              index: 0,
+              content_block: { type: 'text', text: '' },
+            },
+            { type: 'ping' },
+            {
+              type: 'content_block_delta',
+              index: 0,
+              delta: { type: 'text_delta', text: 'Hel' },
+            },
+            {
+              type: 'content_block_delta',
+              index: 0,
+              delta: { type: 'text_delta', text: 'lo!' },
+            },
+            { type: 'content_block_stop', index: 0 },
+            {
+              type: 'message_delta',
+              delta: { stop_reason: 'end_turn' },
+              usage: { output_tokens: 2 },
+            },
+            { type: 'message_stop' },
+          ]),
+          { headers: { 'Content-Type': 'text/event-stream' } },
+        );
+      }),
+    );
+
+    const responses = [];
+    for await (const response of await generator.generateContentStream(
+      { model: 'gemini-2.5-pro', contents: 'Hi' },
+      'prompt-id',
+    )) {
+      responses.push(response);
+    }
+
+    expect(stream).toBe(true);
+    expect(responses.map((response) => response.text ?? '').join('')).toBe(
+      'Hello!',
+    );
+    const last = responses[responses.length - 1];
+    expect(last.candidates![0].finishReason).toBe(FinishReason.STOP);
+    expect(last.usageMetadata?.totalTokenCount).toBe(5);
+  });
+
+  it('reports HTTP errors with their status', async () => {
+    server.resetHandlers(
+      http.post(`${BASE_URL}/v1/messages`, () =>
+        HttpResponse.json(
+          {
+            type: 'error',
+            error: { type: 'rate_limit_error', message: 'Slow down' },
+          },
+          { status: 429 },
+        ),
+      ),
+    );
+
+    await expect(
+      generator.generateContent(
+        { model: 'gemini-2.5-pro', contents: 'Hi' },
+        'prompt-id',
+      ),
+    ).rejects.toMatchObject({
+      status: 429,
+      type: 'rate_limit_error',
+      message: 'Anthropic API request failed with status 429: Slow down',
+    });
+  });
+
+  it('counts tokens with count_tokens and falls back to an estimate', async () => {
+    server.resetHandlers(
+      http.post(`${BASE_URL}/v1/messages/count_tokens`, () =>
+        HttpResponse.json({ input_tokens: 7 }),
+      ),
+    );
+    await expect(
+      generator.countTokens({ model: 'gemini-2.5-pro', contents: 'Hi there' }),
+    ).resolves.toEqual({ totalTokens: 7 });
+
+    server.resetHandlers(
+      http.post(`${BASE_URL}/v1/messages/count_tokens`, () =>
+        HttpResponse.json({}, { status: 404 }),
+      ),
+    );
+    const estimate = await generator.countTokens({
+      model: 'gemini-2.5-pro',
+      contents: 'Hi there',
+    });
+    expect(estimate.totalTokens).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as readline from 'node:readline';
+import { Readable } from 'node:stream';
+import type { ReadableStream as WebReadableStream } from 'node:stream/web';
+import type {
+  CountTokensParameters,
+  CountTokensResponse,
+  EmbedContentParameters,
+  EmbedContentResponse,
+  GenerateContentParameters,
+  GenerateContentResponse,
+} from '@google/genai';
+import type { ContentGenerator } from '../core/contentGenerator.js';
+import { estimateTokenCountSync } from '../utils/tokenCalculation.js';
+import { debugLogger } from '../utils/debugLogger.js';
+import { getErrorMessage } from '../utils/errors.js';
+import { normalizeContents } from '../custom_llm/util.js';
+import { AnthropicApiError, AnthropicConverter } from './converter.js';
+import type {
+  AnthropicMessage,
+  AnthropicMessagesRequest,
+  AnthropicStreamEvent,
+  ResolvedAnthropicConfig,
+} from './types.js';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+interface AnthropicOptions {
+  userAgent?: string;
+}
+
+/**
+ * Content generator for servers that speak the Anthropic Messages API.
+ */
+export class AnthropicContentGenerator implements ContentGenerator {
+  private readonly headers: Record<string, string>;
+
+  constructor(
+    private readonly config: ResolvedAnthropicConfig,
+    options: AnthropicOptions = {},
+  ) {
+    this.headers = {
+      'Content-Type': 'application/json',
+      'anthropic-version': ANTHROPIC_VERSION,
+      ...(config.apiKey ? { 'x-api-key': config.apiKey } : {}),
+      ...(config.authToken
+        ? { Authorization: `Bearer ${config.authToken}` }
+        : {}),
+      ...(options.userAgent ? { 'User-Agent': options.userAgent } : {}),
+    };
+  }
+
+  async generateContent(
+    request: GenerateContentParameters,
+    _userPromptId: string,
+  ): Promise<GenerateContentResponse> {
+    const body = AnthropicConverter.toMessagesRequest(request, this.config);
+    const response = await this.post('/v1/messages', body, request);
+    const message = (await response.json()) as AnthropicMessage;
+    return AnthropicConverter.toGeminiResponse(message, {
+      includeThoughts: request.config?.thinkingConfig?.includeThoughts,
+    });
+  }
+
+  async generateContentStream(
+    request: GenerateContentParameters,
+    _userPromptId: string,
+  ): Promise<AsyncGenerator<GenerateContentResponse>> {
+    const body: AnthropicMessagesRequest = {
+      ...AnthropicConverter.toMessagesRequest(request, this.config),
+      stream: true,
+    };
+    const response = await this.post('/v1/messages', body, request);
+    if (!response.body) {
+      throw new Error('Anthropic API returned an empty stream.');
+    }
+    const state = AnthropicConverter.createStreamState({
+      includeThoughts: request.config?.thinkingConfig?.includeThoughts,
+    });
+    const events = readServerSentEvents(
+      response.body as WebReadableStream<Uint8Array>,
+    );
+
+    return (async function* (): AsyncGenerator<GenerateContentResponse> {
+      for await (const event of events) {
+        const converted = AnthropicConverter.processStreamEvent(event, state);
+        if (converted) {
+          yield converted;
+        }
+      }
+    })();
+  }
+
+  /**
+   * Counts tokens with the API's count_tokens endpoint, falling back to a
+   * local estimate for gateways that do not offer it.
+   */
+  async countTokens(
+    request: CountTokensParameters,
+  ): Promise<CountTokensResponse> {
+    const { model, messages, system, tools } =
+      AnthropicConverter.toMessagesRequest(
+        { model: request.model, contents: request.contents ?? [] },
+        { ...this.config, promptCaching: false },
+      );
+    if (messages.length === 0) {
+      return { totalTokens: 0 };
+    }
+    try {
+      const response = await this.post(
+        '/v1/messages/count_tokens',
+        { model, messages, system, tools },
+        request,
+      );
+      const { input_tokens: inputTokens } = (await response.json()) as {
+        input_tokens: number;
+      };
+      return { totalTokens: inputTokens };
+    } catch (error) {
+      debugLogger.debug(
+        `[anthropic] count_tokens failed, estimating locally: ${getErrorMessage(error)}`,
+      );
+      return {
+        totalTokens: estimateTokenCountSync(
+          normalizeContents(request.contents ?? []).flatMap(
+            (content) => content.parts ?? [],
+          ),
+        ),
+      };
+    }
+  }
+
+  async embedContent(
+    _request: EmbedContentParameters,
+  ): Promise<EmbedContentResponse> {
+    throw new Error(
+      'Embedding is not supported by the Anthropic Messages API.',
+    );
+  }
+
+  private async post(
+    path: string,
+    body: object,
+    request: { config?: { abortSignal?: AbortSignal } },
+  ): Promise<Response> {
+    const response = await fetch(`${this.config.baseURL}${path}`, {
+      method: 'POST',
+      headers: this.headers,
+      body: JSON.stringify(body),
+      signal: request.config?.abortSignal,
+    });
+    if (!response.ok) {
+      throw await toApiError(response);
+    }
+    return response;
+  }
+}
+
+async function toApiError(response: Response): Promise<AnthropicApiError> {
+  const text = await response.text();
+  let type: string | undefined;
+  let message = text || response.statusText;
+  try {
+    const parsed = JSON.parse(text) as {
+      error?: { type?: string; message?: string };
+    };
+    type = parsed.error?.type;
+    message = parsed.error?.message ?? message;
+  } catch {
+    // Not JSON; keep the raw body.
+  }
+  return new AnthropicApiError(
+    `Anthropic API request failed with status ${response.status}: ${message}`,
+    response.status,
+    type,
+  );
+}
+
+/**
+ * Parses the `data:` payloads of a server-sent event stream. Every Messages
+ * API event repeats its name in the payload's `type`, so `event:` lines are
+ * not needed.
+ */
+async function* readServerSentEvents(
+  body: WebReadableStream<Uint8Array>,
+): AsyncGenerator<AnthropicStreamEvent> {
+  const rl = readline.createInterface({
+    input: Readable.fromWeb(body),
+    crlfDelay: Infinity,
+  });
+
+  let bufferedLines: string[] = [];
+  for await (const line of rl) {
+    if (line.startsWith('data:')) {
+      bufferedLines.push(line.slice(5).trim());
+    } else if (line === '') {
+      if (bufferedLines.length === 0) {
+        continue;
+      }
+      yield JSON.parse(bufferedLines.join('\n')) as AnthropicStreamEvent;
+      bufferedLines = [];
+    }
+  }
+  if (bufferedLines.length > 0) {
+    yield JSON.parse(bufferedLines.join('\n')) as AnthropicStreamEvent;
+  }
+}
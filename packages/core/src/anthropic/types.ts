@@ -0,0 +1,185 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Settings for the Anthropic Messages API content generator, resolved from
+ * the `ANTHROPIC_*` environment variables.
+ */
+export interface ResolvedAnthropicConfig {
+  baseURL: string;
+  /** Sent as `x-api-key`. */
+  apiKey?: string;
+  /** Sent as a bearer token, for gateways that expect one. */
+  authToken?: string;
+  model: string;
+  maxTokens: number;
+  contextWindow: number;
+  /** Whether `cache_control` markers are added to requests. */
+  promptCaching: boolean;
+}
+
+export interface AnthropicCacheControl {
+  type: 'ephemeral';
+}
+
+export interface AnthropicTextBlock {
+  type: 'text';
+  text: string;
+  cache_control?: AnthropicCacheControl;
+}
+
+export interface AnthropicImageBlock {
+  type: 'image';
+  source:
+    | { type: 'base64'; media_type: string; data: string }
+    | { type: 'url'; url: string };
+  cache_control?: AnthropicCacheControl;
+}
+
+export interface AnthropicDocumentBlock {
+  type: 'document';
+  source:
+    | { type: 'base64'; media_type: string; data: string }
+    | { type: 'url'; url: string };
+  cache_control?: AnthropicCacheControl;
+}
+
+export interface AnthropicThinkingBlock {
+  type: 'thinking';
+  thinking: string;
+  signature: string;
+}
+
+export interface AnthropicRedactedThinkingBlock {
+  type: 'redacted_thinking';
+  data: string;
+}
+
+export interface AnthropicToolUseBlock {
+  type: 'tool_use';
+  id: string;
+  name: string;
+  input: unknown;
+  cache_control?: AnthropicCacheControl;
+}
+
+export interface AnthropicToolResultBlock {
+  type: 'tool_result';
+  tool_use_id: string;
+  content: string | Array<AnthropicTextBlock | AnthropicImageBlock>;
+  is_error?: boolean;
+  cache_control?: AnthropicCacheControl;
+}
+
+export type AnthropicReasoningBlock =
+  | AnthropicThinkingBlock
+  | AnthropicRedactedThinkingBlock;
+
+export type AnthropicContentBlock =
+  | AnthropicTextBlock
+  | AnthropicImageBlock
+  | AnthropicDocumentBlock
+  | AnthropicReasoningBlock
+  | AnthropicToolUseBlock
+  | AnthropicToolResultBlock;
+
+export interface AnthropicMessageParam {
+  role: 'user' | 'assistant';
+  content: AnthropicContentBlock[];
+}
+
+export interface AnthropicTool {
+  name: string;
+  description?: string;
+  input_schema: Record<string, unknown>;
+  cache_control?: AnthropicCacheControl;
+}
+
+export interface AnthropicMessagesRequest {
+  model: string;
+  max_tokens: number;
+  messages: AnthropicMessageParam[];
+  system?: AnthropicTextBlock[];
+  tools?: AnthropicTool[];
+  temperature?: number;
+  stop_sequences?: string[];
+  thinking?: { type: 'enabled'; budget_tokens: number };
+  stream?: boolean;
+}
+
+export interface AnthropicUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_creation_input_tokens?: number | null;
+  cache_read_input_tokens?: number | null;
+}
+
+export interface AnthropicMessage {
+  id: string;
+  type: 'message';
+  role: 'assistant';
+  model: string;
+  content: AnthropicContentBlock[];
+  stop_reason: string | null;
+  usage: AnthropicUsage;
+}
+
+/**
+ * Server-sent events of a streamed Messages API response.
+ */
+export type AnthropicStreamEvent =
+  | { type: 'message_start'; message: AnthropicMessage }
+  | {
+      type: 'content_block_start';
+      index: number;
+      content_block: AnthropicContentBlock;
+    }
+  | {
+      type: 'content_block_delta';
+      index: number;
+      delta:
+        | { type: 'text_delta'; text: string }
+        | { type: 'input_json_delta'; partial_json: string }
+        | { type: 'thinking_delta'; thinking: string }
+        | { type: 'signature_delta'; signature: string };
+    }
+  | { type: 'content_block_stop'; index: number }
+  | {
+      type: 'message_delta';
+      delta: { stop_reason?: string | null };
+      usage?: AnthropicUsage;
+    }
+  | { type: 'message_stop' }
+  | { type: 'ping' }
+  | { type: 'error'; error: { type: string; message: string } };
+
+/**
+ * A content block being assembled from stream events.
+ */
+export interface StreamedBlock {
+  type: string;
+  text: string;
+  signature: string;
+  data: string;
+  toolUse?: { id: string; name: string };
+  inputJson: string;
+}
+
+/**
+ * Everything the converter tracks across the events of one streamed response.
+ */
+export interface AnthropicStreamState {
+  blocks: Map<number, StreamedBlock>;
+  /** Whether thought parts are emitted (Gemini `includeThoughts`). */
+  includeThoughts: boolean;
+  /** Thinking text received but not yet emitted as a thought part. */
+  pendingThought: string;
+  /** Completed thinking blocks, replayed in later turns via a signature. */
+  reasoning: AnthropicReasoningBlock[];
+  reasoningAttached: boolean;
+  stopReason?: string | null;
+  usage: AnthropicUsage;
+}
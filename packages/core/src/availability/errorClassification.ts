@@ -9,16 +9,18 @@ import {
   RetryableQuotaError,
 } from '../utils/googleQuotaErrors.js';
 import { ModelNotFoundError } from '../utils/httpErrors.js';
+import { classifyOpenAIError } from '../utils/openaiErrors.js';
 import type { FailureKind } from './modelPolicy.js';
 
 export function classifyFailureKind(error: unknown): FailureKind {
-  if (error instanceof TerminalQuotaError) {
+  const classified = classifyOpenAIError(error);
+  if (classified instanceof TerminalQuotaError) {
     return 'terminal';
   }
-  if (error instanceof RetryableQuotaError) {
+  if (classified instanceof RetryableQuotaError) {
     return 'transient';
   }
-  if (error instanceof ModelNotFoundError) {
+  if (classified instanceof ModelNotFoundError) {
     return 'not_found';
   }
   return 'unknown';
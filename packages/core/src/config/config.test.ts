@@ -164,6 +164,10 @@ vi.mock('../agents/subagent-tool.js', () => ({
   SubagentTool: vi.fn(),
 }));
 
+vi.mock('../agents/fan-out-tool.js', () => ({
+  AgentFanOutTool: vi.fn(),
+}));
+
 vi.mock('../resources/resource-registry.js', () => ({
   ResourceRegistry: vi.fn(),
 }));
@@ -440,6 +444,74 @@ describe('Server Config (config.ts)', () => {
       expect(GeminiClient).toHaveBeenCalledWith(config);
     });
 
+    it('should route Gemini models and purposes to the custom LLM role models', async () => {
+      const config = new Config(baseParams);
+      vi.mocked(createContentGeneratorConfig).mockResolvedValue({
+        authType: AuthType.CUSTOM_LLM_API,
+        customLlmProvider: {
+          model: 'qwen-32b',
+          models: { pro: 'qwen-72b', summarizer: 'local-8b' },
+          capabilities: { reasoning: true },
+        },
+      } as unknown as ContentGeneratorConfig);
+
+      await config.refreshAuth(AuthType.CUSTOM_LLM_API);
+
+      const resolve = (model: string) =>
+        config.modelConfigService.getResolvedConfig({ model }).model;
+      expect(resolve('gemini-2.5-pro')).toBe('qwen-72b');
+      expect(resolve('gemini-2.5-flash')).toBe('qwen-32b');
+      expect(resolve('summarizer-default')).toBe('local-8b');
+      expect(resolve('loop-detection-double-check')).toBe('qwen-72b');
+      expect(config.getCustomLlmModelRoles()).toEqual(
+        expect.arrayContaining([
+          { role: 'pro', model: 'qwen-72b' },
+          { role: 'flash-lite', model: 'qwen-32b' },
+          { role: 'summarizer', model: 'local-8b' },
+          { role: 'classifier', model: 'qwen-32b' },
+        ]),
+      );
+    });
+
+    it('should replace the custom LLM overrides when switching providers', async () => {
+      const config = new Config(baseParams);
+      const resolve = (model: string) =>
+        config.modelConfigService.getResolvedConfig({ model });
+      vi.mocked(createContentGeneratorConfig).mockResolvedValueOnce({
+        authType: AuthType.CUSTOM_LLM_API,
+        customLlmProvider: {
+          model: 'qwen-32b',
+          models: { summarizer: 'local-8b' },
+          capabilities: { reasoning: false },
+        },
+      } as unknown as ContentGeneratorConfig);
+      await config.refreshAuth(AuthType.CUSTOM_LLM_API);
+      expect(resolve('summarizer-default').model).toBe('local-8b');
+
+      vi.mocked(createContentGeneratorConfig).mockResolvedValueOnce({
+        authType: AuthType.CUSTOM_LLM_API,
+        customLlmProvider: {
+          model: 'llama-70b',
+          models: {},
+          capabilities: { reasoning: true },
+        },
+      } as unknown as ContentGeneratorConfig);
+      await config.refreshAuth(AuthType.CUSTOM_LLM_API);
+
+      expect(resolve('summarizer-default').model).toBe('llama-70b');
+      expect(
+        resolve('gemini-2.5-flash').generateContentConfig.thinkingConfig
+          ?.includeThoughts,
+      ).not.toBe(false);
+
+      vi.mocked(createContentGeneratorConfig).mockResolvedValueOnce({
+        authType: AuthType.USE_GEMINI,
+      } as unknown as ContentGeneratorConfig);
+      await config.refreshAuth(AuthType.USE_GEMINI);
+
+      expect(resolve('gemini-2.5-flash').model).toBe('gemini-2.5-flash');
+    });
+
     it('should reset model availability status', async () => {
       const config = new Config(baseParams);
       const service = config.getModelAvailabilityService();
@@ -1078,6 +1150,46 @@ describe('Server Config (config.ts)', () => {
       expect(registeredWrappers).toHaveLength(1);
     });
 
+    it('should register the fan-out tool for local agents', async () => {
+      const config = new Config(baseParams);
+
+      const localDefinition = {
+        kind: 'local',
+        name: 'codebase_investigator',
+        description: 'Agent 1',
+      };
+      const remoteDefinition = {
+        kind: 'remote',
+        name: 'remote_agent',
+        description: 'Agent 2',
+      };
+
+      const AgentRegistryMock = (
+        (await vi.importMock('../agents/registry.js')) as {
+          AgentRegistry: Mock;
+        }
+      ).AgentRegistry;
+      AgentRegistryMock.prototype.getAllDefinitions.mockReturnValue([
+        localDefinition,
+        remoteDefinition,
+      ]);
+
+      const AgentFanOutToolMock = (
+        (await vi.importMock('../agents/fan-out-tool.js')) as {
+          AgentFanOutTool: Mock;
+        }
+      ).AgentFanOutTool;
+
+      await config.initialize();
+
+      expect(AgentFanOutToolMock).toHaveBeenCalledTimes(1);
+      expect(AgentFanOutToolMock).toHaveBeenCalledWith(
+        [localDefinition],
+        config,
+        expect.anything(), // MessageBus
+      );
+    });
+
     it('should not register subagents as tools when agents are disabled', async () => {
       const params: ConfigParameters = {
         ...baseParams,
@@ -79,6 +79,7 @@ import { ModelRouterService } from '../routing/modelRouterService.js';
 import { OutputFormat } from '../output/types.js';
 import type {
   ModelConfig,
+  ModelConfigOverride,
   ModelConfigServiceConfig,
 } from '../services/modelConfigService.js';
 import { ModelConfigService } from '../services/modelConfigService.js';
@@ -107,18 +108,32 @@ import { AgentRegistry } from '../agents/registry.js';
 import { AcknowledgedAgentsService } from '../agents/acknowledgedAgents.js';
 import { setGlobalProxy } from '../utils/fetch.js';
 import { SubagentTool } from '../agents/subagent-tool.js';
+import { AgentFanOutTool } from '../agents/fan-out-tool.js';
 import { getExperiments } from '../code_assist/experiments/experiments.js';
 import { ExperimentFlags } from '../code_assist/experiments/flagNames.js';
 import { debugLogger } from '../utils/debugLogger.js';
 import { SkillManager, type SkillDefinition } from '../skills/skillManager.js';
 import { startupProfiler } from '../telemetry/startupProfiler.js';
-import type { AgentDefinition } from '../agents/types.js';
+import {
+  AGENT_FAN_OUT_TOOL_NAME,
+  type AgentDefinition,
+  type LocalAgentDefinition,
+} from '../agents/types.js';
 import {
   logApprovalModeSwitch,
   logApprovalModeDuration,
 } from '../telemetry/loggers.js';
 import { fetchAdminControls } from '../code_assist/admin/admin_controls.js';
 import { isSubpath } from '../utils/paths.js';
+import {
+  CUSTOM_LLM_MODEL_ROLES,
+  getCustomLlmModelOverrides,
+} from '../custom_llm/modelRoles.js';
+import type {
+  CustomLlmSettings,
+  ModelCapabilities,
+  ResolvedCustomLlmProvider,
+} from '../custom_llm/types.js';
 
 export interface AccessibilitySettings {
   enableLoadingPhrases?: boolean;
@@ -167,6 +182,9 @@ export interface ResolvedExtensionSetting {
 export interface AgentRunConfig {
   maxTimeMinutes?: number;
   maxTurns?: number;
+  maxInputTokens?: number;
+  maxOutputTokens?: number;
+  maxToolCalls?: number;
 }
 
 export interface AgentOverride {
@@ -463,6 +481,7 @@ export interface ConfigParameters {
   mcpEnabled?: boolean;
   extensionsEnabled?: boolean;
   agents?: AgentSettings;
+  customLlm?: CustomLlmSettings;
   onReload?: () => Promise<{
     disabledSkills?: string[];
     adminSkillsEnabled?: boolean;
@@ -613,6 +632,10 @@ export class Config {
 
   private readonly enableAgents: boolean;
   private agents: AgentSettings;
+  private readonly customLlm: CustomLlmSettings;
+  private customLlmProviderId: string | undefined;
+  private customLlmModelOverrides: ModelConfigOverride[] = [];
+  private ollamaModel: string | undefined;
   private readonly enableEventDrivenScheduler: boolean;
   private readonly skillsSupport: boolean;
   private disabledSkills: string[];
@@ -704,6 +727,7 @@ export class Config {
     this._activeModel = params.model;
     this.enableAgents = params.enableAgents ?? false;
     this.agents = params.agents ?? {};
+    this.customLlm = params.customLlm ?? {};
     this.disableLLMCorrection = params.disableLLMCorrection ?? true;
     this.planEnabled = params.plan ?? false;
     this.enableEventDrivenScheduler = params.enableEventDrivenScheduler ?? true;
@@ -977,9 +1001,14 @@ export class Config {
     );
     // Only assign to instance properties after successful initialization
     this.contentGeneratorConfig = newContentGeneratorConfig;
-    if (this.contentGeneratorConfig.authType === AuthType.CUSTOM_LLM_API) {
-      this.applyCustomLlmModelOverrides();
-    }
+    const customModel =
+      this.contentGeneratorConfig.customLlmProvider?.model ??
+      this.contentGeneratorConfig.anthropic?.model ??
+      this.contentGeneratorConfig.ollama?.model;
+    this.applyCustomLlmModelOverrides(
+      customModel,
+      this.contentGeneratorConfig.customLlmProvider,
+    );
 
     // Initialize BaseLlmClient now that the ContentGenerator is available
     this.baseLlmClient = new BaseLlmClient(this.contentGenerator, this);
@@ -1044,26 +1073,140 @@ export class Config {
     return getExperiments(codeAssistServer);
   }
 
-  private applyCustomLlmModelOverrides(): void {
-    const modelName = (process.env['CUSTOM_LLM_MODEL_NAME'] ?? '').trim();
+  /**
+   * Replaces the model overrides of the previous custom LLM provider with
+   * those of the current one, or removes them when no custom model is used.
+   */
+  private applyCustomLlmModelOverrides(
+    modelName: string | undefined,
+    provider?: ResolvedCustomLlmProvider,
+  ): void {
+    for (const override of this.customLlmModelOverrides) {
+      this.modelConfigService.unregisterRuntimeModelOverride(override);
+    }
+    this.customLlmModelOverrides = [];
     if (!modelName) {
       return;
     }
-    const overrideTargets = [
-      'gemini-3-pro-preview',
-      'gemini-3-flash-preview',
-      'gemini-2.5-pro',
-      'gemini-2.5-flash',
-      'gemini-2.5-flash-lite',
-    ];
-    for (const target of overrideTargets) {
-      this.modelConfigService.registerRuntimeModelOverride({
-        match: { model: target },
-        modelConfig: { model: modelName },
-      });
+    // Models without reasoning have no thoughts to show.
+    const generateContentConfig =
+      provider?.capabilities.reasoning === false
+        ? { thinkingConfig: { includeThoughts: false } }
+        : undefined;
+    for (const override of getCustomLlmModelOverrides(
+      modelName,
+      provider?.models,
+      generateContentConfig,
+    )) {
+      this.modelConfigService.registerRuntimeModelOverride(override);
+      this.customLlmModelOverrides.push(override);
     }
   }
 
+  getCustomLlmSettings(): CustomLlmSettings {
+    return this.customLlm;
+  }
+
+  /**
+   * Returns the custom LLM provider selected for this session, if any. When
+   * undefined, the `customLlm.provider` setting decides.
+   */
+  getCustomLlmProviderId(): string | undefined {
+    return this.customLlmProviderId;
+  }
+
+  /**
+   * Returns the custom LLM provider the current content generator talks to,
+   * or undefined when not authenticated with a custom LLM.
+   */
+  getActiveCustomLlmProvider(): ResolvedCustomLlmProvider | undefined {
+    return this.contentGeneratorConfig?.customLlmProvider;
+  }
+
+  /**
+   * Returns the model that serves each role (`pro`, `summarizer`, ...) of the
+   * custom LLM provider, as resolved by the model config service, or
+   * undefined when not authenticated with a custom LLM.
+   */
+  getCustomLlmModelRoles(): Array<{ role: string; model: string }> | undefined {
+    const provider = this.getActiveCustomLlmProvider();
+    if (!provider) {
+      return undefined;
+    }
+    const roles = new Set([
+      ...Object.keys(CUSTOM_LLM_MODEL_ROLES),
+      ...Object.keys(provider.models),
+    ]);
+    return [...roles].map((role) => ({
+      role,
+      model: this.modelConfigService.getResolvedConfig({
+        model: CUSTOM_LLM_MODEL_ROLES[role]?.[0] ?? role,
+      }).model,
+    }));
+  }
+
+  /**
+   * Returns the capabilities of the custom LLM model serving this session,
+   * or undefined when not authenticated with a custom LLM.
+   */
+  getModelCapabilities(): ModelCapabilities | undefined {
+    return this.getActiveCustomLlmProvider()?.capabilities;
+  }
+
+  /**
+   * Returns the configured context window for `model`, if any. Custom LLM,
+   * Anthropic and Ollama providers serve every request with their own model,
+   * so their window applies regardless of the model name.
+   */
+  getModelContextWindow(_model: string): number | undefined {
+    return (
+      this.getModelCapabilities()?.contextWindow ??
+      this.contentGeneratorConfig?.anthropic?.contextWindow ??
+      this.contentGeneratorConfig?.ollama?.contextWindow
+    );
+  }
+
+  /**
+   * Returns the Ollama model selected for this session, if any. When
+   * undefined, `OLLAMA_MODEL` decides.
+   */
+  getOllamaModel(): string | undefined {
+    return this.ollamaModel;
+  }
+
+  /**
+   * Switches the Ollama model for the rest of the session and recreates the
+   * content generator. The previous selection is kept if that fails.
+   */
+  async setOllamaModel(model: string): Promise<void> {
+    const previousModel = this.ollamaModel;
+    this.ollamaModel = model;
+    try {
+      await this.refreshAuth(AuthType.OLLAMA);
+    } catch (error) {
+      this.ollamaModel = previousModel;
+      throw error;
+    }
+    coreEvents.emitModelChanged(this.getModel());
+  }
+
+  /**
+   * Switches the custom LLM provider for the rest of the session and
+   * recreates the content generator. The previous selection is kept if the
+   * new provider cannot be resolved.
+   */
+  async setCustomLlmProvider(providerId: string): Promise<void> {
+    const previousProviderId = this.customLlmProviderId;
+    this.customLlmProviderId = providerId;
+    try {
+      await this.refreshAuth(AuthType.CUSTOM_LLM_API);
+    } catch (error) {
+      this.customLlmProviderId = previousProviderId;
+      throw error;
+    }
+    coreEvents.emitModelChanged(this.getModel());
+  }
+
   getUserTier(): UserTierId | undefined {
     return this.contentGenerator?.userTier;
   }
@@ -1147,9 +1290,23 @@ export class Config {
         process.env['USE_CUSTOM_LLM'] !== 'false') ||
       this.contentGeneratorConfig?.authType === AuthType.CUSTOM_LLM_API
     ) {
-      const envModel = process.env['CUSTOM_LLM_MODEL_NAME'];
-      if (envModel && envModel.trim().length > 0) {
-        return envModel.trim();
+      const customModel =
+        this.getActiveCustomLlmProvider()?.model ??
+        process.env['CUSTOM_LLM_MODEL_NAME']?.trim();
+      if (customModel) {
+        return customModel;
+      }
+    }
+    if (this.contentGeneratorConfig?.authType === AuthType.ANTHROPIC_API) {
+      const anthropicModel = this.contentGeneratorConfig.anthropic?.model;
+      if (anthropicModel) {
+        return anthropicModel;
+      }
+    }
+    if (this.contentGeneratorConfig?.authType === AuthType.OLLAMA) {
+      const ollamaModel = this.contentGeneratorConfig.ollama?.model;
+      if (ollamaModel) {
+        return ollamaModel;
       }
     }
     return this.model;
@@ -2059,7 +2216,8 @@ export class Config {
     return Math.min(
       // Estimate remaining context window in characters (1 token ~= 4 chars).
       4 *
-        (tokenLimit(this.model) - uiTelemetryService.getLastPromptTokenCount()),
+        (tokenLimit(this.model, this) -
+          uiTelemetryService.getLastPromptTokenCount()),
       this.truncateToolOutputThreshold,
     );
   }
@@ -2198,6 +2356,7 @@ export class Config {
     ) {
       const allowedTools = this.getAllowedTools();
       const definitions = this.agentRegistry.getAllDefinitions();
+      const fanOutDefinitions: LocalAgentDefinition[] = [];
 
       for (const definition of definitions) {
         const isAllowed =
@@ -2211,6 +2370,9 @@ export class Config {
               this.getMessageBus(),
             );
             registry.registerTool(tool);
+            if (definition.kind === 'local') {
+              fanOutDefinitions.push(definition);
+            }
           } catch (e: unknown) {
             debugLogger.warn(
               `Failed to register tool for agent ${definition.name}: ${getErrorMessage(e)}`,
@@ -2218,6 +2380,16 @@ export class Config {
           }
         }
       }
+
+      // Local agents can also be run over a list of inputs in parallel.
+      if (
+        fanOutDefinitions.length > 0 &&
+        (!allowedTools || allowedTools.includes(AGENT_FAN_OUT_TOOL_NAME))
+      ) {
+        registry.registerTool(
+          new AgentFanOutTool(fanOutDefinitions, this, this.getMessageBus()),
+        );
+      }
     }
   }
 
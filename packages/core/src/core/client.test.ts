@@ -49,6 +49,7 @@ import { ClearcutLogger } from '../telemetry/clearcut-logger/clearcut-logger.js'
 import * as policyCatalog from '../availability/policyCatalog.js';
 import { partToString } from '../utils/partUtils.js';
 import { coreEvents } from '../utils/events.js';
+import { ContextWindowExceededError } from '../utils/httpErrors.js';
 
 // Mock fs module to prevent actual file system operations during tests
 const mockFileSystem = new Map<string, string>();
@@ -1445,7 +1446,7 @@ ${JSON.stringify(
           remainingTokenCount,
         },
       });
-      expect(tokenLimit).toHaveBeenCalledWith(STICKY_MODEL);
+      expect(tokenLimit).toHaveBeenCalledWith(STICKY_MODEL, mockConfig);
       expect(mockTurnRunFn).not.toHaveBeenCalled();
     });
 
@@ -2010,6 +2011,117 @@ ${JSON.stringify(
       expect(mockTurnRunFn).toHaveBeenCalledTimes(2);
     });
 
+    it('should compress the history and resend the request when the context window is exceeded', async () => {
+      const overflowStream = (async function* () {
+        yield* [];
+        throw new ContextWindowExceededError(
+          "This model's maximum context length is 8192 tokens.",
+        );
+      })();
+      const retryStream = (async function* () {
+        yield { type: GeminiEventType.Content, value: 'After compression' };
+      })();
+      mockTurnRunFn
+        .mockReturnValueOnce(overflowStream)
+        .mockReturnValueOnce(retryStream);
+
+      const compressed = {
+        originalTokenCount: 9000,
+        newTokenCount: 2000,
+        compressionStatus: CompressionStatus.COMPRESSED,
+      };
+      const tryCompressChatSpy = vi
+        .spyOn(client, 'tryCompressChat')
+        .mockImplementation(async (_promptId, force) =>
+          force
+            ? compressed
+            : {
+                originalTokenCount: 0,
+                newTokenCount: 0,
+                compressionStatus: CompressionStatus.NOOP,
+              },
+        );
+
+      const history: Content[] = [
+        { role: 'user', parts: [{ text: 'Earlier' }] },
+        { role: 'model', parts: [{ text: 'Reply' }] },
+        { role: 'user', parts: [{ text: 'Hi' }] },
+      ];
+      const mockChat: Partial<GeminiChat> = {
+        addHistory: vi.fn(),
+        setHistory: vi.fn(),
+        getHistory: vi.fn().mockReturnValue(history),
+        getLastPromptTokenCount: vi.fn(),
+      };
+      client['chat'] = mockChat as GeminiChat;
+
+      const initialRequest = [{ text: 'Hi' }];
+      const stream = client.sendMessageStream(
+        initialRequest,
+        new AbortController().signal,
+        'prompt-id-overflow',
+      );
+      const events = await fromAsync(stream);
+
+      expect(events).toEqual([
+        { type: GeminiEventType.ModelInfo, value: 'default-routed-model' },
+        { type: GeminiEventType.ChatCompressed, value: compressed },
+        { type: GeminiEventType.Content, value: 'After compression' },
+      ]);
+      // The rejected request is removed so that it is not sent twice.
+      expect(mockChat.setHistory).toHaveBeenCalledWith(history.slice(0, 2));
+      expect(tryCompressChatSpy).toHaveBeenCalledWith(
+        'prompt-id-overflow',
+        true,
+      );
+      expect(mockTurnRunFn).toHaveBeenCalledTimes(2);
+      expect(mockTurnRunFn).toHaveBeenNthCalledWith(
+        2,
+        { model: 'default-routed-model' },
+        initialRequest,
+        expect.any(AbortSignal),
+        undefined,
+      );
+    });
+
+    it('should report the overflow when the history cannot be compressed', async () => {
+      mockTurnRunFn.mockReturnValueOnce(
+        (async function* () {
+          yield* [];
+          throw new ContextWindowExceededError('Prompt is too long');
+        })(),
+      );
+      vi.spyOn(client, 'tryCompressChat').mockResolvedValue({
+        originalTokenCount: 0,
+        newTokenCount: 0,
+        compressionStatus: CompressionStatus.NOOP,
+      });
+
+      const mockChat: Partial<GeminiChat> = {
+        addHistory: vi.fn(),
+        setHistory: vi.fn(),
+        getHistory: vi.fn().mockReturnValue([]),
+        getLastPromptTokenCount: vi.fn(),
+      };
+      client['chat'] = mockChat as GeminiChat;
+
+      const stream = client.sendMessageStream(
+        [{ text: 'Hi' }],
+        new AbortController().signal,
+        'prompt-id-overflow',
+      );
+      const events = await fromAsync(stream);
+
+      expect(events).toEqual([
+        { type: GeminiEventType.ModelInfo, value: 'default-routed-model' },
+        {
+          type: GeminiEventType.Error,
+          value: { error: { message: 'Prompt is too long', status: 400 } },
+        },
+      ]);
+      expect(mockTurnRunFn).toHaveBeenCalledTimes(1);
+    });
+
     describe('Editor context delta', () => {
       const mockStream = (async function* () {
         yield { type: 'content', value: 'Hello' };
@@ -27,6 +27,7 @@ import { GeminiChat } from './geminiChat.js';
 import { retryWithBackoff } from '../utils/retry.js';
 import type { ValidationRequiredError } from '../utils/googleQuotaErrors.js';
 import { getErrorMessage } from '../utils/errors.js';
+import { ContextWindowExceededError } from '../utils/httpErrors.js';
 import { tokenLimit } from './tokenLimits.js';
 import type {
   ChatRecordingService,
@@ -560,7 +561,8 @@ export class GeminiClient {
     }
 
     const remainingTokenCount =
-      tokenLimit(modelForLimitCheck) - this.getChat().getLastPromptTokenCount();
+      tokenLimit(modelForLimitCheck, this.config) -
+      this.getChat().getLastPromptTokenCount();
 
     // Estimate tokens. For text-only requests, we estimate based on character length.
     // For requests with non-text parts (like images, tools), we use the countTokens API.
@@ -657,22 +659,37 @@ export class GeminiClient {
     let isError = false;
     let isInvalidStream = false;
 
-    for await (const event of resultStream) {
-      if (this.loopDetector.addAndCheck(event)) {
-        yield { type: GeminiEventType.LoopDetected };
-        controller.abort();
-        return turn;
-      }
-      yield event;
+    try {
+      for await (const event of resultStream) {
+        if (this.loopDetector.addAndCheck(event)) {
+          yield { type: GeminiEventType.LoopDetected };
+          controller.abort();
+          return turn;
+        }
+        yield event;
 
-      this.updateTelemetryTokenCount();
+        this.updateTelemetryTokenCount();
 
-      if (event.type === GeminiEventType.InvalidStream) {
-        isInvalidStream = true;
+        if (event.type === GeminiEventType.InvalidStream) {
+          isInvalidStream = true;
+        }
+        if (event.type === GeminiEventType.Error) {
+          isError = true;
+        }
       }
-      if (event.type === GeminiEventType.Error) {
-        isError = true;
+    } catch (error) {
+      if (!(error instanceof ContextWindowExceededError)) {
+        throw error;
       }
+      return yield* this.retryAfterContextOverflow(
+        error,
+        turn,
+        request,
+        signal,
+        prompt_id,
+        boundedTurns,
+        displayContent,
+      );
     }
 
     if (isError) {
@@ -756,6 +773,46 @@ export class GeminiClient {
     return turn;
   }
 
+  /**
+   * Handles a request the model rejected for not fitting in its context
+   * window. The request is removed from the history, the history is
+   * compressed and the request is sent again. If the history cannot be
+   * compressed, the overflow is reported as an error.
+   */
+  private async *retryAfterContextOverflow(
+    error: ContextWindowExceededError,
+    turn: Turn,
+    request: PartListUnion,
+    signal: AbortSignal,
+    prompt_id: string,
+    boundedTurns: number,
+    displayContent?: PartListUnion,
+  ): AsyncGenerator<ServerGeminiStreamEvent, Turn> {
+    const history = this.getChat().getHistory();
+    if (history[history.length - 1]?.role === 'user') {
+      this.getChat().setHistory(history.slice(0, -1));
+    }
+
+    const compressed = await this.tryCompressChat(prompt_id, true);
+    if (compressed.compressionStatus !== CompressionStatus.COMPRESSED) {
+      yield {
+        type: GeminiEventType.Error,
+        value: { error: { message: error.message, status: 400 } },
+      };
+      return turn;
+    }
+    yield { type: GeminiEventType.ChatCompressed, value: compressed };
+
+    return yield* this.sendMessageStream(
+      request,
+      signal,
+      prompt_id,
+      boundedTurns - 1,
+      false, // isInvalidStreamRetry is false
+      displayContent,
+    );
+  }
+
   async *sendMessageStream(
     request: PartListUnion,
     signal: AbortSignal,
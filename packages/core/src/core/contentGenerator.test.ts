@@ -18,6 +18,8 @@ import { LoggingContentGenerator } from './loggingContentGenerator.js';
 import { loadApiKey } from './apiKeyCredentialStorage.js';
 import { FakeContentGenerator } from './fakeContentGenerator.js';
 import { RecordingContentGenerator } from './recordingContentGenerator.js';
+import { CustomLLMContentGenerator } from '../custom_llm/index.js';
+import type { ResolvedCustomLlmProvider } from '../custom_llm/types.js';
 
 vi.mock('../code_assist/codeAssist.js');
 vi.mock('@google/genai');
@@ -26,6 +28,7 @@ vi.mock('./apiKeyCredentialStorage.js', () => ({
 }));
 
 vi.mock('./fakeContentGenerator.js');
+vi.mock('../custom_llm/index.js');
 
 const mockConfig = {
   getModel: vi.fn().mockReturnValue('gemini-pro'),
@@ -231,6 +234,28 @@ describe('createContentGenerator', () => {
     );
   });
 
+  it('should pass custom headers and the proxy to the custom LLM generator', async () => {
+    const provider = { id: 'local' } as ResolvedCustomLlmProvider;
+    vi.stubEnv('GEMINI_CLI_CUSTOM_HEADERS', 'X-Test-Header: test');
+
+    await createContentGenerator(
+      {
+        authType: AuthType.CUSTOM_LLM_API,
+        proxy: 'http://proxy.example.com:8080',
+        customLlmProvider: provider,
+      },
+      mockConfig,
+    );
+
+    expect(CustomLLMContentGenerator).toHaveBeenCalledWith(provider, {
+      userAgent: expect.any(String),
+      headers: { 'X-Test-Header': 'test' },
+      proxy: 'http://proxy.example.com:8080',
+      getSessionId: expect.any(Function),
+      onToolArgumentsRepair: expect.any(Function),
+    });
+  });
+
   it('should pass api key as Authorization Header when GEMINI_API_KEY_AUTH_MECHANISM is set to bearer', async () => {
     const mockConfig = {
       getModel: vi.fn().mockReturnValue('gemini-pro'),
@@ -25,6 +25,16 @@ import { parseCustomHeaders } from '../utils/customHeaderUtils.js';
 import { RecordingContentGenerator } from './recordingContentGenerator.js';
 import { getVersion, resolveModel } from '../../index.js';
 import { CustomLLMContentGenerator } from '../custom_llm/index.js';
+import { resolveCustomLlmProvider } from '../custom_llm/providers.js';
+import type { ResolvedCustomLlmProvider } from '../custom_llm/types.js';
+import { AnthropicContentGenerator } from '../anthropic/index.js';
+import { resolveAnthropicConfig } from '../anthropic/config.js';
+import type { ResolvedAnthropicConfig } from '../anthropic/types.js';
+import { OllamaContentGenerator } from '../ollama/index.js';
+import { resolveOllamaConfig } from '../ollama/config.js';
+import type { ResolvedOllamaConfig } from '../ollama/types.js';
+import { logToolCallArgumentsRepair } from '../telemetry/loggers.js';
+import { ToolCallArgumentsRepairEvent } from '../telemetry/types.js';
 
 /**
  * Interface abstracting the core functionalities for generating content and counting tokens.
@@ -56,6 +66,8 @@ export enum AuthType {
   LEGACY_CLOUD_SHELL = 'cloud-shell',
   COMPUTE_ADC = 'compute-default-credentials',
   CUSTOM_LLM_API = 'custom-llm-api',
+  ANTHROPIC_API = 'anthropic-api',
+  OLLAMA = 'ollama',
 }
 
 export type ContentGeneratorConfig = {
@@ -63,6 +75,9 @@ export type ContentGeneratorConfig = {
   vertexai?: boolean;
   authType?: AuthType;
   proxy?: string;
+  customLlmProvider?: ResolvedCustomLlmProvider;
+  anthropic?: ResolvedAnthropicConfig;
+  ollama?: ResolvedOllamaConfig;
 };
 
 export async function createContentGeneratorConfig(
@@ -108,6 +123,29 @@ export async function createContentGeneratorConfig(
     return contentGeneratorConfig;
   }
 
+  if (authType === AuthType.CUSTOM_LLM_API) {
+    contentGeneratorConfig.customLlmProvider = resolveCustomLlmProvider(
+      config.getCustomLlmSettings(),
+      config.getCustomLlmProviderId(),
+    );
+
+    return contentGeneratorConfig;
+  }
+
+  if (authType === AuthType.ANTHROPIC_API) {
+    contentGeneratorConfig.anthropic = resolveAnthropicConfig();
+
+    return contentGeneratorConfig;
+  }
+
+  if (authType === AuthType.OLLAMA) {
+    contentGeneratorConfig.ollama = resolveOllamaConfig(
+      config.getOllamaModel(),
+    );
+
+    return contentGeneratorConfig;
+  }
+
   return contentGeneratorConfig;
 }
 
@@ -165,11 +203,37 @@ export async function createContentGenerator(
       );
     }
     if (config.authType === AuthType.CUSTOM_LLM_API) {
-      const customGenerator = new CustomLLMContentGenerator({
-        userAgent,
-      });
+      const customGenerator = new CustomLLMContentGenerator(
+        config.customLlmProvider ??
+          resolveCustomLlmProvider(gcConfig.getCustomLlmSettings()),
+        {
+          userAgent,
+          headers: customHeadersMap,
+          proxy: config.proxy,
+          getSessionId: () => gcConfig.getSessionId(),
+          onToolArgumentsRepair: ({ toolName, repairs, success }) =>
+            logToolCallArgumentsRepair(
+              gcConfig,
+              new ToolCallArgumentsRepairEvent(toolName, repairs, success),
+            ),
+        },
+      );
       return new LoggingContentGenerator(customGenerator, gcConfig);
     }
+    if (config.authType === AuthType.ANTHROPIC_API) {
+      const anthropicGenerator = new AnthropicContentGenerator(
+        config.anthropic ?? resolveAnthropicConfig(),
+        { userAgent },
+      );
+      return new LoggingContentGenerator(anthropicGenerator, gcConfig);
+    }
+    if (config.authType === AuthType.OLLAMA) {
+      const ollamaGenerator = new OllamaContentGenerator(
+        config.ollama ?? resolveOllamaConfig(gcConfig.getOllamaModel()),
+        { userAgent },
+      );
+      return new LoggingContentGenerator(ollamaGenerator, gcConfig);
+    }
 
     if (
       config.authType === AuthType.USE_GEMINI ||
@@ -34,6 +34,7 @@ import {
   HookSystem,
   PolicyDecision,
   ToolErrorType,
+  INVALID_TOOL_CALL_KEY,
 } from '../index.js';
 import { createMockMessageBus } from '../test-utils/mock-message-bus.js';
 import {
@@ -693,6 +694,53 @@ describe('CoreToolScheduler', () => {
   });
 });
 
+describe('CoreToolScheduler invalid tool calls', () => {
+  it('should answer a call marked as invalid with an error without running it', async () => {
+    const getTool = vi.fn();
+    const mockToolRegistry = {
+      getTool,
+      getAllToolNames: () => [],
+    } as unknown as ToolRegistry;
+    const onAllToolCallsComplete = vi.fn();
+    const scheduler = new CoreToolScheduler({
+      config: createMockConfig({
+        getToolRegistry: () => mockToolRegistry,
+      }),
+      onAllToolCallsComplete,
+      onToolCallsUpdate: vi.fn(),
+      getPreferredEditor: () => 'vscode',
+    });
+
+    await scheduler.schedule(
+      [
+        {
+          callId: '1',
+          name: 'write_file',
+          args: {
+            [INVALID_TOOL_CALL_KEY]: {
+              message: 'Tool "write_file" is not available in this request.',
+            },
+          },
+          isClientInitiated: false,
+          prompt_id: 'prompt-id-1',
+        },
+      ],
+      new AbortController().signal,
+    );
+
+    expect(getTool).not.toHaveBeenCalled();
+    const [erroredCall] = onAllToolCallsComplete.mock
+      .calls[0][0] as ErroredToolCall[];
+    expect(erroredCall.status).toBe('error');
+    expect(erroredCall.response.errorType).toBe(
+      ToolErrorType.INVALID_TOOL_CALL,
+    );
+    expect(erroredCall.response.error?.message).toBe(
+      'Tool "write_file" is not available in this request.',
+    );
+  });
+});
+
 describe('CoreToolScheduler with payload', () => {
   it('should update args and diff and execute tool when payload is provided', async () => {
     const mockTool = new MockModifiableTool();
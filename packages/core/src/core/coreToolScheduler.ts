@@ -17,6 +17,7 @@ import type { Config } from '../config/config.js';
 import { PolicyDecision } from '../policy/types.js';
 import { logToolCall } from '../telemetry/loggers.js';
 import { ToolErrorType } from '../tools/tool-error.js';
+import { getInvalidToolCall } from '../tools/invalid-tool-call.js';
 import { ToolCallEvent } from '../telemetry/types.js';
 import { runInDevTraceSpan } from '../telemetry/trace.js';
 import { ToolModificationHandler } from '../scheduler/tool-modifier.js';
@@ -485,6 +486,20 @@ export class CoreToolScheduler {
 
       const newToolCalls: ToolCall[] = requestsToProcess.map(
         (reqInfo): ToolCall => {
+          const invalid = getInvalidToolCall(reqInfo.args);
+          if (invalid) {
+            return {
+              status: 'error',
+              request: reqInfo,
+              response: createErrorResponse(
+                reqInfo,
+                new Error(invalid.message),
+                ToolErrorType.INVALID_TOOL_CALL,
+              ),
+              durationMs: 0,
+            };
+          }
+
           const toolInstance = this.config
             .getToolRegistry()
             .getTool(reqInfo.name);
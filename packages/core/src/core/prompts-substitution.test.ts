@@ -30,6 +30,7 @@ describe('Core System Prompt Substitution', () => {
           ]),
       }),
       getEnableShellOutputEfficiency: vi.fn().mockReturnValue(true),
+      getModelCapabilities: vi.fn().mockReturnValue(undefined),
       storage: {
         getProjectTempDir: vi.fn().mockReturnValue('/tmp/project-temp'),
       },
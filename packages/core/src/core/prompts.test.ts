@@ -64,6 +64,7 @@ describe('Core System Prompt (prompts.ts)', () => {
         getAllToolNames: vi.fn().mockReturnValue([]),
       }),
       getEnableShellOutputEfficiency: vi.fn().mockReturnValue(true),
+      getModelCapabilities: vi.fn().mockReturnValue(undefined),
       storage: {
         getProjectTempDir: vi.fn().mockReturnValue('/tmp/project-temp'),
         getProjectTempPlansDir: vi
@@ -206,6 +207,17 @@ describe('Core System Prompt (prompts.ts)', () => {
     expect(prompt).toMatchSnapshot(); // Use snapshot for base prompt structure
   });
 
+  it('should tell a model without vision that it cannot view images', () => {
+    expect(getCoreSystemPrompt(mockConfig, '')).not.toContain('**Images:**');
+
+    mockConfig.getModelCapabilities = vi
+      .fn()
+      .mockReturnValue({ vision: false });
+    expect(getCoreSystemPrompt(mockConfig, '')).toContain(
+      '**Images:** You cannot view images.',
+    );
+  });
+
   it.each([
     [[CodebaseInvestigatorAgent.name], true],
     [[], false],
@@ -217,6 +229,7 @@ describe('Core System Prompt (prompts.ts)', () => {
           getAllToolNames: vi.fn().mockReturnValue(toolNames),
         }),
         getEnableShellOutputEfficiency: vi.fn().mockReturnValue(true),
+        getModelCapabilities: vi.fn().mockReturnValue(undefined),
         storage: {
           getProjectTempDir: vi.fn().mockReturnValue('/tmp/project-temp'),
         },
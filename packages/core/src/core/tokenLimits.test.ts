@@ -30,11 +30,27 @@ describe('tokenLimit', () => {
     expect(tokenLimit('unknown-model')).toBe(DEFAULT_TOKEN_LIMIT);
   });
 
+  it('should return the window of a well-known custom model', () => {
+    expect(tokenLimit('gpt-4o')).toBe(128_000);
+    expect(tokenLimit('Qwen/Qwen3-Coder-480B-A35B-Instruct')).toBe(262_144);
+  });
+
   it('should return the default token limit if no model is provided', () => {
     // @ts-expect-error testing invalid input
     expect(tokenLimit(undefined)).toBe(DEFAULT_TOKEN_LIMIT);
   });
 
+  it('should prefer a context window configured for the model', () => {
+    const config = { getModelContextWindow: () => 32_768 };
+
+    expect(tokenLimit(DEFAULT_GEMINI_MODEL, config)).toBe(32_768);
+    expect(
+      tokenLimit(DEFAULT_GEMINI_MODEL, {
+        getModelContextWindow: () => undefined,
+      }),
+    ).toBe(1_048_576);
+  });
+
   it('should have the correct default token limit value', () => {
     expect(DEFAULT_TOKEN_LIMIT).toBe(1_048_576);
   });
@@ -11,13 +11,29 @@ import {
   PREVIEW_GEMINI_FLASH_MODEL,
   PREVIEW_GEMINI_MODEL,
 } from '../config/models.js';
+import { getModelProfile } from '../custom_llm/capabilities.js';
 
 type Model = string;
 type TokenCount = number;
 
 export const DEFAULT_TOKEN_LIMIT = 1_048_576;
 
-export function tokenLimit(model: Model): TokenCount {
+/**
+ * Provides context window sizes configured for the session, such as the
+ * window in the capability profile of a custom LLM provider's model.
+ */
+export interface TokenLimitConfig {
+  getModelContextWindow(model: Model): TokenCount | undefined;
+}
+
+export function tokenLimit(
+  model: Model,
+  config?: TokenLimitConfig,
+): TokenCount {
+  const configured = config?.getModelContextWindow(model);
+  if (configured !== undefined) {
+    return configured;
+  }
   // Add other models as they become relevant or if specified by config
   // Pulled from https://ai.google.dev/gemini-api/docs/models
   switch (model) {
@@ -28,6 +44,10 @@ export function tokenLimit(model: Model): TokenCount {
     case DEFAULT_GEMINI_FLASH_LITE_MODEL:
       return 1_048_576;
     default:
-      return DEFAULT_TOKEN_LIMIT;
+      // Well-known custom models, e.g. when a session has no config.
+      return (
+        (model ? getModelProfile(model)?.contextWindow : undefined) ??
+        DEFAULT_TOKEN_LIMIT
+      );
   }
 }
@@ -25,6 +25,7 @@ import {
 } from '../utils/errors.js';
 import type { GeminiChat } from './geminiChat.js';
 import { InvalidStreamError } from './geminiChat.js';
+import { ContextWindowExceededError } from '../utils/httpErrors.js';
 import { parseThought, type ThoughtSummary } from '../utils/thoughtUtils.js';
 import { createUserContent } from '@google/genai';
 import type { ModelConfigKey } from '../services/modelConfigService.js';
@@ -363,7 +364,12 @@ export class Turn {
       }
 
       const error = toFriendlyError(e);
-      if (error instanceof UnauthorizedError) {
+      if (
+        error instanceof UnauthorizedError ||
+        error instanceof ContextWindowExceededError
+      ) {
+        // A context overflow is handled by the client, which compresses the
+        // history and sends the request again.
         throw error;
       }
 
@@ -0,0 +1,72 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_MODEL_CAPABILITIES,
+  getModelProfile,
+  resolveModelCapabilities,
+} from './capabilities.js';
+
+describe('getModelProfile', () => {
+  it('matches well-known models by name', () => {
+    expect(getModelProfile('gpt-4o-mini')).toMatchObject({
+      contextWindow: 128_000,
+      vision: true,
+    });
+    expect(getModelProfile('o3-mini')).toMatchObject({ reasoning: true });
+    expect(getModelProfile('deepseek-reasoner')).toMatchObject({
+      reasoning: true,
+      jsonSchema: false,
+    });
+  });
+
+  it('ignores case and an organization prefix', () => {
+    expect(getModelProfile('Qwen/Qwen3-Coder-480B-A35B-Instruct')).toEqual(
+      getModelProfile('qwen3-coder'),
+    );
+    expect(getModelProfile('openai/gpt-4.1')).toMatchObject({
+      contextWindow: 1_047_576,
+    });
+  });
+
+  it('prefers the more specific profile', () => {
+    expect(getModelProfile('qwen3-coder:30b')?.reasoning).toBe(false);
+    expect(getModelProfile('qwen3:32b')?.reasoning).toBe(true);
+  });
+
+  it('returns undefined for unknown models', () => {
+    expect(getModelProfile('my-finetune')).toBeUndefined();
+    expect(getModelProfile('o10')).toBeUndefined();
+  });
+});
+
+describe('resolveModelCapabilities', () => {
+  it('lets configured values override the profile', () => {
+    expect(
+      resolveModelCapabilities('gpt-4o', {
+        contextWindow: 64_000,
+        vision: false,
+      }),
+    ).toEqual({
+      contextWindow: 64_000,
+      maxOutputTokens: 16_384,
+      vision: false,
+      tools: true,
+      reasoning: false,
+      jsonSchema: true,
+    });
+  });
+
+  it('assumes every feature for unknown models', () => {
+    expect(resolveModelCapabilities('my-finetune')).toEqual(
+      DEFAULT_MODEL_CAPABILITIES,
+    );
+    expect(
+      resolveModelCapabilities('my-finetune', { tools: false }).tools,
+    ).toBe(false);
+  });
+});
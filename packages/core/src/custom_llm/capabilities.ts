@@ -0,0 +1,194 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {
+  CustomLlmCapabilitiesConfig,
+  ModelCapabilities,
+} from './types.js';
+
+/**
+ * Context window assumed for custom models that do not configure one and
+ * have no built-in profile. Most current open-weight and hosted chat models
+ * accept at least 128K tokens.
+ */
+export const DEFAULT_CUSTOM_LLM_CONTEXT_WINDOW = 131_072;
+
+/**
+ * Capabilities assumed for models without a built-in profile. They keep
+ * every feature enabled, so that an unknown model is only restricted by
+ * what its provider is configured with.
+ */
+export const DEFAULT_MODEL_CAPABILITIES: ModelCapabilities = {
+  contextWindow: DEFAULT_CUSTOM_LLM_CONTEXT_WINDOW,
+  maxOutputTokens: 8192,
+  vision: true,
+  tools: true,
+  reasoning: true,
+  jsonSchema: true,
+};
+
+interface ModelProfile {
+  pattern: RegExp;
+  capabilities: ModelCapabilities;
+}
+
+/**
+ * Profiles of well-known models, matched against the model name without any
+ * `org/` prefix. The first match wins, so more specific patterns come first.
+ */
+const MODEL_PROFILES: ModelProfile[] = [
+  {
+    pattern: /^gpt-5/,
+    capabilities: {
+      contextWindow: 400_000,
+      maxOutputTokens: 128_000,
+      vision: true,
+      tools: true,
+      reasoning: true,
+      jsonSchema: true,
+    },
+  },
+  {
+    pattern: /^gpt-4\.1/,
+    capabilities: {
+      contextWindow: 1_047_576,
+      maxOutputTokens: 32_768,
+      vision: true,
+      tools: true,
+      reasoning: false,
+      jsonSchema: true,
+    },
+  },
+  {
+    pattern: /^(chatgpt-)?gpt-4o/,
+    capabilities: {
+      contextWindow: 128_000,
+      maxOutputTokens: 16_384,
+      vision: true,
+      tools: true,
+      reasoning: false,
+      jsonSchema: true,
+    },
+  },
+  {
+    pattern: /^o[134](-|$)/,
+    capabilities: {
+      contextWindow: 200_000,
+      maxOutputTokens: 100_000,
+      vision: true,
+      tools: true,
+      reasoning: true,
+      jsonSchema: true,
+    },
+  },
+  {
+    pattern: /^gpt-3\.5-turbo/,
+    capabilities: {
+      contextWindow: 16_385,
+      maxOutputTokens: 4096,
+      vision: false,
+      tools: true,
+      reasoning: false,
+      jsonSchema: false,
+    },
+  },
+  {
+    pattern: /^qwen3-coder/,
+    capabilities: {
+      contextWindow: 262_144,
+      maxOutputTokens: 65_536,
+      vision: false,
+      tools: true,
+      reasoning: false,
+      jsonSchema: true,
+    },
+  },
+  {
+    pattern: /^qwen3/,
+    capabilities: {
+      contextWindow: 131_072,
+      maxOutputTokens: 32_768,
+      vision: false,
+      tools: true,
+      reasoning: true,
+      jsonSchema: true,
+    },
+  },
+  {
+    pattern: /^qwen2\.5-coder/,
+    capabilities: {
+      contextWindow: 32_768,
+      maxOutputTokens: 8192,
+      vision: false,
+      tools: true,
+      reasoning: false,
+      jsonSchema: true,
+    },
+  },
+  {
+    pattern: /^deepseek-(r1|reasoner)/,
+    capabilities: {
+      contextWindow: 131_072,
+      maxOutputTokens: 65_536,
+      vision: false,
+      tools: true,
+      reasoning: true,
+      jsonSchema: false,
+    },
+  },
+  {
+    pattern: /^deepseek/,
+    capabilities: {
+      contextWindow: 131_072,
+      maxOutputTokens: 8192,
+      vision: false,
+      tools: true,
+      reasoning: false,
+      jsonSchema: false,
+    },
+  },
+  {
+    pattern: /^gemma-?3/,
+    capabilities: {
+      contextWindow: 131_072,
+      maxOutputTokens: 8192,
+      vision: true,
+      tools: false,
+      reasoning: false,
+      jsonSchema: true,
+    },
+  },
+];
+
+/**
+ * Returns the built-in capabilities of a well-known model, or undefined for
+ * models without a profile. Names such as `openai/gpt-4o` or
+ * `Qwen/Qwen3-Coder-480B` match the profile of their last segment.
+ */
+export function getModelProfile(model: string): ModelCapabilities | undefined {
+  const name = model.trim().toLowerCase().split('/').pop() ?? '';
+  return MODEL_PROFILES.find(({ pattern }) => pattern.test(name))?.capabilities;
+}
+
+/**
+ * Resolves the capabilities of a provider's model. Configured values take
+ * precedence over the model's built-in profile, which takes precedence over
+ * {@link DEFAULT_MODEL_CAPABILITIES}.
+ */
+export function resolveModelCapabilities(
+  model: string,
+  configured: CustomLlmCapabilitiesConfig & { contextWindow?: number } = {},
+): ModelCapabilities {
+  const profile = getModelProfile(model) ?? DEFAULT_MODEL_CAPABILITIES;
+  return {
+    contextWindow: configured.contextWindow ?? profile.contextWindow,
+    maxOutputTokens: configured.maxOutputTokens ?? profile.maxOutputTokens,
+    vision: configured.vision ?? profile.vision,
+    tools: configured.tools ?? profile.tools,
+    reasoning: configured.reasoning ?? profile.reasoning,
+    jsonSchema: configured.jsonSchema ?? profile.jsonSchema,
+  };
+}
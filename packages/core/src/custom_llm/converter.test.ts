@@ -4,15 +4,22 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
+import type OpenAI from 'openai';
+import { FinishReason, type GenerateContentParameters } from '@google/genai';
 import { ModelConverter } from './converter.js';
+import { INVALID_TOOL_CALL_KEY } from '../tools/invalid-tool-call.js';
+
+function chunk(value: unknown): OpenAI.Chat.Completions.ChatCompletionChunk {
+  return value as OpenAI.Chat.Completions.ChatCompletionChunk;
+}
 
 describe('custom_llm ModelConverter.processStreamChunk', () => {
   it('flushes tool calls when finish_reason=tool_calls arrives in a later chunk', () => {
-    const toolCallMap = new Map();
+    const state = ModelConverter.createStreamState();
 
     const first = ModelConverter.processStreamChunk(
-      {
+      chunk({
         choices: [
           {
             index: 0,
@@ -30,13 +37,13 @@ describe('custom_llm ModelConverter.processStreamChunk', () => {
             },
           },
         ],
-      } as any,
-      toolCallMap,
+      }),
+      state,
     );
     expect(first.response).toBeUndefined();
 
     const second = ModelConverter.processStreamChunk(
-      {
+      chunk({
         choices: [
           {
             index: 0,
@@ -52,13 +59,13 @@ describe('custom_llm ModelConverter.processStreamChunk', () => {
             },
           },
         ],
-      } as any,
-      toolCallMap,
+      }),
+      state,
     );
     expect(second.response).toBeUndefined();
 
     const third = ModelConverter.processStreamChunk(
-      {
+      chunk({
         choices: [
           {
             index: 0,
@@ -69,8 +76,8 @@ describe('custom_llm ModelConverter.processStreamChunk', () => {
             },
           },
         ],
-      } as any,
-      toolCallMap,
+      }),
+      state,
     );
 
     expect(third.response?.functionCalls).toHaveLength(1);
@@ -79,7 +86,719 @@ describe('custom_llm ModelConverter.processStreamChunk', () => {
       name: 'list_directory',
       args: { dir_path: '/tmp' },
     });
-    expect(toolCallMap.size).toBe(0);
+    expect(state.toolCalls.size).toBe(0);
+  });
+
+  it('emits reasoning_content deltas as thought paragraphs before the answer', () => {
+    const state = ModelConverter.createStreamState();
+    const delta = (value: object) =>
+      ModelConverter.processStreamChunk(
+        chunk({ choices: [{ index: 0, delta: value }] }),
+        state,
+      ).response;
+
+    expect(delta({ reasoning_content: 'Check the ' })).toBeUndefined();
+    expect(
+      delta({ reasoning_content: 'files.\n\nThen ' })?.candidates?.[0].content
+        ?.parts,
+    ).toEqual([{ text: 'Check the files.', thought: true }]);
+
+    const answer = delta({ content: 'Done.' });
+    expect(answer?.candidates?.[0].content?.parts).toEqual([
+      { text: 'Then', thought: true },
+      { text: 'Done.', thoughtSignature: expect.any(String) },
+    ]);
+    expect(delta({ content: ' Bye.' })?.candidates?.[0].content?.parts).toEqual(
+      [{ text: ' Bye.' }],
+    );
+  });
+
+  it('splits <think> blocks across chunks from the answer', () => {
+    const state = ModelConverter.createStreamState();
+    const parts = ['<thi', 'nk>plan it</th', 'ink>\nAnswer']
+      .map(
+        (content) =>
+          ModelConverter.processStreamChunk(
+            chunk({ choices: [{ index: 0, delta: { content } }] }),
+            state,
+          ).response,
+      )
+      .flatMap((response) => response?.candidates?.[0].content?.parts ?? []);
+
+    expect(parts).toEqual([
+      { text: 'plan it', thought: true },
+      { text: 'Answer', thoughtSignature: expect.any(String) },
+    ]);
+  });
+
+  it('hides thoughts when includeThoughts is false', () => {
+    const state = ModelConverter.createStreamState({ includeThoughts: false });
+    const { response } = ModelConverter.processStreamChunk(
+      chunk({
+        choices: [
+          { index: 0, delta: { reasoning_content: 'secret', content: 'Hi' } },
+        ],
+      }),
+      state,
+    );
+
+    expect(response?.candidates?.[0].content?.parts).toEqual([
+      { text: 'Hi', thoughtSignature: expect.any(String) },
+    ]);
+  });
+
+  it('emits unterminated reasoning when the stream finishes', () => {
+    const state = ModelConverter.createStreamState();
+    ModelConverter.processStreamChunk(
+      chunk({
+        choices: [{ index: 0, delta: { content: '<think>still going' } }],
+      }),
+      state,
+    );
+
+    expect(
+      ModelConverter.finishStream(state)?.candidates?.[0].content?.parts,
+    ).toEqual([{ text: 'still going', thought: true }]);
+    expect(ModelConverter.finishStream(state)).toBeUndefined();
+  });
+});
+
+describe('custom_llm ModelConverter.finishStream', () => {
+  it('reports the finish reason together with the trailing usage chunk', () => {
+    const state = ModelConverter.createStreamState();
+    const text = ModelConverter.processStreamChunk(
+      chunk({
+        choices: [
+          { index: 0, finish_reason: 'length', delta: { content: 'Hi' } },
+        ],
+      }),
+      state,
+    ).response;
+    expect(text?.candidates?.[0].finishReason).toBeUndefined();
+
+    const usage = ModelConverter.processStreamChunk(
+      chunk({
+        choices: [],
+        usage: {
+          prompt_tokens: 100,
+          completion_tokens: 30,
+          total_tokens: 130,
+          prompt_tokens_details: { cached_tokens: 64 },
+          completion_tokens_details: { reasoning_tokens: 20 },
+        },
+      }),
+      state,
+    );
+    expect(usage.response).toBeUndefined();
+
+    const final = ModelConverter.finishStream(state);
+    expect(final?.candidates?.[0].finishReason).toBe(FinishReason.MAX_TOKENS);
+    expect(final?.usageMetadata).toEqual({
+      promptTokenCount: 100,
+      candidatesTokenCount: 10,
+      thoughtsTokenCount: 20,
+      cachedContentTokenCount: 64,
+      totalTokenCount: 130,
+    });
+  });
+
+  it.each(['prompt_cache_hit_tokens', 'cache_read_input_tokens'])(
+    'reports usage without a candidate when the stream had no finish reason (%s)',
+    (cachedTokensField) => {
+      const state = ModelConverter.createStreamState();
+      ModelConverter.processStreamChunk(
+        chunk({
+          choices: [],
+          usage: {
+            prompt_tokens: 5,
+            completion_tokens: 2,
+            total_tokens: 7,
+            [cachedTokensField]: 3,
+          },
+        }),
+        state,
+      );
+
+      const final = ModelConverter.finishStream(state);
+      expect(final?.candidates).toBeUndefined();
+      expect(final?.usageMetadata).toEqual({
+        promptTokenCount: 5,
+        candidatesTokenCount: 2,
+        cachedContentTokenCount: 3,
+        totalTokenCount: 7,
+      });
+    },
+  );
+});
+
+describe('custom_llm ModelConverter tool call flushing', () => {
+  const toolCallChunk = chunk({
+    choices: [
+      {
+        index: 0,
+        delta: {
+          tool_calls: [
+            {
+              id: 'call_1',
+              index: 0,
+              type: 'function',
+              function: { name: 'read_file', arguments: '{"file_path":"a"}' },
+            },
+          ],
+        },
+      },
+    ],
+  });
+
+  it('flushes tool calls when the stream finishes with stop', () => {
+    const state = ModelConverter.createStreamState();
+    ModelConverter.processStreamChunk(toolCallChunk, state);
+
+    const { response } = ModelConverter.processStreamChunk(
+      chunk({ choices: [{ index: 0, finish_reason: 'stop', delta: {} }] }),
+      state,
+    );
+
+    expect(response?.functionCalls).toEqual([
+      { id: 'call_1', name: 'read_file', args: { file_path: 'a' } },
+    ]);
+    expect(ModelConverter.finishStream(state)?.functionCalls).toBeUndefined();
+  });
+
+  it('flushes tool calls when the stream ends without a finish reason', () => {
+    const state = ModelConverter.createStreamState();
+    ModelConverter.processStreamChunk(toolCallChunk, state);
+
+    const final = ModelConverter.finishStream(state);
+
+    expect(final?.functionCalls).toEqual([
+      { id: 'call_1', name: 'read_file', args: { file_path: 'a' } },
+    ]);
+    expect(state.toolCalls.size).toBe(0);
+  });
+
+  it('repairs streamed tool call arguments and reports the repair', () => {
+    const onToolArgumentsRepair = vi.fn();
+    const state = ModelConverter.createStreamState({ onToolArgumentsRepair });
+    for (const toolCall of [
+      {
+        index: 0,
+        id: 'call_1',
+        type: 'function',
+        function: { name: 'read_file', arguments: '{"file_path":' },
+      },
+      { index: 0, function: { arguments: ' "a",}' } },
+      {
+        index: 1,
+        id: 'call_2',
+        type: 'function',
+        function: { name: 'ls', arguments: '{"x": oops}' },
+      },
+    ]) {
+      ModelConverter.processStreamChunk(
+        chunk({ choices: [{ index: 0, delta: { tool_calls: [toolCall] } }] }),
+        state,
+      );
+    }
+
+    const [readFile, ls] = ModelConverter.finishStream(state)!.functionCalls!;
+
+    expect(readFile).toEqual({
+      id: 'call_1',
+      name: 'read_file',
+      args: { file_path: 'a' },
+    });
+    expect(ls.args?.[INVALID_TOOL_CALL_KEY]).toMatchObject({
+      rawArguments: '{"x": oops}',
+    });
+    expect(onToolArgumentsRepair.mock.calls).toEqual([
+      [{ toolName: 'read_file', repairs: ['trailing_comma'], success: true }],
+      [{ toolName: 'ls', repairs: [], success: false }],
+    ]);
+  });
+
+  it('drops tool calls cut off by the output token limit', () => {
+    const state = ModelConverter.createStreamState();
+    ModelConverter.processStreamChunk(toolCallChunk, state);
+    ModelConverter.processStreamChunk(
+      chunk({ choices: [{ index: 0, finish_reason: 'length', delta: {} }] }),
+      state,
+    );
+
+    const final = ModelConverter.finishStream(state);
+
+    expect(final?.functionCalls).toBeUndefined();
+    expect(final?.candidates?.[0].finishReason).toBe(FinishReason.MAX_TOKENS);
   });
 });
 
+describe('custom_llm ModelConverter.toGeminiResponse', () => {
+  it('keeps both text and tool calls from one message', () => {
+    const response = ModelConverter.toGeminiResponse({
+      id: 'r',
+      object: 'chat.completion',
+      created: 0,
+      model: 'm',
+      choices: [
+        {
+          index: 0,
+          finish_reason: 'tool_calls',
+          logprobs: null,
+          message: {
+            role: 'assistant',
+            refusal: null,
+            content: 'Let me look.',
+            tool_calls: [
+              {
+                id: 'call_1',
+                type: 'function',
+                function: { name: 'ls', arguments: '{"dir_path":"."}' },
+              },
+              {
+                id: 'call_2',
+                type: 'function',
+                function: { name: 'ls', arguments: '{"dir_path":"src"}' },
+              },
+            ],
+          },
+        },
+      ],
+    });
+
+    expect(response.candidates?.[0].content?.parts).toEqual([
+      { text: 'Let me look.' },
+      { functionCall: { id: 'call_1', name: 'ls', args: { dir_path: '.' } } },
+      {
+        functionCall: { id: 'call_2', name: 'ls', args: { dir_path: 'src' } },
+      },
+    ]);
+    expect(response.functionCalls).toHaveLength(2);
+  });
+
+  it.each([
+    ['stop', FinishReason.STOP],
+    ['tool_calls', FinishReason.STOP],
+    ['length', FinishReason.MAX_TOKENS],
+    ['content_filter', FinishReason.SAFETY],
+  ] as const)('maps finish_reason %s to %s', (finishReason, expected) => {
+    const response = ModelConverter.toGeminiResponse({
+      id: 'r',
+      object: 'chat.completion',
+      created: 0,
+      model: 'm',
+      choices: [
+        {
+          index: 0,
+          finish_reason: finishReason,
+          logprobs: null,
+          message: { role: 'assistant', refusal: null, content: null },
+        },
+      ],
+    });
+
+    expect(response.candidates?.[0].finishReason).toBe(expected);
+  });
+
+  it('returns reasoning as a thought part ahead of the answer', () => {
+    const response = ModelConverter.toGeminiResponse({
+      id: 'r',
+      object: 'chat.completion',
+      created: 0,
+      model: 'm',
+      choices: [
+        {
+          index: 0,
+          finish_reason: 'stop',
+          logprobs: null,
+          message: {
+            role: 'assistant',
+            refusal: null,
+            content: '<think>Think first.</think>The answer.',
+          },
+        },
+      ],
+    });
+
+    expect(response.candidates?.[0].content?.parts).toEqual([
+      { text: 'Think first.', thought: true },
+      { text: 'The answer.', thoughtSignature: expect.any(String) },
+    ]);
+  });
+});
+
+describe('custom_llm ModelConverter.toOpenAIMessages', () => {
+  const png = { mimeType: 'image/png', data: 'iVBORw0KGgo=' };
+
+  it('keeps plain text user turns as strings', () => {
+    const messages = ModelConverter.toOpenAIMessages({
+      model: 'm',
+      contents: [{ role: 'user', parts: [{ text: 'a' }, { text: 'b' }] }],
+    });
+
+    expect(messages).toEqual([{ role: 'user', content: 'a\nb' }]);
+  });
+
+  it('sends rejected tool calls back with their original arguments', () => {
+    const messages = ModelConverter.toOpenAIMessages({
+      model: 'm',
+      contents: [
+        {
+          role: 'model',
+          parts: [
+            {
+              functionCall: {
+                id: 'call_1',
+                name: 'run_shell_command',
+                args: {
+                  [INVALID_TOOL_CALL_KEY]: {
+                    message: 'Tool "run_shell_command" is not available.',
+                    rawArguments: '{"command":"ls"}',
+                  },
+                },
+              },
+            },
+          ],
+        },
+      ],
+    });
+
+    expect(messages).toEqual([
+      {
+        role: 'assistant',
+        content: null,
+        tool_calls: [
+          {
+            id: 'call_1',
+            type: 'function',
+            function: {
+              name: 'run_shell_command',
+              arguments: '{"command":"ls"}',
+            },
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('converts inline images to image_url parts with data URLs', () => {
+    const messages = ModelConverter.toOpenAIMessages({
+      model: 'm',
+      contents: [
+        {
+          role: 'user',
+          parts: [
+            { text: 'What is in this screenshot?' },
+            { inlineData: png },
+            {
+              fileData: {
+                mimeType: 'image/jpeg',
+                fileUri: 'https://example.com/cat.jpg',
+              },
+            },
+          ],
+        },
+      ],
+    });
+
+    expect(messages).toEqual([
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'What is in this screenshot?' },
+          {
+            type: 'image_url',
+            image_url: { url: 'data:image/png;base64,iVBORw0KGgo=' },
+          },
+          {
+            type: 'image_url',
+            image_url: { url: 'https://example.com/cat.jpg' },
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('replaces unsupported attachments with a placeholder by default', () => {
+    const messages = ModelConverter.toOpenAIMessages({
+      model: 'm',
+      contents: [
+        {
+          role: 'user',
+          parts: [
+            { text: 'Summarize' },
+            {
+              inlineData: {
+                mimeType: 'application/pdf',
+                data: 'JVBERi0=',
+                displayName: 'spec.pdf',
+              },
+            },
+          ],
+        },
+      ],
+    });
+
+    expect(messages[0]).toEqual({
+      role: 'user',
+      content:
+        'Summarize\n[Attachment omitted: spec.pdf (application/pdf) is not supported by this provider]',
+    });
+  });
+
+  it('throws for unsupported attachments when configured to', () => {
+    const request: GenerateContentParameters = {
+      model: 'm',
+      contents: [
+        {
+          role: 'user',
+          parts: [{ inlineData: { mimeType: 'audio/wav', data: 'UklGRg==' } }],
+        },
+      ],
+    };
+
+    expect(() =>
+      ModelConverter.toOpenAIMessages(request, { unsupportedMedia: 'error' }),
+    ).toThrow(
+      'Attachment audio/wav cannot be sent to the custom LLM provider.',
+    );
+  });
+
+  it('forwards images from tool results in a user message after the tool results', () => {
+    const messages = ModelConverter.toOpenAIMessages({
+      model: 'm',
+      contents: [
+        {
+          role: 'model',
+          parts: [
+            {
+              functionCall: {
+                id: 'call_1',
+                name: 'read_file',
+                args: { file_path: 'shot.png' },
+              },
+            },
+          ],
+        },
+        {
+          role: 'user',
+          parts: [
+            {
+              functionResponse: {
+                id: 'call_1',
+                name: 'read_file',
+                response: { output: 'Binary content provided (1 item(s)).' },
+                parts: [{ inlineData: png }],
+              },
+            },
+          ],
+        },
+      ],
+    });
+
+    expect(messages).toEqual([
+      {
+        role: 'assistant',
+        content: null,
+        tool_calls: [
+          {
+            id: 'call_1',
+            type: 'function',
+            function: {
+              name: 'read_file',
+              arguments: '{"file_path":"shot.png"}',
+            },
+          },
+        ],
+      },
+      {
+        role: 'tool',
+        tool_call_id: 'call_1',
+        content: 'Binary content provided (1 item(s)).',
+      },
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'Attachments returned by the read_file tool:' },
+          {
+            type: 'image_url',
+            image_url: { url: 'data:image/png;base64,iVBORw0KGgo=' },
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('replays reasoning from thought signatures only when configured to', () => {
+    const [, answer] = ModelConverter.processStreamChunk(
+      chunk({
+        choices: [
+          { index: 0, delta: { reasoning_content: 'why', content: 'Hi' } },
+        ],
+      }),
+      ModelConverter.createStreamState(),
+    ).response!.candidates![0].content!.parts!;
+    const request: GenerateContentParameters = {
+      model: 'm',
+      contents: [
+        { role: 'user', parts: [{ text: 'Hello' }] },
+        {
+          role: 'model',
+          parts: [{ text: 'why', thought: true }, answer],
+        },
+      ],
+    };
+
+    expect(
+      ModelConverter.toOpenAIMessages(request, { reasoningHistory: 'send' })[1],
+    ).toEqual({ role: 'assistant', content: 'Hi', reasoning_content: 'why' });
+    expect(ModelConverter.toOpenAIMessages(request)[1]).toEqual({
+      role: 'assistant',
+      content: 'Hi',
+    });
+  });
+
+  it('places sibling tool-result attachments after the tool message', () => {
+    const messages = ModelConverter.toOpenAIMessages({
+      model: 'm',
+      contents: [
+        {
+          role: 'user',
+          parts: [
+            {
+              functionResponse: {
+                id: 'call_1',
+                name: 'read_file',
+                response: { output: 'ok' },
+              },
+            },
+            { inlineData: png },
+          ],
+        },
+      ],
+    });
+
+    expect(messages.map((message) => message.role)).toEqual(['tool', 'user']);
+  });
+
+  it('sends system instructions given as Content or parts', () => {
+    const contents = [{ role: 'user', parts: [{ text: 'Hi' }] }];
+
+    for (const systemInstruction of [
+      {
+        role: 'system',
+        parts: [{ text: 'Be brief.' }, { text: 'Use tools.' }],
+      },
+      [{ text: 'Be brief.' }, 'Use tools.'],
+      { text: 'Be brief.\nUse tools.' },
+    ]) {
+      expect(
+        ModelConverter.toOpenAIMessages({
+          model: 'm',
+          contents,
+          config: { systemInstruction },
+        })[0],
+      ).toEqual({ role: 'system', content: 'Be brief.\nUse tools.' });
+    }
+  });
+
+  it('moves the system instruction into the first user message when configured to', () => {
+    const request: GenerateContentParameters = {
+      model: 'm',
+      contents: [
+        { role: 'user', parts: [{ text: 'Hi' }, { inlineData: png }] },
+        { role: 'model', parts: [{ text: 'Hello' }] },
+        { role: 'user', parts: [{ text: 'Bye' }] },
+      ],
+      config: { systemInstruction: { parts: [{ text: 'Be brief.' }] } },
+    };
+
+    expect(
+      ModelConverter.toOpenAIMessages(request, { systemPrompt: 'user' }),
+    ).toEqual([
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'Be brief.' },
+          { type: 'text', text: 'Hi' },
+          {
+            type: 'image_url',
+            image_url: { url: 'data:image/png;base64,iVBORw0KGgo=' },
+          },
+        ],
+      },
+      { role: 'assistant', content: 'Hello' },
+      { role: 'user', content: 'Bye' },
+    ]);
+    expect(
+      ModelConverter.toOpenAIMessages(
+        { model: 'm', contents: [], config: request.config },
+        { systemPrompt: 'user' },
+      ),
+    ).toEqual([{ role: 'user', content: 'Be brief.' }]);
+  });
+
+  it('merges consecutive messages of the same role when configured to', () => {
+    const request: GenerateContentParameters = {
+      model: 'm',
+      contents: [
+        { role: 'user', parts: [{ text: 'Hi' }] },
+        { role: 'user', parts: [{ text: 'Anyone there?' }] },
+        {
+          role: 'model',
+          parts: [
+            { text: 'Let me look.' },
+            { functionCall: { id: 'call_1', name: 'ls', args: {} } },
+            { functionCall: { id: 'call_2', name: 'pwd', args: {} } },
+          ],
+        },
+        {
+          role: 'user',
+          parts: [
+            {
+              functionResponse: {
+                id: 'call_1',
+                name: 'ls',
+                response: { output: 'a.txt' },
+              },
+            },
+            {
+              functionResponse: {
+                id: 'call_2',
+                name: 'pwd',
+                response: { output: '/tmp' },
+              },
+            },
+          ],
+        },
+      ],
+      config: { systemInstruction: 'Be brief.' },
+    };
+
+    expect(
+      ModelConverter.toOpenAIMessages(request, {
+        systemPrompt: 'user',
+        mergeConsecutive: true,
+      }),
+    ).toEqual([
+      { role: 'user', content: 'Be brief.\n\nHi\n\nAnyone there?' },
+      {
+        role: 'assistant',
+        content: 'Let me look.',
+        tool_calls: [
+          {
+            id: 'call_1',
+            type: 'function',
+            function: { name: 'ls', arguments: '{}' },
+          },
+          {
+            id: 'call_2',
+            type: 'function',
+            function: { name: 'pwd', arguments: '{}' },
+          },
+        ],
+      },
+      { role: 'tool', tool_call_id: 'call_1', content: 'a.txt' },
+      { role: 'tool', tool_call_id: 'call_2', content: '/tmp' },
+    ]);
+  });
+});
@@ -5,8 +5,10 @@
  */
 
 import {
+  FinishReason,
   GenerateContentResponse,
   type FunctionCall,
+  type GenerateContentResponseUsageMetadata,
   type Part,
   type GenerateContentParameters,
 } from '@google/genai';
@@ -15,8 +17,22 @@ import {
   normalizeContents,
   isValidFunctionCall,
   isValidFunctionResponse,
+  toSystemInstructionText,
+  toToolCallArguments,
 } from './util.js';
-import type { ToolCallMap } from './types.js';
+import { parseFunctionCall } from './toolArguments.js';
+import type {
+  MessageConversionOptions,
+  ResponseConversionOptions,
+  StreamState,
+} from './types.js';
+import {
+  ThinkTagParser,
+  decodeReasoningSignature,
+  encodeReasoningSignature,
+  takeCompleteParagraphs,
+  type ReasoningSegment,
+} from './reasoning.js';
 
 type OpenAIToolCall =
   | {
@@ -30,6 +46,8 @@ type OpenAIToolCall =
       custom: { name: string; input: string };
     };
 
+type ChatMessage = OpenAI.Chat.Completions.ChatCompletionMessageParam;
+
 type OpenAIStreamToolCall = {
   index: number;
   id?: string;
@@ -43,14 +61,15 @@ export class ModelConverter {
    */
   static toOpenAIMessages(
     request: GenerateContentParameters,
+    options: MessageConversionOptions = {},
   ): OpenAI.Chat.Completions.ChatCompletionMessageParam[] {
     const { contents, config } = request;
     const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [];
-    const systemInstruction = config?.systemInstruction;
-    if (typeof systemInstruction === 'string' && systemInstruction.length > 0) {
+    const systemText = toSystemInstructionText(config?.systemInstruction);
+    if (systemText) {
       messages.push({
         role: 'system',
-        content: systemInstruction,
+        content: systemText,
       });
     }
 
@@ -59,28 +78,53 @@ export class ModelConverter {
       const role =
         content.role === 'model' ? 'assistant' : (content.role as string);
       const parts = content.parts ?? [];
-      this.processTextParts(parts, role, messages);
-      this.processFunctionResponseParts(parts, messages);
+      // Tool results must directly follow the assistant message carrying the
+      // tool calls, so they go before any user text or attachments.
+      this.processFunctionResponseParts(parts, messages, options);
+      const firstMessage = messages.length;
+      this.processContentParts(parts, role, messages, options);
       this.processFunctionCallParts(parts, messages);
+      if (role === 'assistant' && options.reasoningHistory === 'send') {
+        attachReasoningHistory(parts, messages.slice(firstMessage));
+      }
     }
-    return messages;
+    const shaped =
+      options.systemPrompt === 'user'
+        ? moveSystemTextToFirstUserMessage(messages)
+        : messages;
+    return options.mergeConsecutive ? mergeConsecutiveMessages(shaped) : shaped;
   }
 
-  private static processTextParts(
+  private static processContentParts(
     parts: Part[],
     role: string,
     messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[],
+    options: MessageConversionOptions,
   ): void {
-    const textParts = parts.filter(
-      (part): part is { text: string } =>
-        typeof part === 'object' && part !== null && 'text' in part,
-    );
-    if (textParts.length === 0) {
+    const contentParts: OpenAI.Chat.Completions.ChatCompletionContentPart[] =
+      [];
+    for (const part of parts) {
+      if (typeof part !== 'object' || part === null || part.thought) {
+        continue;
+      }
+      if ('text' in part && typeof part.text === 'string') {
+        contentParts.push({ type: 'text', text: part.text });
+      } else if (part.inlineData || part.fileData) {
+        contentParts.push(toMediaContentPart(part, role === 'user', options));
+      }
+    }
+    if (contentParts.length === 0) {
       return;
     }
-    const text = textParts.map((part) => part.text).join('\n');
+    const hasMedia = contentParts.some((part) => part.type !== 'text');
+    const text = contentParts
+      .map((part) => (part.type === 'text' ? part.text : ''))
+      .join('\n');
     if (role === 'user') {
-      messages.push({ role: 'user', content: text });
+      messages.push({
+        role: 'user',
+        content: hasMedia ? contentParts : text,
+      });
     } else if (role === 'system') {
       messages.push({ role: 'system', content: text });
     } else if (role === 'assistant') {
@@ -91,11 +135,13 @@ export class ModelConverter {
   private static processFunctionResponseParts(
     parts: Part[],
     messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[],
+    options: MessageConversionOptions,
   ): void {
     const frParts = parts.filter(isValidFunctionResponse);
     if (frParts.length === 0) {
       return;
     }
+    const attachments: OpenAI.Chat.Completions.ChatCompletionContentPart[] = [];
     for (const part of frParts) {
       messages.push({
         tool_call_id: part.functionResponse.id,
@@ -104,6 +150,24 @@ export class ModelConverter {
           ? `Error: ${part.functionResponse.response.error}`
           : (part.functionResponse.response.output ?? ''),
       });
+      // Multimodal tool results nest their media in `functionResponse.parts`.
+      // Tool messages only accept text, so the media is forwarded in a user
+      // message that follows the tool results.
+      const mediaParts = (part.functionResponse.parts ?? []).filter(
+        (nested) => nested.inlineData || nested.fileData,
+      );
+      if (mediaParts.length > 0) {
+        attachments.push({
+          type: 'text',
+          text: `Attachments returned by the ${part.functionResponse.name} tool:`,
+        });
+        for (const nested of mediaParts) {
+          attachments.push(toMediaContentPart(nested, true, options));
+        }
+      }
+    }
+    if (attachments.length > 0) {
+      messages.push({ role: 'user', content: attachments });
     }
   }
 
@@ -123,7 +187,7 @@ export class ModelConverter {
         type: 'function',
         function: {
           name: part.functionCall.name,
-          arguments: JSON.stringify(part.functionCall.args),
+          arguments: toToolCallArguments(part.functionCall.args),
         },
       })),
     });
@@ -134,122 +198,130 @@ export class ModelConverter {
    */
   static toGeminiResponse(
     response: OpenAI.Chat.Completions.ChatCompletion,
+    options: ResponseConversionOptions = {},
   ): GenerateContentResponse {
     const choice = response.choices[0];
     const res = new GenerateContentResponse();
 
+    const segments: ReasoningSegment[] = [];
+    const reasoning = getReasoningText(choice.message);
+    if (reasoning) {
+      segments.push({ text: reasoning, thought: true });
+    }
     if (choice.message.content) {
+      const parser = new ThinkTagParser();
+      segments.push(...parser.push(choice.message.content), ...parser.flush());
+    }
+    const thoughtText = segments
+      .filter((segment) => segment.thought)
+      .map((segment) => segment.text)
+      .join('')
+      .trim();
+    const answerText = segments
+      .filter((segment) => !segment.thought)
+      .map((segment) => segment.text)
+      .join('');
+    const thoughtParts: Part[] =
+      thoughtText && options.includeThoughts !== false
+        ? [{ text: thoughtText, thought: true }]
+        : [];
+
+    // Text and tool calls may arrive together; both are kept, text first.
+    const answerParts: Part[] = answerText ? [{ text: answerText }] : [];
+    const functionCalls: FunctionCall[] = [];
+    for (const toolCall of (choice.message.tool_calls ??
+      []) as OpenAIToolCall[]) {
+      let functionCall: FunctionCall | undefined;
+      if (toolCall.type === 'function') {
+        functionCall = parseFunctionCall(
+          toolCall.id,
+          toolCall.function.name,
+          toolCall.function.arguments,
+          options.onToolArgumentsRepair,
+        );
+      } else if (toolCall.type === 'custom') {
+        functionCall = {
+          id: toolCall.id,
+          name: toolCall.custom.name,
+          args: { input: toolCall.custom.input },
+        };
+      }
+      if (functionCall) {
+        functionCalls.push(functionCall);
+        answerParts.push({ functionCall });
+      }
+    }
+    if (answerParts.length > 0) {
+      answerParts[0] = withReasoningSignature(answerParts[0], thoughtText);
+    }
+
+    const finishReason = toFinishReason(choice.finish_reason);
+    if (answerParts.length > 0 || finishReason) {
       res.candidates = [
         {
           content: {
-            parts: [{ text: choice.message.content }],
+            parts: [...thoughtParts, ...answerParts],
             role: 'model',
           },
+          finishReason,
           index: 0,
           safetyRatings: [],
         },
       ];
-    } else if (choice.message.tool_calls) {
-      const toolCalls = choice.message.tool_calls as OpenAIToolCall[];
-      const functionCalls: FunctionCall[] = [];
-      const parts: Part[] = [];
-      res.candidates = [
-        {
-          content: {
-            parts,
-          },
-          index: 0,
-          safetyRatings: [],
-        },
-      ];
-      attachFunctionCalls(res, functionCalls);
-      for (const toolCall of toolCalls) {
-        if (toolCall.type === 'function') {
-          const functionCall: FunctionCall = {
-            id: toolCall.id,
-            name: toolCall.function.name,
-            args: safeJsonParse(toolCall.function.arguments),
-          };
-          functionCalls.push(functionCall);
-          parts.push({ functionCall });
-          continue;
-        }
-        if (toolCall.type === 'custom') {
-          const functionCall: FunctionCall = {
-            id: toolCall.id,
-            name: toolCall.custom.name,
-            args: { input: toolCall.custom.input },
-          };
-          functionCalls.push(functionCall);
-          parts.push({ functionCall });
-        }
-      }
     }
-
-    res.usageMetadata = {
-      promptTokenCount: response.usage?.prompt_tokens ?? 0,
-      candidatesTokenCount: response.usage?.completion_tokens ?? 0,
-      totalTokenCount: response.usage?.total_tokens ?? 0,
-    };
+    attachFunctionCalls(res, functionCalls);
+    res.usageMetadata = toUsageMetadata(response.usage);
 
     return res;
   }
 
   /**
-   * Convert streaming chunks to Gemini responses while tracking tool calls.
+   * Create the state tracked across the chunks of one streamed response.
+   */
+  static createStreamState(
+    options: ResponseConversionOptions = {},
+  ): StreamState {
+    return {
+      toolCalls: new Map(),
+      onToolArgumentsRepair: options.onToolArgumentsRepair,
+      thinkParser: new ThinkTagParser(),
+      includeThoughts: options.includeThoughts ?? true,
+      pendingThought: '',
+      reasoning: '',
+      reasoningAttached: false,
+    };
+  }
+
+  /**
+   * Convert streaming chunks to Gemini responses while tracking tool calls
+   * and reasoning.
    */
   static processStreamChunk(
     chunk: OpenAI.Chat.Completions.ChatCompletionChunk,
-    toolCallMap: ToolCallMap,
+    state: StreamState,
   ): { response?: GenerateContentResponse } {
+    if (chunk.usage) {
+      state.usage = chunk.usage;
+    }
     const delta = chunk.choices[0]?.delta;
     const finishReason = chunk.choices[0]?.finish_reason;
+    if (finishReason) {
+      state.finishReason = toFinishReason(finishReason);
+    }
     if (!delta) {
       return {};
     }
 
-    const rawContent: unknown = (delta as { content?: unknown }).content;
-
-    if (typeof rawContent === 'string' && rawContent.length > 0) {
-      const response = new GenerateContentResponse();
-      response.candidates = [
-        {
-          content: {
-            role: 'model',
-            parts: [{ text: rawContent }],
-          },
-          index: 0,
-          safetyRatings: [],
-        },
-      ];
-      return { response };
-    }
-
-    if (Array.isArray(rawContent) && rawContent.length > 0) {
-      const first = rawContent[0];
-      if (
-        typeof first === 'object' &&
-        first !== null &&
-        'type' in first &&
-        'text' in first &&
-        (first as { type?: unknown; text?: unknown }).type === 'text' &&
-        typeof (first as { text?: unknown }).text === 'string' &&
-        (first as { text: string }).text.length > 0
-      ) {
-        const response = new GenerateContentResponse();
-        response.candidates = [
-          {
-            content: {
-              role: 'model',
-              parts: [{ text: (first as { text: string }).text }],
-            },
-            index: 0,
-            safetyRatings: [],
-          },
-        ];
-        return { response };
-      }
+    const segments: ReasoningSegment[] = [];
+    const reasoning = getReasoningText(delta);
+    if (reasoning) {
+      segments.push({ text: reasoning, thought: true });
     }
+    const text = getDeltaText(delta);
+    if (text) {
+      segments.push(...state.thinkParser.push(text));
+    }
+    const parts = emitSegments(state, segments);
 
     const toolCalls = delta.tool_calls as OpenAIStreamToolCall[] | undefined;
     if (toolCalls && toolCalls.length > 0) {
@@ -257,7 +329,7 @@ export class ModelConverter {
         if (call.type && call.type !== 'function') {
           continue;
         }
-        const current = toolCallMap.get(call.index) ?? {
+        const current = state.toolCalls.get(call.index) ?? {
           id: undefined,
           name: '',
           arguments: '',
@@ -275,38 +347,405 @@ export class ModelConverter {
           current.arguments += call.function.arguments;
         }
 
-        toolCallMap.set(call.index, current);
+        state.toolCalls.set(call.index, current);
       }
     }
 
-    if (finishReason === 'tool_calls' && toolCallMap.size > 0) {
-      return { response: flushToolCallMap(toolCallMap) };
+    // Some gateways finish tool calls with `stop` rather than `tool_calls`.
+    const functionCalls =
+      state.finishReason === FinishReason.STOP
+        ? flushToolCalls(state, parts)
+        : [];
+
+    if (parts.length === 0) {
+      return {};
+    }
+    return { response: buildStreamResponse(parts, functionCalls) };
+  }
+
+  /**
+   * Emit the final response once the provider's stream has ended: whatever
+   * the stream state still holds back (such as an unterminated `<think>`
+   * block or tool calls of a stream without a finish reason), the finish
+   * reason and the token usage.
+   */
+  static finishStream(state: StreamState): GenerateContentResponse | undefined {
+    const parts = emitSegments(state, state.thinkParser.flush());
+    const { finishReason, usage } = state;
+    // Tool calls cut off by `length` or a content filter are incomplete, so
+    // they are only flushed when the stream ended normally or just stopped.
+    const functionCalls =
+      finishReason === undefined || finishReason === FinishReason.STOP
+        ? flushToolCalls(state, parts)
+        : [];
+    flushPendingThought(state, parts);
+    state.toolCalls.clear();
+    state.finishReason = undefined;
+    state.usage = undefined;
+    if (parts.length === 0 && !finishReason && !usage) {
+      return undefined;
+    }
+
+    const response = new GenerateContentResponse();
+    if (parts.length > 0 || finishReason) {
+      response.candidates = [
+        {
+          content: { role: 'model', parts },
+          finishReason,
+          index: 0,
+          safetyRatings: [],
+        },
+      ];
+    }
+    attachFunctionCalls(response, functionCalls);
+    if (usage) {
+      response.usageMetadata = toUsageMetadata(usage);
+    }
+    return response;
+  }
+}
+
+/**
+ * Maps an OpenAI finish reason to its Gemini equivalent. Gemini reports
+ * function calls with `STOP`, so `tool_calls` maps there too.
+ */
+function toFinishReason(
+  finishReason: string | null | undefined,
+): FinishReason | undefined {
+  switch (finishReason) {
+    case undefined:
+    case null:
+      return undefined;
+    case 'stop':
+    case 'tool_calls':
+    case 'function_call':
+      return FinishReason.STOP;
+    case 'length':
+      return FinishReason.MAX_TOKENS;
+    case 'content_filter':
+      return FinishReason.SAFETY;
+    default:
+      return FinishReason.OTHER;
+  }
+}
+
+/**
+ * Maps OpenAI usage to Gemini usage metadata. OpenAI counts reasoning tokens
+ * as completion tokens, while Gemini reports them separately as thoughts.
+ * DeepSeek reports cache hits as `prompt_cache_hit_tokens`, and gateways in
+ * front of Anthropic models as `cache_read_input_tokens`, instead of
+ * `prompt_tokens_details.cached_tokens`.
+ */
+function toUsageMetadata(
+  usage: OpenAI.CompletionUsage | undefined,
+): GenerateContentResponseUsageMetadata {
+  const promptTokens = usage?.prompt_tokens ?? 0;
+  const completionTokens = usage?.completion_tokens ?? 0;
+  const reasoningTokens =
+    usage?.completion_tokens_details?.reasoning_tokens ?? 0;
+  const providerUsage = usage as
+    | { prompt_cache_hit_tokens?: number; cache_read_input_tokens?: number }
+    | undefined;
+  const cachedTokens =
+    usage?.prompt_tokens_details?.cached_tokens ??
+    providerUsage?.prompt_cache_hit_tokens ??
+    providerUsage?.cache_read_input_tokens;
+
+  const metadata: GenerateContentResponseUsageMetadata = {
+    promptTokenCount: promptTokens,
+    candidatesTokenCount: Math.max(completionTokens - reasoningTokens, 0),
+    totalTokenCount: usage?.total_tokens ?? promptTokens + completionTokens,
+  };
+  if (reasoningTokens > 0) {
+    metadata.thoughtsTokenCount = reasoningTokens;
+  }
+  if (cachedTokens) {
+    metadata.cachedContentTokenCount = cachedTokens;
+  }
+  return metadata;
+}
+
+/**
+ * Replays the reasoning recorded in a model turn's `thoughtSignature` as
+ * `reasoning_content` on the first assistant message built from that turn.
+ */
+function attachReasoningHistory(
+  parts: Part[],
+  turnMessages: OpenAI.Chat.Completions.ChatCompletionMessageParam[],
+): void {
+  const reasoning = parts
+    .map((part) => decodeReasoningSignature(part.thoughtSignature))
+    .find((decoded) => decoded !== undefined);
+  const message = turnMessages.find(
+    (candidate) => candidate.role === 'assistant',
+  );
+  if (reasoning && message) {
+    (message as { reasoning_content?: string }).reasoning_content = reasoning;
+  }
+}
+
+/**
+ * Removes the system messages and prepends their text to the first user
+ * message, adding a user message at the start if there is none.
+ */
+function moveSystemTextToFirstUserMessage(
+  messages: ChatMessage[],
+): ChatMessage[] {
+  const systemText = joinText(
+    ...messages
+      .filter((message) => message.role === 'system')
+      .map((message) => getMessageText(message.content)),
+  );
+  const rest: ChatMessage[] = messages.filter(
+    (message) => message.role !== 'system',
+  );
+  if (!systemText) {
+    return rest;
+  }
+  const index = rest.findIndex((message) => message.role === 'user');
+  if (index === -1) {
+    return [{ role: 'user', content: systemText }, ...rest];
+  }
+  rest[index] = mergeMessages(
+    { role: 'user', content: systemText },
+    rest[index],
+  );
+  return rest;
+}
+
+/**
+ * Merges each run of consecutive system, user or assistant messages into one
+ * message. Tool results stay separate, as each answers its own tool call.
+ */
+function mergeConsecutiveMessages(messages: ChatMessage[]): ChatMessage[] {
+  const merged: ChatMessage[] = [];
+  for (const message of messages) {
+    const previous = merged[merged.length - 1];
+    if (
+      previous?.role === message.role &&
+      (message.role === 'system' ||
+        message.role === 'user' ||
+        message.role === 'assistant')
+    ) {
+      merged[merged.length - 1] = mergeMessages(previous, message);
+    } else {
+      merged.push(message);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Merges two messages of the same role. Text is separated by a blank line;
+ * user content with attachments is concatenated part by part, and assistant
+ * tool calls and reasoning are combined.
+ */
+function mergeMessages(first: ChatMessage, second: ChatMessage): ChatMessage {
+  if (first.role === 'user' && second.role === 'user') {
+    return {
+      role: 'user',
+      content:
+        typeof first.content === 'string' && typeof second.content === 'string'
+          ? joinText(first.content, second.content)
+          : [
+              ...toUserContentParts(first.content),
+              ...toUserContentParts(second.content),
+            ],
+    };
+  }
+  if (first.role === 'assistant' && second.role === 'assistant') {
+    const toolCalls = [
+      ...(first.tool_calls ?? []),
+      ...(second.tool_calls ?? []),
+    ];
+    const text = joinText(
+      getMessageText(first.content),
+      getMessageText(second.content),
+    );
+    const merged: OpenAI.Chat.Completions.ChatCompletionAssistantMessageParam =
+      toolCalls.length > 0
+        ? { role: 'assistant', content: text || null, tool_calls: toolCalls }
+        : { role: 'assistant', content: text };
+    const reasoning = joinText(
+      getReasoningContent(first),
+      getReasoningContent(second),
+    );
+    if (reasoning) {
+      (merged as { reasoning_content?: string }).reasoning_content = reasoning;
     }
+    return merged;
+  }
+  return {
+    role: 'system',
+    content: joinText(
+      getMessageText(first.content),
+      getMessageText(second.content),
+    ),
+  };
+}
 
-    return {};
+function toUserContentParts(
+  content: OpenAI.Chat.Completions.ChatCompletionUserMessageParam['content'],
+): OpenAI.Chat.Completions.ChatCompletionContentPart[] {
+  if (typeof content !== 'string') {
+    return content;
   }
+  return content ? [{ type: 'text', text: content }] : [];
+}
+
+function getMessageText(content: ChatMessage['content']): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+  return (content ?? [])
+    .map((part) => (part.type === 'text' ? part.text : ''))
+    .filter(Boolean)
+    .join('\n');
+}
+
+function getReasoningContent(message: ChatMessage): string {
+  return (message as { reasoning_content?: string }).reasoning_content ?? '';
 }
 
-function flushToolCallMap(toolCallMap: ToolCallMap): GenerateContentResponse {
+function joinText(...texts: string[]): string {
+  return texts.filter(Boolean).join('\n\n');
+}
+
+/**
+ * Reads reasoning text from a message or delta. DeepSeek, Qwen and vLLM use
+ * `reasoning_content`; OpenRouter and newer vLLM releases use `reasoning`.
+ */
+function getReasoningText(value: object): string {
+  const { reasoning_content: reasoningContent, reasoning } = value as {
+    reasoning_content?: unknown;
+    reasoning?: unknown;
+  };
+  if (typeof reasoningContent === 'string') {
+    return reasoningContent;
+  }
+  return typeof reasoning === 'string' ? reasoning : '';
+}
+
+function getDeltaText(
+  delta: OpenAI.Chat.Completions.ChatCompletionChunk.Choice.Delta,
+): string {
+  const rawContent: unknown = (delta as { content?: unknown }).content;
+  if (typeof rawContent === 'string') {
+    return rawContent;
+  }
+  if (Array.isArray(rawContent) && rawContent.length > 0) {
+    const first: unknown = rawContent[0];
+    if (
+      typeof first === 'object' &&
+      first !== null &&
+      (first as { type?: unknown }).type === 'text' &&
+      typeof (first as { text?: unknown }).text === 'string'
+    ) {
+      return (first as { text: string }).text;
+    }
+  }
+  return '';
+}
+
+/**
+ * Turns classified segments into parts. Reasoning is buffered and emitted a
+ * paragraph at a time; it is flushed as soon as answer text starts.
+ */
+function emitSegments(
+  state: StreamState,
+  segments: ReasoningSegment[],
+): Part[] {
+  const parts: Part[] = [];
+  for (const segment of segments) {
+    if (segment.thought) {
+      state.reasoning += segment.text;
+      const [complete, rest] = takeCompleteParagraphs(
+        state.pendingThought + segment.text,
+      );
+      state.pendingThought = rest;
+      pushThought(state, parts, complete);
+      continue;
+    }
+    flushPendingThought(state, parts);
+    parts.push(attachStreamReasoning(state, { text: segment.text }));
+  }
+  return parts;
+}
+
+function flushPendingThought(state: StreamState, parts: Part[]): void {
+  pushThought(state, parts, state.pendingThought.trim());
+  state.pendingThought = '';
+}
+
+function pushThought(state: StreamState, parts: Part[], text: string): void {
+  if (text && state.includeThoughts) {
+    parts.push({ text, thought: true });
+  }
+}
+
+/**
+ * Attaches the reasoning received so far to the first answer part of a
+ * streamed response.
+ */
+function attachStreamReasoning(state: StreamState, part: Part): Part {
+  if (state.reasoningAttached || !state.reasoning.trim()) {
+    return part;
+  }
+  state.reasoningAttached = true;
+  return withReasoningSignature(part, state.reasoning.trim());
+}
+
+function withReasoningSignature(part: Part, reasoning: string): Part {
+  if (!reasoning) {
+    return part;
+  }
+  return { ...part, thoughtSignature: encodeReasoningSignature(reasoning) };
+}
+
+/**
+ * Appends the accumulated tool calls to `parts`, after any pending reasoning,
+ * and returns them.
+ */
+function flushToolCalls(state: StreamState, parts: Part[]): FunctionCall[] {
+  if (state.toolCalls.size === 0) {
+    return [];
+  }
+  flushPendingThought(state, parts);
+  const flushed = flushToolCallMap(state);
+  parts.push(...flushed.parts);
+  return flushed.functionCalls;
+}
+
+function flushToolCallMap(state: StreamState): {
+  parts: Part[];
+  functionCalls: FunctionCall[];
+} {
   const functionCalls: FunctionCall[] = [];
   const parts: Part[] = [];
-  for (const [, data] of Array.from(toolCallMap.entries()).sort(
+  for (const [, data] of Array.from(state.toolCalls.entries()).sort(
     ([left], [right]) => left - right,
   )) {
     if (!data.name) {
       continue;
     }
-    const functionCall: FunctionCall = {
-      id: data.id,
-      name: data.name,
-      args: safeJsonParse(data.arguments),
-    };
+    const functionCall = parseFunctionCall(
+      data.id,
+      data.name,
+      data.arguments,
+      state.onToolArgumentsRepair,
+    );
     functionCalls.push(functionCall);
-    parts.push({ functionCall });
+    parts.push(attachStreamReasoning(state, { functionCall }));
   }
 
-  toolCallMap.clear();
+  state.toolCalls.clear();
+  return { parts, functionCalls };
+}
 
+export function buildStreamResponse(
+  parts: Part[],
+  functionCalls: FunctionCall[],
+): GenerateContentResponse {
   const response = new GenerateContentResponse();
   response.candidates = [
     {
@@ -336,10 +775,58 @@ function attachFunctionCalls(
   });
 }
 
-function safeJsonParse(raw: string): Record<string, unknown> {
-  try {
-    return JSON.parse(raw);
-  } catch {
-    return {};
+/**
+ * Image MIME types accepted in OpenAI `image_url` content parts.
+ */
+const SUPPORTED_IMAGE_MIME_TYPES = new Set([
+  'image/png',
+  'image/jpeg',
+  'image/webp',
+  'image/gif',
+]);
+
+/**
+ * Converts an `inlineData` or `fileData` part to an OpenAI content part.
+ * Supported images become `image_url` parts (inline data as a data URL)
+ * unless the model has no vision; anything else is handled according to
+ * `options.unsupportedMedia`.
+ */
+export function toMediaContentPart(
+  part: Part,
+  allowImages: boolean,
+  options: MessageConversionOptions,
+): OpenAI.Chat.Completions.ChatCompletionContentPart {
+  const mimeType =
+    part.inlineData?.mimeType ?? part.fileData?.mimeType ?? 'unknown';
+  if (
+    allowImages &&
+    options.vision !== false &&
+    SUPPORTED_IMAGE_MIME_TYPES.has(mimeType)
+  ) {
+    if (part.inlineData?.data) {
+      return {
+        type: 'image_url',
+        image_url: { url: `data:${mimeType};base64,${part.inlineData.data}` },
+      };
+    }
+    const fileUri = part.fileData?.fileUri;
+    if (fileUri && /^(https?|data):/.test(fileUri)) {
+      return { type: 'image_url', image_url: { url: fileUri } };
+    }
+  }
+
+  const name =
+    part.inlineData?.displayName ??
+    part.fileData?.displayName ??
+    part.fileData?.fileUri;
+  const description = name ? `${name} (${mimeType})` : mimeType;
+  if (options.unsupportedMedia === 'error') {
+    throw new Error(
+      `Attachment ${description} cannot be sent to the custom LLM provider.`,
+    );
   }
+  return {
+    type: 'text',
+    text: `[Attachment omitted: ${description} is not supported by this provider]`,
+  };
 }
@@ -0,0 +1,728 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { http, HttpResponse } from 'msw';
+import { FinishReason, FunctionCallingConfigMode } from '@google/genai';
+import { server } from '../mocks/msw.js';
+import { CustomLLMContentGenerator } from './index.js';
+import { resolveCustomLlmProvider } from './providers.js';
+import type { CustomLlmProviderConfig } from './types.js';
+import { getInvalidToolCall } from '../tools/invalid-tool-call.js';
+
+const BASE_URL = 'http://localhost:8000/v1';
+
+function createGenerator(overrides: CustomLlmProviderConfig = {}) {
+  return new CustomLLMContentGenerator(
+    resolveCustomLlmProvider({
+      providers: {
+        local: {
+          baseURL: BASE_URL,
+          model: 'qwen3-coder',
+          embeddingModel: 'bge-m3',
+          ...overrides,
+        },
+      },
+    }),
+  );
+}
+
+interface EmbeddingsRequest {
+  model: string;
+  input: string[];
+  encoding_format?: string;
+  dimensions?: number;
+}
+
+beforeAll(() => {
+  server.listen({ onUnhandledRequest: 'error' });
+});
+
+afterEach(() => {
+  server.resetHandlers();
+});
+
+afterAll(() => {
+  server.close();
+});
+
+describe('CustomLLMContentGenerator.embedContent', () => {
+  let requests: EmbeddingsRequest[];
+
+  function serveEmbeddings(reverse = false) {
+    requests = [];
+    server.resetHandlers(
+      http.post(`${BASE_URL}/embeddings`, async ({ request }) => {
+        const body = (await request.json()) as EmbeddingsRequest;
+        requests.push(body);
+        const data = body.input.map((text, index) => ({
+          object: 'embedding',
+          index,
+          embedding: [text.length, index],
+        }));
+        return HttpResponse.json({
+          object: 'list',
+          model: body.model,
+          data: reverse ? data.reverse() : data,
+          usage: { prompt_tokens: 1, total_tokens: 1 },
+        });
+      }),
+    );
+  }
+
+  it('embeds each content with the configured embedding model', async () => {
+    serveEmbeddings();
+
+    const response = await createGenerator().embedContent({
+      model: 'gemini-embedding-001',
+      contents: ['a', 'bb'],
+      config: { outputDimensionality: 256 },
+    });
+
+    expect(response.embeddings).toEqual([
+      { values: [1, 0] },
+      { values: [2, 1] },
+    ]);
+    expect(requests).toEqual([
+      {
+        model: 'bge-m3',
+        input: ['a', 'bb'],
+        encoding_format: 'float',
+        dimensions: 256,
+      },
+    ]);
+  });
+
+  it('splits large requests into batches and keeps the input order', async () => {
+    serveEmbeddings(true);
+
+    const response = await createGenerator({
+      embeddingBatchSize: 2,
+    }).embedContent({
+      model: 'gemini-embedding-001',
+      contents: ['a', 'bb', 'ccc'],
+    });
+
+    expect(requests.map((request) => request.input)).toEqual([
+      ['a', 'bb'],
+      ['ccc'],
+    ]);
+    expect(response.embeddings?.map((embedding) => embedding.values)).toEqual([
+      [1, 0],
+      [2, 1],
+      [3, 0],
+    ]);
+  });
+
+  it('fails when the provider has no embedding model', async () => {
+    await expect(
+      createGenerator({ embeddingModel: undefined }).embedContent({
+        model: 'gemini-embedding-001',
+        contents: ['a'],
+      }),
+    ).rejects.toThrow(
+      'Custom LLM provider "local" has no embedding model configured.',
+    );
+  });
+
+  it('fails when the provider returns the wrong number of embeddings', async () => {
+    server.resetHandlers(
+      http.post(`${BASE_URL}/embeddings`, () =>
+        HttpResponse.json({ object: 'list', data: [] }),
+      ),
+    );
+
+    await expect(
+      createGenerator().embedContent({
+        model: 'gemini-embedding-001',
+        contents: ['a'],
+      }),
+    ).rejects.toThrow('returned 0 embeddings for 1 inputs');
+  });
+});
+
+describe('CustomLLMContentGenerator with wireApi "responses"', () => {
+  // Created per test: the OpenAI client captures `fetch` when constructed,
+  // which has to happen after the mock server starts.
+  const createResponsesGenerator = () =>
+    createGenerator({
+      wireApi: 'responses',
+      reasoning: { control: 'reasoning_effort', history: 'send' },
+    });
+
+  it('sends a stateless /responses request', async () => {
+    let body: Record<string, unknown> | undefined;
+    server.resetHandlers(
+      http.post(`${BASE_URL}/responses`, async ({ request }) => {
+        body = (await request.json()) as Record<string, unknown>;
+        return HttpResponse.json({
+          id: 'resp_1',
+          object: 'response',
+          status: 'completed',
+          output: [
+            {
+              type: 'message',
+              id: 'msg_1',
+              role: 'assistant',
+              status: 'completed',
+              content: [{ type: 'output_text', text: 'Hello!' }],
+            },
+          ],
+          usage: {
+            input_tokens: 3,
+            output_tokens: 2,
+            total_tokens: 5,
+          },
+        });
+      }),
+    );
+
+    const response = await createResponsesGenerator().generateContent(
+      {
+        model: 'gemini-2.5-pro',
+        contents: 'Hi',
+        config: {
+          systemInstruction: { role: 'user', parts: [{ text: 'Be brief.' }] },
+          thinkingConfig: { thinkingBudget: 4096 },
+        },
+      },
+      'prompt-id',
+    );
+
+    expect(response.text).toBe('Hello!');
+    expect(body).toEqual({
+      model: 'qwen3-coder',
+      input: [{ role: 'user', content: [{ type: 'input_text', text: 'Hi' }] }],
+      instructions: 'Be brief.',
+      temperature: 0,
+      top_p: 1,
+      max_output_tokens: 8192,
+      store: false,
+      include: ['reasoning.encrypted_content'],
+      reasoning: { effort: 'medium', summary: 'auto' },
+      stream: false,
+    });
+  });
+
+  it('streams Responses events', async () => {
+    const events = [
+      { type: 'response.output_text.delta', delta: 'Hel' },
+      { type: 'response.output_text.delta', delta: 'lo!' },
+      {
+        type: 'response.completed',
+        response: {
+          status: 'completed',
+          output: [],
+          usage: { input_tokens: 3, output_tokens: 2, total_tokens: 5 },
+        },
+      },
+    ];
+    server.resetHandlers(
+      http.post(
+        `${BASE_URL}/responses`,
+        () =>
+          new HttpResponse(
+            events
+              .map(
+                (event) =>
+                  `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`,
+              )
+              .join(''),
+            { headers: { 'Content-Type': 'text/event-stream' } },
+          ),
+      ),
+    );
+
+    const responses = [];
+    for await (const response of await createResponsesGenerator().generateContentStream(
+      { model: 'gemini-2.5-pro', contents: 'Hi' },
+      'prompt-id',
+    )) {
+      responses.push(response);
+    }
+
+    expect(responses.map((response) => response.text ?? '').join('')).toBe(
+      'Hello!',
+    );
+    const last = responses[responses.length - 1];
+    expect(last.candidates![0].finishReason).toBe(FinishReason.STOP);
+    expect(last.usageMetadata?.totalTokenCount).toBe(5);
+  });
+});
+
+describe('CustomLLMContentGenerator JSON output', () => {
+  const schema = {
+    type: 'object',
+    properties: { next_speaker: { type: 'string', enum: ['user', 'model'] } },
+    required: ['next_speaker'],
+  };
+  const jsonRequest = {
+    model: 'gemini-2.5-flash',
+    contents: 'Who speaks next?',
+    config: {
+      responseMimeType: 'application/json',
+      responseJsonSchema: schema,
+    },
+  };
+
+  let bodies: Array<Record<string, unknown>>;
+
+  function serveCompletions(...answers: string[]) {
+    bodies = [];
+    server.resetHandlers(
+      http.post(`${BASE_URL}/chat/completions`, async ({ request }) => {
+        bodies.push((await request.json()) as Record<string, unknown>);
+        return HttpResponse.json({
+          id: 'chatcmpl-1',
+          object: 'chat.completion',
+          created: 0,
+          model: 'qwen3-coder',
+          choices: [
+            {
+              index: 0,
+              message: { role: 'assistant', content: answers.shift() },
+              finish_reason: 'stop',
+            },
+          ],
+        });
+      }),
+    );
+  }
+
+  it('sends the schema as a json_schema response format', async () => {
+    serveCompletions('{"next_speaker":"user"}');
+
+    const response = await createGenerator().generateContent(
+      jsonRequest,
+      'prompt-id',
+    );
+
+    expect(response.text).toBe('{"next_speaker":"user"}');
+    expect(bodies).toHaveLength(1);
+    expect(bodies[0]['response_format']).toEqual({
+      type: 'json_schema',
+      json_schema: { name: 'response', schema, strict: false },
+    });
+    expect(bodies[0]['messages']).toEqual([
+      { role: 'user', content: 'Who speaks next?' },
+    ]);
+  });
+
+  it('describes the schema in the prompt and repairs invalid output', async () => {
+    serveCompletions(
+      '```json\n{"next_speaker":"nobody"}\n```',
+      'Sure! ```json\n{"next_speaker":"model"}\n```',
+    );
+
+    const response = await createGenerator({
+      structuredOutput: 'none',
+    }).generateContent(jsonRequest, 'prompt-id');
+
+    expect(response.text).toBe('{"next_speaker":"model"}');
+    expect(bodies).toHaveLength(2);
+    expect(bodies[0]['response_format']).toBeUndefined();
+    const messages = bodies[1]['messages'] as Array<{
+      role: string;
+      content: string;
+    }>;
+    expect(messages[0].content).toContain(JSON.stringify(schema));
+    expect(messages[1]).toEqual({
+      role: 'assistant',
+      content: '```json\n{"next_speaker":"nobody"}\n```',
+    });
+    expect(messages[2].content).toContain(
+      'That response did not match the required JSON schema',
+    );
+  });
+
+  it('returns the last response when repairs are exhausted', async () => {
+    serveCompletions('not json', 'still not json', 'nope');
+
+    const response = await createGenerator({
+      structuredOutput: 'json_object',
+    }).generateContent(jsonRequest, 'prompt-id');
+
+    expect(response.text).toBe('nope');
+    expect(bodies).toHaveLength(3);
+    expect(bodies[0]['response_format']).toEqual({ type: 'json_object' });
+  });
+});
+
+describe('CustomLLMContentGenerator tool selection', () => {
+  const tools = [
+    {
+      functionDeclarations: [
+        { name: 'read_file', parametersJsonSchema: { type: 'object' } },
+        { name: 'write_file', parametersJsonSchema: { type: 'object' } },
+      ],
+    },
+  ];
+
+  it('maps the function calling config and rejects undeclared calls', async () => {
+    let body: Record<string, unknown> | undefined;
+    server.resetHandlers(
+      http.post(`${BASE_URL}/chat/completions`, async ({ request }) => {
+        body = (await request.json()) as Record<string, unknown>;
+        return HttpResponse.json({
+          id: 'chatcmpl-1',
+          object: 'chat.completion',
+          created: 0,
+          model: 'qwen3-coder',
+          choices: [
+            {
+              index: 0,
+              message: {
+                role: 'assistant',
+                content: null,
+                tool_calls: [
+                  {
+                    id: 'call_1',
+                    type: 'function',
+                    function: { name: 'read_file', arguments: '{"path":"a"}' },
+                  },
+                ],
+              },
+              finish_reason: 'tool_calls',
+            },
+          ],
+        });
+      }),
+    );
+
+    const response = await createGenerator({
+      parallelToolCalls: false,
+    }).generateContent(
+      {
+        model: 'gemini-2.5-pro',
+        contents: 'Write the file.',
+        config: {
+          tools,
+          toolConfig: {
+            functionCallingConfig: {
+              mode: FunctionCallingConfigMode.ANY,
+              allowedFunctionNames: ['write_file'],
+            },
+          },
+        },
+      },
+      'prompt-id',
+    );
+
+    expect(body).toMatchObject({
+      tools: [{ type: 'function', function: { name: 'write_file' } }],
+      tool_choice: { type: 'function', function: { name: 'write_file' } },
+      parallel_tool_calls: false,
+    });
+    expect(getInvalidToolCall(response.functionCalls![0].args)?.message).toBe(
+      'Tool "read_file" is not available in this request. Call one of: write_file.',
+    );
+  });
+});
+
+describe('CustomLLMContentGenerator text tool calling', () => {
+  it('describes the tools in the prompt and streams the calls written by the model', async () => {
+    let body: Record<string, unknown> | undefined;
+    const deltas = [
+      'Let me check.\n<tool_',
+      'call>\n{"name": "read_file", "arguments": {"path": ',
+      '"a.txt"}}\n</tool_call>',
+    ];
+    server.resetHandlers(
+      http.post(`${BASE_URL}/chat/completions`, async ({ request }) => {
+        body = (await request.json()) as Record<string, unknown>;
+        const chunks = [
+          ...deltas.map((content) => ({
+            choices: [{ index: 0, delta: { content }, finish_reason: null }],
+          })),
+          { choices: [{ index: 0, delta: {}, finish_reason: 'stop' }] },
+        ];
+        return new HttpResponse(
+          chunks
+            .map(
+              (chunk) =>
+                `data: ${JSON.stringify({ id: 'chatcmpl-1', object: 'chat.completion.chunk', created: 0, model: 'qwen3-coder', ...chunk })}\n\n`,
+            )
+            .join('') + 'data: [DONE]\n\n',
+          { headers: { 'Content-Type': 'text/event-stream' } },
+        );
+      }),
+    );
+
+    const responses = [];
+    for await (const response of await createGenerator({
+      toolCalling: 'text',
+      capabilities: { tools: false },
+    }).generateContentStream(
+      {
+        model: 'gemini-2.5-pro',
+        contents: 'Read a.txt',
+        config: {
+          systemInstruction: 'You are a coding agent.',
+          tools: [
+            {
+              functionDeclarations: [
+                { name: 'read_file', parametersJsonSchema: { type: 'object' } },
+              ],
+            },
+          ],
+        },
+      },
+      'prompt-id',
+    )) {
+      responses.push(response);
+    }
+
+    expect(body?.['tools']).toBeUndefined();
+    expect(body?.['messages']).toEqual([
+      {
+        role: 'system',
+        content: expect.stringMatching(
+          /^You are a coding agent\.\n\n# Tools\n[\s\S]*<tools>\n{"name":"read_file"/,
+        ),
+      },
+      { role: 'user', content: 'Read a.txt' },
+    ]);
+    expect(responses.map((response) => response.text ?? '').join('')).toBe(
+      'Let me check.',
+    );
+    expect(
+      responses.flatMap((response) => response.functionCalls ?? []),
+    ).toEqual([
+      {
+        id: expect.stringMatching(/^call_/),
+        name: 'read_file',
+        args: { path: 'a.txt' },
+      },
+    ]);
+    expect(responses[responses.length - 1].candidates![0].finishReason).toBe(
+      FinishReason.STOP,
+    );
+  });
+});
+
+describe('CustomLLMContentGenerator model capabilities', () => {
+  it('sends no tools or images to a text-only model without function calling', async () => {
+    let body: Record<string, unknown> | undefined;
+    server.resetHandlers(
+      http.post(`${BASE_URL}/chat/completions`, async ({ request }) => {
+        body = (await request.json()) as Record<string, unknown>;
+        return HttpResponse.json({
+          id: 'chatcmpl-1',
+          object: 'chat.completion',
+          created: 0,
+          model: 'qwen3-coder',
+          choices: [
+            {
+              index: 0,
+              message: { role: 'assistant', content: 'A screenshot.' },
+              finish_reason: 'stop',
+            },
+          ],
+        });
+      }),
+    );
+
+    await createGenerator({ capabilities: { tools: false } }).generateContent(
+      {
+        model: 'gemini-2.5-pro',
+        contents: [
+          {
+            role: 'user',
+            parts: [
+              { text: 'What is this?' },
+              { inlineData: { mimeType: 'image/png', data: 'iVBORw0KGgo=' } },
+            ],
+          },
+        ],
+        config: {
+          tools: [
+            {
+              functionDeclarations: [
+                { name: 'read_file', parametersJsonSchema: { type: 'object' } },
+              ],
+            },
+          ],
+        },
+      },
+      'prompt-id',
+    );
+
+    expect(body?.['tools']).toBeUndefined();
+    expect(body?.['tool_choice']).toBeUndefined();
+    expect(body?.['messages']).toEqual([
+      {
+        role: 'user',
+        content:
+          'What is this?\n[Attachment omitted: image/png is not supported by this provider]',
+      },
+    ]);
+  });
+});
+
+describe('CustomLLMContentGenerator prompt caching', () => {
+  it('sends cache breakpoints, the cache key and the session header', async () => {
+    let body: Record<string, unknown> | undefined;
+    let sessionHeader: string | null = null;
+    server.resetHandlers(
+      http.post(`${BASE_URL}/chat/completions`, async ({ request }) => {
+        body = (await request.json()) as Record<string, unknown>;
+        sessionHeader = request.headers.get('x-session-affinity');
+        return HttpResponse.json({
+          id: 'chatcmpl-1',
+          object: 'chat.completion',
+          created: 0,
+          model: 'qwen3-coder',
+          choices: [
+            {
+              index: 0,
+              message: { role: 'assistant', content: 'Hi' },
+              finish_reason: 'stop',
+            },
+          ],
+          usage: {
+            prompt_tokens: 10,
+            completion_tokens: 1,
+            total_tokens: 11,
+            prompt_tokens_details: { cached_tokens: 8 },
+          },
+        });
+      }),
+    );
+    const generator = new CustomLLMContentGenerator(
+      resolveCustomLlmProvider({
+        providers: {
+          local: {
+            baseURL: BASE_URL,
+            model: 'qwen3-coder',
+            promptCache: {
+              cacheControl: true,
+              cacheKey: true,
+              sessionHeader: 'x-session-affinity',
+            },
+          },
+        },
+      }),
+      { getSessionId: () => 'session-1' },
+    );
+
+    const response = await generator.generateContent(
+      {
+        model: 'gemini-2.5-pro',
+        contents: 'Hi',
+        config: {
+          systemInstruction: 'You are a coding agent.',
+          tools: [
+            {
+              functionDeclarations: [
+                {
+                  name: 'write_file',
+                  parametersJsonSchema: { type: 'object' },
+                },
+                { name: 'read_file', parametersJsonSchema: { type: 'object' } },
+              ],
+            },
+          ],
+        },
+      },
+      'prompt-id',
+    );
+
+    expect(sessionHeader).toBe('session-1');
+    expect(body).toMatchObject({
+      prompt_cache_key: 'session-1',
+      tools: [
+        { function: { name: 'read_file' } },
+        { function: { name: 'write_file' } },
+      ],
+      messages: [
+        {
+          role: 'system',
+          content: [
+            {
+              type: 'text',
+              text: 'You are a coding agent.',
+              cache_control: { type: 'ephemeral' },
+            },
+          ],
+        },
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'Hi', cache_control: { type: 'ephemeral' } },
+          ],
+        },
+      ],
+    });
+    expect(response.usageMetadata?.cachedContentTokenCount).toBe(8);
+  });
+
+  it('sends no cache hints by default', async () => {
+    let body: Record<string, unknown> | undefined;
+    let headers: Headers | undefined;
+    server.resetHandlers(
+      http.post(`${BASE_URL}/chat/completions`, async ({ request }) => {
+        body = (await request.json()) as Record<string, unknown>;
+        headers = request.headers;
+        return HttpResponse.json({
+          id: 'chatcmpl-1',
+          object: 'chat.completion',
+          created: 0,
+          model: 'qwen3-coder',
+          choices: [
+            {
+              index: 0,
+              message: { role: 'assistant', content: 'Hi' },
+              finish_reason: 'stop',
+            },
+          ],
+        });
+      }),
+    );
+
+    await createGenerator().generateContent(
+      { model: 'gemini-2.5-pro', contents: 'Hi' },
+      'prompt-id',
+    );
+
+    expect(body?.['prompt_cache_key']).toBeUndefined();
+    expect(body?.['messages']).toEqual([{ role: 'user', content: 'Hi' }]);
+    expect(headers?.has('x-session-affinity')).toBe(false);
+  });
+});
+
+describe('CustomLLMContentGenerator role models', () => {
+  it('sends requests for a role model to that model and others to the main model', async () => {
+    const models: unknown[] = [];
+    server.resetHandlers(
+      http.post(`${BASE_URL}/chat/completions`, async ({ request }) => {
+        const body = (await request.json()) as { model: string };
+        models.push(body.model);
+        return HttpResponse.json({
+          id: 'chatcmpl-1',
+          object: 'chat.completion',
+          created: 0,
+          model: body.model,
+          choices: [
+            {
+              index: 0,
+              message: { role: 'assistant', content: 'Hi' },
+              finish_reason: 'stop',
+            },
+          ],
+        });
+      }),
+    );
+    const generator = createGenerator({
+      models: { 'flash-lite': 'qwen3-4b' },
+    });
+
+    for (const model of ['qwen3-4b', 'gemini-2.5-flash-lite']) {
+      await generator.generateContent({ model, contents: 'Hi' }, 'prompt-id');
+    }
+
+    expect(models).toEqual(['qwen3-4b', 'qwen3-coder']);
+  });
+});
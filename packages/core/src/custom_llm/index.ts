@@ -4,59 +4,119 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import type {
-  CountTokensResponse,
-  GenerateContentResponse,
-  GenerateContentParameters,
-  CountTokensParameters,
+import {
   EmbedContentResponse,
-  EmbedContentParameters,
+  type ContentEmbedding,
+  type CountTokensResponse,
+  type GenerateContentResponse,
+  type GenerateContentParameters,
+  type CountTokensParameters,
+  type EmbedContentParameters,
 } from '@google/genai';
 import OpenAI from 'openai';
+import { randomUUID } from 'node:crypto';
 import type { ContentGenerator } from '../core/contentGenerator.js';
-import { extractToolFunctions, normalizeContents } from './util.js';
-import type { CustomLLMContentGeneratorConfig, ToolCallMap } from './types.js';
+import { normalizeContents, toSystemInstructionText } from './util.js';
+import type {
+  CustomLLMContentGeneratorConfig,
+  ResolvedCustomLlmProvider,
+  ToolArgumentsRepairListener,
+} from './types.js';
 import { ModelConverter } from './converter.js';
+import { ResponsesConverter } from './responsesConverter.js';
+import {
+  toReasoningRequestParams,
+  toResponsesReasoningParams,
+} from './reasoning.js';
+import { createTokenizer, type Tokenizer } from './tokenizer.js';
+import {
+  getJsonOutput,
+  isNativeJsonOutput,
+  parseJsonOutput,
+  toChatResponseFormat,
+  toResponsesTextConfig,
+  withJsonInstruction,
+  withJsonText,
+  withRepairTurn,
+  type JsonOutput,
+} from './structuredOutput.js';
+import {
+  rejectUncallableToolCalls,
+  resolveToolSelection,
+  toResponsesToolChoice,
+  type ToolSelection,
+} from './toolChoice.js';
+import {
+  toClientTransportOptions,
+  type TransportOptions,
+} from './transport.js';
+import {
+  toTextToolCallResponse,
+  toTextToolCallStream,
+  withTextToolCalling,
+} from './textToolCalls.js';
+import { withCacheControl, withSortedTools } from './promptCache.js';
+import { getResponseText } from '../utils/partUtils.js';
+import { estimateTokenCountSync } from '../utils/tokenCalculation.js';
 import { debugLogger } from '../utils/debugLogger.js';
 
-interface CustomLLMOptions {
-  userAgent?: string;
+/**
+ * How many times a response that does not match the requested JSON schema is
+ * sent back to the model for correction.
+ */
+const MAX_JSON_REPAIR_ATTEMPTS = 2;
+
+/**
+ * Options of a custom LLM content generator besides its provider.
+ */
+export interface CustomLlmGeneratorOptions extends TransportOptions {
+  /** Called for each tool call whose arguments had to be repaired. */
+  onToolArgumentsRepair?: ToolArgumentsRepairListener;
+  /**
+   * Returns the ID of the current session, which identifies the session for
+   * prompt caching. Defaults to an ID generated for this generator.
+   */
+  getSessionId?: () => string;
 }
 
 export class CustomLLMContentGenerator implements ContentGenerator {
   private readonly client: OpenAI;
-  private readonly apiKey: string;
   private readonly baseURL: string;
   private readonly modelName: string;
-  private readonly temperature: number;
-  private readonly maxTokens: number;
-  private readonly topP: number;
   private readonly config: CustomLLMContentGeneratorConfig;
+  private readonly tokenizer: Tokenizer;
+  private readonly onToolArgumentsRepair?: ToolArgumentsRepairListener;
+  private readonly getSessionId: () => string;
 
-  constructor(options: CustomLLMOptions = {}) {
-    this.apiKey = process.env['CUSTOM_LLM_API_KEY'] ?? '';
-    this.baseURL = process.env['CUSTOM_LLM_ENDPOINT'] ?? '';
-    this.modelName = (process.env['CUSTOM_LLM_MODEL_NAME'] ?? '').trim();
-    this.temperature = Number(process.env['CUSTOM_LLM_TEMPERATURE'] ?? 0);
-    this.maxTokens = Number(process.env['CUSTOM_LLM_MAX_TOKENS'] ?? 8192);
-    this.topP = Number(process.env['CUSTOM_LLM_TOP_P'] ?? 1);
+  constructor(
+    private readonly provider: ResolvedCustomLlmProvider,
+    options: CustomLlmGeneratorOptions = {},
+  ) {
+    this.baseURL = provider.baseURL;
+    this.onToolArgumentsRepair = options.onToolArgumentsRepair;
+    const sessionId = randomUUID();
+    this.getSessionId = options.getSessionId ?? (() => sessionId);
+    this.modelName = provider.model;
 
     this.config = {
       model: this.modelName,
-      temperature: this.temperature,
-      max_tokens: this.maxTokens,
-      top_p: this.topP,
+      temperature: provider.temperature,
+      max_tokens: provider.maxTokens,
+      top_p: provider.topP,
       stream_options: {
         include_usage: true,
       },
     };
 
+    this.tokenizer = createTokenizer(provider, options);
+
     this.client = new OpenAI({
-      apiKey: this.apiKey,
+      apiKey: provider.apiKey,
       baseURL: this.baseURL || undefined,
-      defaultHeaders: options.userAgent
-        ? { 'User-Agent': options.userAgent }
-        : undefined,
+      ...toClientTransportOptions(provider, options),
+      // Failed requests are retried by retryWithBackoff, which also handles
+      // fallback and model availability.
+      maxRetries: 0,
     });
   }
 
@@ -64,8 +124,55 @@ export class CustomLLMContentGenerator implements ContentGenerator {
     request: GenerateContentParameters,
     userPromptId: string,
   ): Promise<GenerateContentResponse> {
-    const messages = ModelConverter.toOpenAIMessages(request);
-    const tools = extractToolFunctions(request.config);
+    const textToolSelection = this.getTextToolSelection(request);
+    if (textToolSelection) {
+      return toTextToolCallResponse(
+        await this.generateContent(
+          withTextToolCalling(request, textToolSelection),
+          userPromptId,
+        ),
+        textToolSelection,
+        this.onToolArgumentsRepair,
+      );
+    }
+    const jsonOutput = getJsonOutput(request.config);
+    if (jsonOutput) {
+      return this.generateJson(request, jsonOutput, userPromptId);
+    }
+    return this.generate(request, userPromptId);
+  }
+
+  private async generate(
+    request: GenerateContentParameters,
+    userPromptId: string,
+  ): Promise<GenerateContentResponse> {
+    const selection = this.selectTools(request);
+    if (this.provider.wireApi === 'responses') {
+      const response = await this.client.responses.create(
+        {
+          ...this.toResponsesParams(request, userPromptId, selection),
+          stream: false,
+        },
+        this.toRequestOptions(request),
+      );
+      const result = ResponsesConverter.toGeminiResponse(response, {
+        includeThoughts: request.config?.thinkingConfig?.includeThoughts,
+        onToolArgumentsRepair: this.onToolArgumentsRepair,
+      });
+      rejectUncallableToolCalls(result, selection);
+      return result;
+    }
+    const messages = this.toChatMessages(request);
+    const reasoningParams = toReasoningRequestParams(
+      request.config?.thinkingConfig,
+      this.provider.reasoning.control,
+    );
+    const { tools, toolChoice } = selection;
+    const parallelToolCalls = this.toParallelToolCalls(tools);
+    const responseFormat = toChatResponseFormat(
+      getJsonOutput(request.config),
+      this.provider.structuredOutput,
+    );
     const resolvedModel = this.getResolvedModel(request.model);
     if (shouldDebugApi(userPromptId)) {
       debugLogger.log(
@@ -73,6 +180,7 @@ export class CustomLLMContentGenerator implements ContentGenerator {
         JSON.stringify(
           {
             promptId: userPromptId,
+            provider: this.provider.id,
             baseURL: this.baseURL,
             model: resolvedModel,
             requestModel: request.model,
@@ -81,8 +189,12 @@ export class CustomLLMContentGenerator implements ContentGenerator {
               messages,
               tools,
               stream: false,
-              tool_choice: tools && tools.length > 0 ? 'auto' : undefined,
+              tool_choice: toolChoice,
+              parallel_tool_calls: parallelToolCalls,
+              response_format: responseFormat,
               ...this.config,
+              ...reasoningParams,
+              ...this.toPromptCacheParams(),
               model: resolvedModel,
             },
           },
@@ -91,14 +203,21 @@ export class CustomLLMContentGenerator implements ContentGenerator {
         ),
       );
     }
-    const completion = await this.client.chat.completions.create({
-      messages,
-      stream: false,
-      tools,
-      tool_choice: tools && tools.length > 0 ? 'auto' : undefined,
-      ...this.config,
-      model: resolvedModel,
-    });
+    const completion = await this.client.chat.completions.create(
+      {
+        messages,
+        stream: false,
+        tools,
+        tool_choice: toolChoice,
+        parallel_tool_calls: parallelToolCalls,
+        response_format: responseFormat,
+        ...this.config,
+        ...reasoningParams,
+        ...this.toPromptCacheParams(),
+        model: resolvedModel,
+      },
+      this.toRequestOptions(request),
+    );
     if (shouldDebugApi(userPromptId)) {
       debugLogger.log(
         '[custom-llm-api-response]',
@@ -112,15 +231,45 @@ export class CustomLLMContentGenerator implements ContentGenerator {
         ),
       );
     }
-    return ModelConverter.toGeminiResponse(completion);
+    const result = ModelConverter.toGeminiResponse(completion, {
+      includeThoughts: request.config?.thinkingConfig?.includeThoughts,
+      onToolArgumentsRepair: this.onToolArgumentsRepair,
+    });
+    rejectUncallableToolCalls(result, selection);
+    return result;
   }
 
   async generateContentStream(
     request: GenerateContentParameters,
     userPromptId: string,
   ): Promise<AsyncGenerator<GenerateContentResponse>> {
-    const messages = ModelConverter.toOpenAIMessages(request);
-    const tools = extractToolFunctions(request.config) ?? [];
+    const textToolSelection = this.getTextToolSelection(request);
+    if (textToolSelection) {
+      return toTextToolCallStream(
+        await this.generateContentStream(
+          withTextToolCalling(request, textToolSelection),
+          userPromptId,
+        ),
+        textToolSelection,
+        this.onToolArgumentsRepair,
+      );
+    }
+    request = this.withJsonPrompt(request);
+    const selection = this.selectTools(request);
+    if (this.provider.wireApi === 'responses') {
+      return this.generateResponsesStream(request, userPromptId, selection);
+    }
+    const messages = this.toChatMessages(request);
+    const reasoningParams = toReasoningRequestParams(
+      request.config?.thinkingConfig,
+      this.provider.reasoning.control,
+    );
+    const { tools, toolChoice } = selection;
+    const parallelToolCalls = this.toParallelToolCalls(tools);
+    const responseFormat = toChatResponseFormat(
+      getJsonOutput(request.config),
+      this.provider.structuredOutput,
+    );
     const resolvedModel = this.getResolvedModel(request.model);
     if (shouldDebugApi(userPromptId)) {
       debugLogger.log(
@@ -128,6 +277,7 @@ export class CustomLLMContentGenerator implements ContentGenerator {
         JSON.stringify(
           {
             promptId: userPromptId,
+            provider: this.provider.id,
             baseURL: this.baseURL,
             model: resolvedModel,
             requestModel: request.model,
@@ -136,8 +286,12 @@ export class CustomLLMContentGenerator implements ContentGenerator {
               messages,
               tools,
               stream: true,
-              tool_choice: tools.length > 0 ? 'auto' : undefined,
+              tool_choice: toolChoice,
+              parallel_tool_calls: parallelToolCalls,
+              response_format: responseFormat,
               ...this.config,
+              ...reasoningParams,
+              ...this.toPromptCacheParams(),
               model: resolvedModel,
             },
           },
@@ -146,15 +300,26 @@ export class CustomLLMContentGenerator implements ContentGenerator {
         ),
       );
     }
-    const stream = await this.client.chat.completions.create({
-      messages,
-      stream: true,
-      tools,
-      tool_choice: tools.length > 0 ? 'auto' : undefined,
-      ...this.config,
-      model: resolvedModel,
+    const stream = await this.client.chat.completions.create(
+      {
+        messages,
+        stream: true,
+        tools,
+        tool_choice: toolChoice,
+        parallel_tool_calls: parallelToolCalls,
+        response_format: responseFormat,
+        ...this.config,
+        ...reasoningParams,
+        ...this.toPromptCacheParams(),
+        model: resolvedModel,
+      },
+      this.toRequestOptions(request),
+    );
+    const state = ModelConverter.createStreamState({
+      includeThoughts: request.config?.thinkingConfig?.includeThoughts,
+      onToolArgumentsRepair: this.onToolArgumentsRepair,
     });
-    const toolCallMap: ToolCallMap = new Map();
+    const abortSignal = request.config?.abortSignal;
 
     return (async function* (): AsyncGenerator<GenerateContentResponse> {
       let sawAnyToolCallChunk = false;
@@ -164,7 +329,10 @@ export class CustomLLMContentGenerator implements ContentGenerator {
           Array.isArray(choice.delta?.tool_calls),
         );
         const hasContent = chunk.choices?.some(
-          (choice) => typeof choice.delta?.content === 'string',
+          (choice) =>
+            typeof choice.delta?.content === 'string' ||
+            'reasoning_content' in (choice.delta ?? {}) ||
+            'reasoning' in (choice.delta ?? {}),
         );
         sawAnyToolCallChunk ||= hasToolCall;
         sawAnyContentChunk ||= hasContent;
@@ -196,10 +364,10 @@ export class CustomLLMContentGenerator implements ContentGenerator {
             ),
           );
         }
-        const { response } = ModelConverter.processStreamChunk(
-          chunk,
-          toolCallMap,
-        );
+        const { response } = ModelConverter.processStreamChunk(chunk, state);
+        if (response) {
+          rejectUncallableToolCalls(response, selection);
+        }
         if (shouldDebugApi(userPromptId) && response?.functionCalls?.length) {
           debugLogger.log(
             '[custom-llm-tool-call-response]',
@@ -217,6 +385,14 @@ export class CustomLLMContentGenerator implements ContentGenerator {
           yield response;
         }
       }
+      // The SDK ends a stream quietly when it is aborted; a cancelled
+      // response must not look complete.
+      abortSignal?.throwIfAborted();
+      const finalResponse = ModelConverter.finishStream(state);
+      if (finalResponse) {
+        rejectUncallableToolCalls(finalResponse, selection);
+        yield finalResponse;
+      }
       if (shouldDebugApi(userPromptId)) {
         debugLogger.log(
           '[custom-llm-stream-summary]',
@@ -225,8 +401,8 @@ export class CustomLLMContentGenerator implements ContentGenerator {
               promptId: userPromptId,
               sawAnyToolCallChunk,
               sawAnyContentChunk,
-              toolCallMapSize: toolCallMap.size,
-              toolCallMap: Array.from(toolCallMap.entries()),
+              toolCallMapSize: state.toolCalls.size,
+              toolCallMap: Array.from(state.toolCalls.entries()),
             },
             null,
             2,
@@ -240,65 +416,329 @@ export class CustomLLMContentGenerator implements ContentGenerator {
     request: CountTokensParameters,
   ): Promise<CountTokensResponse> {
     const contents = normalizeContents(request.contents ?? []);
-    const text = contents
-      .flatMap(
-        (content) =>
-          content.parts
-            ?.map((part: unknown) => {
-              if (typeof part === 'string') {
-                return part;
-              }
-              if (typeof part === 'object' && part !== null) {
-                const typedPart = part as {
-                  text?: unknown;
-                  inlineData?: { data?: unknown };
-                };
-                if (typeof typedPart.text === 'string') {
-                  return typedPart.text;
-                }
-                if (typeof typedPart.inlineData?.data === 'string') {
-                  return typedPart.inlineData.data;
-                }
-              }
-              return '';
-            })
-            .filter(Boolean) ?? [],
-      )
-      .join(' ');
-
-    const englishWords = (text.match(/[a-zA-Z]+[']?[a-zA-Z]*/g) ?? []).length;
-    const chineseChars = (text.match(/[\u4e00-\u9fff]/g) ?? []).length;
-    const numbers = (text.match(/\b\d+\b/g) ?? []).length;
-    const punctuations =
-      text.match(/[.,!?;:"'(){}[\]<>@#$%^&*\-_+=~`|\\/]/g)?.length ?? 0;
-    const spaces = Math.ceil((text.match(/\s+/g) ?? []).length / 5);
-
-    const totalTokens = Math.ceil(
-      englishWords * 1.2 +
-        chineseChars * 1 +
-        numbers * 0.8 +
-        punctuations * 0.5 +
-        spaces,
-    );
+    const texts: string[] = [];
+    let mediaTokens = 0;
+    for (const part of contents.flatMap((content) => content.parts ?? [])) {
+      if (typeof part.text === 'string') {
+        texts.push(part.text);
+      } else if (part.functionCall) {
+        texts.push(
+          part.functionCall.name ?? '',
+          JSON.stringify(part.functionCall.args ?? {}),
+        );
+      } else if (part.functionResponse) {
+        texts.push(JSON.stringify(part.functionResponse.response ?? {}));
+        mediaTokens += estimateTokenCountSync(
+          (part.functionResponse.parts ?? []).filter(
+            (nested) => nested.inlineData || nested.fileData,
+          ),
+        );
+      } else if (part.inlineData || part.fileData) {
+        // Encoding base64 payloads as text is meaningless, so media uses the
+        // same fixed estimates as the Gemini path.
+        mediaTokens += estimateTokenCountSync([part]);
+      }
+    }
 
+    const textTokens = await this.tokenizer.countTokens(
+      texts.join('\n'),
+      request.config?.abortSignal,
+    );
     return {
-      totalTokens,
+      totalTokens: textTokens + mediaTokens,
     };
   }
 
   async embedContent(
-    _request: EmbedContentParameters,
+    request: EmbedContentParameters,
   ): Promise<EmbedContentResponse> {
-    throw new Error('Embedding is not supported for custom LLM providers.');
+    const model = this.provider.embeddingModel;
+    if (!model) {
+      throw new Error(
+        `Custom LLM provider "${this.provider.id}" has no embedding model configured. Set "embeddingModel" for the provider to enable embeddings.`,
+      );
+    }
+
+    // Each content is embedded as one input, like the Gemini API does.
+    const inputs = normalizeContents(request.contents).map((content) =>
+      (content.parts ?? [])
+        .map((part) => part.text)
+        .filter((text): text is string => typeof text === 'string')
+        .join('\n'),
+    );
+    const batchSize = Math.max(1, this.provider.embeddingBatchSize);
+    const embeddings: ContentEmbedding[] = [];
+    for (let start = 0; start < inputs.length; start += batchSize) {
+      const batch = inputs.slice(start, start + batchSize);
+      const response = await this.client.embeddings.create(
+        {
+          model,
+          input: batch,
+          // Many compatible servers do not support the SDK's default base64.
+          encoding_format: 'float',
+          dimensions: request.config?.outputDimensionality,
+        },
+        { signal: request.config?.abortSignal },
+      );
+      if (response.data.length !== batch.length) {
+        throw new Error(
+          `Custom LLM provider "${this.provider.id}" returned ${response.data.length} embeddings for ${batch.length} inputs.`,
+        );
+      }
+      const ordered = [...response.data].sort(
+        (left, right) => left.index - right.index,
+      );
+      embeddings.push(
+        ...ordered.map(({ embedding }) => ({ values: embedding })),
+      );
+    }
+
+    const result = new EmbedContentResponse();
+    result.embeddings = embeddings;
+    return result;
+  }
+
+  /**
+   * Generates JSON output (`responseMimeType: 'application/json'`). The
+   * response is validated against the schema; when it does not match, the
+   * model is shown the error and asked to correct it, up to
+   * `MAX_JSON_REPAIR_ATTEMPTS` times. The answer of a valid response is
+   * replaced by the bare JSON. If no attempt produces valid output, the last
+   * response is returned unchanged.
+   */
+  private async generateJson(
+    request: GenerateContentParameters,
+    jsonOutput: JsonOutput,
+    userPromptId: string,
+  ): Promise<GenerateContentResponse> {
+    let current = this.withJsonPrompt(request);
+    for (let attempt = 0; ; attempt++) {
+      const response = await this.generate(current, userPromptId);
+      const text = getResponseText(response) ?? '';
+      const result = parseJsonOutput(text, jsonOutput);
+      if (!result.error) {
+        return withJsonText(response, result.value);
+      }
+      if (attempt >= MAX_JSON_REPAIR_ATTEMPTS) {
+        debugLogger.warn(
+          `Custom LLM provider "${this.provider.id}" returned invalid JSON output: ${result.error}`,
+        );
+        return response;
+      }
+      current = withRepairTurn(current, text, result.error);
+    }
+  }
+
+  /**
+   * Describes the requested JSON output in the prompt when the provider
+   * cannot be given the schema directly.
+   */
+  private withJsonPrompt(
+    request: GenerateContentParameters,
+  ): GenerateContentParameters {
+    const jsonOutput = getJsonOutput(request.config);
+    return jsonOutput &&
+      !isNativeJsonOutput(jsonOutput, this.provider.structuredOutput)
+      ? withJsonInstruction(request, jsonOutput)
+      : request;
+  }
+
+  private async generateResponsesStream(
+    request: GenerateContentParameters,
+    userPromptId: string,
+    selection: ToolSelection,
+  ): Promise<AsyncGenerator<GenerateContentResponse>> {
+    const stream = await this.client.responses.create(
+      {
+        ...this.toResponsesParams(request, userPromptId, selection),
+        stream: true,
+      },
+      this.toRequestOptions(request),
+    );
+    const state = ResponsesConverter.createStreamState({
+      includeThoughts: request.config?.thinkingConfig?.includeThoughts,
+      onToolArgumentsRepair: this.onToolArgumentsRepair,
+    });
+    const abortSignal = request.config?.abortSignal;
+
+    return (async function* (): AsyncGenerator<GenerateContentResponse> {
+      for await (const event of stream) {
+        if (shouldDebugApiChunks(userPromptId)) {
+          debugLogger.log(
+            '[custom-llm-api-response-chunk]',
+            JSON.stringify({ promptId: userPromptId, event }, null, 2),
+          );
+        }
+        const response = ResponsesConverter.processStreamEvent(event, state);
+        if (response) {
+          rejectUncallableToolCalls(response, selection);
+          yield response;
+        }
+      }
+      abortSignal?.throwIfAborted();
+    })();
+  }
+
+  /**
+   * Builds the `/responses` request body shared by the streaming and
+   * non-streaming paths. Requests are not stored on the server; when
+   * reasoning history is sent back, the encrypted reasoning is requested so
+   * that it can be replayed.
+   */
+  private toResponsesParams(
+    request: GenerateContentParameters,
+    userPromptId: string,
+    selection: ToolSelection,
+  ): Omit<OpenAI.Responses.ResponseCreateParams, 'stream'> {
+    const { systemInstruction, thinkingConfig } = request.config ?? {};
+    const tools = ResponsesConverter.toFunctionTools(selection.tools);
+    const sendReasoning = this.provider.reasoning.history === 'send';
+    const params: Omit<OpenAI.Responses.ResponseCreateParams, 'stream'> = {
+      model: this.getResolvedModel(request.model),
+      input: ResponsesConverter.toInputItems(request, {
+        unsupportedMedia: this.provider.unsupportedMedia,
+        vision: this.provider.capabilities.vision,
+        reasoningHistory: this.provider.reasoning.history,
+      }),
+      instructions: toSystemInstructionText(systemInstruction) || undefined,
+      tools,
+      tool_choice: toResponsesToolChoice(selection.toolChoice),
+      parallel_tool_calls: this.toParallelToolCalls(tools),
+      text: toResponsesTextConfig(
+        getJsonOutput(request.config),
+        this.provider.structuredOutput,
+      ),
+      temperature: this.provider.temperature,
+      top_p: this.provider.topP,
+      max_output_tokens: this.provider.maxTokens,
+      store: false,
+      include: sendReasoning ? ['reasoning.encrypted_content'] : undefined,
+      ...toResponsesReasoningParams(
+        thinkingConfig,
+        this.provider.reasoning.control,
+      ),
+      ...this.toPromptCacheParams(),
+    };
+    if (shouldDebugApi(userPromptId)) {
+      debugLogger.log(
+        '[custom-llm-api-request]',
+        JSON.stringify(
+          {
+            promptId: userPromptId,
+            provider: this.provider.id,
+            baseURL: this.baseURL,
+            wireApi: 'responses',
+            requestModel: request.model,
+            payload: params,
+          },
+          null,
+          2,
+        ),
+      );
+    }
+    return params;
+  }
+
+  /**
+   * Models without function calling get no tools, since providers reject
+   * requests that declare them.
+   */
+  private selectTools(request: GenerateContentParameters): ToolSelection {
+    return this.withStableToolOrder(
+      resolveToolSelection(
+        this.provider.capabilities.tools
+          ? request.config
+          : { ...request.config, tools: undefined },
+      ),
+    );
+  }
+
+  /**
+   * Returns the tool selection of a request whose tools are called through
+   * text (`toolCalling: 'text'`), or undefined if the provider uses native
+   * function calling or the request has no tools.
+   */
+  private getTextToolSelection(
+    request: GenerateContentParameters,
+  ): ToolSelection | undefined {
+    if (this.provider.toolCalling !== 'text') {
+      return undefined;
+    }
+    const selection = this.withStableToolOrder(
+      resolveToolSelection(request.config),
+    );
+    return selection.tools ? selection : undefined;
+  }
+
+  private withStableToolOrder(selection: ToolSelection): ToolSelection {
+    return this.provider.promptCache.stablePrefix
+      ? withSortedTools(selection)
+      : selection;
+  }
+
+  private toChatMessages(
+    request: GenerateContentParameters,
+  ): OpenAI.Chat.Completions.ChatCompletionMessageParam[] {
+    const messages = ModelConverter.toOpenAIMessages(request, {
+      unsupportedMedia: this.provider.unsupportedMedia,
+      vision: this.provider.capabilities.vision,
+      reasoningHistory: this.provider.reasoning.history,
+      ...this.provider.messages,
+    });
+    return this.provider.promptCache.cacheControl
+      ? withCacheControl(messages)
+      : messages;
+  }
+
+  /**
+   * `prompt_cache_key` is only sent when the provider asks for it, since
+   * strict servers reject unknown parameters.
+   */
+  private toPromptCacheParams(): { prompt_cache_key?: string } {
+    return this.provider.promptCache.cacheKey
+      ? { prompt_cache_key: this.getSessionId() }
+      : {};
+  }
+
+  private toRequestOptions(request: GenerateContentParameters): {
+    signal?: AbortSignal;
+    headers?: Record<string, string>;
+  } {
+    const { sessionHeader } = this.provider.promptCache;
+    return {
+      signal: request.config?.abortSignal,
+      headers: sessionHeader
+        ? { [sessionHeader]: this.getSessionId() }
+        : undefined,
+    };
+  }
+
+  /**
+   * `parallel_tool_calls` is only sent when the provider sets it and the
+   * request has tools, since some servers reject it otherwise.
+   */
+  private toParallelToolCalls(
+    tools: unknown[] | undefined,
+  ): boolean | undefined {
+    return tools && tools.length > 0
+      ? this.provider.parallelToolCalls
+      : undefined;
   }
 
+  /**
+   * Requests for one of the provider's role models (see `models`) go to that
+   * model; everything else, such as a Gemini model name, goes to the main
+   * model.
+   */
   private getResolvedModel(requestModel: string): string {
     if (!this.modelName) {
       throw new Error(
-        `CUSTOM_LLM_MODEL_NAME is required but missing. Received request model: ${requestModel}`,
+        `Custom LLM provider "${this.provider.id}" has no model configured. Received request model: ${requestModel}`,
       );
     }
-    return this.modelName;
+    return Object.values(this.provider.models).includes(requestModel)
+      ? requestModel
+      : this.modelName;
   }
 }
 
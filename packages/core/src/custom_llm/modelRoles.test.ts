@@ -0,0 +1,71 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getCustomLlmModelOverrides } from './modelRoles.js';
+import { ModelConfigService } from '../services/modelConfigService.js';
+import { DEFAULT_MODEL_CONFIGS } from '../config/defaultModelConfigs.js';
+
+function createService(
+  ...args: Parameters<typeof getCustomLlmModelOverrides>
+): ModelConfigService {
+  const service = new ModelConfigService(DEFAULT_MODEL_CONFIGS);
+  for (const override of getCustomLlmModelOverrides(...args)) {
+    service.registerRuntimeModelOverride(override);
+  }
+  return service;
+}
+
+describe('getCustomLlmModelOverrides', () => {
+  it('sends every Gemini model to the main model by default', () => {
+    const service = createService('qwen-32b');
+
+    for (const model of [
+      'gemini-2.5-pro',
+      'gemini-3-flash-preview',
+      'classifier',
+      'summarizer-default',
+      'chat-compression-default',
+    ]) {
+      expect(service.getResolvedConfig({ model }).model).toBe('qwen-32b');
+    }
+  });
+
+  it('maps roles, purposes and aliases to their own models', () => {
+    const service = createService('qwen-32b', {
+      pro: 'qwen-72b',
+      'flash-lite': 'qwen-7b',
+      summarizer: 'local-8b',
+      'next-speaker-checker': 'qwen-1.5b',
+    });
+    const resolve = (model: string) =>
+      service.getResolvedConfig({ model }).model;
+
+    expect(resolve('gemini-3-pro-preview')).toBe('qwen-72b');
+    expect(resolve('gemini-2.5-pro')).toBe('qwen-72b');
+    expect(resolve('gemini-2.5-flash')).toBe('qwen-32b');
+    // Aliases based on a Gemini model follow its role...
+    expect(resolve('classifier')).toBe('qwen-7b');
+    expect(resolve('chat-compression-2.5-pro')).toBe('qwen-72b');
+    // ...unless their purpose is mapped itself.
+    expect(resolve('summarizer-default')).toBe('local-8b');
+    expect(resolve('summarizer-shell')).toBe('local-8b');
+    expect(resolve('next-speaker-checker')).toBe('qwen-1.5b');
+  });
+
+  it('keeps the generation config of every override', () => {
+    const service = createService(
+      'qwen-32b',
+      { pro: 'qwen-72b' },
+      { thinkingConfig: { includeThoughts: false } },
+    );
+
+    expect(
+      service.getResolvedConfig({ model: 'gemini-2.5-pro' })
+        .generateContentConfig.thinkingConfig?.includeThoughts,
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { GenerateContentConfig } from '@google/genai';
+import type { ModelConfigOverride } from '../services/modelConfigService.js';
+
+/**
+ * Model config aliases and Gemini models that each role in a provider's
+ * `models` mapping stands for. Any other key is used as an alias name as is.
+ */
+export const CUSTOM_LLM_MODEL_ROLES: Readonly<
+  Record<string, readonly string[]>
+> = {
+  pro: ['gemini-3-pro-preview', 'gemini-2.5-pro'],
+  flash: ['gemini-3-flash-preview', 'gemini-2.5-flash'],
+  'flash-lite': ['gemini-2.5-flash-lite'],
+  classifier: ['classifier'],
+  summarizer: ['summarizer-default', 'summarizer-shell'],
+  compression: [
+    'chat-compression-3-pro',
+    'chat-compression-3-flash',
+    'chat-compression-2.5-pro',
+    'chat-compression-2.5-flash',
+    'chat-compression-2.5-flash-lite',
+    'chat-compression-default',
+  ],
+  'loop-detection': ['loop-detection', 'loop-detection-double-check'],
+  'next-speaker': ['next-speaker-checker'],
+  'edit-fixer': ['llm-edit-fixer', 'edit-corrector'],
+  'prompt-completion': ['prompt-completion'],
+};
+
+/**
+ * Builds the model config overrides that send requests to a custom provider.
+ *
+ * Every Gemini model goes to `model`, the provider's main model, unless the
+ * `models` mapping assigns its role (`pro`, `flash`, `flash-lite`) another
+ * model. Purposes such as `summarizer` or `classifier` are matched by alias,
+ * which takes precedence over the Gemini model the alias is based on.
+ */
+export function getCustomLlmModelOverrides(
+  model: string,
+  models: Record<string, string> = {},
+  generateContentConfig?: GenerateContentConfig,
+): ModelConfigOverride[] {
+  const targets = new Map<string, string>();
+  for (const target of [
+    ...CUSTOM_LLM_MODEL_ROLES['pro'],
+    ...CUSTOM_LLM_MODEL_ROLES['flash'],
+    ...CUSTOM_LLM_MODEL_ROLES['flash-lite'],
+  ]) {
+    targets.set(target, model);
+  }
+  for (const [role, roleModel] of Object.entries(models)) {
+    for (const target of CUSTOM_LLM_MODEL_ROLES[role] ?? [role]) {
+      targets.set(target, roleModel);
+    }
+  }
+  return [...targets].map(([target, targetModel]) => ({
+    match: { model: target },
+    modelConfig: { model: targetModel, generateContentConfig },
+  }));
+}
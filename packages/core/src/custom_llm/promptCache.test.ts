@@ -0,0 +1,105 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { withCacheControl, withSortedTools } from './promptCache.js';
+import { resolveToolSelection } from './toolChoice.js';
+
+describe('custom_llm withSortedTools', () => {
+  it('sorts tools by name and keeps the rest of the selection', () => {
+    const selection = resolveToolSelection({
+      tools: [
+        {
+          functionDeclarations: [
+            { name: 'write_file' },
+            { name: 'mcp_search' },
+            { name: 'glob' },
+          ],
+        },
+      ],
+    });
+
+    const sorted = withSortedTools(selection);
+
+    expect(sorted.tools).toEqual([
+      expect.objectContaining({
+        function: expect.objectContaining({ name: 'glob' }),
+      }),
+      expect.objectContaining({
+        function: expect.objectContaining({ name: 'mcp_search' }),
+      }),
+      expect.objectContaining({
+        function: expect.objectContaining({ name: 'write_file' }),
+      }),
+    ]);
+    expect(sorted.toolChoice).toBe('auto');
+    expect(sorted.callableNames).toBe(selection.callableNames);
+  });
+});
+
+describe('custom_llm withCacheControl', () => {
+  const cacheControl = { type: 'ephemeral' };
+
+  it('marks the system message and the last message', () => {
+    expect(
+      withCacheControl([
+        { role: 'system', content: 'You are a coding agent.' },
+        { role: 'user', content: 'Hi' },
+        { role: 'assistant', content: 'Hello!' },
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'What is this?' },
+            { type: 'image_url', image_url: { url: 'data:image/png;base64,' } },
+          ],
+        },
+      ]),
+    ).toEqual([
+      {
+        role: 'system',
+        content: [
+          {
+            type: 'text',
+            text: 'You are a coding agent.',
+            cache_control: cacheControl,
+          },
+        ],
+      },
+      { role: 'user', content: 'Hi' },
+      { role: 'assistant', content: 'Hello!' },
+      {
+        role: 'user',
+        content: [
+          {
+            type: 'text',
+            text: 'What is this?',
+            cache_control: cacheControl,
+          },
+          { type: 'image_url', image_url: { url: 'data:image/png;base64,' } },
+        ],
+      },
+    ]);
+  });
+
+  it('leaves messages without text alone', () => {
+    const messages = [
+      { role: 'user' as const, content: 'Run ls' },
+      {
+        role: 'assistant' as const,
+        content: null,
+        tool_calls: [
+          {
+            id: 'call_1',
+            type: 'function' as const,
+            function: { name: 'ls', arguments: '{}' },
+          },
+        ],
+      },
+    ];
+
+    expect(withCacheControl(messages)).toEqual(messages);
+  });
+});
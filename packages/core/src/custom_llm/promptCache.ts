@@ -0,0 +1,86 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type OpenAI from 'openai';
+import type { ToolSelection } from './toolChoice.js';
+
+type ChatMessage = OpenAI.Chat.Completions.ChatCompletionMessageParam;
+
+type CachedTextPart = OpenAI.Chat.Completions.ChatCompletionContentPartText & {
+  cache_control?: typeof CACHE_CONTROL;
+};
+
+const CACHE_CONTROL = { type: 'ephemeral' } as const;
+
+/**
+ * Sorts the tools of a selection by name. The tools come before the
+ * conversation in the prompt, so an order that changes between requests
+ * (for example when an MCP server reconnects) would invalidate the cached
+ * prefix.
+ */
+export function withSortedTools(selection: ToolSelection): ToolSelection {
+  if (!selection.tools) {
+    return selection;
+  }
+  const tools = [...selection.tools].sort((a, b) => {
+    const aName = getToolName(a);
+    const bName = getToolName(b);
+    return aName < bName ? -1 : aName > bName ? 1 : 0;
+  });
+  return { ...selection, tools };
+}
+
+function getToolName(tool: OpenAI.Chat.Completions.ChatCompletionTool): string {
+  return tool.type === 'function' ? tool.function.name : tool.custom.name;
+}
+
+/**
+ * Marks the system message and the last message as cache breakpoints with
+ * Anthropic-style `cache_control`. The provider caches the prompt up to each
+ * breakpoint, so the next turn reads everything but its new messages from
+ * the cache.
+ */
+export function withCacheControl(messages: ChatMessage[]): ChatMessage[] {
+  const systemIndex = messages.findIndex(
+    (message) => message.role === 'system' || message.role === 'developer',
+  );
+  return messages.map((message, index) =>
+    index === systemIndex || index === messages.length - 1
+      ? withCacheBreakpoint(message)
+      : message,
+  );
+}
+
+/**
+ * Adds `cache_control` to the last text part of a message. Messages without
+ * text are left alone.
+ */
+function withCacheBreakpoint(message: ChatMessage): ChatMessage {
+  const { content } = message;
+  if (message.role === 'function' || !content) {
+    return message;
+  }
+  if (typeof content === 'string') {
+    const part: CachedTextPart = {
+      type: 'text',
+      text: content,
+      cache_control: CACHE_CONTROL,
+    };
+    return { ...message, content: [part] };
+  }
+  const lastTextIndex = content.map((part) => part.type).lastIndexOf('text');
+  if (lastTextIndex === -1) {
+    return message;
+  }
+  return {
+    ...message,
+    content: content.map((part, index) =>
+      index === lastTextIndex
+        ? { ...part, cache_control: CACHE_CONTROL }
+        : part,
+    ),
+  } as ChatMessage;
+}
@@ -0,0 +1,253 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  ENV_CUSTOM_LLM_PROVIDER_ID,
+  getCustomLlmProviderIds,
+  resolveCustomLlmProvider,
+} from './providers.js';
+import { DEFAULT_MODEL_CAPABILITIES } from './capabilities.js';
+import type { CustomLlmSettings } from './types.js';
+
+const settings: CustomLlmSettings = {
+  provider: 'gateway',
+  providers: {
+    local: { baseURL: 'http://localhost:8000/v1', model: 'qwen-72b' },
+    gateway: {
+      displayName: 'Team Gateway',
+      baseURL: 'https://gateway.example.com/v1',
+      apiKeyEnv: 'GATEWAY_KEY',
+      model: 'gpt-4o',
+      headers: { 'X-Team': 'cli' },
+      temperature: 0.2,
+      maxTokens: 4096,
+      topP: 0.9,
+    },
+  },
+};
+
+describe('custom_llm providers', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('lists configured provider ids', () => {
+    expect(getCustomLlmProviderIds(settings)).toEqual(['local', 'gateway']);
+    expect(getCustomLlmProviderIds(undefined)).toEqual([]);
+  });
+
+  it('resolves the default provider with its API key from the environment', () => {
+    vi.stubEnv('GATEWAY_KEY', 'secret');
+
+    expect(resolveCustomLlmProvider(settings)).toEqual({
+      id: 'gateway',
+      displayName: 'Team Gateway',
+      baseURL: 'https://gateway.example.com/v1',
+      apiKey: 'secret',
+      model: 'gpt-4o',
+      models: {},
+      headers: { 'X-Team': 'cli' },
+      wireApi: 'chat',
+      toolCalling: 'native',
+      temperature: 0.2,
+      maxTokens: 4096,
+      topP: 0.9,
+      unsupportedMedia: 'placeholder',
+      structuredOutput: 'json_schema',
+      reasoning: { history: 'strip', control: 'none' },
+      messages: { systemPrompt: 'system', mergeConsecutive: false },
+      promptCache: {
+        stablePrefix: true,
+        cacheControl: false,
+        cacheKey: false,
+        sessionHeader: undefined,
+      },
+      capabilities: {
+        contextWindow: 128_000,
+        maxOutputTokens: 16_384,
+        vision: true,
+        tools: true,
+        reasoning: false,
+        jsonSchema: true,
+      },
+      tokenizer: 'auto',
+      tokenizeURL: undefined,
+      embeddingModel: undefined,
+      embeddingBatchSize: 32,
+    });
+  });
+
+  it('prefers an explicit provider id and fills in defaults', () => {
+    expect(resolveCustomLlmProvider(settings, 'local')).toEqual({
+      id: 'local',
+      displayName: 'local',
+      baseURL: 'http://localhost:8000/v1',
+      apiKey: '',
+      model: 'qwen-72b',
+      models: {},
+      headers: {},
+      wireApi: 'chat',
+      toolCalling: 'native',
+      temperature: 0,
+      maxTokens: 8192,
+      topP: 1,
+      unsupportedMedia: 'placeholder',
+      structuredOutput: 'json_schema',
+      reasoning: { history: 'strip', control: 'none' },
+      messages: { systemPrompt: 'system', mergeConsecutive: false },
+      promptCache: {
+        stablePrefix: true,
+        cacheControl: false,
+        cacheKey: false,
+        sessionHeader: undefined,
+      },
+      capabilities: DEFAULT_MODEL_CAPABILITIES,
+      tokenizer: 'auto',
+      tokenizeURL: undefined,
+      embeddingModel: undefined,
+      embeddingBatchSize: 32,
+    });
+  });
+
+  it('fills in defaults from the capability profile of the model', () => {
+    const provider = resolveCustomLlmProvider({
+      providers: {
+        deepseek: {
+          baseURL: 'https://api.deepseek.com/v1',
+          model: 'deepseek-chat',
+          contextWindow: 65_536,
+          capabilities: { tools: false },
+        },
+      },
+    });
+
+    expect(provider.capabilities).toEqual({
+      contextWindow: 65_536,
+      maxOutputTokens: 8192,
+      vision: false,
+      tools: false,
+      reasoning: false,
+      jsonSchema: false,
+    });
+    expect(provider.structuredOutput).toBe('json_object');
+  });
+
+  it('resolves the models of each role', () => {
+    expect(
+      resolveCustomLlmProvider({
+        providers: {
+          local: {
+            baseURL: 'http://localhost:8000/v1',
+            model: 'qwen-32b',
+            models: { pro: ' qwen-72b ', 'flash-lite': '' },
+          },
+        },
+      }).models,
+    ).toEqual({ pro: 'qwen-72b' });
+  });
+
+  it('falls back to the first provider when no default is set', () => {
+    expect(resolveCustomLlmProvider({ providers: settings.providers }).id).toBe(
+      'local',
+    );
+  });
+
+  it('throws for unknown or incomplete providers', () => {
+    expect(() => resolveCustomLlmProvider(settings, 'missing')).toThrow(
+      'Unknown custom LLM provider "missing". Configured providers: local, gateway.',
+    );
+    expect(() =>
+      resolveCustomLlmProvider({ providers: { bad: { model: 'm' } } }),
+    ).toThrow('Custom LLM provider "bad" is missing "baseURL".');
+    expect(() => resolveCustomLlmProvider(settings)).toThrow(
+      'Environment variable GATEWAY_KEY',
+    );
+  });
+
+  it('uses the CUSTOM_LLM_* environment variables when nothing is configured', () => {
+    vi.stubEnv('CUSTOM_LLM_ENDPOINT', 'http://localhost:1234/v1');
+    vi.stubEnv('CUSTOM_LLM_MODEL_NAME', ' llama ');
+    vi.stubEnv('CUSTOM_LLM_API_KEY', 'key');
+    vi.stubEnv('CUSTOM_LLM_PROVIDER', 'LM Studio');
+    vi.stubEnv('CUSTOM_LLM_MAX_TOKENS', '1024');
+    vi.stubEnv('CUSTOM_LLM_WIRE_API', 'responses');
+    vi.stubEnv('CUSTOM_LLM_STRUCTURED_OUTPUT', 'none');
+    vi.stubEnv('CUSTOM_LLM_PARALLEL_TOOL_CALLS', 'false');
+    vi.stubEnv('CUSTOM_LLM_TIMEOUT_MS', '60000');
+    vi.stubEnv('CUSTOM_LLM_CA_CERT', '/etc/ssl/internal-ca.pem');
+    vi.stubEnv('CUSTOM_LLM_SYSTEM_PROMPT', 'user');
+    vi.stubEnv('CUSTOM_LLM_MERGE_MESSAGES', 'true');
+    vi.stubEnv('CUSTOM_LLM_TOOL_CALLING', 'text');
+    vi.stubEnv('CUSTOM_LLM_CACHE_CONTROL', 'true');
+    vi.stubEnv('CUSTOM_LLM_SESSION_HEADER', 'x-session-affinity');
+
+    expect(resolveCustomLlmProvider({})).toMatchObject({
+      id: ENV_CUSTOM_LLM_PROVIDER_ID,
+      displayName: 'LM Studio',
+      baseURL: 'http://localhost:1234/v1',
+      apiKey: 'key',
+      model: 'llama',
+      maxTokens: 1024,
+      wireApi: 'responses',
+      structuredOutput: 'none',
+      parallelToolCalls: false,
+      toolCalling: 'text',
+      timeout: 60000,
+      caCertPath: '/etc/ssl/internal-ca.pem',
+      messages: { systemPrompt: 'user', mergeConsecutive: true },
+      promptCache: {
+        stablePrefix: true,
+        cacheControl: true,
+        cacheKey: false,
+        sessionHeader: 'x-session-affinity',
+      },
+    });
+    expect(() => resolveCustomLlmProvider({}, 'local')).toThrow(
+      'No providers are configured under customLlm.providers.',
+    );
+
+    vi.stubEnv('CUSTOM_LLM_MODELS', 'pro=qwen-72b, flash-lite=qwen-7b');
+    expect(resolveCustomLlmProvider({}).models).toEqual({
+      pro: 'qwen-72b',
+      'flash-lite': 'qwen-7b',
+    });
+    vi.stubEnv('CUSTOM_LLM_MODELS', 'pro');
+    expect(() => resolveCustomLlmProvider({})).toThrow(
+      'CUSTOM_LLM_MODELS must be a comma-separated list of role=model pairs, got "pro".',
+    );
+    vi.stubEnv('CUSTOM_LLM_MODELS', '');
+
+    vi.stubEnv('CUSTOM_LLM_WIRE_API', 'completions');
+    expect(() => resolveCustomLlmProvider({})).toThrow(
+      'CUSTOM_LLM_WIRE_API must be "chat" or "responses", got "completions".',
+    );
+
+    vi.stubEnv('CUSTOM_LLM_WIRE_API', 'chat');
+    vi.stubEnv('CUSTOM_LLM_STRUCTURED_OUTPUT', 'grammar');
+    expect(() => resolveCustomLlmProvider({})).toThrow(
+      'CUSTOM_LLM_STRUCTURED_OUTPUT must be "json_schema", "json_object" or "none", got "grammar".',
+    );
+
+    vi.stubEnv('CUSTOM_LLM_STRUCTURED_OUTPUT', 'none');
+    vi.stubEnv('CUSTOM_LLM_SYSTEM_PROMPT', 'developer');
+    expect(() => resolveCustomLlmProvider({})).toThrow(
+      'CUSTOM_LLM_SYSTEM_PROMPT must be "system" or "user", got "developer".',
+    );
+
+    vi.stubEnv('CUSTOM_LLM_SYSTEM_PROMPT', '');
+    vi.stubEnv('CUSTOM_LLM_TOOL_CALLING', 'xml');
+    expect(() => resolveCustomLlmProvider({})).toThrow(
+      'CUSTOM_LLM_TOOL_CALLING must be "native" or "text", got "xml".',
+    );
+
+    vi.stubEnv('CUSTOM_LLM_TOOL_CALLING', '');
+    vi.stubEnv('CUSTOM_LLM_TIMEOUT_MS', '1m');
+    expect(() => resolveCustomLlmProvider({})).toThrow(
+      'CUSTOM_LLM_TIMEOUT_MS must be a positive number, got "1m".',
+    );
+  });
+});
@@ -0,0 +1,353 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { resolveModelCapabilities } from './capabilities.js';
+import type {
+  CustomLlmProviderConfig,
+  CustomLlmSettings,
+  ResolvedCustomLlmProvider,
+  ModelCapabilities,
+  StructuredOutputMode,
+  SystemPromptPlacement,
+  ToolCallingMode,
+  WireApi,
+} from './types.js';
+
+/**
+ * Id of the implicit provider built from the legacy `CUSTOM_LLM_*`
+ * environment variables when no providers are configured in settings.
+ */
+export const ENV_CUSTOM_LLM_PROVIDER_ID = 'env';
+
+const DEFAULT_TEMPERATURE = 0;
+const DEFAULT_MAX_TOKENS = 8192;
+const DEFAULT_TOP_P = 1;
+
+const DEFAULT_EMBEDDING_BATCH_SIZE = 32;
+
+/**
+ * Returns the ids of all providers configured under `customLlm.providers`.
+ */
+export function getCustomLlmProviderIds(
+  settings: CustomLlmSettings | undefined,
+): string[] {
+  return Object.keys(settings?.providers ?? {});
+}
+
+/**
+ * Resolves the provider to use for custom LLM requests.
+ *
+ * The provider is picked from, in order: the explicit `providerId` (a session
+ * selection), the `customLlm.provider` setting, and the first configured
+ * provider. When no providers are configured at all, the legacy
+ * `CUSTOM_LLM_*` environment variables are used instead.
+ *
+ * @throws If the selected provider does not exist or is incomplete.
+ */
+export function resolveCustomLlmProvider(
+  settings: CustomLlmSettings | undefined,
+  providerId?: string,
+): ResolvedCustomLlmProvider {
+  const providers = settings?.providers ?? {};
+  const ids = Object.keys(providers);
+
+  if (ids.length === 0) {
+    if (providerId && providerId !== ENV_CUSTOM_LLM_PROVIDER_ID) {
+      throw new Error(
+        `Unknown custom LLM provider "${providerId}". No providers are configured under customLlm.providers.`,
+      );
+    }
+    return resolveEnvProvider();
+  }
+
+  const id = providerId ?? settings?.provider ?? ids[0];
+  const provider = providers[id];
+  if (!provider) {
+    throw new Error(
+      `Unknown custom LLM provider "${id}". Configured providers: ${ids.join(', ')}.`,
+    );
+  }
+  return resolveConfiguredProvider(id, provider);
+}
+
+function resolveConfiguredProvider(
+  id: string,
+  provider: CustomLlmProviderConfig,
+): ResolvedCustomLlmProvider {
+  const baseURL = provider.baseURL?.trim();
+  if (!baseURL) {
+    throw new Error(`Custom LLM provider "${id}" is missing "baseURL".`);
+  }
+  const model = provider.model?.trim();
+  if (!model) {
+    throw new Error(`Custom LLM provider "${id}" is missing "model".`);
+  }
+
+  let apiKey = '';
+  if (provider.apiKeyEnv) {
+    apiKey = process.env[provider.apiKeyEnv] ?? '';
+    if (!apiKey) {
+      throw new Error(
+        `Environment variable ${provider.apiKeyEnv} (the API key for custom LLM provider "${id}") is not set.`,
+      );
+    }
+  }
+
+  const capabilities = resolveModelCapabilities(model, {
+    ...provider.capabilities,
+    contextWindow: provider.contextWindow,
+  });
+
+  return {
+    id,
+    displayName: provider.displayName ?? id,
+    baseURL,
+    apiKey,
+    model,
+    models: toModelMapping(provider.models ?? {}),
+    headers: { ...provider.headers },
+    timeout: provider.timeout,
+    caCertPath: provider.caCertPath?.trim() || undefined,
+    wireApi: provider.wireApi ?? 'chat',
+    parallelToolCalls: provider.parallelToolCalls,
+    toolCalling: provider.toolCalling ?? 'native',
+    temperature: provider.temperature ?? DEFAULT_TEMPERATURE,
+    maxTokens: provider.maxTokens ?? defaultMaxTokens(capabilities),
+    topP: provider.topP ?? DEFAULT_TOP_P,
+    unsupportedMedia: provider.unsupportedMedia ?? 'placeholder',
+    structuredOutput:
+      provider.structuredOutput ?? defaultStructuredOutput(capabilities),
+    reasoning: {
+      history: provider.reasoning?.history ?? 'strip',
+      control: provider.reasoning?.control ?? 'none',
+    },
+    messages: {
+      systemPrompt: provider.messages?.systemPrompt ?? 'system',
+      mergeConsecutive: provider.messages?.mergeConsecutive ?? false,
+    },
+    promptCache: {
+      stablePrefix: provider.promptCache?.stablePrefix ?? true,
+      cacheControl: provider.promptCache?.cacheControl ?? false,
+      cacheKey: provider.promptCache?.cacheKey ?? false,
+      sessionHeader: provider.promptCache?.sessionHeader?.trim() || undefined,
+    },
+    capabilities,
+    tokenizer: provider.tokenizer ?? 'auto',
+    tokenizeURL: provider.tokenizeURL?.trim() || undefined,
+    embeddingModel: provider.embeddingModel?.trim() || undefined,
+    embeddingBatchSize:
+      provider.embeddingBatchSize ?? DEFAULT_EMBEDDING_BATCH_SIZE,
+  };
+}
+
+function resolveEnvProvider(): ResolvedCustomLlmProvider {
+  const baseURL = process.env['CUSTOM_LLM_ENDPOINT'] ?? '';
+  if (!baseURL) {
+    throw new Error(
+      'CUSTOM_LLM_ENDPOINT environment variable not found. Add that to your environment (e.g. .env) and try again!',
+    );
+  }
+  const model = (process.env['CUSTOM_LLM_MODEL_NAME'] ?? '').trim();
+  if (!model) {
+    throw new Error(
+      'CUSTOM_LLM_MODEL_NAME environment variable not found. Add that to your environment (e.g. .env) and try again!',
+    );
+  }
+  const capabilities = resolveModelCapabilities(model, {
+    contextWindow: toOptionalNumber(
+      'CUSTOM_LLM_CONTEXT_WINDOW',
+      process.env['CUSTOM_LLM_CONTEXT_WINDOW'],
+    ),
+  });
+
+  return {
+    id: ENV_CUSTOM_LLM_PROVIDER_ID,
+    displayName: process.env['CUSTOM_LLM_PROVIDER']?.trim() || undefined,
+    baseURL,
+    apiKey: process.env['CUSTOM_LLM_API_KEY'] ?? '',
+    model,
+    models: parseModelMapping(process.env['CUSTOM_LLM_MODELS']),
+    headers: {},
+    timeout: toOptionalNumber(
+      'CUSTOM_LLM_TIMEOUT_MS',
+      process.env['CUSTOM_LLM_TIMEOUT_MS'],
+    ),
+    caCertPath: process.env['CUSTOM_LLM_CA_CERT']?.trim() || undefined,
+    wireApi: toWireApi(process.env['CUSTOM_LLM_WIRE_API']),
+    parallelToolCalls: toOptionalBoolean(
+      'CUSTOM_LLM_PARALLEL_TOOL_CALLS',
+      process.env['CUSTOM_LLM_PARALLEL_TOOL_CALLS'],
+    ),
+    toolCalling: toToolCallingMode(process.env['CUSTOM_LLM_TOOL_CALLING']),
+    temperature: Number(
+      process.env['CUSTOM_LLM_TEMPERATURE'] ?? DEFAULT_TEMPERATURE,
+    ),
+    maxTokens: Number(
+      process.env['CUSTOM_LLM_MAX_TOKENS'] ?? defaultMaxTokens(capabilities),
+    ),
+    topP: Number(process.env['CUSTOM_LLM_TOP_P'] ?? DEFAULT_TOP_P),
+    unsupportedMedia: 'placeholder',
+    structuredOutput: toStructuredOutputMode(
+      process.env['CUSTOM_LLM_STRUCTURED_OUTPUT'],
+      defaultStructuredOutput(capabilities),
+    ),
+    reasoning: { history: 'strip', control: 'none' },
+    messages: {
+      systemPrompt: toSystemPromptPlacement(
+        process.env['CUSTOM_LLM_SYSTEM_PROMPT'],
+      ),
+      mergeConsecutive:
+        toOptionalBoolean(
+          'CUSTOM_LLM_MERGE_MESSAGES',
+          process.env['CUSTOM_LLM_MERGE_MESSAGES'],
+        ) ?? false,
+    },
+    promptCache: {
+      stablePrefix: true,
+      cacheControl:
+        toOptionalBoolean(
+          'CUSTOM_LLM_CACHE_CONTROL',
+          process.env['CUSTOM_LLM_CACHE_CONTROL'],
+        ) ?? false,
+      cacheKey:
+        toOptionalBoolean(
+          'CUSTOM_LLM_PROMPT_CACHE_KEY',
+          process.env['CUSTOM_LLM_PROMPT_CACHE_KEY'],
+        ) ?? false,
+      sessionHeader:
+        process.env['CUSTOM_LLM_SESSION_HEADER']?.trim() || undefined,
+    },
+    capabilities,
+    tokenizer: 'auto',
+    embeddingModel:
+      process.env['CUSTOM_LLM_EMBEDDING_MODEL']?.trim() || undefined,
+    embeddingBatchSize: DEFAULT_EMBEDDING_BATCH_SIZE,
+  };
+}
+
+/**
+ * Trims the model names of a role mapping and drops roles without one.
+ */
+function toModelMapping(
+  models: Record<string, string>,
+): Record<string, string> {
+  const mapping: Record<string, string> = {};
+  for (const [role, model] of Object.entries(models)) {
+    const trimmed = model.trim();
+    if (trimmed) {
+      mapping[role] = trimmed;
+    }
+  }
+  return mapping;
+}
+
+/**
+ * Parses `CUSTOM_LLM_MODELS`, a comma-separated list of `role=model` pairs
+ * such as `pro=qwen-72b,flash-lite=qwen-7b`.
+ */
+function parseModelMapping(value: string | undefined): Record<string, string> {
+  const models: Record<string, string> = {};
+  for (const entry of value?.split(',') ?? []) {
+    if (!entry.trim()) {
+      continue;
+    }
+    const [role, model, ...rest] = entry.split('=');
+    if (!role?.trim() || !model?.trim() || rest.length > 0) {
+      throw new Error(
+        `CUSTOM_LLM_MODELS must be a comma-separated list of role=model pairs, got "${entry.trim()}".`,
+      );
+    }
+    models[role.trim()] = model.trim();
+  }
+  return models;
+}
+
+function toWireApi(value: string | undefined): WireApi {
+  const wireApi = value?.trim() || 'chat';
+  if (wireApi !== 'chat' && wireApi !== 'responses') {
+    throw new Error(
+      `CUSTOM_LLM_WIRE_API must be "chat" or "responses", got "${wireApi}".`,
+    );
+  }
+  return wireApi;
+}
+
+function toToolCallingMode(value: string | undefined): ToolCallingMode {
+  const mode = value?.trim() || 'native';
+  if (mode !== 'native' && mode !== 'text') {
+    throw new Error(
+      `CUSTOM_LLM_TOOL_CALLING must be "native" or "text", got "${mode}".`,
+    );
+  }
+  return mode;
+}
+
+function toSystemPromptPlacement(
+  value: string | undefined,
+): SystemPromptPlacement {
+  const placement = value?.trim() || 'system';
+  if (placement !== 'system' && placement !== 'user') {
+    throw new Error(
+      `CUSTOM_LLM_SYSTEM_PROMPT must be "system" or "user", got "${placement}".`,
+    );
+  }
+  return placement;
+}
+
+/**
+ * Requests no more output than the model can produce.
+ */
+function defaultMaxTokens(capabilities: ModelCapabilities): number {
+  return Math.min(DEFAULT_MAX_TOKENS, capabilities.maxOutputTokens);
+}
+
+function defaultStructuredOutput(
+  capabilities: ModelCapabilities,
+): StructuredOutputMode {
+  return capabilities.jsonSchema ? 'json_schema' : 'json_object';
+}
+
+function toStructuredOutputMode(
+  value: string | undefined,
+  defaultMode: StructuredOutputMode,
+): StructuredOutputMode {
+  const mode = value?.trim() || defaultMode;
+  if (mode !== 'json_schema' && mode !== 'json_object' && mode !== 'none') {
+    throw new Error(
+      `CUSTOM_LLM_STRUCTURED_OUTPUT must be "json_schema", "json_object" or "none", got "${mode}".`,
+    );
+  }
+  return mode;
+}
+
+function toOptionalBoolean(
+  name: string,
+  value: string | undefined,
+): boolean | undefined {
+  const trimmed = value?.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+  if (trimmed !== 'true' && trimmed !== 'false') {
+    throw new Error(`${name} must be "true" or "false", got "${trimmed}".`);
+  }
+  return trimmed === 'true';
+}
+
+function toOptionalNumber(
+  name: string,
+  value: string | undefined,
+): number | undefined {
+  const trimmed = value?.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+  const number = Number(trimmed);
+  if (!Number.isFinite(number) || number <= 0) {
+    throw new Error(`${name} must be a positive number, got "${trimmed}".`);
+  }
+  return number;
+}
@@ -0,0 +1,65 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ThinkingLevel } from '@google/genai';
+import {
+  ThinkTagParser,
+  decodeReasoningSignature,
+  encodeReasoningSignature,
+  toReasoningRequestParams,
+} from './reasoning.js';
+
+describe('custom_llm reasoning', () => {
+  it('passes through answers that only mention think tags later on', () => {
+    const parser = new ThinkTagParser();
+
+    expect(parser.push('Use <think> tags')).toEqual([
+      { text: 'Use <think> tags', thought: false },
+    ]);
+    expect(parser.flush()).toEqual([]);
+  });
+
+  it('maps thinking budgets to reasoning_effort', () => {
+    expect(
+      toReasoningRequestParams({ thinkingBudget: 0 }, 'reasoning_effort'),
+    ).toEqual({
+      reasoning_effort: 'minimal',
+    });
+    expect(
+      toReasoningRequestParams({ thinkingBudget: 8192 }, 'reasoning_effort'),
+    ).toEqual({ reasoning_effort: 'medium' });
+    expect(
+      toReasoningRequestParams({ thinkingBudget: -1 }, 'reasoning_effort'),
+    ).toEqual({});
+    expect(
+      toReasoningRequestParams(
+        { thinkingLevel: ThinkingLevel.HIGH },
+        'reasoning_effort',
+      ),
+    ).toEqual({ reasoning_effort: 'high' });
+  });
+
+  it('maps thinking budgets to enable_thinking', () => {
+    expect(
+      toReasoningRequestParams({ thinkingBudget: 0 }, 'enable_thinking'),
+    ).toEqual({ chat_template_kwargs: { enable_thinking: false } });
+    expect(
+      toReasoningRequestParams({ thinkingBudget: 512 }, 'enable_thinking'),
+    ).toEqual({ chat_template_kwargs: { enable_thinking: true } });
+    expect(toReasoningRequestParams({ thinkingBudget: 512 }, 'none')).toEqual(
+      {},
+    );
+  });
+
+  it('round-trips reasoning through thought signatures', () => {
+    const signature = encodeReasoningSignature('step 1 → step 2');
+
+    expect(decodeReasoningSignature(signature)).toBe('step 1 → step 2');
+    expect(decodeReasoningSignature('gemini-signature')).toBeUndefined();
+    expect(decodeReasoningSignature(undefined)).toBeUndefined();
+  });
+});
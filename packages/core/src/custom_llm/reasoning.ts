@@ -0,0 +1,222 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { ThinkingConfig } from '@google/genai';
+import type { ReasoningControl } from './types.js';
+
+/**
+ * A piece of streamed model output, classified as reasoning or answer text.
+ */
+export interface ReasoningSegment {
+  text: string;
+  thought: boolean;
+}
+
+const THINK_TAGS: ReadonlyArray<{ open: string; close: string }> = [
+  { open: '<think>', close: '</think>' },
+  { open: '<thinking>', close: '</thinking>' },
+];
+
+/**
+ * Splits streamed content into reasoning and answer segments for servers that
+ * inline their reasoning as a leading `<think>...</think>` block.
+ *
+ * Tags may be split across chunks, so partial tags are held back until the
+ * next chunk decides them. An opening tag is only recognized before any answer
+ * text, so answers that merely mention `<think>` are passed through untouched.
+ */
+export class ThinkTagParser {
+  private state: 'start' | 'thinking' | 'answer' = 'start';
+  private buffer = '';
+  private closeTag = '';
+
+  push(text: string): ReasoningSegment[] {
+    this.buffer += text;
+    const segments: ReasoningSegment[] = [];
+    for (;;) {
+      if (this.state === 'start') {
+        const trimmed = this.buffer.trimStart();
+        if (trimmed.length === 0) {
+          return segments;
+        }
+        const tag = THINK_TAGS.find(({ open }) => trimmed.startsWith(open));
+        if (tag) {
+          this.buffer = trimmed.slice(tag.open.length);
+          this.closeTag = tag.close;
+          this.state = 'thinking';
+          continue;
+        }
+        if (THINK_TAGS.some(({ open }) => open.startsWith(trimmed))) {
+          return segments;
+        }
+        this.state = 'answer';
+        continue;
+      }
+
+      if (this.state === 'thinking') {
+        const closeIndex = this.buffer.indexOf(this.closeTag);
+        if (closeIndex !== -1) {
+          pushSegment(segments, this.buffer.slice(0, closeIndex), true);
+          this.buffer = this.buffer
+            .slice(closeIndex + this.closeTag.length)
+            .trimStart();
+          this.state = 'answer';
+          continue;
+        }
+        const keep = partialSuffixLength(this.buffer, this.closeTag);
+        pushSegment(
+          segments,
+          this.buffer.slice(0, this.buffer.length - keep),
+          true,
+        );
+        this.buffer = this.buffer.slice(this.buffer.length - keep);
+        return segments;
+      }
+
+      pushSegment(segments, this.buffer, false);
+      this.buffer = '';
+      return segments;
+    }
+  }
+
+  /**
+   * Returns whatever is still held back once the stream has ended.
+   */
+  flush(): ReasoningSegment[] {
+    const segments: ReasoningSegment[] = [];
+    pushSegment(segments, this.buffer, this.state === 'thinking');
+    this.buffer = '';
+    return segments;
+  }
+}
+
+function pushSegment(
+  segments: ReasoningSegment[],
+  text: string,
+  thought: boolean,
+): void {
+  if (text.length > 0) {
+    segments.push({ text, thought });
+  }
+}
+
+/**
+ * Length of the longest suffix of `text` that is a proper prefix of `tag`.
+ */
+export function partialSuffixLength(text: string, tag: string): number {
+  for (
+    let length = Math.min(tag.length - 1, text.length);
+    length > 0;
+    length--
+  ) {
+    if (tag.startsWith(text.slice(text.length - length))) {
+      return length;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Splits buffered reasoning into the complete paragraphs that can be shown
+ * now and the trailing text that may still grow. Reasoning deltas are often a
+ * single token, and each thought part becomes its own UI update, so thoughts
+ * are emitted a paragraph at a time, like Gemini's thought summaries.
+ */
+export function takeCompleteParagraphs(text: string): [string, string] {
+  const boundary = text.lastIndexOf('\n\n');
+  if (boundary === -1) {
+    return ['', text];
+  }
+  return [text.slice(0, boundary).trim(), text.slice(boundary + 2)];
+}
+
+const REASONING_EFFORTS = new Set(['low', 'medium', 'high']);
+
+/**
+ * Translates a Gemini thinking config into request parameters understood by
+ * the provider, according to the provider's reasoning `control` setting.
+ */
+export function toReasoningRequestParams(
+  thinkingConfig: ThinkingConfig | undefined,
+  control: ReasoningControl,
+): Record<string, unknown> {
+  if (!thinkingConfig || control === 'none') {
+    return {};
+  }
+  const { thinkingBudget, thinkingLevel } = thinkingConfig;
+
+  if (control === 'enable_thinking') {
+    if (thinkingBudget === undefined) {
+      return {};
+    }
+    return { chat_template_kwargs: { enable_thinking: thinkingBudget !== 0 } };
+  }
+
+  const level = thinkingLevel?.toLowerCase();
+  if (level && REASONING_EFFORTS.has(level)) {
+    return { reasoning_effort: level };
+  }
+  if (thinkingBudget === undefined || thinkingBudget < 0) {
+    // Unset or dynamic budgets leave the choice to the provider.
+    return {};
+  }
+  if (thinkingBudget === 0) {
+    return { reasoning_effort: 'minimal' };
+  }
+  if (thinkingBudget <= 1024) {
+    return { reasoning_effort: 'low' };
+  }
+  if (thinkingBudget <= 8192) {
+    return { reasoning_effort: 'medium' };
+  }
+  return { reasoning_effort: 'high' };
+}
+
+/**
+ * Like `toReasoningRequestParams`, for the Responses API, which takes the
+ * effort in a `reasoning` object and only returns reasoning summaries when
+ * asked to.
+ */
+export function toResponsesReasoningParams(
+  thinkingConfig: ThinkingConfig | undefined,
+  control: ReasoningControl,
+): Record<string, unknown> {
+  const { reasoning_effort: effort, ...rest } = toReasoningRequestParams(
+    thinkingConfig,
+    control,
+  );
+  if (effort === undefined) {
+    return rest;
+  }
+  return { ...rest, reasoning: { effort, summary: 'auto' } };
+}
+
+const REASONING_SIGNATURE_PREFIX = 'custom-llm-reasoning:';
+
+/**
+ * Encodes a turn's reasoning as a `thoughtSignature`. Chat history drops
+ * thought parts but keeps signatures, which is how Gemini carries reasoning
+ * context between turns; custom providers reuse the same channel.
+ */
+export function encodeReasoningSignature(reasoning: string): string {
+  return `${REASONING_SIGNATURE_PREFIX}${Buffer.from(reasoning, 'utf8').toString('base64')}`;
+}
+
+/**
+ * Returns the reasoning stored by `encodeReasoningSignature`, or undefined for
+ * any other signature (including Gemini's own).
+ */
+export function decodeReasoningSignature(
+  signature: string | undefined,
+): string | undefined {
+  if (!signature?.startsWith(REASONING_SIGNATURE_PREFIX)) {
+    return undefined;
+  }
+  return Buffer.from(
+    signature.slice(REASONING_SIGNATURE_PREFIX.length),
+    'base64',
+  ).toString('utf8');
+}
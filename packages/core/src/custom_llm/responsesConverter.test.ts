@@ -0,0 +1,284 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import type OpenAI from 'openai';
+import { FinishReason } from '@google/genai';
+import {
+  ResponsesConverter,
+  encodeReasoningItems,
+} from './responsesConverter.js';
+
+function event(value: unknown): OpenAI.Responses.ResponseStreamEvent {
+  return value as OpenAI.Responses.ResponseStreamEvent;
+}
+
+function response(value: unknown): OpenAI.Responses.Response {
+  return value as OpenAI.Responses.Response;
+}
+
+const reasoningItem: OpenAI.Responses.ResponseReasoningItem = {
+  id: 'rs_1',
+  type: 'reasoning',
+  summary: [{ type: 'summary_text', text: 'Plan.' }],
+  encrypted_content: 'opaque',
+};
+
+describe('ResponsesConverter.toInputItems', () => {
+  it('converts a tool round trip to input items', () => {
+    const items = ResponsesConverter.toInputItems({
+      model: 'gpt-5',
+      contents: [
+        { role: 'user', parts: [{ text: 'List the files.' }] },
+        {
+          role: 'model',
+          parts: [
+            { text: 'Listing.' },
+            {
+              functionCall: {
+                id: 'call_1',
+                name: 'list_directory',
+                args: { path: '.' },
+              },
+            },
+          ],
+        },
+        {
+          role: 'user',
+          parts: [
+            {
+              functionResponse: {
+                id: 'call_1',
+                name: 'list_directory',
+                response: { output: 'a.txt' },
+              },
+            },
+            { text: 'Thanks.' },
+          ],
+        },
+      ],
+    });
+
+    expect(items).toEqual([
+      {
+        role: 'user',
+        content: [{ type: 'input_text', text: 'List the files.' }],
+      },
+      { role: 'assistant', content: 'Listing.' },
+      {
+        type: 'function_call',
+        call_id: 'call_1',
+        name: 'list_directory',
+        arguments: '{"path":"."}',
+      },
+      { type: 'function_call_output', call_id: 'call_1', output: 'a.txt' },
+      { role: 'user', content: [{ type: 'input_text', text: 'Thanks.' }] },
+    ]);
+  });
+
+  it('converts images to input_image parts', () => {
+    const items = ResponsesConverter.toInputItems({
+      model: 'gpt-5',
+      contents: [
+        {
+          role: 'user',
+          parts: [{ inlineData: { mimeType: 'image/png', data: 'AAAA' } }],
+        },
+      ],
+    });
+
+    expect(items).toEqual([
+      {
+        role: 'user',
+        content: [
+          {
+            type: 'input_image',
+            image_url: 'data:image/png;base64,AAAA',
+            detail: 'auto',
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('replays reasoning items only when reasoning history is sent', () => {
+    const request = {
+      model: 'gpt-5',
+      contents: [
+        {
+          role: 'model',
+          parts: [
+            {
+              functionCall: { id: 'call_1', name: 'ls', args: {} },
+              thoughtSignature: encodeReasoningItems([reasoningItem]),
+            },
+          ],
+        },
+      ],
+    };
+
+    expect(
+      ResponsesConverter.toInputItems(request, { reasoningHistory: 'send' }),
+    ).toEqual([
+      reasoningItem,
+      { type: 'function_call', call_id: 'call_1', name: 'ls', arguments: '{}' },
+    ]);
+    expect(ResponsesConverter.toInputItems(request)).toEqual([
+      { type: 'function_call', call_id: 'call_1', name: 'ls', arguments: '{}' },
+    ]);
+  });
+});
+
+describe('ResponsesConverter.toGeminiResponse', () => {
+  it('converts reasoning, messages and function calls', () => {
+    const result = ResponsesConverter.toGeminiResponse(
+      response({
+        status: 'completed',
+        output: [
+          reasoningItem,
+          {
+            type: 'message',
+            role: 'assistant',
+            content: [{ type: 'output_text', text: 'Listing.' }],
+          },
+          {
+            type: 'function_call',
+            call_id: 'call_1',
+            name: 'list_directory',
+            arguments: '{"path":"."}',
+          },
+        ],
+        usage: {
+          input_tokens: 100,
+          input_tokens_details: { cached_tokens: 40 },
+          output_tokens: 30,
+          output_tokens_details: { reasoning_tokens: 10 },
+          total_tokens: 130,
+        },
+      }),
+    );
+
+    const candidate = result.candidates![0];
+    const [thought, answer, call] = candidate.content!.parts!;
+    expect(thought).toEqual({ text: 'Plan.', thought: true });
+    expect(answer).toEqual({
+      text: 'Listing.',
+      thoughtSignature: encodeReasoningItems([reasoningItem]),
+    });
+    expect(call.functionCall).toEqual({
+      id: 'call_1',
+      name: 'list_directory',
+      args: { path: '.' },
+    });
+    expect(result.functionCalls).toHaveLength(1);
+    expect(candidate.finishReason).toBe(FinishReason.STOP);
+    expect(result.usageMetadata).toEqual({
+      promptTokenCount: 100,
+      candidatesTokenCount: 20,
+      thoughtsTokenCount: 10,
+      totalTokenCount: 130,
+      cachedContentTokenCount: 40,
+    });
+  });
+
+  it('maps incomplete responses and throws for failed ones', () => {
+    expect(
+      ResponsesConverter.toGeminiResponse(
+        response({
+          status: 'incomplete',
+          incomplete_details: { reason: 'max_output_tokens' },
+          output: [],
+        }),
+      ).candidates![0].finishReason,
+    ).toBe(FinishReason.MAX_TOKENS);
+    expect(() =>
+      ResponsesConverter.toGeminiResponse(
+        response({
+          status: 'failed',
+          error: { code: 'server_error', message: 'Boom' },
+          output: [],
+        }),
+      ),
+    ).toThrow('Responses API request failed (server_error): Boom');
+  });
+});
+
+describe('ResponsesConverter.processStreamEvent', () => {
+  it('streams reasoning summaries, text and function calls', () => {
+    const state = ResponsesConverter.createStreamState();
+    const responses = [
+      event({
+        type: 'response.reasoning_summary_text.delta',
+        delta: 'First.\n\nSec',
+      }),
+      event({ type: 'response.reasoning_summary_text.delta', delta: 'ond.' }),
+      event({ type: 'response.reasoning_summary_text.done', text: '' }),
+      event({ type: 'response.output_item.done', item: reasoningItem }),
+      event({ type: 'response.output_text.delta', delta: 'Listing.' }),
+      event({
+        type: 'response.output_item.added',
+        item: { type: 'function_call', call_id: 'call_1', name: 'ls' },
+      }),
+      event({ type: 'response.function_call_arguments.delta', delta: '{}' }),
+      event({
+        type: 'response.output_item.done',
+        item: {
+          type: 'function_call',
+          call_id: 'call_1',
+          name: 'ls',
+          arguments: '{"path":"."}',
+        },
+      }),
+      event({
+        type: 'response.completed',
+        response: {
+          status: 'completed',
+          output: [],
+          usage: {
+            input_tokens: 10,
+            input_tokens_details: { cached_tokens: 0 },
+            output_tokens: 5,
+            output_tokens_details: { reasoning_tokens: 0 },
+            total_tokens: 15,
+          },
+        },
+      }),
+    ]
+      .map((streamEvent) =>
+        ResponsesConverter.processStreamEvent(streamEvent, state),
+      )
+      .filter((result) => result !== undefined);
+
+    const parts = responses.flatMap(
+      (result) => result.candidates![0].content!.parts!,
+    );
+    expect(parts).toEqual([
+      { text: 'First.', thought: true },
+      { text: 'Second.', thought: true },
+      {
+        text: 'Listing.',
+        thoughtSignature: encodeReasoningItems([reasoningItem]),
+      },
+      { functionCall: { id: 'call_1', name: 'ls', args: { path: '.' } } },
+    ]);
+    expect(responses[3].functionCalls).toEqual([
+      { id: 'call_1', name: 'ls', args: { path: '.' } },
+    ]);
+    const last = responses[responses.length - 1];
+    expect(last.candidates![0].finishReason).toBe(FinishReason.STOP);
+    expect(last.usageMetadata?.totalTokenCount).toBe(15);
+  });
+
+  it('throws for error events', () => {
+    const state = ResponsesConverter.createStreamState();
+    expect(() =>
+      ResponsesConverter.processStreamEvent(
+        event({ type: 'error', code: 'rate_limit', message: 'Slow down' }),
+        state,
+      ),
+    ).toThrow('Responses API stream error (rate_limit): Slow down');
+  });
+});
@@ -0,0 +1,461 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  FinishReason,
+  type FunctionCall,
+  type GenerateContentResponse,
+  type GenerateContentParameters,
+  type GenerateContentResponseUsageMetadata,
+  type Part,
+} from '@google/genai';
+import type OpenAI from 'openai';
+import {
+  isValidFunctionCall,
+  isValidFunctionResponse,
+  normalizeContents,
+  toToolCallArguments,
+} from './util.js';
+import { buildStreamResponse, toMediaContentPart } from './converter.js';
+import { takeCompleteParagraphs } from './reasoning.js';
+import { parseFunctionCall } from './toolArguments.js';
+import type {
+  MessageConversionOptions,
+  ResponseConversionOptions,
+  ResponsesStreamState,
+} from './types.js';
+
+type ResponseInputItem = OpenAI.Responses.ResponseInputItem;
+type ResponseInputContent = OpenAI.Responses.ResponseInputContent;
+type ReasoningItem = OpenAI.Responses.ResponseReasoningItem;
+
+const RESPONSES_SIGNATURE_PREFIX = 'custom-llm-responses:';
+
+/**
+ * Converts between Gemini requests and responses and the OpenAI Responses
+ * API (`/responses`). Requests are stateless (`store: false`): the whole
+ * conversation is sent as input items each turn, like with Chat Completions.
+ */
+export class ResponsesConverter {
+  /**
+   * Convert Gemini contents to Responses input items.
+   */
+  static toInputItems(
+    request: GenerateContentParameters,
+    options: MessageConversionOptions = {},
+  ): ResponseInputItem[] {
+    const items: ResponseInputItem[] = [];
+    for (const content of normalizeContents(request.contents)) {
+      const parts = content.parts ?? [];
+      if (content.role === 'model') {
+        if (options.reasoningHistory === 'send') {
+          items.push(...decodeReasoningItems(parts));
+        }
+        const text = parts
+          .filter((part) => !part.thought && typeof part.text === 'string')
+          .map((part) => part.text)
+          .join('\n');
+        if (text) {
+          items.push({ role: 'assistant', content: text });
+        }
+        for (const part of parts.filter(isValidFunctionCall)) {
+          items.push({
+            type: 'function_call',
+            call_id: part.functionCall.id,
+            name: part.functionCall.name,
+            arguments: toToolCallArguments(part.functionCall.args),
+          });
+        }
+        continue;
+      }
+
+      // Tool outputs must directly follow the calls they answer, so they go
+      // before any user text or attachments.
+      const attachments: ResponseInputContent[] = [];
+      for (const part of parts.filter(isValidFunctionResponse)) {
+        const { id, name, response } = part.functionResponse;
+        items.push({
+          type: 'function_call_output',
+          call_id: id,
+          output: response.error
+            ? `Error: ${response.error}`
+            : (response.output ?? ''),
+        });
+        // Function call outputs only accept text, so media returned by the
+        // tool is forwarded in a user message that follows them.
+        const mediaParts = (part.functionResponse.parts ?? []).filter(
+          (nested) => nested.inlineData || nested.fileData,
+        );
+        if (mediaParts.length > 0) {
+          attachments.push({
+            type: 'input_text',
+            text: `Attachments returned by the ${name} tool:`,
+          });
+          attachments.push(
+            ...mediaParts.map((nested) => toInputContent(nested, options)),
+          );
+        }
+      }
+      if (attachments.length > 0) {
+        items.push({ role: 'user', content: attachments });
+      }
+
+      const contentParts: ResponseInputContent[] = [];
+      for (const part of parts) {
+        if (part.thought) {
+          continue;
+        }
+        if (typeof part.text === 'string') {
+          contentParts.push({ type: 'input_text', text: part.text });
+        } else if (part.inlineData || part.fileData) {
+          contentParts.push(toInputContent(part, options));
+        }
+      }
+      if (contentParts.length > 0) {
+        items.push({
+          role: content.role === 'system' ? 'system' : 'user',
+          content: contentParts,
+        });
+      }
+    }
+    return items;
+  }
+
+  /**
+   * Convert Chat Completions tool definitions to Responses function tools.
+   */
+  static toFunctionTools(
+    tools: OpenAI.Chat.Completions.ChatCompletionTool[] | undefined,
+  ): OpenAI.Responses.FunctionTool[] | undefined {
+    return tools?.flatMap((tool) =>
+      tool.type === 'function'
+        ? [
+            {
+              type: 'function' as const,
+              name: tool.function.name,
+              description: tool.function.description,
+              parameters: tool.function.parameters ?? null,
+              strict: false,
+            },
+          ]
+        : [],
+    );
+  }
+
+  /**
+   * Convert a Responses API response to a Gemini response.
+   *
+   * @throws If the response failed.
+   */
+  static toGeminiResponse(
+    response: OpenAI.Responses.Response,
+    options: ResponseConversionOptions = {},
+  ): GenerateContentResponse {
+    if (response.status === 'failed') {
+      throw toResponseError(response);
+    }
+    const thoughtParts: Part[] = [];
+    const answerParts: Part[] = [];
+    const reasoning: ReasoningItem[] = [];
+    const functionCalls: FunctionCall[] = [];
+    for (const item of response.output) {
+      switch (item.type) {
+        case 'reasoning': {
+          reasoning.push(item);
+          const text = getReasoningText(item);
+          if (text && options.includeThoughts !== false) {
+            thoughtParts.push({ text, thought: true });
+          }
+          break;
+        }
+        case 'message':
+          for (const content of item.content) {
+            const text =
+              content.type === 'output_text' ? content.text : content.refusal;
+            if (text) {
+              answerParts.push({ text });
+            }
+          }
+          break;
+        case 'function_call': {
+          const functionCall = parseFunctionCall(
+            item.call_id,
+            item.name,
+            item.arguments,
+            options.onToolArgumentsRepair,
+          );
+          functionCalls.push(functionCall);
+          answerParts.push({ functionCall });
+          break;
+        }
+        default:
+          break;
+      }
+    }
+    if (answerParts.length > 0) {
+      answerParts[0] = withReasoningItems(answerParts[0], reasoning);
+    }
+
+    const result = buildStreamResponse(
+      [...thoughtParts, ...answerParts],
+      functionCalls,
+    );
+    result.candidates![0].finishReason = toFinishReason(response);
+    result.usageMetadata = toUsageMetadata(response.usage);
+    return result;
+  }
+
+  /**
+   * Create the state tracked across the events of one streamed response.
+   */
+  static createStreamState(
+    options: ResponseConversionOptions = {},
+  ): ResponsesStreamState {
+    return {
+      includeThoughts: options.includeThoughts ?? true,
+      onToolArgumentsRepair: options.onToolArgumentsRepair,
+      pendingThought: '',
+      reasoning: [],
+      reasoningAttached: false,
+    };
+  }
+
+  /**
+   * Convert one stream event to a Gemini response, if it completes any part.
+   * The finish reason and usage are reported once the response completes.
+   *
+   * @throws If the response fails or the stream reports an error.
+   */
+  static processStreamEvent(
+    event: OpenAI.Responses.ResponseStreamEvent,
+    state: ResponsesStreamState,
+  ): GenerateContentResponse | undefined {
+    const parts: Part[] = [];
+    const functionCalls: FunctionCall[] = [];
+    switch (event.type) {
+      case 'response.output_text.delta':
+      case 'response.refusal.delta':
+        if (event.delta) {
+          pushAnswer(state, parts, { text: event.delta });
+        }
+        break;
+      case 'response.reasoning_summary_text.delta':
+      case 'response.reasoning_text.delta': {
+        const [complete, rest] = takeCompleteParagraphs(
+          state.pendingThought + event.delta,
+        );
+        state.pendingThought = rest;
+        pushThought(state, parts, complete);
+        break;
+      }
+      case 'response.reasoning_summary_text.done':
+      case 'response.reasoning_text.done':
+        flushPendingThought(state, parts);
+        break;
+      case 'response.output_item.done':
+        if (event.item.type === 'reasoning') {
+          state.reasoning.push(event.item);
+          flushPendingThought(state, parts);
+        } else if (event.item.type === 'function_call') {
+          const functionCall = parseFunctionCall(
+            event.item.call_id,
+            event.item.name,
+            event.item.arguments,
+            state.onToolArgumentsRepair,
+          );
+          functionCalls.push(functionCall);
+          pushAnswer(state, parts, { functionCall });
+        }
+        break;
+      case 'response.completed':
+      case 'response.incomplete': {
+        flushPendingThought(state, parts);
+        const response = buildStreamResponse(parts, functionCalls);
+        response.candidates![0].finishReason = toFinishReason(event.response);
+        response.usageMetadata = toUsageMetadata(event.response.usage);
+        return response;
+      }
+      case 'response.failed':
+        throw toResponseError(event.response);
+      case 'error':
+        throw new Error(
+          `Responses API stream error${event.code ? ` (${event.code})` : ''}: ${event.message}`,
+        );
+      default:
+        break;
+    }
+
+    if (parts.length === 0) {
+      return undefined;
+    }
+    return buildStreamResponse(parts, functionCalls);
+  }
+}
+
+/**
+ * Encodes a turn's reasoning items as a `thoughtSignature`, so that they can
+ * be sent back with the following turn when reasoning history is enabled.
+ */
+export function encodeReasoningItems(items: ReasoningItem[]): string {
+  return `${RESPONSES_SIGNATURE_PREFIX}${Buffer.from(JSON.stringify(items), 'utf8').toString('base64')}`;
+}
+
+function decodeReasoningItems(parts: Part[]): ReasoningItem[] {
+  for (const part of parts) {
+    const signature = part.thoughtSignature;
+    if (!signature?.startsWith(RESPONSES_SIGNATURE_PREFIX)) {
+      continue;
+    }
+    try {
+      return JSON.parse(
+        Buffer.from(
+          signature.slice(RESPONSES_SIGNATURE_PREFIX.length),
+          'base64',
+        ).toString('utf8'),
+      ) as ReasoningItem[];
+    } catch {
+      return [];
+    }
+  }
+  return [];
+}
+
+/**
+ * Converts an attachment to a Responses input content part, reusing the
+ * media handling of the Chat Completions converter.
+ */
+function toInputContent(
+  part: Part,
+  options: MessageConversionOptions,
+): ResponseInputContent {
+  const converted = toMediaContentPart(part, true, options);
+  if (converted.type === 'image_url') {
+    return {
+      type: 'input_image',
+      image_url: converted.image_url.url,
+      detail: 'auto',
+    };
+  }
+  return {
+    type: 'input_text',
+    text: converted.type === 'text' ? converted.text : '',
+  };
+}
+
+/**
+ * Reads the reasoning summary of a reasoning item, or the raw reasoning text
+ * that open-weight models served through the Responses API report instead.
+ */
+function getReasoningText(item: ReasoningItem): string {
+  const summary = item.summary.map((entry) => entry.text).filter(Boolean);
+  if (summary.length > 0) {
+    return summary.join('\n\n');
+  }
+  return (item.content ?? [])
+    .map((entry) => entry.text)
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+function flushPendingThought(state: ResponsesStreamState, parts: Part[]): void {
+  pushThought(state, parts, state.pendingThought.trim());
+  state.pendingThought = '';
+}
+
+function pushThought(
+  state: ResponsesStreamState,
+  parts: Part[],
+  text: string,
+): void {
+  if (text && state.includeThoughts) {
+    parts.push({ text, thought: true });
+  }
+}
+
+/**
+ * Adds an answer part, attaching the turn's reasoning items to the first one.
+ */
+function pushAnswer(
+  state: ResponsesStreamState,
+  parts: Part[],
+  part: Part,
+): void {
+  flushPendingThought(state, parts);
+  if (!state.reasoningAttached && state.reasoning.length > 0) {
+    state.reasoningAttached = true;
+    parts.push(withReasoningItems(part, state.reasoning));
+    return;
+  }
+  parts.push(part);
+}
+
+function withReasoningItems(part: Part, reasoning: ReasoningItem[]): Part {
+  if (reasoning.length === 0) {
+    return part;
+  }
+  return { ...part, thoughtSignature: encodeReasoningItems(reasoning) };
+}
+
+/**
+ * Maps a response's status to a Gemini finish reason. Gemini reports function
+ * calls with `STOP`, so completed responses map there regardless of content.
+ */
+function toFinishReason(
+  response: OpenAI.Responses.Response,
+): FinishReason | undefined {
+  switch (response.status) {
+    case 'completed':
+      return FinishReason.STOP;
+    case 'incomplete':
+      switch (response.incomplete_details?.reason) {
+        case 'max_output_tokens':
+          return FinishReason.MAX_TOKENS;
+        case 'content_filter':
+          return FinishReason.SAFETY;
+        default:
+          return FinishReason.OTHER;
+      }
+    case undefined:
+      return undefined;
+    default:
+      return FinishReason.OTHER;
+  }
+}
+
+/**
+ * Maps Responses usage to Gemini usage metadata. Reasoning tokens are counted
+ * as output tokens, while Gemini reports them separately as thoughts.
+ */
+function toUsageMetadata(
+  usage: OpenAI.Responses.ResponseUsage | undefined,
+): GenerateContentResponseUsageMetadata {
+  const inputTokens = usage?.input_tokens ?? 0;
+  const outputTokens = usage?.output_tokens ?? 0;
+  const reasoningTokens = usage?.output_tokens_details?.reasoning_tokens ?? 0;
+  const cachedTokens = usage?.input_tokens_details?.cached_tokens ?? 0;
+
+  const metadata: GenerateContentResponseUsageMetadata = {
+    promptTokenCount: inputTokens,
+    candidatesTokenCount: Math.max(outputTokens - reasoningTokens, 0),
+    totalTokenCount: usage?.total_tokens ?? inputTokens + outputTokens,
+  };
+  if (reasoningTokens > 0) {
+    metadata.thoughtsTokenCount = reasoningTokens;
+  }
+  if (cachedTokens > 0) {
+    metadata.cachedContentTokenCount = cachedTokens;
+  }
+  return metadata;
+}
+
+function toResponseError(response: OpenAI.Responses.Response): Error {
+  const error = response.error;
+  return new Error(
+    error
+      ? `Responses API request failed (${error.code}): ${error.message}`
+      : 'Responses API request failed.',
+  );
+}
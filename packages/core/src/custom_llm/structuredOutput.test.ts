@@ -0,0 +1,161 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { GenerateContentResponse, Type } from '@google/genai';
+import {
+  getJsonOutput,
+  parseJsonOutput,
+  toChatResponseFormat,
+  toResponsesTextConfig,
+  withJsonInstruction,
+  withJsonText,
+} from './structuredOutput.js';
+
+const schema = {
+  type: 'object',
+  properties: { answer: { type: 'string' } },
+  required: ['answer'],
+};
+
+describe('getJsonOutput', () => {
+  it('ignores requests for text', () => {
+    expect(getJsonOutput(undefined)).toBeUndefined();
+    expect(getJsonOutput({ responseJsonSchema: schema })).toBeUndefined();
+  });
+
+  it('reads the JSON schema or converts the OpenAPI schema', () => {
+    expect(
+      getJsonOutput({
+        responseMimeType: 'application/json',
+        responseJsonSchema: schema,
+      }),
+    ).toEqual({ schema });
+    expect(
+      getJsonOutput({
+        responseMimeType: 'application/json',
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: { answer: { type: Type.STRING } },
+        },
+      }),
+    ).toEqual({
+      schema: { type: 'object', properties: { answer: { type: 'string' } } },
+    });
+    expect(getJsonOutput({ responseMimeType: 'application/json' })).toEqual({});
+  });
+});
+
+describe('response formats', () => {
+  it('uses json_schema only when the provider supports it and a schema is set', () => {
+    expect(toChatResponseFormat({ schema }, 'json_schema')).toEqual({
+      type: 'json_schema',
+      json_schema: { name: 'response', schema, strict: false },
+    });
+    expect(toChatResponseFormat({}, 'json_schema')).toEqual({
+      type: 'json_object',
+    });
+    expect(toChatResponseFormat({ schema }, 'json_object')).toEqual({
+      type: 'json_object',
+    });
+    expect(toChatResponseFormat({ schema }, 'none')).toBeUndefined();
+    expect(toChatResponseFormat(undefined, 'json_schema')).toBeUndefined();
+  });
+
+  it('builds the Responses API text format', () => {
+    expect(toResponsesTextConfig({ schema }, 'json_schema')).toEqual({
+      format: { type: 'json_schema', name: 'response', schema, strict: false },
+    });
+    expect(toResponsesTextConfig({ schema }, 'json_object')).toEqual({
+      format: { type: 'json_object' },
+    });
+  });
+});
+
+describe('withJsonInstruction', () => {
+  it('appends the schema to the last user turn', () => {
+    const request = withJsonInstruction(
+      {
+        model: 'm',
+        contents: [{ role: 'user', parts: [{ text: 'Question' }] }],
+      },
+      { schema },
+    );
+
+    expect(request.contents).toEqual([
+      {
+        role: 'user',
+        parts: [
+          { text: 'Question' },
+          { text: expect.stringContaining(JSON.stringify(schema)) },
+        ],
+      },
+    ]);
+  });
+
+  it('adds a user turn after a model turn', () => {
+    const request = withJsonInstruction(
+      {
+        model: 'm',
+        contents: [{ role: 'model', parts: [{ text: 'Answer' }] }],
+      },
+      {},
+    );
+
+    expect(request.contents).toEqual([
+      { role: 'model', parts: [{ text: 'Answer' }] },
+      {
+        role: 'user',
+        parts: [
+          {
+            text: 'Respond only with valid JSON, without any other text or code fences.',
+          },
+        ],
+      },
+    ]);
+  });
+});
+
+describe('parseJsonOutput', () => {
+  it('accepts fenced JSON that matches the schema', () => {
+    expect(
+      parseJsonOutput('```json\n{"answer":"yes"}\n```', { schema }),
+    ).toEqual({ value: { answer: 'yes' } });
+  });
+
+  it('reports invalid JSON and schema mismatches', () => {
+    expect(parseJsonOutput('maybe', { schema })).toEqual({
+      error: 'the response is not valid JSON.',
+    });
+    expect(parseJsonOutput('{"answer":1}', { schema }).error).toContain(
+      'must be string',
+    );
+  });
+});
+
+describe('withJsonText', () => {
+  it('replaces the answer and keeps thoughts', () => {
+    const response = new GenerateContentResponse();
+    response.candidates = [
+      {
+        content: {
+          role: 'model',
+          parts: [
+            { text: 'Thinking.', thought: true },
+            { text: '<think>x</think>{"answer":"yes"}' },
+          ],
+        },
+      },
+    ];
+
+    expect(
+      withJsonText(response, { answer: 'yes' }).candidates![0].content!.parts,
+    ).toEqual([
+      { text: 'Thinking.', thought: true },
+      { text: '{"answer":"yes"}' },
+    ]);
+  });
+});
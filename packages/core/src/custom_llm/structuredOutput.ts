@@ -0,0 +1,222 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {
+  Content,
+  GenerateContentConfig,
+  GenerateContentParameters,
+  GenerateContentResponse,
+} from '@google/genai';
+import type OpenAI from 'openai';
+import { SchemaValidator } from '../utils/schemaValidator.js';
+import {
+  convertTypeValuesToLowerCase,
+  extractJsonFromLLMOutput,
+  normalizeContents,
+} from './util.js';
+import type { StructuredOutputMode } from './types.js';
+
+/**
+ * Name given to the schema in `response_format`. OpenAI requires one, but
+ * Gemini requests have no equivalent.
+ */
+const SCHEMA_NAME = 'response';
+
+/**
+ * JSON output requested through `responseMimeType: 'application/json'`.
+ */
+export interface JsonOutput {
+  /** JSON schema the output must match, if the request set one. */
+  schema?: Record<string, unknown>;
+}
+
+/**
+ * Result of checking a response against the requested JSON output.
+ */
+export type JsonOutputResult =
+  | { value: unknown; error?: undefined }
+  | { value?: undefined; error: string };
+
+/**
+ * Returns the JSON output requested by a Gemini config, or undefined when the
+ * request expects plain text. `responseJsonSchema` is used as is; the OpenAPI
+ * style `responseSchema` is converted to lowercase JSON schema types.
+ */
+export function getJsonOutput(
+  config: GenerateContentConfig | undefined,
+): JsonOutput | undefined {
+  if (config?.responseMimeType !== 'application/json') {
+    return undefined;
+  }
+  if (config.responseJsonSchema) {
+    return { schema: config.responseJsonSchema as Record<string, unknown> };
+  }
+  if (config.responseSchema) {
+    return {
+      schema: convertTypeValuesToLowerCase(config.responseSchema) as Record<
+        string,
+        unknown
+      >,
+    };
+  }
+  return {};
+}
+
+/**
+ * Whether the provider enforces the output itself, so the schema does not
+ * need to be described in the prompt.
+ */
+export function isNativeJsonOutput(
+  output: JsonOutput,
+  mode: StructuredOutputMode,
+): boolean {
+  return mode === 'json_schema' && output.schema !== undefined;
+}
+
+/**
+ * Builds the Chat Completions `response_format` for the requested output.
+ */
+export function toChatResponseFormat(
+  output: JsonOutput | undefined,
+  mode: StructuredOutputMode,
+): OpenAI.Chat.Completions.ChatCompletionCreateParams['response_format'] {
+  if (!output || mode === 'none') {
+    return undefined;
+  }
+  if (isNativeJsonOutput(output, mode)) {
+    return {
+      type: 'json_schema',
+      json_schema: {
+        name: SCHEMA_NAME,
+        schema: toProviderSchema(output.schema!),
+        // Gemini schemas rarely satisfy OpenAI's strict mode rules (every
+        // property required, no additionalProperties), so the schema is
+        // only a guide and responses are validated afterwards.
+        strict: false,
+      },
+    };
+  }
+  return { type: 'json_object' };
+}
+
+/**
+ * Builds the Responses API `text` parameter for the requested output.
+ */
+export function toResponsesTextConfig(
+  output: JsonOutput | undefined,
+  mode: StructuredOutputMode,
+): OpenAI.Responses.ResponseTextConfig | undefined {
+  if (!output || mode === 'none') {
+    return undefined;
+  }
+  if (isNativeJsonOutput(output, mode)) {
+    return {
+      format: {
+        type: 'json_schema',
+        name: SCHEMA_NAME,
+        schema: toProviderSchema(output.schema!),
+        strict: false,
+      },
+    };
+  }
+  return { format: { type: 'json_object' } };
+}
+
+/**
+ * Appends instructions describing the requested output to the last user
+ * turn, for providers that cannot be given the schema directly.
+ */
+export function withJsonInstruction(
+  request: GenerateContentParameters,
+  output: JsonOutput,
+): GenerateContentParameters {
+  const instruction = output.schema
+    ? `Respond only with a JSON value that matches this JSON schema, without any other text or code fences:\n${JSON.stringify(output.schema)}`
+    : 'Respond only with valid JSON, without any other text or code fences.';
+  return appendUserText(request, instruction);
+}
+
+/**
+ * Adds the rejected response and the reason it was rejected to the request,
+ * asking the model to correct it.
+ */
+export function withRepairTurn(
+  request: GenerateContentParameters,
+  responseText: string,
+  error: string,
+): GenerateContentParameters {
+  return {
+    ...request,
+    contents: [
+      ...normalizeContents(request.contents),
+      { role: 'model', parts: [{ text: responseText }] },
+      {
+        role: 'user',
+        parts: [
+          {
+            text: `That response did not match the required JSON schema: ${error}\nReply again with only the corrected JSON.`,
+          },
+        ],
+      },
+    ],
+  };
+}
+
+/**
+ * Extracts JSON from a response and validates it against the schema.
+ */
+export function parseJsonOutput(
+  text: string,
+  output: JsonOutput,
+): JsonOutputResult {
+  const value = extractJsonFromLLMOutput(text);
+  if (value === undefined) {
+    return { error: 'the response is not valid JSON.' };
+  }
+  const error = SchemaValidator.validate(output.schema, value);
+  return error ? { error } : { value };
+}
+
+/**
+ * Replaces the answer of a response with the parsed JSON, dropping anything
+ * around it such as code fences or `<think>` blocks. Thoughts are kept.
+ */
+export function withJsonText(
+  response: GenerateContentResponse,
+  value: unknown,
+): GenerateContentResponse {
+  const content = response.candidates?.[0]?.content;
+  if (content) {
+    content.parts = [
+      ...(content.parts ?? []).filter((part) => part.thought),
+      { text: JSON.stringify(value) },
+    ];
+  }
+  return response;
+}
+
+function toProviderSchema(
+  schema: Record<string, unknown>,
+): Record<string, unknown> {
+  return convertTypeValuesToLowerCase(schema) as Record<string, unknown>;
+}
+
+function appendUserText(
+  request: GenerateContentParameters,
+  text: string,
+): GenerateContentParameters {
+  const contents: Content[] = [...normalizeContents(request.contents)];
+  const last = contents[contents.length - 1];
+  if (last && last.role !== 'model') {
+    contents[contents.length - 1] = {
+      ...last,
+      parts: [...(last.parts ?? []), { text }],
+    };
+  } else {
+    contents.push({ role: 'user', parts: [{ text }] });
+  }
+  return { ...request, contents };
+}
@@ -0,0 +1,226 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { FinishReason, type GenerateContentResponse } from '@google/genai';
+import {
+  TextToolCallParser,
+  toTextToolCallStream,
+  toToolPrompt,
+  withTextToolCalling,
+} from './textToolCalls.js';
+import { buildStreamResponse } from './converter.js';
+import { resolveToolSelection } from './toolChoice.js';
+import { getInvalidToolCall } from '../tools/invalid-tool-call.js';
+
+const tools = [
+  {
+    functionDeclarations: [
+      {
+        name: 'read_file',
+        description: 'Reads a file.',
+        parametersJsonSchema: {
+          type: 'object',
+          properties: { file_path: { type: 'string' } },
+        },
+      },
+      { name: 'ls', description: 'Lists a directory.' },
+    ],
+  },
+];
+
+describe('custom_llm withTextToolCalling', () => {
+  it('describes the tools in the system instruction and writes out tool turns', () => {
+    const request = withTextToolCalling(
+      {
+        model: 'm',
+        contents: [
+          { role: 'user', parts: [{ text: 'Read a.txt' }] },
+          {
+            role: 'model',
+            parts: [
+              { text: 'Reading it.' },
+              {
+                functionCall: {
+                  id: 'call_1',
+                  name: 'read_file',
+                  args: { file_path: 'a.txt' },
+                },
+                thoughtSignature: 'sig',
+              },
+            ],
+          },
+          {
+            role: 'user',
+            parts: [
+              {
+                functionResponse: {
+                  id: 'call_1',
+                  name: 'read_file',
+                  response: { output: 'hello' },
+                },
+              },
+            ],
+          },
+        ],
+        config: { systemInstruction: 'Be brief.', tools },
+      },
+      resolveToolSelection({ tools }),
+    );
+
+    expect(request.config?.tools).toBeUndefined();
+    expect(request.config?.systemInstruction).toMatch(
+      /^Be brief\.\n\n# Tools\n[\s\S]*{"name":"read_file","description":"Reads a file\."/,
+    );
+    expect(request.contents).toEqual([
+      { role: 'user', parts: [{ text: 'Read a.txt' }] },
+      {
+        role: 'model',
+        parts: [
+          { text: 'Reading it.' },
+          {
+            text: '<tool_call>\n{"name": "read_file", "arguments": {"file_path":"a.txt"}}\n</tool_call>',
+            thoughtSignature: 'sig',
+          },
+        ],
+      },
+      {
+        role: 'user',
+        parts: [
+          { text: '<tool_response name="read_file">\nhello\n</tool_response>' },
+        ],
+      },
+    ]);
+  });
+
+  it('follows the tool choice of the request', () => {
+    expect(
+      toToolPrompt(
+        resolveToolSelection({
+          tools,
+          toolConfig: {
+            functionCallingConfig: {
+              mode: 'ANY' as never,
+              allowedFunctionNames: ['ls'],
+            },
+          },
+        }),
+      ),
+    ).toMatch(/"name":"ls"[\s\S]*You must call the "ls" tool in your reply\.$/);
+    expect(
+      toToolPrompt(
+        resolveToolSelection({
+          tools,
+          toolConfig: { functionCallingConfig: { mode: 'NONE' as never } },
+        }),
+      ),
+    ).toBe('Do not call any tools in your reply.');
+  });
+});
+
+describe('custom_llm TextToolCallParser', () => {
+  it('parses tool calls split across chunks', () => {
+    const parser = new TextToolCallParser();
+    const parts = [
+      'Let me look.\n<tool',
+      '_call>\n{"name": "ls", "argu',
+      'ments": {"dir": "."}}\n</tool_call>\n',
+      '\n<tool_call>{"name": "read_file", "parameters": {"file_path": "a"}}',
+    ].flatMap((chunk) => parser.push(chunk));
+    parts.push(...parser.flush());
+
+    expect(parts).toEqual([
+      { text: 'Let me look.' },
+      {
+        functionCall: {
+          id: expect.stringMatching(/^call_/),
+          name: 'ls',
+          args: { dir: '.' },
+        },
+      },
+      {
+        functionCall: {
+          id: expect.stringMatching(/^call_/),
+          name: 'read_file',
+          args: { file_path: 'a' },
+        },
+      },
+    ]);
+  });
+
+  it('passes text through and keeps partial tags until they are decided', () => {
+    const parser = new TextToolCallParser();
+
+    expect(parser.push('Use a <b>tag</b> or <to')).toEqual([
+      { text: 'Use a <b>tag</b> or' },
+    ]);
+    expect(parser.push('ol> here')).toEqual([{ text: ' <tool> here' }]);
+    expect(parser.flush()).toEqual([]);
+  });
+
+  it('marks calls with unparseable arguments as invalid and keeps unnamed blocks as text', () => {
+    const onRepair = vi.fn();
+    const parser = new TextToolCallParser(onRepair);
+
+    const [invalid, unnamed] = parser.push(
+      '<tool_call>{"name": "ls", "arguments": {dir: .}}</tool_call><tool_call>oops</tool_call>',
+    );
+
+    expect(invalid.functionCall?.name).toBe('ls');
+    expect(getInvalidToolCall(invalid.functionCall?.args)).toBeDefined();
+    expect(onRepair).toHaveBeenCalledWith(
+      expect.objectContaining({ toolName: 'ls', success: false }),
+    );
+    expect(unnamed).toEqual({ text: '<tool_call>oops</tool_call>' });
+  });
+});
+
+describe('custom_llm toTextToolCallStream', () => {
+  async function* stream(
+    ...responses: GenerateContentResponse[]
+  ): AsyncGenerator<GenerateContentResponse> {
+    yield* responses;
+  }
+
+  it('yields tool calls from streamed text and rejects uncallable ones', async () => {
+    const final = buildStreamResponse([{ text: 'ol_call>' }], []);
+    final.candidates![0].finishReason = FinishReason.STOP;
+    final.usageMetadata = { totalTokenCount: 10 };
+    const selection = resolveToolSelection({
+      tools,
+      toolConfig: {
+        functionCallingConfig: {
+          mode: 'AUTO' as never,
+          allowedFunctionNames: ['read_file'],
+        },
+      },
+    });
+
+    const responses: GenerateContentResponse[] = [];
+    for await (const response of toTextToolCallStream(
+      stream(
+        buildStreamResponse([{ text: 'Checking.' }], []),
+        buildStreamResponse([{ text: '<tool_call>{"name": "ls"}</to' }], []),
+        final,
+      ),
+      selection,
+    )) {
+      responses.push(response);
+    }
+
+    expect(responses.map((response) => response.text)).toEqual([
+      'Checking.',
+      undefined,
+    ]);
+    const [functionCall] = responses[1].functionCalls!;
+    expect(functionCall.name).toBe('ls');
+    expect(getInvalidToolCall(functionCall.args)?.message).toContain(
+      'Tool "ls" is not available in this request.',
+    );
+    expect(responses[1].candidates![0].finishReason).toBe(FinishReason.STOP);
+    expect(responses[1].usageMetadata).toEqual({ totalTokenCount: 10 });
+  });
+});
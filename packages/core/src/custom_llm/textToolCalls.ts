@@ -0,0 +1,332 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {
+  Content,
+  FunctionCall,
+  GenerateContentParameters,
+  GenerateContentResponse,
+  Part,
+} from '@google/genai';
+import { randomUUID } from 'node:crypto';
+import {
+  normalizeContents,
+  toSystemInstructionText,
+  toToolCallArguments,
+} from './util.js';
+import { buildStreamResponse } from './converter.js';
+import { partialSuffixLength } from './reasoning.js';
+import { parseFunctionCall, parseToolArguments } from './toolArguments.js';
+import { rejectUncallableToolCalls, type ToolSelection } from './toolChoice.js';
+import type { ToolArgumentsRepairListener } from './types.js';
+
+const TOOL_CALL_OPEN = '<tool_call>';
+const TOOL_CALL_CLOSE = '</tool_call>';
+
+/**
+ * Prepares a request for a model that calls tools through its text output
+ * instead of native function calling. The tool declarations move into the
+ * system instruction together with a description of the calling format, and
+ * earlier tool calls and results in the history are written out in that
+ * format.
+ */
+export function withTextToolCalling(
+  request: GenerateContentParameters,
+  selection: ToolSelection,
+): GenerateContentParameters {
+  const systemText = [
+    toSystemInstructionText(request.config?.systemInstruction),
+    toToolPrompt(selection),
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+  return {
+    ...request,
+    contents: normalizeContents(request.contents).map(toTextToolContent),
+    config: {
+      ...request.config,
+      systemInstruction: systemText || undefined,
+      tools: undefined,
+      toolConfig: undefined,
+    },
+  };
+}
+
+/**
+ * Describes the tools the model may call and how to call them. Without
+ * callable tools, it only tells the model not to call any.
+ */
+export function toToolPrompt(selection: ToolSelection): string {
+  const tools = (selection.tools ?? []).flatMap((tool) =>
+    tool.type === 'function' && selection.callableNames.has(tool.function.name)
+      ? [
+          JSON.stringify({
+            name: tool.function.name,
+            description: tool.function.description,
+            parameters: tool.function.parameters,
+          }),
+        ]
+      : [],
+  );
+  if (tools.length === 0) {
+    return 'Do not call any tools in your reply.';
+  }
+  const { toolChoice } = selection;
+  const requirement =
+    toolChoice === 'required'
+      ? '\n\nYou must call at least one tool in your reply.'
+      : typeof toolChoice === 'object' && toolChoice.type === 'function'
+        ? `\n\nYou must call the "${toolChoice.function.name}" tool in your reply.`
+        : '';
+  return `# Tools
+
+You can call the following tools. Each one is described by its name, what it does, and the JSON schema of its arguments:
+
+<tools>
+${tools.join('\n')}
+</tools>
+
+To call a tool, write a ${TOOL_CALL_OPEN} block that contains a JSON object with the name of the tool and its arguments:
+
+${TOOL_CALL_OPEN}
+{"name": "tool_name", "arguments": {"argument_name": "value"}}
+${TOOL_CALL_CLOSE}
+
+To call several tools, write one block for each. Stop writing after your tool calls: their results are sent to you in <tool_response> blocks in the next message.${requirement}`;
+}
+
+/**
+ * Writes the tool calls and tool results of a history turn as text.
+ */
+function toTextToolContent(content: Content): Content {
+  const parts: Part[] = [];
+  for (const part of content.parts ?? []) {
+    const { functionCall, functionResponse } = part;
+    if (functionCall?.name) {
+      parts.push({
+        text: `${TOOL_CALL_OPEN}\n{"name": ${JSON.stringify(functionCall.name)}, "arguments": ${toToolCallArguments(functionCall.args ?? {})}}\n${TOOL_CALL_CLOSE}`,
+        thoughtSignature: part.thoughtSignature,
+      });
+    } else if (functionResponse?.name) {
+      parts.push({
+        text: `<tool_response name=${JSON.stringify(functionResponse.name)}>\n${toToolOutput(functionResponse.response)}\n</tool_response>`,
+      });
+      parts.push(
+        ...(functionResponse.parts ?? []).filter(
+          (nested) => nested.inlineData || nested.fileData,
+        ),
+      );
+    } else {
+      parts.push(part);
+    }
+  }
+  return { ...content, parts };
+}
+
+function toToolOutput(response: Record<string, unknown> = {}): string {
+  const { output, error } = response;
+  if (error !== undefined) {
+    return `Error: ${typeof error === 'string' ? error : JSON.stringify(error)}`;
+  }
+  return typeof output === 'string' ? output : JSON.stringify(response);
+}
+
+/**
+ * Splits streamed text into answer text and the tool calls written in it.
+ * Tags may be split across chunks, so a partial opening tag is held back
+ * until the next chunk decides it, and a tool call is only emitted once it
+ * is complete.
+ */
+export class TextToolCallParser {
+  private buffer = '';
+  private inToolCall = false;
+  private afterToolCall = false;
+
+  constructor(
+    private readonly onToolArgumentsRepair?: ToolArgumentsRepairListener,
+  ) {}
+
+  push(text: string): Part[] {
+    this.buffer += text;
+    const parts: Part[] = [];
+    for (;;) {
+      if (this.inToolCall) {
+        const closeIndex = this.buffer.indexOf(TOOL_CALL_CLOSE);
+        if (closeIndex === -1) {
+          return parts;
+        }
+        parts.push(this.toPart(this.buffer.slice(0, closeIndex)));
+        this.buffer = this.buffer.slice(closeIndex + TOOL_CALL_CLOSE.length);
+        this.inToolCall = false;
+        this.afterToolCall = true;
+        continue;
+      }
+      if (this.afterToolCall) {
+        // Whitespace between tool calls is not answer text.
+        this.buffer = this.buffer.trimStart();
+        if (!this.buffer) {
+          return parts;
+        }
+        this.afterToolCall = false;
+      }
+      const openIndex = this.buffer.indexOf(TOOL_CALL_OPEN);
+      if (openIndex !== -1) {
+        pushText(parts, this.buffer.slice(0, openIndex).trimEnd());
+        this.buffer = this.buffer.slice(openIndex + TOOL_CALL_OPEN.length);
+        this.inToolCall = true;
+        continue;
+      }
+      // Trailing whitespace is held back too, as it is dropped if a tool
+      // call follows.
+      const partial = partialSuffixLength(this.buffer, TOOL_CALL_OPEN);
+      const text = this.buffer.slice(0, this.buffer.length - partial);
+      const end = text.trimEnd().length;
+      pushText(parts, text.slice(0, end));
+      this.buffer = this.buffer.slice(end);
+      return parts;
+    }
+  }
+
+  /**
+   * Returns whatever is still held back once the stream has ended. A tool
+   * call without a closing tag is emitted as a call, since the model may
+   * simply have stopped after it.
+   */
+  flush(): Part[] {
+    const parts: Part[] = [];
+    if (this.inToolCall) {
+      parts.push(this.toPart(this.buffer));
+    } else {
+      pushText(parts, this.buffer);
+    }
+    this.buffer = '';
+    this.inToolCall = false;
+    this.afterToolCall = false;
+    return parts;
+  }
+
+  /**
+   * Converts the body of a tool call block to a function call. Arguments
+   * are also accepted under `parameters`, and a body without a recognizable
+   * tool name is kept as text.
+   */
+  private toPart(body: string): Part {
+    const { args: call } = parseToolArguments(body);
+    const name =
+      typeof call?.['name'] === 'string'
+        ? call['name']
+        : /"name"\s*:\s*"([^"]+)"/.exec(body)?.[1];
+    if (!name) {
+      return { text: `${TOOL_CALL_OPEN}${body}${TOOL_CALL_CLOSE}` };
+    }
+    const args = call?.['arguments'] ?? call?.['parameters'];
+    const rawArguments = !call
+      ? body
+      : typeof args === 'string'
+        ? args
+        : JSON.stringify(args ?? {});
+    return {
+      functionCall: parseFunctionCall(
+        `call_${randomUUID()}`,
+        name,
+        rawArguments,
+        this.onToolArgumentsRepair,
+      ),
+    };
+  }
+}
+
+function pushText(parts: Part[], text: string): void {
+  if (text.length > 0) {
+    parts.push({ text });
+  }
+}
+
+/**
+ * Replaces the text of a complete response with the answer text and tool
+ * calls written in it. Calls to tools outside `selection` are rejected.
+ */
+export function toTextToolCallResponse(
+  response: GenerateContentResponse,
+  selection: ToolSelection,
+  onToolArgumentsRepair?: ToolArgumentsRepairListener,
+): GenerateContentResponse {
+  const parser = new TextToolCallParser(onToolArgumentsRepair);
+  const result = withParsedParts(response, parser, true);
+  rejectUncallableToolCalls(result, selection);
+  return result;
+}
+
+/**
+ * Replaces the text of a streamed response with the answer text and tool
+ * calls written in it, as each tool call completes. Calls to tools outside
+ * `selection` are rejected.
+ */
+export async function* toTextToolCallStream(
+  stream: AsyncGenerator<GenerateContentResponse>,
+  selection: ToolSelection,
+  onToolArgumentsRepair?: ToolArgumentsRepairListener,
+): AsyncGenerator<GenerateContentResponse> {
+  const parser = new TextToolCallParser(onToolArgumentsRepair);
+  for await (const response of stream) {
+    const candidate = response.candidates?.[0];
+    const parsed = withParsedParts(
+      response,
+      parser,
+      candidate?.finishReason !== undefined,
+    );
+    if (
+      parsed.candidates?.[0]?.content?.parts?.length ||
+      candidate?.finishReason !== undefined ||
+      parsed.usageMetadata
+    ) {
+      rejectUncallableToolCalls(parsed, selection);
+      yield parsed;
+    }
+  }
+  const rest = parser.flush();
+  if (rest.length > 0) {
+    const response = buildStreamResponse(rest, getFunctionCalls(rest));
+    rejectUncallableToolCalls(response, selection);
+    yield response;
+  }
+}
+
+function withParsedParts(
+  response: GenerateContentResponse,
+  parser: TextToolCallParser,
+  final: boolean,
+): GenerateContentResponse {
+  const candidate = response.candidates?.[0];
+  if (!candidate) {
+    return response;
+  }
+  const parts: Part[] = [];
+  for (const part of candidate.content?.parts ?? []) {
+    if (part.thought || typeof part.text !== 'string') {
+      parts.push(part);
+      continue;
+    }
+    const parsed = parser.push(part.text);
+    if (part.thoughtSignature && parsed.length > 0) {
+      parsed[0] = { ...parsed[0], thoughtSignature: part.thoughtSignature };
+    }
+    parts.push(...parsed);
+  }
+  if (final) {
+    parts.push(...parser.flush());
+  }
+  const result = buildStreamResponse(parts, getFunctionCalls(parts));
+  result.candidates![0].finishReason = candidate.finishReason;
+  result.usageMetadata = response.usageMetadata;
+  return result;
+}
+
+function getFunctionCalls(parts: Part[]): FunctionCall[] {
+  return parts.flatMap((part) =>
+    part.functionCall ? [part.functionCall] : [],
+  );
+}
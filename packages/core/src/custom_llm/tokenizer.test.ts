@@ -0,0 +1,191 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { delay, http, HttpResponse } from 'msw';
+import { server } from '../mocks/msw.js';
+import {
+  BpeTokenizer,
+  FallbackTokenizer,
+  HeuristicTokenizer,
+  RemoteTokenizer,
+  createTokenizer,
+  getBpeEncodingForModel,
+} from './tokenizer.js';
+import { resolveCustomLlmProvider } from './providers.js';
+
+const TOKENIZE_URL = 'http://localhost:8000/tokenize';
+
+function provider(overrides: Record<string, unknown>) {
+  return resolveCustomLlmProvider({
+    providers: {
+      local: {
+        baseURL: 'http://localhost:8000/v1',
+        model: 'qwen3-coder',
+        ...overrides,
+      },
+    },
+  });
+}
+
+describe('custom_llm tokenizer', () => {
+  beforeAll(() => {
+    server.listen({ onUnhandledRequest: 'error' });
+  });
+
+  afterEach(() => {
+    server.resetHandlers();
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  it('picks the bundled encoding from the model name', () => {
+    expect(getBpeEncodingForModel('gpt-4o-mini')).toBe('o200k_base');
+    expect(getBpeEncodingForModel('openai/gpt-oss-120b')).toBe('o200k_base');
+    expect(getBpeEncodingForModel('gpt-4-turbo')).toBe('cl100k_base');
+    expect(getBpeEncodingForModel('qwen3-coder')).toBeUndefined();
+  });
+
+  it('counts tokens with bundled encodings', async () => {
+    const text = 'function add(a, b) {\n  return a + b;\n}';
+
+    expect(await new BpeTokenizer('cl100k_base').countTokens(text)).toBe(14);
+    expect(await new BpeTokenizer('o200k_base').countTokens(text)).toBe(14);
+    expect(
+      await new BpeTokenizer('cl100k_base').countTokens('<|endoftext|>'),
+    ).toBeGreaterThan(1);
+  });
+
+  it('reads counts from vLLM and llama.cpp tokenize responses', async () => {
+    const tokenizer = new RemoteTokenizer(TOKENIZE_URL, 'qwen3-coder', {});
+
+    server.resetHandlers(
+      http.post(TOKENIZE_URL, () =>
+        HttpResponse.json({ count: 7, tokens: [1, 2] }),
+      ),
+    );
+    expect(await tokenizer.countTokens('hello')).toBe(7);
+
+    server.resetHandlers(
+      http.post(TOKENIZE_URL, () => HttpResponse.json({ tokens: [1, 2, 3] })),
+    );
+    expect(await tokenizer.countTokens('hello')).toBe(3);
+  });
+
+  it('prefers the tokenize endpoint for unknown models', async () => {
+    let body: unknown;
+    server.resetHandlers(
+      http.post(TOKENIZE_URL, async ({ request }) => {
+        body = await request.json();
+        return HttpResponse.json({ count: 42 });
+      }),
+    );
+
+    const tokenizer = createTokenizer(provider({ tokenizeURL: TOKENIZE_URL }));
+
+    expect(await tokenizer.countTokens('hello')).toBe(42);
+    expect(body).toEqual({
+      model: 'qwen3-coder',
+      prompt: 'hello',
+      content: 'hello',
+    });
+  });
+
+  it('falls back to a bundled encoding when the endpoint fails', async () => {
+    server.resetHandlers(
+      http.post(TOKENIZE_URL, () => new HttpResponse(null, { status: 404 })),
+    );
+
+    const tokenizer = createTokenizer(provider({ tokenizeURL: TOKENIZE_URL }));
+
+    expect(tokenizer.name).toBe('remote > cl100k_base > heuristic');
+    expect(await tokenizer.countTokens('hello world')).toBe(2);
+  });
+
+  it('honors an explicit tokenizer setting', () => {
+    expect(
+      createTokenizer(provider({ tokenizer: 'heuristic' })),
+    ).toBeInstanceOf(HeuristicTokenizer);
+    expect(createTokenizer(provider({ tokenizer: 'o200k_base' })).name).toBe(
+      'o200k_base > heuristic',
+    );
+  });
+
+  it('rethrows the last error when every tokenizer fails', async () => {
+    const failing = {
+      name: 'failing',
+      countTokens: () => Promise.reject(new Error('boom')),
+    };
+
+    await expect(
+      new FallbackTokenizer([failing]).countTokens('x'),
+    ).rejects.toThrow('boom');
+  });
+
+  it('sends the transport headers to the tokenize endpoint', async () => {
+    let headers: Headers | undefined;
+    server.resetHandlers(
+      http.post(TOKENIZE_URL, ({ request }) => {
+        headers = request.headers;
+        return HttpResponse.json({ count: 1 });
+      }),
+    );
+
+    const tokenizer = createTokenizer(
+      {
+        ...provider({
+          tokenizeURL: TOKENIZE_URL,
+          headers: { 'X-Provider': 'local' },
+        }),
+        apiKey: 'sk-test',
+      },
+      { headers: { 'X-Custom': 'custom' }, userAgent: 'GeminiCLI/test' },
+    );
+    await tokenizer.countTokens('hello');
+
+    expect(headers?.get('authorization')).toBe('Bearer sk-test');
+    expect(headers?.get('x-provider')).toBe('local');
+    expect(headers?.get('x-custom')).toBe('custom');
+    expect(headers?.get('user-agent')).toBe('GeminiCLI/test');
+  });
+
+  it('falls back to a local tokenizer when the endpoint times out', async () => {
+    server.resetHandlers(
+      http.post(TOKENIZE_URL, async () => {
+        await delay(1000);
+        return HttpResponse.json({ count: 42 });
+      }),
+    );
+
+    const tokenizer = new FallbackTokenizer([
+      new RemoteTokenizer(TOKENIZE_URL, 'qwen3-coder', {}, fetch, 50),
+      new BpeTokenizer('cl100k_base'),
+    ]);
+
+    expect(await tokenizer.countTokens('hello world')).toBe(2);
+  });
+
+  it('stops counting when the caller aborts', async () => {
+    server.resetHandlers(
+      http.post(TOKENIZE_URL, async () => {
+        await delay(1000);
+        return HttpResponse.json({ count: 42 });
+      }),
+    );
+    const controller = new AbortController();
+    const tokenizer = new FallbackTokenizer([
+      new RemoteTokenizer(TOKENIZE_URL, 'qwen3-coder', {}),
+      new BpeTokenizer('cl100k_base'),
+    ]);
+
+    const count = tokenizer.countTokens('hello world', controller.signal);
+    controller.abort();
+
+    await expect(count).rejects.toThrow();
+  });
+});
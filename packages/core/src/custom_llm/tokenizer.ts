@@ -0,0 +1,235 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Tiktoken } from 'js-tiktoken/lite';
+import { debugLogger } from '../utils/debugLogger.js';
+import { getErrorMessage } from '../utils/errors.js';
+import type { ResolvedCustomLlmProvider } from './types.js';
+import {
+  createProviderFetch,
+  type ProviderFetch,
+  type TransportOptions,
+} from './transport.js';
+
+export type BpeEncoding = 'cl100k_base' | 'o200k_base';
+
+/**
+ * How long to wait for a tokenize endpoint before counting locally instead.
+ */
+export const REMOTE_TOKENIZE_TIMEOUT_MS = 10_000;
+
+/**
+ * Counts the tokens of a piece of text for one model.
+ */
+export interface Tokenizer {
+  readonly name: string;
+  countTokens(text: string, signal?: AbortSignal): Promise<number>;
+}
+
+// Model families known to use o200k_base; other OpenAI chat models use
+// cl100k_base, which is also the closest general-purpose approximation for
+// models whose tokenizer is not bundled.
+const O200K_MODEL_PATTERN =
+  /(^|\/)(gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|o1|o3|o4|chatgpt-4o|gpt-oss)/;
+const CL100K_MODEL_PATTERN = /(^|\/)(gpt-4|gpt-3\.5|gpt-35)/;
+
+/**
+ * Returns the bundled encoding used by `model`, if it is a known model.
+ */
+export function getBpeEncodingForModel(model: string): BpeEncoding | undefined {
+  const name = model.toLowerCase();
+  if (O200K_MODEL_PATTERN.test(name)) {
+    return 'o200k_base';
+  }
+  if (CL100K_MODEL_PATTERN.test(name)) {
+    return 'cl100k_base';
+  }
+  return undefined;
+}
+
+const encoders = new Map<BpeEncoding, Promise<Tiktoken>>();
+
+async function loadEncoder(encoding: BpeEncoding): Promise<Tiktoken> {
+  const { Tiktoken } = await import('js-tiktoken/lite');
+  // The rank files are large, so each is only loaded when first needed.
+  const ranks =
+    encoding === 'o200k_base'
+      ? (await import('js-tiktoken/ranks/o200k_base')).default
+      : (await import('js-tiktoken/ranks/cl100k_base')).default;
+  return new Tiktoken(ranks);
+}
+
+function getEncoder(encoding: BpeEncoding): Promise<Tiktoken> {
+  let encoder = encoders.get(encoding);
+  if (!encoder) {
+    encoder = loadEncoder(encoding);
+    encoders.set(encoding, encoder);
+    encoder.catch(() => encoders.delete(encoding));
+  }
+  return encoder;
+}
+
+/**
+ * Counts tokens with a bundled byte-pair encoding.
+ */
+export class BpeTokenizer implements Tokenizer {
+  readonly name: string;
+
+  constructor(private readonly encoding: BpeEncoding) {
+    this.name = encoding;
+  }
+
+  async countTokens(text: string): Promise<number> {
+    if (!text) {
+      return 0;
+    }
+    const encoder = await getEncoder(this.encoding);
+    // Treat special-token text in prompts as ordinary text.
+    return encoder.encode(text, [], []).length;
+  }
+}
+
+/**
+ * Counts tokens with the server's own tokenizer through its tokenize
+ * endpoint. vLLM and SGLang read `prompt` and return `count`; llama.cpp reads
+ * `content` and returns only `tokens`. Requests fail after `timeoutMs`.
+ */
+export class RemoteTokenizer implements Tokenizer {
+  readonly name = 'remote';
+
+  constructor(
+    private readonly url: string,
+    private readonly model: string,
+    private readonly headers: Record<string, string>,
+    private readonly fetchFn: ProviderFetch = fetch,
+    private readonly timeoutMs = REMOTE_TOKENIZE_TIMEOUT_MS,
+  ) {}
+
+  async countTokens(text: string, signal?: AbortSignal): Promise<number> {
+    const timeoutSignal = AbortSignal.timeout(this.timeoutMs);
+    const response = await this.fetchFn(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...this.headers },
+      body: JSON.stringify({ model: this.model, prompt: text, content: text }),
+      signal: signal ? AbortSignal.any([signal, timeoutSignal]) : timeoutSignal,
+    });
+    if (!response.ok) {
+      throw new Error(
+        `Tokenize request to ${this.url} failed with status ${response.status}.`,
+      );
+    }
+    const body = (await response.json()) as {
+      count?: unknown;
+      tokens?: unknown;
+    };
+    if (typeof body.count === 'number') {
+      return body.count;
+    }
+    if (Array.isArray(body.tokens)) {
+      return body.tokens.length;
+    }
+    throw new Error(
+      `Tokenize response from ${this.url} has neither "count" nor "tokens".`,
+    );
+  }
+}
+
+/**
+ * Rough estimate from word, CJK character and punctuation counts, for when no
+ * tokenizer is available.
+ */
+export class HeuristicTokenizer implements Tokenizer {
+  readonly name = 'heuristic';
+
+  async countTokens(text: string): Promise<number> {
+    const englishWords = (text.match(/[a-zA-Z]+[']?[a-zA-Z]*/g) ?? []).length;
+    const chineseChars = (text.match(/[\u4e00-\u9fff]/g) ?? []).length;
+    const numbers = (text.match(/\b\d+\b/g) ?? []).length;
+    const punctuations =
+      text.match(/[.,!?;:"'(){}[\]<>@#$%^&*\-_+=~`|\\/]/g)?.length ?? 0;
+    const spaces = Math.ceil((text.match(/\s+/g) ?? []).length / 5);
+
+    return Math.ceil(
+      englishWords * 1.2 +
+        chineseChars * 1 +
+        numbers * 0.8 +
+        punctuations * 0.5 +
+        spaces,
+    );
+  }
+}
+
+/**
+ * Tries each tokenizer in turn and uses the first one that succeeds, unless
+ * the caller aborted.
+ */
+export class FallbackTokenizer implements Tokenizer {
+  constructor(private readonly tokenizers: Tokenizer[]) {}
+
+  get name(): string {
+    return this.tokenizers.map((tokenizer) => tokenizer.name).join(' > ');
+  }
+
+  async countTokens(text: string, signal?: AbortSignal): Promise<number> {
+    let lastError: unknown;
+    for (const tokenizer of this.tokenizers) {
+      signal?.throwIfAborted();
+      try {
+        return await tokenizer.countTokens(text, signal);
+      } catch (error) {
+        lastError = error;
+        debugLogger.debug(
+          `[custom-llm] Tokenizer ${tokenizer.name} failed: ${getErrorMessage(error)}`,
+        );
+      }
+    }
+    throw lastError;
+  }
+}
+
+/**
+ * Builds the tokenizer for a provider. With `tokenizer: 'auto'` the bundled
+ * encoding of a known model is used first, then the server's tokenize
+ * endpoint when configured, then `cl100k_base` as an approximation. The
+ * heuristic is only used when none of these is available. The tokenize
+ * endpoint is reached through the provider's transport.
+ */
+export function createTokenizer(
+  provider: ResolvedCustomLlmProvider,
+  transportOptions: TransportOptions = {},
+): Tokenizer {
+  const heuristic = new HeuristicTokenizer();
+  if (provider.tokenizer === 'heuristic') {
+    return heuristic;
+  }
+  if (provider.tokenizer !== 'auto') {
+    return new FallbackTokenizer([
+      new BpeTokenizer(provider.tokenizer),
+      heuristic,
+    ]);
+  }
+
+  const tokenizers: Tokenizer[] = [];
+  const encoding = getBpeEncodingForModel(provider.model);
+  if (encoding) {
+    tokenizers.push(new BpeTokenizer(encoding));
+  }
+  if (provider.tokenizeURL) {
+    tokenizers.push(
+      new RemoteTokenizer(
+        provider.tokenizeURL,
+        provider.model,
+        provider.apiKey ? { Authorization: `Bearer ${provider.apiKey}` } : {},
+        createProviderFetch(provider, transportOptions),
+      ),
+    );
+  }
+  if (encoding !== 'cl100k_base') {
+    tokenizers.push(new BpeTokenizer('cl100k_base'));
+  }
+  tokenizers.push(heuristic);
+  return new FallbackTokenizer(tokenizers);
+}
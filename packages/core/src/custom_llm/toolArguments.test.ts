@@ -0,0 +1,117 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { parseFunctionCall, parseToolArguments } from './toolArguments.js';
+import { getInvalidToolCall } from '../tools/invalid-tool-call.js';
+
+describe('custom_llm parseToolArguments', () => {
+  it('parses valid and empty arguments without repairs', () => {
+    expect(parseToolArguments('{"path":"a.txt"}')).toEqual({
+      args: { path: 'a.txt' },
+      repairs: [],
+    });
+    expect(parseToolArguments('  ')).toEqual({ args: {}, repairs: [] });
+  });
+
+  it.each([
+    [
+      'a code fence',
+      '```json\n{"path": "a.txt"}\n```',
+      { path: 'a.txt' },
+      ['code_fence'],
+    ],
+    [
+      'trailing commas',
+      '{"paths": ["a", "b",], "recursive": true,}',
+      { paths: ['a', 'b'], recursive: true },
+      ['trailing_comma'],
+    ],
+    [
+      'unescaped quotes and newlines',
+      '{"command": "echo "hi"\nls", "description": "say "hi""}',
+      { command: 'echo "hi"\nls', description: 'say "hi"' },
+      ['unescaped_characters'],
+    ],
+    [
+      'an unterminated string',
+      '{"content": "line one\\nline tw',
+      { content: 'line one\nline tw' },
+      ['truncation'],
+    ],
+    [
+      'a dangling key',
+      '{"path": "a.txt", "limit": 10, "off',
+      { path: 'a.txt', limit: 10 },
+      ['truncation'],
+    ],
+    [
+      'a dangling colon',
+      '{"path": "a.txt", "offset":',
+      { path: 'a.txt', offset: null },
+      ['truncation'],
+    ],
+    [
+      'several mistakes at once',
+      '```\n{"files": ["a",], "note": "say "hi" tw',
+      { files: ['a'], note: 'say "hi" tw' },
+      ['code_fence', 'trailing_comma', 'unescaped_characters', 'truncation'],
+    ],
+  ])('repairs %s', (_, raw, args, repairs) => {
+    expect(parseToolArguments(raw)).toEqual({ args, repairs });
+  });
+
+  it('fails for arguments that are not an object', () => {
+    expect(parseToolArguments('["a.txt"]')).toEqual({
+      error: 'expected an object',
+      repairs: [],
+    });
+    expect(parseToolArguments('read a.txt').args).toBeUndefined();
+  });
+});
+
+describe('custom_llm parseFunctionCall', () => {
+  it('reports repaired arguments', () => {
+    const onRepair = vi.fn();
+
+    expect(
+      parseFunctionCall('call_1', 'ls', '{"dir": ".",}', onRepair),
+    ).toEqual({ id: 'call_1', name: 'ls', args: { dir: '.' } });
+    expect(onRepair).toHaveBeenCalledWith({
+      toolName: 'ls',
+      repairs: ['trailing_comma'],
+      success: true,
+    });
+
+    onRepair.mockClear();
+    parseFunctionCall('call_2', 'ls', '{"dir": "."}', onRepair);
+    expect(onRepair).not.toHaveBeenCalled();
+  });
+
+  it('marks calls whose arguments cannot be repaired as invalid', () => {
+    const onRepair = vi.fn();
+
+    const functionCall = parseFunctionCall(
+      'call_1',
+      'read_file',
+      'path=a.txt',
+      onRepair,
+    );
+
+    expect(functionCall.name).toBe('read_file');
+    expect(getInvalidToolCall(functionCall.args)).toEqual({
+      message: expect.stringMatching(
+        /^The arguments of this "read_file" call are not a valid JSON object \(.+\), so the tool was not run\. .*Arguments received:\npath=a\.txt$/s,
+      ),
+      rawArguments: 'path=a.txt',
+    });
+    expect(onRepair).toHaveBeenCalledWith({
+      toolName: 'read_file',
+      repairs: [],
+      success: false,
+    });
+  });
+});
@@ -0,0 +1,246 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { FunctionCall } from '@google/genai';
+import { markInvalidToolCall } from '../tools/invalid-tool-call.js';
+import { getErrorMessage } from '../utils/errors.js';
+import type {
+  ToolArgumentsRepair,
+  ToolArgumentsRepairListener,
+} from './types.js';
+
+/**
+ * Longest excerpt of unparseable arguments quoted in the tool error.
+ */
+const MAX_QUOTED_ARGUMENTS_LENGTH = 2000;
+
+interface ParsedToolArguments {
+  /** The arguments, or undefined if they could not be repaired. */
+  args?: Record<string, unknown>;
+  /** Repairs that were applied, in order. */
+  repairs: ToolArgumentsRepair[];
+  /** Why the arguments could not be parsed, if they could not. */
+  error?: string;
+}
+
+/**
+ * Repairs, in the order they are tried. Each one builds on the previous
+ * ones, and the arguments are parsed again after each one that changes them.
+ */
+const REPAIRS: Array<[ToolArgumentsRepair, (text: string) => string]> = [
+  ['code_fence', stripCodeFence],
+  ['trailing_comma', removeTrailingCommas],
+  ['unescaped_characters', escapeStringContents],
+  ['truncation', closeTruncatedJson],
+];
+
+/**
+ * Parses the JSON arguments of a tool call, repairing the mistakes models
+ * commonly make when the arguments are not valid JSON.
+ */
+export function parseToolArguments(raw: string): ParsedToolArguments {
+  let text = raw.trim();
+  if (!text) {
+    return { args: {}, repairs: [] };
+  }
+  const repairs: ToolArgumentsRepair[] = [];
+  let result = tryParseObject(text);
+  for (const [repair, apply] of REPAIRS) {
+    if (result.args) {
+      break;
+    }
+    const repaired = apply(text);
+    if (repaired !== text) {
+      text = repaired;
+      repairs.push(repair);
+      result = tryParseObject(text);
+    }
+  }
+  return { ...result, repairs };
+}
+
+/**
+ * Builds the function call for a tool call received from the model. When its
+ * arguments cannot be parsed even after repair, the call is marked invalid
+ * so that the model is told what went wrong instead of the tool running
+ * without its arguments.
+ */
+export function parseFunctionCall(
+  id: string | undefined,
+  name: string,
+  rawArguments: string,
+  onRepair?: ToolArgumentsRepairListener,
+): FunctionCall {
+  const functionCall: FunctionCall = { id, name };
+  const { args, repairs, error } = parseToolArguments(rawArguments);
+  if (!args || repairs.length > 0) {
+    onRepair?.({ toolName: name, repairs, success: args !== undefined });
+  }
+  if (args) {
+    functionCall.args = args;
+    return functionCall;
+  }
+  const quoted =
+    rawArguments.length > MAX_QUOTED_ARGUMENTS_LENGTH
+      ? `${rawArguments.slice(0, MAX_QUOTED_ARGUMENTS_LENGTH)}...`
+      : rawArguments;
+  markInvalidToolCall(functionCall, {
+    message: `The arguments of this "${name}" call are not a valid JSON object (${error}), so the tool was not run. Call it again with the arguments as one JSON object. Arguments received:\n${quoted}`,
+    rawArguments,
+  });
+  return functionCall;
+}
+
+function tryParseObject(text: string): Omit<ParsedToolArguments, 'repairs'> {
+  try {
+    const value: unknown = JSON.parse(text);
+    if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+      return { args: value as Record<string, unknown> };
+    }
+    return { error: 'expected an object' };
+  } catch (error) {
+    return { error: getErrorMessage(error) };
+  }
+}
+
+/**
+ * Removes a Markdown code fence around the arguments, including one that was
+ * never closed.
+ */
+function stripCodeFence(text: string): string {
+  const match = /^```[\w-]*\s*\n?([\s\S]*?)\s*(```)?$/.exec(text);
+  return match ? match[1] : text;
+}
+
+/**
+ * Removes commas directly before a closing brace or bracket.
+ */
+function removeTrailingCommas(text: string): string {
+  let result = '';
+  scanJson(text, (char, index, inString) => {
+    if (!inString && char === ',' && /^\s*[}\]]/.test(text.slice(index + 1))) {
+      return;
+    }
+    result += char;
+  });
+  return result;
+}
+
+/**
+ * Escapes quotes, newlines and other control characters that appear inside
+ * strings without being escaped. A quote ends the string only if it is
+ * followed by something that can come after a string.
+ */
+function escapeStringContents(text: string): string {
+  let result = '';
+  let inString = false;
+  let escaped = false;
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (!inString) {
+      inString = char === '"';
+      result += char;
+    } else if (escaped) {
+      escaped = false;
+      result += char;
+    } else if (char === '\\') {
+      escaped = true;
+      result += char;
+    } else if (char === '"') {
+      const closes = /^\s*([,:}\]]|$)/.test(text.slice(index + 1));
+      inString = !closes;
+      result += closes ? char : '\\"';
+    } else if (char < ' ') {
+      result += escapeControlCharacter(char);
+    } else {
+      result += char;
+    }
+  }
+  return result;
+}
+
+function escapeControlCharacter(char: string): string {
+  switch (char) {
+    case '\n':
+      return '\\n';
+    case '\r':
+      return '\\r';
+    case '\t':
+      return '\\t';
+    default:
+      return `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`;
+  }
+}
+
+/**
+ * Completes arguments that were cut off, as happens when the model runs out
+ * of output tokens: the open string is closed and the open objects and
+ * arrays are closed. If that does not yield valid JSON, everything after the
+ * last complete value is dropped.
+ */
+function closeTruncatedJson(text: string): string {
+  const open: string[] = [];
+  let lastComma: { index: number; open: string[] } | undefined;
+  const inString = scanJson(text, (char, index, charInString) => {
+    if (charInString) {
+      return;
+    }
+    if (char === '{' || char === '[') {
+      open.push(char === '{' ? '}' : ']');
+    } else if (char === '}' || char === ']') {
+      open.pop();
+    } else if (char === ',') {
+      lastComma = { index, open: [...open] };
+    }
+  });
+  if (open.length === 0 && !inString) {
+    return text;
+  }
+  let closed = text;
+  if (inString) {
+    // A trailing backslash would escape the closing quote.
+    const backslashes = closed.length - closed.replace(/\\+$/, '').length;
+    closed = closed.slice(0, closed.length - (backslashes % 2)) + '"';
+  }
+  closed = closed.replace(/,\s*$/, '').replace(/:\s*$/, ': null');
+  closed += [...open].reverse().join('');
+  if (tryParseObject(closed).args || !lastComma) {
+    return closed;
+  }
+  return (
+    text.slice(0, lastComma.index) + [...lastComma.open].reverse().join('')
+  );
+}
+
+/**
+ * Calls `visit` for each character of `text`, telling it whether the
+ * character is part of a string. The quotes around a string count as part of
+ * it. Returns whether `text` ends inside a string.
+ */
+function scanJson(
+  text: string,
+  visit: (char: string, index: number, inString: boolean) => void,
+): boolean {
+  let inString = false;
+  let escaped = false;
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (inString) {
+      visit(char, index, true);
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else {
+      inString = char === '"';
+      visit(char, index, inString);
+    }
+  }
+  return inString;
+}
@@ -0,0 +1,147 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  FunctionCallingConfigMode,
+  GenerateContentResponse,
+  type GenerateContentConfig,
+} from '@google/genai';
+import {
+  rejectUncallableToolCalls,
+  resolveToolSelection,
+  toResponsesToolChoice,
+} from './toolChoice.js';
+import { getInvalidToolCall } from '../tools/invalid-tool-call.js';
+
+const config = (
+  mode?: FunctionCallingConfigMode,
+  allowedFunctionNames?: string[],
+): GenerateContentConfig => ({
+  tools: [
+    {
+      functionDeclarations: [
+        { name: 'read_file', parametersJsonSchema: { type: 'object' } },
+        { name: 'write_file', parametersJsonSchema: { type: 'object' } },
+      ],
+    },
+  ],
+  toolConfig: mode
+    ? { functionCallingConfig: { mode, allowedFunctionNames } }
+    : undefined,
+});
+
+const toolNames = (selection: ReturnType<typeof resolveToolSelection>) =>
+  selection.tools?.map((tool) =>
+    tool.type === 'function' ? tool.function.name : tool.custom.name,
+  );
+
+describe('resolveToolSelection', () => {
+  it('returns nothing without tools', () => {
+    expect(resolveToolSelection({})).toEqual({
+      tools: undefined,
+      toolChoice: undefined,
+      callableNames: new Set(),
+    });
+  });
+
+  it('uses auto by default and for VALIDATED', () => {
+    for (const mode of [undefined, FunctionCallingConfigMode.VALIDATED]) {
+      const selection = resolveToolSelection(config(mode));
+      expect(selection.toolChoice).toBe('auto');
+      expect(toolNames(selection)).toEqual(['read_file', 'write_file']);
+    }
+  });
+
+  it('keeps the tools but disables calls for NONE', () => {
+    const selection = resolveToolSelection(
+      config(FunctionCallingConfigMode.NONE),
+    );
+
+    expect(selection.toolChoice).toBe('none');
+    expect(toolNames(selection)).toEqual(['read_file', 'write_file']);
+    expect(selection.callableNames.size).toBe(0);
+  });
+
+  it('requires a call for ANY and forces a single allowed function', () => {
+    expect(
+      resolveToolSelection(config(FunctionCallingConfigMode.ANY)).toolChoice,
+    ).toBe('required');
+
+    const selection = resolveToolSelection(
+      config(FunctionCallingConfigMode.ANY, ['write_file']),
+    );
+    expect(selection.toolChoice).toEqual({
+      type: 'function',
+      function: { name: 'write_file' },
+    });
+    expect(toolNames(selection)).toEqual(['write_file']);
+    expect(selection.callableNames).toEqual(new Set(['write_file']));
+  });
+
+  it('disables calls when none of the allowed functions is declared', () => {
+    const selection = resolveToolSelection(
+      config(FunctionCallingConfigMode.ANY, ['missing']),
+    );
+
+    expect(selection.toolChoice).toBe('none');
+    expect(selection.callableNames.size).toBe(0);
+  });
+});
+
+describe('toResponsesToolChoice', () => {
+  it('flattens named function choices', () => {
+    expect(toResponsesToolChoice('required')).toBe('required');
+    expect(
+      toResponsesToolChoice({
+        type: 'function',
+        function: { name: 'read_file' },
+      }),
+    ).toEqual({ type: 'function', name: 'read_file' });
+  });
+});
+
+describe('rejectUncallableToolCalls', () => {
+  it('marks calls to tools that were not offered', () => {
+    const response = new GenerateContentResponse();
+    response.candidates = [
+      {
+        content: {
+          role: 'model',
+          parts: [
+            {
+              functionCall: {
+                id: '1',
+                name: 'read_file',
+                args: { path: 'a' },
+              },
+            },
+            {
+              functionCall: {
+                id: '2',
+                name: 'run_shell_command',
+                args: { command: 'ls' },
+              },
+            },
+          ],
+        },
+      },
+    ];
+
+    rejectUncallableToolCalls(
+      response,
+      resolveToolSelection(config(FunctionCallingConfigMode.AUTO)),
+    );
+
+    const [allowed, rejected] = response.candidates[0].content!.parts!;
+    expect(allowed.functionCall!.args).toEqual({ path: 'a' });
+    expect(getInvalidToolCall(rejected.functionCall!.args)).toEqual({
+      message:
+        'Tool "run_shell_command" is not available in this request. Call one of: read_file, write_file.',
+      rawArguments: '{"command":"ls"}',
+    });
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  FunctionCallingConfigMode,
+  type GenerateContentConfig,
+  type GenerateContentResponse,
+} from '@google/genai';
+import type OpenAI from 'openai';
+import { markInvalidToolCall } from '../tools/invalid-tool-call.js';
+import { extractToolFunctions, toToolCallArguments } from './util.js';
+
+type ChatCompletionTool = OpenAI.Chat.Completions.ChatCompletionTool;
+type ChatCompletionToolChoiceOption =
+  OpenAI.Chat.Completions.ChatCompletionToolChoiceOption;
+
+/**
+ * The tools sent with a request and how the model may use them.
+ */
+export interface ToolSelection {
+  tools: ChatCompletionTool[] | undefined;
+  toolChoice: ChatCompletionToolChoiceOption | undefined;
+  /** Names of the tools the model is allowed to call. */
+  callableNames: Set<string>;
+}
+
+/**
+ * Maps the Gemini `toolConfig.functionCallingConfig` of a request to OpenAI
+ * tools and `tool_choice`:
+ *
+ * - `NONE` keeps the tools but sets `tool_choice: 'none'`.
+ * - `ANY` sets `tool_choice: 'required'`, or forces the function when exactly
+ *   one is allowed.
+ * - `AUTO`, `VALIDATED` and no config use `tool_choice: 'auto'`.
+ *
+ * `allowedFunctionNames` limits the tools that are sent.
+ */
+export function resolveToolSelection(
+  config: GenerateContentConfig | undefined,
+): ToolSelection {
+  const tools = extractToolFunctions(config);
+  if (!tools) {
+    return { tools, toolChoice: undefined, callableNames: new Set() };
+  }
+  const callingConfig = config?.toolConfig?.functionCallingConfig;
+  if (callingConfig?.mode === FunctionCallingConfigMode.NONE) {
+    return { tools, toolChoice: 'none', callableNames: new Set() };
+  }
+
+  const allowed = callingConfig?.allowedFunctionNames;
+  const selected =
+    allowed && allowed.length > 0
+      ? tools.filter(
+          (tool) =>
+            tool.type === 'function' && allowed.includes(tool.function.name),
+        )
+      : tools;
+  if (selected.length === 0) {
+    return { tools, toolChoice: 'none', callableNames: new Set() };
+  }
+  const callableNames = new Set(selected.map(getToolName));
+
+  if (callingConfig?.mode === FunctionCallingConfigMode.ANY) {
+    const [only] = selected;
+    return {
+      tools: selected,
+      toolChoice:
+        selected.length === 1 && only.type === 'function'
+          ? { type: 'function', function: { name: only.function.name } }
+          : 'required',
+      callableNames,
+    };
+  }
+  return { tools: selected, toolChoice: 'auto', callableNames };
+}
+
+/**
+ * Converts a Chat Completions `tool_choice` to its Responses API form.
+ */
+export function toResponsesToolChoice(
+  toolChoice: ChatCompletionToolChoiceOption | undefined,
+): OpenAI.Responses.ResponseCreateParams['tool_choice'] {
+  if (toolChoice === undefined || typeof toolChoice === 'string') {
+    return toolChoice;
+  }
+  return toolChoice.type === 'function'
+    ? { type: 'function', name: toolChoice.function.name }
+    : 'auto';
+}
+
+/**
+ * Marks calls to tools the model was not allowed to call as invalid, so that
+ * they are answered with an error instead of being run.
+ */
+export function rejectUncallableToolCalls(
+  response: GenerateContentResponse,
+  selection: ToolSelection,
+): void {
+  for (const part of response.candidates?.[0]?.content?.parts ?? []) {
+    const functionCall = part.functionCall;
+    if (!functionCall?.name || selection.callableNames.has(functionCall.name)) {
+      continue;
+    }
+    const available = Array.from(selection.callableNames);
+    markInvalidToolCall(functionCall, {
+      message:
+        available.length > 0
+          ? `Tool "${functionCall.name}" is not available in this request. Call one of: ${available.join(', ')}.`
+          : `No tools are available in this request, so "${functionCall.name}" was not run. Answer without calling tools.`,
+      rawArguments: toToolCallArguments(functionCall.args ?? {}),
+    });
+  }
+}
+
+function getToolName(tool: ChatCompletionTool): string {
+  return tool.type === 'function' ? tool.function.name : tool.custom.name;
+}
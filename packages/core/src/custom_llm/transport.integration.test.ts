@@ -0,0 +1,214 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import http from 'node:http';
+import net from 'node:net';
+import type { AddressInfo } from 'node:net';
+import { APIConnectionTimeoutError } from 'openai';
+import { CustomLLMContentGenerator } from './index.js';
+import { resolveCustomLlmProvider } from './providers.js';
+import type { CustomLlmProviderConfig } from './types.js';
+import type { TransportOptions } from './transport.js';
+
+/**
+ * A chat completions server that stalls until the client goes away. Streamed
+ * requests get one chunk first; other requests get no response at all.
+ */
+function createSlowServer() {
+  const received: http.IncomingHttpHeaders[] = [];
+  let closedRequests = 0;
+  const server = http.createServer((req, res) => {
+    received.push(req.headers);
+    res.on('close', () => closedRequests++);
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      if (!(JSON.parse(body) as { stream?: boolean }).stream) {
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      res.write(
+        `data: ${JSON.stringify({
+          id: 'chatcmpl-1',
+          object: 'chat.completion.chunk',
+          created: 0,
+          model: 'qwen3-coder',
+          choices: [{ index: 0, delta: { content: 'Hel' } }],
+        })}\n\n`,
+      );
+    });
+  });
+  return {
+    server,
+    received,
+    closedRequests: () => closedRequests,
+  };
+}
+
+/**
+ * A forward proxy that tunnels CONNECT requests and counts them.
+ */
+function createTunnelProxy() {
+  let tunnels = 0;
+  const proxy = http.createServer((_req, res) => {
+    res.writeHead(405).end();
+  });
+  proxy.on('connect', (req, clientSocket: net.Socket, head) => {
+    tunnels++;
+    const [host, port] = (req.url ?? '').split(':');
+    const upstream = net.connect(Number(port), host, () => {
+      clientSocket.write('HTTP/1.1 200 Connection Established\r\n\r\n');
+      upstream.write(head);
+      upstream.pipe(clientSocket);
+      clientSocket.pipe(upstream);
+    });
+    upstream.on('error', () => clientSocket.destroy());
+    clientSocket.on('error', () => upstream.destroy());
+  });
+  return { proxy, tunnels: () => tunnels };
+}
+
+async function listen(server: http.Server): Promise<number> {
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  return (server.address() as AddressInfo).port;
+}
+
+async function close(server: http.Server): Promise<void> {
+  server.closeAllConnections();
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+}
+
+async function waitFor(condition: () => boolean): Promise<void> {
+  for (let i = 0; i < 100 && !condition(); i++) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+describe('CustomLLMContentGenerator against a slow server', () => {
+  let slow: ReturnType<typeof createSlowServer>;
+  let baseURL: string;
+  const servers: http.Server[] = [];
+
+  function createGenerator(
+    overrides: CustomLlmProviderConfig = {},
+    options: TransportOptions = {},
+  ) {
+    return new CustomLLMContentGenerator(
+      resolveCustomLlmProvider({
+        providers: {
+          local: { baseURL, model: 'qwen3-coder', ...overrides },
+        },
+      }),
+      options,
+    );
+  }
+
+  beforeEach(async () => {
+    slow = createSlowServer();
+    servers.push(slow.server);
+    baseURL = `http://127.0.0.1:${await listen(slow.server)}/v1`;
+  });
+
+  afterEach(async () => {
+    await Promise.all(servers.splice(0).map(close));
+  });
+
+  it('cancels an in-flight stream when the abort signal fires', async () => {
+    const controller = new AbortController();
+    const stream = await createGenerator().generateContentStream(
+      {
+        model: 'qwen3-coder',
+        contents: 'Hi',
+        config: { abortSignal: controller.signal },
+      },
+      'prompt-id',
+    );
+
+    const first = await stream.next();
+    expect(first.value?.candidates?.[0]?.content?.parts?.[0]?.text).toBe('Hel');
+
+    controller.abort();
+    await expect(stream.next()).rejects.toMatchObject({ name: 'AbortError' });
+    await waitFor(() => slow.closedRequests() === 1);
+    expect(slow.closedRequests()).toBe(1);
+  });
+
+  it('gives up on a request after the provider timeout', async () => {
+    const generator = createGenerator({ timeout: 200 });
+    const started = Date.now();
+
+    await expect(
+      generator.generateContent(
+        { model: 'qwen3-coder', contents: 'Hi' },
+        'prompt-id',
+      ),
+    ).rejects.toBeInstanceOf(APIConnectionTimeoutError);
+    expect(Date.now() - started).toBeLessThan(5000);
+  });
+
+  it('sends GEMINI_CLI_CUSTOM_HEADERS, provider headers and the user agent', async () => {
+    const controller = new AbortController();
+    const generator = createGenerator(
+      { headers: { 'X-Provider': 'provider', 'X-Shared': 'provider' } },
+      {
+        headers: { 'X-Custom': 'custom', 'X-Shared': 'custom' },
+        userAgent: 'GeminiCLI/test',
+      },
+    );
+
+    const stream = await generator.generateContentStream(
+      {
+        model: 'qwen3-coder',
+        contents: 'Hi',
+        config: { abortSignal: controller.signal },
+      },
+      'prompt-id',
+    );
+    await stream.next();
+    controller.abort();
+
+    expect(slow.received[0]).toMatchObject({
+      'x-custom': 'custom',
+      'x-provider': 'provider',
+      'x-shared': 'provider',
+      'user-agent': 'GeminiCLI/test',
+    });
+  });
+
+  it('connects through the configured proxy', async () => {
+    const { proxy, tunnels } = createTunnelProxy();
+    servers.push(proxy);
+    const proxyPort = await listen(proxy);
+    const controller = new AbortController();
+
+    const stream = await createGenerator(
+      {},
+      { proxy: `http://127.0.0.1:${proxyPort}` },
+    ).generateContentStream(
+      {
+        model: 'qwen3-coder',
+        contents: 'Hi',
+        config: { abortSignal: controller.signal },
+      },
+      'prompt-id',
+    );
+    const first = await stream.next();
+    controller.abort();
+
+    expect(first.value?.candidates?.[0]?.content?.parts?.[0]?.text).toBe('Hel');
+    expect(tunnels()).toBe(1);
+    expect(slow.received).toHaveLength(1);
+  });
+
+  it('fails with a clear error when the CA certificate cannot be read', () => {
+    expect(() =>
+      createGenerator({ caCertPath: '/nonexistent/ca.pem' }),
+    ).toThrow(
+      'Could not read the CA certificate "/nonexistent/ca.pem" of custom LLM provider "local"',
+    );
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { readFileSync } from 'node:fs';
+import type { ClientOptions } from 'openai';
+import {
+  Agent,
+  ProxyAgent,
+  fetch as undiciFetch,
+  type Dispatcher,
+} from 'undici';
+import { getErrorMessage } from '../utils/errors.js';
+import type { ResolvedCustomLlmProvider } from './types.js';
+
+/**
+ * Network settings that apply to every provider rather than to one.
+ */
+export interface TransportOptions {
+  /** Proxy URL from the `proxy` setting. */
+  proxy?: string;
+  /** Headers from `GEMINI_CLI_CUSTOM_HEADERS`. */
+  headers?: Record<string, string>;
+  userAgent?: string;
+}
+
+/**
+ * A `fetch` for requests to a provider outside the OpenAI client.
+ */
+export type ProviderFetch = (
+  url: string,
+  init: RequestInit,
+) => Promise<Response>;
+
+/**
+ * Builds the HTTP options of the OpenAI client for a provider: headers,
+ * timeout, and the proxy and CA certificate to connect with.
+ *
+ * Provider headers take precedence over `GEMINI_CLI_CUSTOM_HEADERS`. When
+ * neither a proxy nor a CA certificate is configured, requests go through the
+ * global `fetch`.
+ */
+export function toClientTransportOptions(
+  provider: ResolvedCustomLlmProvider,
+  options: TransportOptions,
+): Pick<
+  ClientOptions,
+  'defaultHeaders' | 'timeout' | 'fetch' | 'fetchOptions'
+> {
+  const dispatcher = createDispatcher(provider, options.proxy);
+  return {
+    defaultHeaders: getTransportHeaders(provider, options),
+    timeout: provider.timeout,
+    ...(dispatcher
+      ? {
+          fetch: undiciFetch as unknown as ClientOptions['fetch'],
+          fetchOptions: { dispatcher } as ClientOptions['fetchOptions'],
+        }
+      : {}),
+  };
+}
+
+/**
+ * Builds a `fetch` that sends the same headers as the OpenAI client and
+ * connects through the same proxy and CA certificate, for the provider's
+ * other endpoints such as tokenize.
+ */
+export function createProviderFetch(
+  provider: ResolvedCustomLlmProvider,
+  options: TransportOptions,
+): ProviderFetch {
+  const dispatcher = createDispatcher(provider, options.proxy);
+  const headers = getTransportHeaders(provider, options);
+  return (url, init) => {
+    const requestInit = {
+      ...init,
+      headers: { ...headers, ...(init.headers as Record<string, string>) },
+    };
+    if (!dispatcher) {
+      return fetch(url, requestInit);
+    }
+    return undiciFetch(url, {
+      ...(requestInit as Parameters<typeof undiciFetch>[1]),
+      dispatcher,
+    }) as unknown as Promise<Response>;
+  };
+}
+
+function getTransportHeaders(
+  provider: ResolvedCustomLlmProvider,
+  options: TransportOptions,
+): Record<string, string> {
+  return {
+    ...options.headers,
+    ...provider.headers,
+    ...(options.userAgent ? { 'User-Agent': options.userAgent } : {}),
+  };
+}
+
+function createDispatcher(
+  provider: ResolvedCustomLlmProvider,
+  proxy: string | undefined,
+): Dispatcher | undefined {
+  const ca = provider.caCertPath
+    ? readCaCert(provider.id, provider.caCertPath)
+    : undefined;
+  if (proxy) {
+    return new ProxyAgent({ uri: proxy, requestTls: ca ? { ca } : undefined });
+  }
+  return ca ? new Agent({ connect: { ca } }) : undefined;
+}
+
+function readCaCert(providerId: string, path: string): string {
+  try {
+    return readFileSync(path, 'utf-8');
+  } catch (error) {
+    throw new Error(
+      `Could not read the CA certificate "${path}" of custom LLM provider "${providerId}": ${getErrorMessage(error)}`,
+    );
+  }
+}
@@ -4,6 +4,10 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import type { FinishReason } from '@google/genai';
+import type OpenAI from 'openai';
+import type { ThinkTagParser } from './reasoning.js';
+
 /**
  * Custom LLM content generator configuration.
  */
@@ -17,6 +21,182 @@ export interface CustomLLMContentGeneratorConfig {
   };
 }
 
+/**
+ * How to handle inline or file attachments whose MIME type cannot be sent to
+ * an OpenAI-compatible provider: replace them with a short text placeholder,
+ * or fail the request.
+ */
+export type UnsupportedMediaMode = 'placeholder' | 'error';
+
+/**
+ * Whether reasoning from earlier assistant turns is sent back to the provider
+ * as `reasoning_content` or dropped from the request.
+ */
+export type ReasoningHistoryMode = 'send' | 'strip';
+
+/**
+ * How the Gemini thinking config is forwarded to the provider: not at all,
+ * as an OpenAI `reasoning_effort`, or as the `enable_thinking` chat template
+ * flag understood by Qwen-style templates on vLLM and SGLang.
+ */
+export type ReasoningControl = 'none' | 'reasoning_effort' | 'enable_thinking';
+
+/**
+ * Tokenizer used to count tokens locally: picked from the model name
+ * (`auto`), a specific bundled BPE encoding, or the word-based heuristic.
+ */
+export type TokenizerSetting =
+  | 'auto'
+  | 'cl100k_base'
+  | 'o200k_base'
+  | 'heuristic';
+
+/**
+ * Which OpenAI API the provider is called through: Chat Completions
+ * (`/chat/completions`) or Responses (`/responses`).
+ */
+export type WireApi = 'chat' | 'responses';
+
+/**
+ * How JSON output (Gemini `responseMimeType: 'application/json'`) is requested
+ * from the provider: as an OpenAI `json_schema` response format, as JSON mode
+ * (`json_object`) with the schema described in the prompt, or through the
+ * prompt alone for providers without either.
+ */
+export type StructuredOutputMode = 'json_schema' | 'json_object' | 'none';
+
+/**
+ * How tools are offered to the model: through native function calling, or
+ * described in the system prompt and called by writing `<tool_call>` blocks,
+ * for servers without function calling.
+ */
+export type ToolCallingMode = 'native' | 'text';
+
+/**
+ * Where the system instruction is sent: as a `system` message, or at the
+ * start of the first user message for chat templates that reject the system
+ * role.
+ */
+export type SystemPromptPlacement = 'system' | 'user';
+
+/**
+ * What a custom model can do. Model resolution, token limits, tool
+ * declarations and prompts adapt to it.
+ */
+export interface ModelCapabilities {
+  /** Context window of the model, in tokens. */
+  contextWindow: number;
+  /** Largest number of tokens the model can generate in one response. */
+  maxOutputTokens: number;
+  /** Whether the model accepts images. */
+  vision: boolean;
+  /** Whether the model supports function calling. */
+  tools: boolean;
+  /** Whether the model produces reasoning. */
+  reasoning: boolean;
+  /** Whether the provider accepts a `json_schema` response format. */
+  jsonSchema: boolean;
+}
+
+/**
+ * Capabilities configured for a provider's model. Unset values come from the
+ * built-in profile of the model, if there is one.
+ */
+export type CustomLlmCapabilitiesConfig = Partial<
+  Omit<ModelCapabilities, 'contextWindow'>
+>;
+
+export interface CustomLlmReasoningConfig {
+  history?: ReasoningHistoryMode;
+  control?: ReasoningControl;
+}
+
+/**
+ * How chat messages are shaped for servers with strict chat templates.
+ */
+export interface CustomLlmMessagesConfig {
+  systemPrompt?: SystemPromptPlacement;
+  /**
+   * Whether consecutive messages of the same role are merged into one, for
+   * templates that require user and assistant turns to alternate.
+   */
+  mergeConsecutive?: boolean;
+}
+
+/**
+ * How requests are shaped so that providers can reuse their cached prompt
+ * prefix across turns.
+ */
+export interface CustomLlmPromptCacheConfig {
+  /**
+   * Whether tools are sent sorted by name, so that the prompt prefix stays
+   * the same whatever order the tools were registered in. Defaults to true.
+   */
+  stablePrefix?: boolean;
+  /**
+   * Whether the system prompt and the latest message are marked as cache
+   * breakpoints with `cache_control`, for gateways that pass them on to
+   * Anthropic models. Chat Completions only. Defaults to false.
+   */
+  cacheControl?: boolean;
+  /** Whether the session ID is sent as `prompt_cache_key`. Defaults to false. */
+  cacheKey?: boolean;
+  /**
+   * Header that carries the session ID, so that a load balancer can keep
+   * routing a session to the replica that holds its cached prefix.
+   */
+  sessionHeader?: string;
+}
+
+/**
+ * Options for converting Gemini contents to OpenAI chat messages.
+ */
+export interface MessageConversionOptions {
+  unsupportedMedia?: UnsupportedMediaMode;
+  /** Whether images are sent as images. Defaults to true. */
+  vision?: boolean;
+  reasoningHistory?: ReasoningHistoryMode;
+  /** Where the system instruction goes. Defaults to a `system` message. */
+  systemPrompt?: SystemPromptPlacement;
+  /** Whether consecutive messages of the same role are merged. */
+  mergeConsecutive?: boolean;
+}
+
+/**
+ * A repair applied to tool call arguments that are not valid JSON: removing
+ * a Markdown code fence, removing trailing commas, escaping quotes and
+ * control characters inside strings, or completing truncated arguments.
+ */
+export type ToolArgumentsRepair =
+  | 'code_fence'
+  | 'trailing_comma'
+  | 'unescaped_characters'
+  | 'truncation';
+
+/**
+ * An attempt to repair the arguments of a tool call.
+ */
+export interface ToolArgumentsRepairAttempt {
+  toolName: string;
+  repairs: ToolArgumentsRepair[];
+  /** Whether the repaired arguments could be parsed. */
+  success: boolean;
+}
+
+export type ToolArgumentsRepairListener = (
+  attempt: ToolArgumentsRepairAttempt,
+) => void;
+
+/**
+ * Options for converting provider responses to Gemini responses.
+ */
+export interface ResponseConversionOptions {
+  /** Whether thought parts are emitted (Gemini `includeThoughts`). */
+  includeThoughts?: boolean;
+  /** Called for each tool call whose arguments had to be repaired. */
+  onToolArgumentsRepair?: ToolArgumentsRepairListener;
+}
+
 /**
  * Tool call data structure for streaming.
  */
@@ -30,3 +210,143 @@ export interface ToolCallData {
  * Map for tracking tool calls during streaming.
  */
 export type ToolCallMap = Map<number, ToolCallData>;
+
+/**
+ * Everything the converter tracks across the chunks of one streamed response.
+ */
+export interface StreamState {
+  toolCalls: ToolCallMap;
+  onToolArgumentsRepair?: ToolArgumentsRepairListener;
+  thinkParser: ThinkTagParser;
+  /** Whether thought parts are emitted (Gemini `includeThoughts`). */
+  includeThoughts: boolean;
+  /** Reasoning received but not yet emitted as a thought part. */
+  pendingThought: string;
+  /** All reasoning received for this response. */
+  reasoning: string;
+  /** Whether the reasoning has been attached as a `thoughtSignature`. */
+  reasoningAttached: boolean;
+  /**
+   * Finish reason of the choice. It is reported with the final response so
+   * that it arrives together with the usage sent after it.
+   */
+  finishReason?: FinishReason;
+  /** Usage reported by the provider (`stream_options.include_usage`). */
+  usage?: OpenAI.CompletionUsage;
+}
+
+/**
+ * Everything the Responses converter tracks across the events of one streamed
+ * response.
+ */
+export interface ResponsesStreamState {
+  /** Whether thought parts are emitted (Gemini `includeThoughts`). */
+  includeThoughts: boolean;
+  onToolArgumentsRepair?: ToolArgumentsRepairListener;
+  /** Reasoning received but not yet emitted as a thought part. */
+  pendingThought: string;
+  /** Completed reasoning items, replayed in later turns via a signature. */
+  reasoning: OpenAI.Responses.ResponseReasoningItem[];
+  reasoningAttached: boolean;
+}
+
+/**
+ * A single OpenAI-compatible backend as configured under
+ * `customLlm.providers` in settings.
+ */
+export interface CustomLlmProviderConfig {
+  /** Human-readable label shown in the footer and `/provider` listings. */
+  displayName?: string;
+  /** Base URL of the OpenAI-compatible API, e.g. `http://localhost:8000/v1`. */
+  baseURL?: string;
+  /** Name of the environment variable that holds the API key. */
+  apiKeyEnv?: string;
+  /** Model sent to the provider when a request does not specify one. */
+  model?: string;
+  /**
+   * Models that serve particular roles instead of `model`, keyed by role
+   * (`pro`, `flash`, `flash-lite`), purpose (`summarizer`, `classifier`, ...)
+   * or model config alias.
+   */
+  models?: Record<string, string>;
+  /** Extra HTTP headers sent with every request to this provider. */
+  headers?: Record<string, string>;
+  /** Time after which a request is abandoned, in milliseconds. */
+  timeout?: number;
+  /** PEM file of the CA that signed the provider's TLS certificate. */
+  caCertPath?: string;
+  /** API used for generation requests. Defaults to `chat`. */
+  wireApi?: WireApi;
+  /**
+   * Whether the model may return several tool calls in one response. Sent as
+   * `parallel_tool_calls` when set; the provider's default applies otherwise.
+   */
+  parallelToolCalls?: boolean;
+  /** How tools are offered to the model. Defaults to `native`. */
+  toolCalling?: ToolCallingMode;
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  /** What to do with attachments the provider cannot accept. */
+  unsupportedMedia?: UnsupportedMediaMode;
+  /**
+   * How JSON output is requested. Defaults to `json_schema`, or `json_object`
+   * for models without JSON schema support.
+   */
+  structuredOutput?: StructuredOutputMode;
+  reasoning?: CustomLlmReasoningConfig;
+  messages?: CustomLlmMessagesConfig;
+  promptCache?: CustomLlmPromptCacheConfig;
+  /** Context window of the model, in tokens. */
+  contextWindow?: number;
+  capabilities?: CustomLlmCapabilitiesConfig;
+  tokenizer?: TokenizerSetting;
+  /** Tokenize endpoint of the server (vLLM, SGLang, llama.cpp), if any. */
+  tokenizeURL?: string;
+  /** Model used for `/embeddings` requests. Embeddings fail without one. */
+  embeddingModel?: string;
+  /** Maximum number of inputs sent in one `/embeddings` request. */
+  embeddingBatchSize?: number;
+}
+
+/**
+ * The `customLlm` settings section.
+ */
+export interface CustomLlmSettings {
+  /** Id of the provider to use when none was selected for the session. */
+  provider?: string;
+  providers?: Record<string, CustomLlmProviderConfig>;
+}
+
+/**
+ * A provider with every value resolved (environment lookups applied and
+ * defaults filled in), ready to construct a content generator from.
+ */
+export interface ResolvedCustomLlmProvider {
+  id: string;
+  displayName?: string;
+  baseURL: string;
+  apiKey: string;
+  model: string;
+  models: Record<string, string>;
+  headers: Record<string, string>;
+  timeout?: number;
+  caCertPath?: string;
+  wireApi: WireApi;
+  parallelToolCalls?: boolean;
+  toolCalling: ToolCallingMode;
+  temperature: number;
+  maxTokens: number;
+  topP: number;
+  unsupportedMedia: UnsupportedMediaMode;
+  structuredOutput: StructuredOutputMode;
+  reasoning: Required<CustomLlmReasoningConfig>;
+  messages: Required<CustomLlmMessagesConfig>;
+  promptCache: Required<Omit<CustomLlmPromptCacheConfig, 'sessionHeader'>> &
+    Pick<CustomLlmPromptCacheConfig, 'sessionHeader'>;
+  capabilities: ModelCapabilities;
+  tokenizer: TokenizerSetting;
+  tokenizeURL?: string;
+  embeddingModel?: string;
+  embeddingBatchSize: number;
+}
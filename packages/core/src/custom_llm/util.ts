@@ -9,9 +9,12 @@ import type {
   Part,
   Content,
   ContentListUnion,
+  ContentUnion,
   GenerateContentConfig,
+  PartUnion,
 } from '@google/genai';
 import { debugLogger } from '../utils/debugLogger.js';
+import { getInvalidToolCall } from '../tools/invalid-tool-call.js';
 
 export function isValidFunctionCall(part: Part): part is {
   functionCall: { name: string; args: Record<string, unknown>; id: string };
@@ -33,6 +36,19 @@ export function isValidFunctionCall(part: Part): part is {
   );
 }
 
+/**
+ * Serializes the arguments of a tool call from the history. Calls that were
+ * rejected as invalid are sent back with the arguments the model originally
+ * produced, so that it can see what it got wrong.
+ */
+export function toToolCallArguments(args: Record<string, unknown>): string {
+  const invalid = getInvalidToolCall(args);
+  if (invalid) {
+    return invalid.rawArguments ?? '{}';
+  }
+  return JSON.stringify(args);
+}
+
 /**
  * Type guard for function response parts.
  */
@@ -41,6 +57,7 @@ export function isValidFunctionResponse(part: Part): part is {
     id: string;
     name: string;
     response: { output?: string; error?: string };
+    parts?: Part[];
   };
 } {
   if (typeof part !== 'object' || part === null) {
@@ -117,7 +134,7 @@ export function extractJsonFromLLMOutput(output: string): unknown {
  * Convert any `type` values in a JSON schema to lowercase to satisfy providers
  * that expect lowercase type declarations.
  */
-function convertTypeValuesToLowerCase(obj: unknown): unknown {
+export function convertTypeValuesToLowerCase(obj: unknown): unknown {
   if (Array.isArray(obj)) {
     return obj.map((item) => convertTypeValuesToLowerCase(item));
   }
@@ -209,6 +226,33 @@ export function normalizeContents(contents: ContentListUnion): Content[] {
   ];
 }
 
+/**
+ * Returns the text of a system instruction in any of its forms: a string, a
+ * `Content`, a single `Part` or a list of parts. Text parts are joined with
+ * newlines; thoughts and non-text parts are dropped.
+ */
+export function toSystemInstructionText(
+  systemInstruction: ContentUnion | undefined,
+): string {
+  if (!systemInstruction) {
+    return '';
+  }
+  if (typeof systemInstruction === 'string') {
+    return systemInstruction;
+  }
+  const parts: PartUnion[] = Array.isArray(systemInstruction)
+    ? systemInstruction
+    : isContent(systemInstruction)
+      ? (systemInstruction.parts ?? [])
+      : [systemInstruction];
+  return parts
+    .map((part) =>
+      typeof part === 'string' ? part : part.thought ? '' : (part.text ?? ''),
+    )
+    .filter(Boolean)
+    .join('\n');
+}
+
 function isContent(value: unknown): value is Content {
   return typeof value === 'object' && value !== null && 'parts' in value;
 }
@@ -42,6 +42,29 @@ export * from './scheduler/types.js';
 export * from './scheduler/tool-executor.js';
 export * from './core/recordingContentGenerator.js';
 
+// Export custom LLM provider configuration
+export type {
+  CustomLlmProviderConfig,
+  CustomLlmSettings,
+  ModelCapabilities,
+  ResolvedCustomLlmProvider,
+} from './custom_llm/types.js';
+export * from './custom_llm/providers.js';
+export * from './custom_llm/capabilities.js';
+
+// Export Anthropic Messages API configuration
+export type { ResolvedAnthropicConfig } from './anthropic/types.js';
+export * from './anthropic/config.js';
+
+// Export Ollama configuration and model management
+export type {
+  OllamaModel,
+  OllamaPullProgress,
+  ResolvedOllamaConfig,
+} from './ollama/types.js';
+export * from './ollama/config.js';
+export { listOllamaModels, pullOllamaModel } from './ollama/api.js';
+
 export * from './fallback/types.js';
 
 export * from './code_assist/codeAssist.js';
@@ -124,6 +147,7 @@ export * from './services/shellExecutionService.js';
 // Export base tool definitions
 export * from './tools/tools.js';
 export * from './tools/tool-error.js';
+export * from './tools/invalid-tool-call.js';
 export * from './tools/tool-registry.js';
 export * from './tools/tool-names.js';
 export * from './resources/resource-registry.js';
@@ -0,0 +1,83 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { http, HttpResponse } from 'msw';
+import { server } from '../mocks/msw.js';
+import { listOllamaModels, pullOllamaModel } from './api.js';
+import type { OllamaPullProgress } from './types.js';
+
+const HOST = 'http://localhost:11434';
+
+function toJsonLines(lines: object[]): string {
+  return lines.map((line) => `${JSON.stringify(line)}\n`).join('');
+}
+
+beforeAll(() => {
+  server.listen({ onUnhandledRequest: 'error' });
+});
+
+afterEach(() => {
+  server.resetHandlers();
+});
+
+afterAll(() => {
+  server.close();
+});
+
+describe('Ollama model management', () => {
+  it('lists installed models', async () => {
+    server.resetHandlers(
+      http.get(`${HOST}/api/tags`, () =>
+        HttpResponse.json({
+          models: [{ name: 'qwen3:8b', size: 5_000_000_000 }],
+        }),
+      ),
+    );
+
+    await expect(listOllamaModels(HOST)).resolves.toEqual([
+      { name: 'qwen3:8b', size: 5_000_000_000 },
+    ]);
+  });
+
+  it('reports pull progress and fails on error lines', async () => {
+    server.resetHandlers(
+      http.post(
+        `${HOST}/api/pull`,
+        () =>
+          new HttpResponse(
+            toJsonLines([
+              { status: 'pulling manifest' },
+              { status: 'pulling abc', total: 100, completed: 50 },
+              { status: 'success' },
+            ]),
+          ),
+      ),
+    );
+    const progress: OllamaPullProgress[] = [];
+    await pullOllamaModel(HOST, 'qwen3:8b', (update) => progress.push(update));
+    expect(progress.map((update) => update.status)).toEqual([
+      'pulling manifest',
+      'pulling abc',
+      'success',
+    ]);
+
+    server.resetHandlers(
+      http.post(
+        `${HOST}/api/pull`,
+        () =>
+          new HttpResponse(
+            toJsonLines([
+              { error: 'pull model manifest: file does not exist' },
+            ]),
+          ),
+      ),
+    );
+    await expect(pullOllamaModel(HOST, 'nope', () => {})).rejects.toThrow(
+      'Pulling nope failed: pull model manifest: file does not exist',
+    );
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as readline from 'node:readline';
+import { Readable } from 'node:stream';
+import type { ReadableStream as WebReadableStream } from 'node:stream/web';
+import { OllamaApiError } from './converter.js';
+import type { OllamaModel, OllamaPullProgress } from './types.js';
+
+/**
+ * Sends a request to the Ollama server.
+ *
+ * @throws OllamaApiError for non-OK responses.
+ */
+export async function ollamaRequest(
+  host: string,
+  path: string,
+  init: { body?: object; signal?: AbortSignal; userAgent?: string } = {},
+): Promise<Response> {
+  const response = await fetch(`${host}${path}`, {
+    method: init.body ? 'POST' : 'GET',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(init.userAgent ? { 'User-Agent': init.userAgent } : {}),
+    },
+    body: init.body ? JSON.stringify(init.body) : undefined,
+    signal: init.signal,
+  });
+  if (!response.ok) {
+    const text = await response.text();
+    let message = text || response.statusText;
+    try {
+      message = (JSON.parse(text) as { error?: string }).error ?? message;
+    } catch {
+      // Not JSON; keep the raw body.
+    }
+    throw new OllamaApiError(
+      `Ollama request failed with status ${response.status}: ${message}`,
+      response.status,
+    );
+  }
+  return response;
+}
+
+/**
+ * Parses a newline-delimited JSON response body, which Ollama uses for all of
+ * its streaming endpoints.
+ */
+export async function* readJsonLines<T>(
+  body: ReadableStream<Uint8Array> | null,
+): AsyncGenerator<T> {
+  if (!body) {
+    throw new Error('Ollama returned an empty stream.');
+  }
+  const rl = readline.createInterface({
+    input: Readable.fromWeb(body as WebReadableStream<Uint8Array>),
+    crlfDelay: Infinity,
+  });
+  for await (const line of rl) {
+    if (line.trim()) {
+      yield JSON.parse(line) as T;
+    }
+  }
+}
+
+/**
+ * Lists the models installed on the Ollama server (`/api/tags`).
+ */
+export async function listOllamaModels(
+  host: string,
+  signal?: AbortSignal,
+): Promise<OllamaModel[]> {
+  const response = await ollamaRequest(host, '/api/tags', { signal });
+  const { models } = (await response.json()) as { models?: OllamaModel[] };
+  return models ?? [];
+}
+
+/**
+ * Downloads a model to the Ollama server (`/api/pull`), reporting each
+ * progress update as it arrives.
+ *
+ * @throws OllamaApiError if the pull fails.
+ */
+export async function pullOllamaModel(
+  host: string,
+  model: string,
+  onProgress: (progress: OllamaPullProgress) => void,
+  signal?: AbortSignal,
+): Promise<void> {
+  const response = await ollamaRequest(host, '/api/pull', {
+    body: { model, stream: true },
+    signal,
+  });
+  for await (const progress of readJsonLines<
+    OllamaPullProgress & { error?: string }
+  >(response.body)) {
+    if (progress.error) {
+      throw new OllamaApiError(
+        `Pulling ${model} failed: ${progress.error}`,
+        undefined,
+      );
+    }
+    onProgress(progress);
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { ResolvedOllamaConfig } from './types.js';
+
+const DEFAULT_HOST = 'http://localhost:11434';
+const DEFAULT_CONTEXT_WINDOW = 32_768;
+
+/**
+ * Resolves the Ollama settings from the environment: `OLLAMA_MODEL`
+ * (required unless `model` is given), `OLLAMA_HOST`, `OLLAMA_KEEP_ALIVE`,
+ * `OLLAMA_CONTEXT_WINDOW` and `OLLAMA_MAX_TOKENS`.
+ *
+ * @param model Model selected for the session, which takes precedence over
+ *     `OLLAMA_MODEL`.
+ * @throws If no model is set.
+ */
+export function resolveOllamaConfig(model?: string): ResolvedOllamaConfig {
+  const resolvedModel = model?.trim() || process.env['OLLAMA_MODEL']?.trim();
+  if (!resolvedModel) {
+    throw new Error(
+      'OLLAMA_MODEL environment variable not found. Add that to your environment (e.g. .env) and try again!',
+    );
+  }
+  const maxTokens = process.env['OLLAMA_MAX_TOKENS'];
+
+  return {
+    host: toBaseURL(process.env['OLLAMA_HOST'] || DEFAULT_HOST),
+    model: resolvedModel,
+    keepAlive: process.env['OLLAMA_KEEP_ALIVE']?.trim() || undefined,
+    contextWindow: Number(
+      process.env['OLLAMA_CONTEXT_WINDOW'] || DEFAULT_CONTEXT_WINDOW,
+    ),
+    maxTokens: maxTokens ? Number(maxTokens) : undefined,
+  };
+}
+
+/**
+ * `OLLAMA_HOST` is shared with the Ollama CLI, which also accepts a bare
+ * `host:port`.
+ */
+function toBaseURL(host: string): string {
+  const withScheme = /^https?:\/\//.test(host) ? host : `http://${host}`;
+  return withScheme.replace(/\/+$/, '');
+}
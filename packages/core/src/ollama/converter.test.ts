@@ -0,0 +1,253 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { FinishReason } from '@google/genai';
+import { OllamaConverter } from './converter.js';
+import type { ResolvedOllamaConfig } from './types.js';
+
+const config: ResolvedOllamaConfig = {
+  host: 'http://localhost:11434',
+  model: 'qwen3:8b',
+  keepAlive: '30m',
+  contextWindow: 32_768,
+};
+
+describe('OllamaConverter.toChatRequest', () => {
+  it('converts tools, images and a tool round trip', () => {
+    const result = OllamaConverter.toChatRequest(
+      {
+        model: 'gemini-2.5-pro',
+        contents: [
+          {
+            role: 'user',
+            parts: [
+              { text: 'What is in this image?' },
+              { inlineData: { mimeType: 'image/png', data: 'AAAA' } },
+            ],
+          },
+          {
+            role: 'model',
+            parts: [
+              { text: 'Let me check.', thought: true },
+              {
+                functionCall: {
+                  id: 'call_1',
+                  name: 'read_file',
+                  args: { path: 'a.txt' },
+                },
+              },
+            ],
+          },
+          {
+            role: 'user',
+            parts: [
+              {
+                functionResponse: {
+                  id: 'call_1',
+                  name: 'read_file',
+                  response: { output: 'hello' },
+                },
+              },
+            ],
+          },
+        ],
+        config: {
+          systemInstruction: 'You are helpful.',
+          temperature: 0.1,
+          thinkingConfig: { thinkingBudget: 0 },
+          tools: [
+            {
+              functionDeclarations: [
+                {
+                  name: 'read_file',
+                  description: 'Reads a file.',
+                  parametersJsonSchema: {
+                    type: 'object',
+                    properties: { path: { type: 'string' } },
+                  },
+                },
+              ],
+            },
+          ],
+        },
+      },
+      config,
+    );
+
+    expect(result).toEqual({
+      model: 'qwen3:8b',
+      messages: [
+        { role: 'system', content: 'You are helpful.' },
+        { role: 'user', content: 'What is in this image?', images: ['AAAA'] },
+        {
+          role: 'assistant',
+          content: '',
+          tool_calls: [
+            { function: { name: 'read_file', arguments: { path: 'a.txt' } } },
+          ],
+        },
+        { role: 'tool', tool_name: 'read_file', content: 'hello' },
+      ],
+      tools: [
+        {
+          type: 'function',
+          function: {
+            name: 'read_file',
+            description: 'Reads a file.',
+            parameters: {
+              type: 'object',
+              properties: { path: { type: 'string' } },
+            },
+          },
+        },
+      ],
+      stream: false,
+      think: false,
+      keep_alive: '30m',
+      options: {
+        temperature: 0.1,
+        top_p: undefined,
+        num_ctx: 32_768,
+        num_predict: undefined,
+        stop: undefined,
+      },
+    });
+  });
+
+  it('replaces attachments Ollama cannot accept with a placeholder', () => {
+    const [message] = OllamaConverter.toMessages({
+      model: 'gemini-2.5-pro',
+      contents: [
+        {
+          role: 'user',
+          parts: [
+            {
+              inlineData: {
+                mimeType: 'application/pdf',
+                data: 'AAAA',
+                displayName: 'report.pdf',
+              },
+            },
+          ],
+        },
+      ],
+    });
+
+    expect(message).toEqual({
+      role: 'user',
+      content:
+        '[Attachment omitted: report.pdf (application/pdf) is not supported by this provider]',
+    });
+  });
+});
+
+describe('OllamaConverter.toGeminiResponse', () => {
+  it('converts thinking, content and tool calls', () => {
+    const response = OllamaConverter.toGeminiResponse({
+      model: 'qwen3:8b',
+      done: true,
+      done_reason: 'stop',
+      message: {
+        role: 'assistant',
+        thinking: 'The user wants a file.',
+        content: 'Reading it.',
+        tool_calls: [
+          { function: { name: 'read_file', arguments: { path: 'a.txt' } } },
+        ],
+      },
+      prompt_eval_count: 20,
+      eval_count: 7,
+    });
+
+    const parts = response.candidates![0].content!.parts!;
+    expect(parts.slice(0, 2)).toEqual([
+      { text: 'The user wants a file.', thought: true },
+      { text: 'Reading it.' },
+    ]);
+    expect(parts[2].functionCall).toEqual({
+      id: expect.stringMatching(/^read_file-/),
+      name: 'read_file',
+      args: { path: 'a.txt' },
+    });
+    expect(response.functionCalls).toHaveLength(1);
+    expect(response.candidates![0].finishReason).toBe(FinishReason.STOP);
+    expect(response.usageMetadata).toEqual({
+      promptTokenCount: 20,
+      candidatesTokenCount: 7,
+      totalTokenCount: 27,
+    });
+  });
+
+  it('splits inline <think> blocks and maps length to MAX_TOKENS', () => {
+    const response = OllamaConverter.toGeminiResponse({
+      model: 'deepseek-r1',
+      done: true,
+      done_reason: 'length',
+      message: { role: 'assistant', content: '<think>Hmm.</think>Answer' },
+    });
+
+    expect(response.candidates![0].content!.parts).toEqual([
+      { text: 'Hmm.', thought: true },
+      { text: 'Answer' },
+    ]);
+    expect(response.candidates![0].finishReason).toBe(FinishReason.MAX_TOKENS);
+  });
+});
+
+describe('OllamaConverter.processStreamChunk', () => {
+  it('streams thoughts and text, then the finish reason and usage', () => {
+    const state = OllamaConverter.createStreamState();
+    const responses = [
+      { thinking: 'First.\n\nSec' },
+      { thinking: 'ond.' },
+      { content: 'Hel' },
+      { content: 'lo' },
+    ]
+      .map((message) =>
+        OllamaConverter.processStreamChunk(
+          {
+            model: 'qwen3:8b',
+            done: false,
+            message: { role: 'assistant', content: '', ...message },
+          },
+          state,
+        ),
+      )
+      .filter((response) => response !== undefined);
+    const last = OllamaConverter.processStreamChunk(
+      {
+        model: 'qwen3:8b',
+        done: true,
+        done_reason: 'stop',
+        message: { role: 'assistant', content: '' },
+        prompt_eval_count: 5,
+        eval_count: 3,
+      },
+      state,
+    );
+
+    expect(
+      responses.flatMap((response) => response.candidates![0].content!.parts),
+    ).toEqual([
+      { text: 'First.', thought: true },
+      { text: 'Second.', thought: true },
+      { text: 'Hel' },
+      { text: 'lo' },
+    ]);
+    expect(last?.candidates![0].finishReason).toBe(FinishReason.STOP);
+    expect(last?.usageMetadata?.totalTokenCount).toBe(8);
+  });
+
+  it('throws for error lines', () => {
+    expect(() =>
+      OllamaConverter.processStreamChunk(
+        { model: 'qwen3:8b', done: false, error: 'out of memory' },
+        OllamaConverter.createStreamState(),
+      ),
+    ).toThrow('Ollama stream error: out of memory');
+  });
+});
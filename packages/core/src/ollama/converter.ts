@@ -0,0 +1,380 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  FinishReason,
+  type FunctionCall,
+  type GenerateContentParameters,
+  type GenerateContentResponse,
+  type GenerateContentResponseUsageMetadata,
+  type Part,
+} from '@google/genai';
+import {
+  extractToolFunctions,
+  isValidFunctionCall,
+  isValidFunctionResponse,
+  normalizeContents,
+  toSystemInstructionText,
+} from '../custom_llm/util.js';
+import {
+  buildStreamResponse,
+  toMediaContentPart,
+} from '../custom_llm/converter.js';
+import {
+  ThinkTagParser,
+  takeCompleteParagraphs,
+  type ReasoningSegment,
+} from '../custom_llm/reasoning.js';
+import type { MessageConversionOptions } from '../custom_llm/types.js';
+import type {
+  OllamaChatRequest,
+  OllamaChatResponse,
+  OllamaMessage,
+  OllamaStreamState,
+  OllamaToolCall,
+  ResolvedOllamaConfig,
+} from './types.js';
+
+/**
+ * Error reported by the Ollama server. Carries the HTTP status so that the
+ * usual retry handling applies.
+ */
+export class OllamaApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number | undefined,
+  ) {
+    super(message);
+    this.name = 'OllamaApiError';
+  }
+}
+
+export class OllamaConverter {
+  /**
+   * Convert a Gemini request to an `/api/chat` request.
+   */
+  static toChatRequest(
+    request: GenerateContentParameters,
+    config: ResolvedOllamaConfig,
+    options: MessageConversionOptions = {},
+  ): OllamaChatRequest {
+    const requestConfig = request.config;
+    const tools = extractToolFunctions(requestConfig)?.flatMap((tool) =>
+      tool.type === 'function'
+        ? [{ type: 'function' as const, function: tool.function }]
+        : [],
+    );
+    const budget = requestConfig?.thinkingConfig?.thinkingBudget;
+
+    return {
+      model: config.model,
+      messages: this.toMessages(request, options),
+      tools: tools && tools.length > 0 ? tools : undefined,
+      stream: false,
+      think: budget === undefined ? undefined : budget !== 0,
+      keep_alive: config.keepAlive,
+      options: {
+        temperature: requestConfig?.temperature,
+        top_p: requestConfig?.topP,
+        num_ctx: config.contextWindow,
+        num_predict: requestConfig?.maxOutputTokens ?? config.maxTokens,
+        stop: requestConfig?.stopSequences,
+      },
+    };
+  }
+
+  /**
+   * Convert Gemini contents to Ollama chat messages.
+   */
+  static toMessages(
+    request: GenerateContentParameters,
+    options: MessageConversionOptions = {},
+  ): OllamaMessage[] {
+    const messages: OllamaMessage[] = [];
+    const systemText = toSystemInstructionText(
+      request.config?.systemInstruction,
+    );
+    if (systemText) {
+      messages.push({ role: 'system', content: systemText });
+    }
+
+    for (const content of normalizeContents(request.contents)) {
+      const parts = content.parts ?? [];
+      if (content.role === 'model') {
+        const toolCalls: OllamaToolCall[] = parts
+          .filter(isValidFunctionCall)
+          .map((part) => ({
+            function: {
+              name: part.functionCall.name,
+              arguments: part.functionCall.args,
+            },
+          }));
+        const text = parts
+          .filter((part) => !part.thought && typeof part.text === 'string')
+          .map((part) => part.text)
+          .join('\n');
+        if (text || toolCalls.length > 0) {
+          messages.push({
+            role: 'assistant',
+            content: text,
+            ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+          });
+        }
+        continue;
+      }
+
+      // Tool results must directly follow the assistant message carrying the
+      // tool calls, so they go before any user text or attachments.
+      const attachments: OllamaMessage[] = [];
+      for (const part of parts.filter(isValidFunctionResponse)) {
+        const { name, response } = part.functionResponse;
+        messages.push({
+          role: 'tool',
+          tool_name: name,
+          content: response.error
+            ? `Error: ${response.error}`
+            : (response.output ?? ''),
+        });
+        // Tool messages only accept text, so media returned by the tool is
+        // forwarded in a user message that follows the tool results.
+        const media = (part.functionResponse.parts ?? []).filter(
+          (nested) => nested.inlineData || nested.fileData,
+        );
+        if (media.length > 0) {
+          attachments.push(
+            toUserMessage(
+              [{ text: `Attachments returned by the ${name} tool:` }, ...media],
+              options,
+            ),
+          );
+        }
+      }
+      messages.push(...attachments);
+
+      const userParts = parts.filter(
+        (part) =>
+          !part.thought &&
+          (typeof part.text === 'string' || part.inlineData || part.fileData),
+      );
+      if (userParts.length > 0) {
+        const message = toUserMessage(userParts, options);
+        messages.push(
+          content.role === 'system'
+            ? { role: 'system', content: message.content }
+            : message,
+        );
+      }
+    }
+    return messages;
+  }
+
+  /**
+   * Convert an `/api/chat` response to a Gemini response.
+   */
+  static toGeminiResponse(
+    response: OllamaChatResponse,
+    options: { includeThoughts?: boolean } = {},
+  ): GenerateContentResponse {
+    const state = this.createStreamState(options);
+    const message = response.message;
+    const parts: Part[] = [];
+    if (message?.thinking) {
+      pushThought(state, parts, message.thinking.trim());
+    }
+    const parser = new ThinkTagParser();
+    emitSegments(state, parts, [
+      ...parser.push(message?.content ?? ''),
+      ...parser.flush(),
+    ]);
+    flushPendingThought(state, parts);
+    const functionCalls = toFunctionCalls(message?.tool_calls);
+    parts.push(...functionCalls.map((functionCall) => ({ functionCall })));
+
+    const result = buildStreamResponse(parts, functionCalls);
+    result.candidates![0].finishReason = toFinishReason(response);
+    result.usageMetadata = toUsageMetadata(response);
+    return result;
+  }
+
+  /**
+   * Create the state tracked across the lines of one streamed response.
+   */
+  static createStreamState(
+    options: { includeThoughts?: boolean } = {},
+  ): OllamaStreamState {
+    return {
+      thinkParser: new ThinkTagParser(),
+      includeThoughts: options.includeThoughts ?? true,
+      pendingThought: '',
+    };
+  }
+
+  /**
+   * Convert one line of a streamed response to a Gemini response, if it
+   * completes any part. The last line carries the finish reason and usage.
+   *
+   * @throws OllamaApiError if the server reports an error mid-stream.
+   */
+  static processStreamChunk(
+    chunk: OllamaChatResponse,
+    state: OllamaStreamState,
+  ): GenerateContentResponse | undefined {
+    if (chunk.error) {
+      throw new OllamaApiError(`Ollama stream error: ${chunk.error}`, 500);
+    }
+    const parts: Part[] = [];
+    const message = chunk.message;
+    if (message?.thinking) {
+      appendThought(state, parts, message.thinking);
+    }
+    if (message?.content) {
+      emitSegments(state, parts, state.thinkParser.push(message.content));
+    }
+    const functionCalls = toFunctionCalls(message?.tool_calls);
+    if (functionCalls.length > 0) {
+      flushPendingThought(state, parts);
+      parts.push(...functionCalls.map((functionCall) => ({ functionCall })));
+    }
+
+    if (chunk.done) {
+      emitSegments(state, parts, state.thinkParser.flush());
+      flushPendingThought(state, parts);
+      const response = buildStreamResponse(parts, functionCalls);
+      response.candidates![0].finishReason = toFinishReason(chunk);
+      response.usageMetadata = toUsageMetadata(chunk);
+      return response;
+    }
+    if (parts.length === 0) {
+      return undefined;
+    }
+    return buildStreamResponse(parts, functionCalls);
+  }
+}
+
+/**
+ * Builds a user message from text and attachment parts. Ollama takes images
+ * as bare base64 strings; other attachments are handled according to
+ * `options.unsupportedMedia`.
+ */
+function toUserMessage(
+  parts: Part[],
+  options: MessageConversionOptions,
+): OllamaMessage {
+  const texts: string[] = [];
+  const images: string[] = [];
+  for (const part of parts) {
+    if (typeof part.text === 'string') {
+      texts.push(part.text);
+      continue;
+    }
+    const converted = toMediaContentPart(part, true, options);
+    const url = converted.type === 'image_url' ? converted.image_url.url : '';
+    if (url.startsWith('data:')) {
+      images.push(url.slice(url.indexOf(',') + 1));
+    } else if (converted.type === 'text') {
+      texts.push(converted.text);
+    } else {
+      const name = part.fileData?.displayName ?? part.fileData?.fileUri;
+      texts.push(
+        `[Attachment omitted: ${name} (${part.fileData?.mimeType}) is not supported by this provider]`,
+      );
+    }
+  }
+  return {
+    role: 'user',
+    content: texts.join('\n'),
+    ...(images.length > 0 ? { images } : {}),
+  };
+}
+
+/**
+ * Converts Ollama tool calls to Gemini function calls. Ollama does not always
+ * assign call ids, so missing ones are generated the same way the turn loop
+ * does; history conversion needs them to pair calls with their results.
+ */
+function toFunctionCalls(
+  toolCalls: OllamaToolCall[] | undefined,
+): FunctionCall[] {
+  return (toolCalls ?? []).map((toolCall) => ({
+    id:
+      toolCall.id ??
+      `${toolCall.function.name}-${Date.now()}-${Math.random().toString(16).slice(2)}`,
+    name: toolCall.function.name,
+    args: toolCall.function.arguments ?? {},
+  }));
+}
+
+function emitSegments(
+  state: OllamaStreamState,
+  parts: Part[],
+  segments: ReasoningSegment[],
+): void {
+  for (const segment of segments) {
+    if (segment.thought) {
+      appendThought(state, parts, segment.text);
+    } else if (segment.text) {
+      flushPendingThought(state, parts);
+      parts.push({ text: segment.text });
+    }
+  }
+}
+
+function appendThought(
+  state: OllamaStreamState,
+  parts: Part[],
+  text: string,
+): void {
+  const [complete, rest] = takeCompleteParagraphs(state.pendingThought + text);
+  state.pendingThought = rest;
+  pushThought(state, parts, complete);
+}
+
+function flushPendingThought(state: OllamaStreamState, parts: Part[]): void {
+  pushThought(state, parts, state.pendingThought.trim());
+  state.pendingThought = '';
+}
+
+function pushThought(
+  state: OllamaStreamState,
+  parts: Part[],
+  text: string,
+): void {
+  if (text && state.includeThoughts) {
+    parts.push({ text, thought: true });
+  }
+}
+
+/**
+ * Maps Ollama's `done_reason` to a Gemini finish reason.
+ */
+function toFinishReason(
+  response: OllamaChatResponse,
+): FinishReason | undefined {
+  if (!response.done) {
+    return undefined;
+  }
+  switch (response.done_reason) {
+    case undefined:
+    case 'stop':
+      return FinishReason.STOP;
+    case 'length':
+      return FinishReason.MAX_TOKENS;
+    default:
+      return FinishReason.OTHER;
+  }
+}
+
+function toUsageMetadata(
+  response: OllamaChatResponse,
+): GenerateContentResponseUsageMetadata {
+  const promptTokens = response.prompt_eval_count ?? 0;
+  const outputTokens = response.eval_count ?? 0;
+  return {
+    promptTokenCount: promptTokens,
+    candidatesTokenCount: outputTokens,
+    totalTokenCount: promptTokens + outputTokens,
+  };
+}
@@ -0,0 +1,139 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { http, HttpResponse } from 'msw';
+import { FinishReason } from '@google/genai';
+import { server } from '../mocks/msw.js';
+import { OllamaContentGenerator } from './index.js';
+import type { ResolvedOllamaConfig } from './types.js';
+
+const HOST = 'http://localhost:11434';
+
+const config: ResolvedOllamaConfig = {
+  host: HOST,
+  model: 'qwen3:8b',
+  contextWindow: 8192,
+};
+
+function toJsonLines(lines: object[]): string {
+  return lines.map((line) => `${JSON.stringify(line)}\n`).join('');
+}
+
+beforeAll(() => {
+  server.listen({ onUnhandledRequest: 'error' });
+});
+
+afterEach(() => {
+  server.resetHandlers();
+});
+
+afterAll(() => {
+  server.close();
+});
+
+describe('OllamaContentGenerator', () => {
+  const generator = new OllamaContentGenerator(config);
+
+  it('sends an /api/chat request and converts the response', async () => {
+    let body: Record<string, unknown> | undefined;
+    server.resetHandlers(
+      http.post(`${HOST}/api/chat`, async ({ request }) => {
+        body = (await request.json()) as Record<string, unknown>;
+        return HttpResponse.json({
+          model: 'qwen3:8b',
+          done: true,
+          done_reason: 'stop',
+          message: { role: 'assistant', content: 'Hello!' },
+          prompt_eval_count: 3,
+          eval_count: 2,
+        });
+      }),
+    );
+
+    const response = await generator.generateContent(
+      { model: 'gemini-2.5-pro', contents: 'Hi' },
+      'prompt-id',
+    );
+
+    expect(response.text).toBe('Hello!');
+    expect(body).toMatchObject({
+      model: 'qwen3:8b',
+      messages: [{ role: 'user', content: 'Hi' }],
+      stream: false,
+      options: { num_ctx: 8192 },
+    });
+  });
+
+  it('streams newline-delimited JSON', async () => {
+    server.resetHandlers(
+      http.post(
+        `${HOST}/api/chat`,
+        () =>
+          new HttpResponse(
+            toJsonLines([
+              {
+                model: 'qwen3:8b',
+                done: false,
+                message: { role: 'assistant', content: 'Hel' },
+              },
+              {
+                model: 'qwen3:8b',
+                done: false,
+                message: { role: 'assistant', content: 'lo!' },
+              },
+              {
+                model: 'qwen3:8b',
+                done: true,
+                done_reason: 'stop',
+                message: { role: 'assistant', content: '' },
+                prompt_eval_count: 3,
+                eval_count: 2,
+              },
+            ]),
+            { headers: { 'Content-Type': 'application/x-ndjson' } },
+          ),
+      ),
+    );
+
+    const responses = [];
+    for await (const response of await generator.generateContentStream(
+      { model: 'gemini-2.5-pro', contents: 'Hi' },
+      'prompt-id',
+    )) {
+      responses.push(response);
+    }
+
+    expect(responses.map((response) => response.text ?? '').join('')).toBe(
+      'Hello!',
+    );
+    const last = responses[responses.length - 1];
+    expect(last.candidates![0].finishReason).toBe(FinishReason.STOP);
+    expect(last.usageMetadata?.totalTokenCount).toBe(5);
+  });
+
+  it('reports a missing model with its HTTP status', async () => {
+    server.resetHandlers(
+      http.post(`${HOST}/api/chat`, () =>
+        HttpResponse.json(
+          { error: "model 'qwen3:8b' not found" },
+          { status: 404 },
+        ),
+      ),
+    );
+
+    await expect(
+      generator.generateContent(
+        { model: 'gemini-2.5-pro', contents: 'Hi' },
+        'prompt-id',
+      ),
+    ).rejects.toMatchObject({
+      status: 404,
+      message:
+        "Ollama request failed with status 404: model 'qwen3:8b' not found",
+    });
+  });
+});
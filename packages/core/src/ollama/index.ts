@@ -0,0 +1,107 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {
+  CountTokensParameters,
+  CountTokensResponse,
+  EmbedContentParameters,
+  EmbedContentResponse,
+  GenerateContentParameters,
+  GenerateContentResponse,
+} from '@google/genai';
+import type { ContentGenerator } from '../core/contentGenerator.js';
+import { estimateTokenCountSync } from '../utils/tokenCalculation.js';
+import { normalizeContents } from '../custom_llm/util.js';
+import { OllamaConverter } from './converter.js';
+import { ollamaRequest, readJsonLines } from './api.js';
+import type {
+  OllamaChatRequest,
+  OllamaChatResponse,
+  ResolvedOllamaConfig,
+} from './types.js';
+
+interface OllamaOptions {
+  userAgent?: string;
+}
+
+/**
+ * Content generator for Ollama's native `/api/chat` endpoint.
+ */
+export class OllamaContentGenerator implements ContentGenerator {
+  constructor(
+    private readonly config: ResolvedOllamaConfig,
+    private readonly options: OllamaOptions = {},
+  ) {}
+
+  async generateContent(
+    request: GenerateContentParameters,
+    _userPromptId: string,
+  ): Promise<GenerateContentResponse> {
+    const response = await this.chat(
+      OllamaConverter.toChatRequest(request, this.config),
+      request,
+    );
+    return OllamaConverter.toGeminiResponse(
+      (await response.json()) as OllamaChatResponse,
+      { includeThoughts: request.config?.thinkingConfig?.includeThoughts },
+    );
+  }
+
+  async generateContentStream(
+    request: GenerateContentParameters,
+    _userPromptId: string,
+  ): Promise<AsyncGenerator<GenerateContentResponse>> {
+    const response = await this.chat(
+      { ...OllamaConverter.toChatRequest(request, this.config), stream: true },
+      request,
+    );
+    const state = OllamaConverter.createStreamState({
+      includeThoughts: request.config?.thinkingConfig?.includeThoughts,
+    });
+    const chunks = readJsonLines<OllamaChatResponse>(response.body);
+
+    return (async function* (): AsyncGenerator<GenerateContentResponse> {
+      for await (const chunk of chunks) {
+        const converted = OllamaConverter.processStreamChunk(chunk, state);
+        if (converted) {
+          yield converted;
+        }
+      }
+    })();
+  }
+
+  /**
+   * Ollama has no tokenize endpoint, so tokens are estimated locally.
+   */
+  async countTokens(
+    request: CountTokensParameters,
+  ): Promise<CountTokensResponse> {
+    return {
+      totalTokens: estimateTokenCountSync(
+        normalizeContents(request.contents ?? []).flatMap(
+          (content) => content.parts ?? [],
+        ),
+      ),
+    };
+  }
+
+  async embedContent(
+    _request: EmbedContentParameters,
+  ): Promise<EmbedContentResponse> {
+    throw new Error('Embedding is not supported by the Ollama provider.');
+  }
+
+  private chat(
+    body: OllamaChatRequest,
+    request: GenerateContentParameters,
+  ): Promise<Response> {
+    return ollamaRequest(this.config.host, '/api/chat', {
+      body,
+      signal: request.config?.abortSignal,
+      userAgent: this.options.userAgent,
+    });
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { ThinkTagParser } from '../custom_llm/reasoning.js';
+
+/**
+ * Settings for the Ollama content generator, resolved from the `OLLAMA_*`
+ * environment variables.
+ */
+export interface ResolvedOllamaConfig {
+  /** Base URL of the Ollama server, e.g. `http://localhost:11434`. */
+  host: string;
+  model: string;
+  /** How long the model stays loaded after a request, e.g. `30m` or `-1`. */
+  keepAlive?: string;
+  /** Sent as `num_ctx`, since Ollama's default window is far too small. */
+  contextWindow: number;
+  /** Sent as `num_predict`, if set. */
+  maxTokens?: number;
+}
+
+export interface OllamaToolCall {
+  id?: string;
+  function: {
+    index?: number;
+    name: string;
+    arguments: Record<string, unknown>;
+  };
+}
+
+export interface OllamaMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  /** Base64-encoded images, without a data URL prefix. */
+  images?: string[];
+  thinking?: string;
+  tool_calls?: OllamaToolCall[];
+  /** Name of the tool whose result a `tool` message carries. */
+  tool_name?: string;
+}
+
+export interface OllamaChatRequest {
+  model: string;
+  messages: OllamaMessage[];
+  tools?: Array<{
+    type: 'function';
+    function: {
+      name: string;
+      description?: string;
+      parameters?: Record<string, unknown>;
+    };
+  }>;
+  stream: boolean;
+  think?: boolean;
+  keep_alive?: string;
+  options?: {
+    temperature?: number;
+    top_p?: number;
+    num_ctx?: number;
+    num_predict?: number;
+    stop?: string[];
+  };
+}
+
+/**
+ * A `/api/chat` response, or one line of a streamed response. The final line
+ * has `done: true` and carries the token counts.
+ */
+export interface OllamaChatResponse {
+  model: string;
+  created_at?: string;
+  message?: OllamaMessage;
+  done: boolean;
+  done_reason?: string;
+  prompt_eval_count?: number;
+  eval_count?: number;
+  error?: string;
+}
+
+/**
+ * A model installed on the Ollama server, as listed by `/api/tags`.
+ */
+export interface OllamaModel {
+  name: string;
+  model?: string;
+  modified_at?: string;
+  size?: number;
+  details?: {
+    family?: string;
+    parameter_size?: string;
+    quantization_level?: string;
+  };
+}
+
+/**
+ * One progress update of `/api/pull`.
+ */
+export interface OllamaPullProgress {
+  status: string;
+  digest?: string;
+  total?: number;
+  completed?: number;
+}
+
+/**
+ * Everything the converter tracks across the lines of one streamed response.
+ */
+export interface OllamaStreamState {
+  /** Splits `<think>` blocks from the content of models without a parser. */
+  thinkParser: ThinkTagParser;
+  /** Whether thought parts are emitted (Gemini `includeThoughts`). */
+  includeThoughts: boolean;
+  /** Thinking received but not yet emitted as a thought part. */
+  pendingThought: string;
+}
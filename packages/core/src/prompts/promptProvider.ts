@@ -128,6 +128,7 @@ export class PromptProvider {
             interactive: interactiveMode,
             isGemini3,
             enableShellEfficiency: config.getEnableShellOutputEfficiency(),
+            supportsVision: config.getModelCapabilities()?.vision !== false,
           }),
         ),
         sandbox: this.withSection('sandbox', () => getSandboxMode()),
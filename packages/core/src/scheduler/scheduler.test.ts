@@ -79,6 +79,7 @@ import type {
 } from './types.js';
 import { ROOT_SCHEDULER_ID } from './types.js';
 import { ToolErrorType } from '../tools/tool-error.js';
+import { INVALID_TOOL_CALL_KEY } from '../tools/invalid-tool-call.js';
 import * as ToolUtils from '../utils/tool-utils.js';
 import type { EditorType } from '../utils/editor.js';
 import {
@@ -285,6 +286,29 @@ describe('Scheduler (Orchestrator)', () => {
       );
     });
 
+    it('should create an ErroredToolCall for calls marked as invalid', async () => {
+      await scheduler.schedule(
+        {
+          ...req1,
+          args: {
+            [INVALID_TOOL_CALL_KEY]: { message: 'Tool is not available.' },
+          },
+        },
+        signal,
+      );
+
+      expect(mockToolRegistry.getTool).not.toHaveBeenCalled();
+      expect(mockStateManager.enqueue).toHaveBeenCalledWith([
+        expect.objectContaining({
+          status: 'error',
+          response: expect.objectContaining({
+            error: new Error('Tool is not available.'),
+            errorType: ToolErrorType.INVALID_TOOL_CALL,
+          }),
+        }),
+      ]);
+    });
+
     it('should create an ErroredToolCall if tool.build throws (invalid args)', async () => {
       vi.mocked(mockTool.build).mockImplementation(() => {
         throw new Error('Invalid schema');
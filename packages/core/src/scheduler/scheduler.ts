@@ -21,6 +21,10 @@ import {
   type ErroredToolCall,
 } from './types.js';
 import { ToolErrorType } from '../tools/tool-error.js';
+import {
+  getInvalidToolCall,
+  type InvalidToolCall,
+} from '../tools/invalid-tool-call.js';
 import { PolicyDecision } from '../policy/types.js';
 import {
   ToolConfirmationOutcome,
@@ -244,6 +248,11 @@ export class Scheduler {
           schedulerId: this.schedulerId,
           parentCallId: this.parentCallId,
         };
+        const invalid = getInvalidToolCall(request.args);
+        if (invalid) {
+          return this._createInvalidErroredToolCall(enrichedRequest, invalid);
+        }
+
         const tool = toolRegistry.getTool(request.name);
 
         if (!tool) {
@@ -266,6 +275,23 @@ export class Scheduler {
     }
   }
 
+  private _createInvalidErroredToolCall(
+    request: ToolCallRequestInfo,
+    invalid: InvalidToolCall,
+  ): ErroredToolCall {
+    return {
+      status: 'error',
+      request,
+      response: createErrorResponse(
+        request,
+        new Error(invalid.message),
+        ToolErrorType.INVALID_TOOL_CALL,
+      ),
+      durationMs: 0,
+      schedulerId: this.schedulerId,
+    };
+  }
+
   private _createToolNotFoundErroredToolCall(
     request: ToolCallRequestInfo,
     toolNames: string[],
@@ -271,7 +271,7 @@ export class ChatCompressionService {
       const threshold =
         (await config.getCompressionThreshold()) ??
         DEFAULT_COMPRESSION_TOKEN_THRESHOLD;
-      if (originalTokenCount < threshold * tokenLimit(model)) {
+      if (originalTokenCount < threshold * tokenLimit(model, config)) {
         return {
           newHistory: null,
           info: {
@@ -316,7 +316,7 @@ export class ChatCompressionService {
     );
 
     const historyForSummarizer =
-      originalToCompressTokenCount < tokenLimit(model)
+      originalToCompressTokenCount < tokenLimit(model, config)
         ? originalHistoryToCompress
         : historyToCompressTruncated;
 
@@ -80,6 +80,14 @@ export class ModelConfigService {
     this.runtimeOverrides.push(override);
   }
 
+  /** Removes an override added by {@link registerRuntimeModelOverride}. */
+  unregisterRuntimeModelOverride(override: ModelConfigOverride): void {
+    const index = this.runtimeOverrides.indexOf(override);
+    if (index !== -1) {
+      this.runtimeOverrides.splice(index, 1);
+    }
+  }
+
   /**
    * Resolves a model configuration by merging settings from aliases and applying overrides.
    *
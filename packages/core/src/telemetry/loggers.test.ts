@@ -43,6 +43,7 @@ import {
   logAgentStart,
   logAgentFinish,
   logWebFetchFallbackAttempt,
+  logToolCallArgumentsRepair,
   logExtensionUpdateEvent,
   logHookCall,
 } from './loggers.js';
@@ -67,6 +68,7 @@ import {
   EVENT_AGENT_START,
   EVENT_AGENT_FINISH,
   EVENT_WEB_FETCH_FALLBACK_ATTEMPT,
+  EVENT_TOOL_CALL_ARGUMENTS_REPAIR,
   ApiErrorEvent,
   ApiRequestEvent,
   ApiResponseEvent,
@@ -87,6 +89,7 @@ import {
   AgentStartEvent,
   AgentFinishEvent,
   WebFetchFallbackAttemptEvent,
+  ToolCallArgumentsRepairEvent,
   ExtensionUpdateEvent,
   EVENT_EXTENSION_UPDATE,
   HookCallEvent,
@@ -2115,6 +2118,39 @@ describe('loggers', () => {
     });
   });
 
+  describe('logToolCallArgumentsRepair', () => {
+    const mockConfig = {
+      getSessionId: () => 'test-session-id',
+      getUsageStatisticsEnabled: () => true,
+      isInteractive: () => false,
+    } as unknown as Config;
+
+    it('should log tool call arguments repair event', () => {
+      const event = new ToolCallArgumentsRepairEvent(
+        'write_file',
+        ['trailing_comma', 'truncation'],
+        true,
+      );
+
+      logToolCallArgumentsRepair(mockConfig, event);
+
+      expect(mockLogger.emit).toHaveBeenCalledWith({
+        body: 'Tool call arguments repair for write_file: success (repairs: trailing_comma, truncation)',
+        attributes: {
+          'session.id': 'test-session-id',
+          'user.email': 'test-user@example.com',
+          'installation.id': 'test-installation-id',
+          'event.name': EVENT_TOOL_CALL_ARGUMENTS_REPAIR,
+          'event.timestamp': '2025-01-01T00:00:00.000Z',
+          interactive: false,
+          tool_name: 'write_file',
+          repairs: 'trailing_comma,truncation',
+          success: true,
+        },
+      });
+    });
+  });
+
   describe('logHookCall', () => {
     const mockConfig = {
       getSessionId: () => 'test-session-id',
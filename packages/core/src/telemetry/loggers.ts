@@ -47,6 +47,7 @@ import type {
   AgentFinishEvent,
   RecoveryAttemptEvent,
   WebFetchFallbackAttemptEvent,
+  ToolCallArgumentsRepairEvent,
   ExtensionUpdateEvent,
   ApprovalModeSwitchEvent,
   ApprovalModeDurationEvent,
@@ -719,6 +720,20 @@ export function logHookCall(config: Config, event: HookCallEvent): void {
   });
 }
 
+export function logToolCallArgumentsRepair(
+  config: Config,
+  event: ToolCallArgumentsRepairEvent,
+): void {
+  bufferTelemetryEvent(() => {
+    const logger = logs.getLogger(SERVICE_NAME);
+    const logRecord: LogRecord = {
+      body: event.toLogBody(),
+      attributes: event.toOpenTelemetryAttributes(config),
+    };
+    logger.emit(logRecord);
+  });
+}
+
 export function logStartupStats(
   config: Config,
   event: StartupStatsEvent,
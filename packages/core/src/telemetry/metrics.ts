@@ -499,6 +499,8 @@ export enum GenAiOperationName {
 export enum GenAiProviderName {
   GCP_GEN_AI = 'gcp.gen_ai',
   GCP_VERTEX_AI = 'gcp.vertex_ai',
+  ANTHROPIC = 'anthropic',
+  OLLAMA = 'ollama',
   OTHER = 'other',
 }
 
@@ -931,6 +933,10 @@ function getGenAiProvider(authType?: string): GenAiProviderName {
       return GenAiProviderName.GCP_VERTEX_AI;
     case AuthType.CUSTOM_LLM_API:
       return GenAiProviderName.OTHER;
+    case AuthType.ANTHROPIC_API:
+      return GenAiProviderName.ANTHROPIC;
+    case AuthType.OLLAMA:
+      return GenAiProviderName.OLLAMA;
     case AuthType.USE_GEMINI:
     default:
       return GenAiProviderName.GCP_GEN_AI;
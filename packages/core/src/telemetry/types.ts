@@ -85,7 +85,10 @@ export class StartSessionEvent implements BaseTelemetryEvent {
     if (generatorConfig && generatorConfig.authType) {
       useGemini = generatorConfig.authType === AuthType.USE_GEMINI;
       useVertex = generatorConfig.authType === AuthType.USE_VERTEX_AI;
-      useCustom = generatorConfig.authType === AuthType.CUSTOM_LLM_API;
+      useCustom =
+        generatorConfig.authType === AuthType.CUSTOM_LLM_API ||
+        generatorConfig.authType === AuthType.ANTHROPIC_API ||
+        generatorConfig.authType === AuthType.OLLAMA;
     }
 
     this['event.name'] = 'cli_config';
@@ -1579,7 +1582,8 @@ export type TelemetryEvent =
   | StartupStatsEvent
   | WebFetchFallbackAttemptEvent
   | EditStrategyEvent
-  | EditCorrectionEvent;
+  | EditCorrectionEvent
+  | ToolCallArgumentsRepairEvent;
 
 export const EVENT_EXTENSION_DISABLE = 'gemini_cli.extension_disable';
 export class ExtensionDisableEvent implements BaseTelemetryEvent {
@@ -1671,6 +1675,40 @@ export class EditCorrectionEvent implements BaseTelemetryEvent {
   }
 }
 
+export const EVENT_TOOL_CALL_ARGUMENTS_REPAIR =
+  'gemini_cli.tool_call_arguments_repair';
+export class ToolCallArgumentsRepairEvent implements BaseTelemetryEvent {
+  'event.name': 'tool_call_arguments_repair';
+  'event.timestamp': string;
+  tool_name: string;
+  repairs: string[];
+  success: boolean;
+
+  constructor(tool_name: string, repairs: string[], success: boolean) {
+    this['event.name'] = 'tool_call_arguments_repair';
+    this['event.timestamp'] = new Date().toISOString();
+    this.tool_name = tool_name;
+    this.repairs = repairs;
+    this.success = success;
+  }
+
+  toOpenTelemetryAttributes(config: Config): LogAttributes {
+    return {
+      ...getCommonAttributes(config),
+      'event.name': EVENT_TOOL_CALL_ARGUMENTS_REPAIR,
+      'event.timestamp': this['event.timestamp'],
+      tool_name: this.tool_name,
+      repairs: this.repairs.join(','),
+      success: this.success,
+    };
+  }
+
+  toLogBody(): string {
+    const repairs = this.repairs.join(', ') || 'none';
+    return `Tool call arguments repair for ${this.tool_name}: ${this.success ? 'success' : 'failure'} (repairs: ${repairs})`;
+  }
+}
+
 export interface StartupPhaseStats {
   name: string;
   duration_ms: number;
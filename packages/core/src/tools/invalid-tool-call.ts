@@ -0,0 +1,50 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { FunctionCall } from '@google/genai';
+
+/**
+ * Argument key under which a content generator records why a tool call it
+ * received from the model cannot be executed. The schedulers answer such calls
+ * with an `INVALID_TOOL_CALL` error instead of running the tool, so that the
+ * model can correct itself.
+ */
+export const INVALID_TOOL_CALL_KEY = '__invalid_tool_call';
+
+export interface InvalidToolCall {
+  /** Explanation sent back to the model as the tool error. */
+  message: string;
+  /** Arguments exactly as the model produced them. */
+  rawArguments?: string;
+}
+
+/**
+ * Replaces the arguments of `functionCall` with the given error. The call is
+ * updated in place, so every response part that refers to it sees the change.
+ */
+export function markInvalidToolCall(
+  functionCall: FunctionCall,
+  invalid: InvalidToolCall,
+): void {
+  functionCall.args = { [INVALID_TOOL_CALL_KEY]: invalid };
+}
+
+/**
+ * Returns the error recorded by `markInvalidToolCall`, if any.
+ */
+export function getInvalidToolCall(
+  args: Record<string, unknown> | undefined,
+): InvalidToolCall | undefined {
+  const invalid = args?.[INVALID_TOOL_CALL_KEY];
+  if (
+    invalid &&
+    typeof invalid === 'object' &&
+    typeof (invalid as InvalidToolCall).message === 'string'
+  ) {
+    return invalid as InvalidToolCall;
+  }
+  return undefined;
+}
@@ -0,0 +1,51 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { FunctionDeclaration } from '@google/genai';
+import type { Config } from '../config/config.js';
+
+/** What a file reading tool says in its description about media files. */
+export interface MediaSupportText {
+  /** For models that can view images, audio and PDF files. */
+  media: string;
+  /** Replaces {@link MediaSupportText.media} for text-only models. */
+  textOnly: string;
+}
+
+export const MEDIA_NOT_SUPPORTED_MESSAGE =
+  'The current model cannot view images, audio or PDF files.';
+
+/**
+ * Whether the current model can view images, audio and PDF files. Models
+ * without a capability profile are assumed to.
+ */
+export function canViewMedia(config: Config): boolean {
+  return config.getModelCapabilities()?.vision !== false;
+}
+
+/** Whether a file type from `detectFileType` is sent to the model as media. */
+export function isMediaFileType(fileType: string): boolean {
+  return fileType === 'image' || fileType === 'pdf' || fileType === 'audio';
+}
+
+/**
+ * Returns the schema of a file reading tool for the current model. Text-only
+ * models keep the tool, since it still reads text files, but its description
+ * no longer offers images, audio or PDF files.
+ */
+export function getMediaAwareSchema(
+  schema: FunctionDeclaration,
+  config: Config,
+  text: MediaSupportText,
+): FunctionDeclaration {
+  if (canViewMedia(config)) {
+    return schema;
+  }
+  return {
+    ...schema,
+    description: schema.description?.replace(text.media, text.textOnly),
+  };
+}
@@ -14,6 +14,7 @@ import os from 'node:os';
 import fs from 'node:fs';
 import fsp from 'node:fs/promises';
 import type { Config } from '../config/config.js';
+import type { ModelCapabilities } from '../custom_llm/types.js';
 import { FileDiscoveryService } from '../services/fileDiscoveryService.js';
 import { StandardFileSystemService } from '../services/fileSystemService.js';
 import { createMockWorkspaceContext } from '../test-utils/mockWorkspaceContext.js';
@@ -28,6 +29,7 @@ vi.mock('../telemetry/loggers.js', () => ({
 describe('ReadFileTool', () => {
   let tempRootDir: string;
   let tool: ReadFileTool;
+  let mockConfig: Config;
   const abortSignal = new AbortController().signal;
 
   beforeEach(async () => {
@@ -40,6 +42,7 @@ describe('ReadFileTool', () => {
       getFileSystemService: () => new StandardFileSystemService(),
       getTargetDir: () => tempRootDir,
       getWorkspaceContext: () => createMockWorkspaceContext(tempRootDir),
+      getModelCapabilities: () => undefined,
       getFileFilteringOptions: () => ({
         respectGitIgnore: true,
         respectGeminiIgnore: true,
@@ -67,6 +70,7 @@ describe('ReadFileTool', () => {
         return `Path not in workspace: Attempted path "${absolutePath}" resolves outside the allowed workspace directories: ${workspaceDirs.join(', ')} or the project temp directory: ${projectTempDir}`;
       },
     } as unknown as Config;
+    mockConfig = mockConfigInstance;
     tool = new ReadFileTool(mockConfigInstance, createMockMessageBus());
   });
 
@@ -151,6 +155,28 @@ describe('ReadFileTool', () => {
     });
   });
 
+  describe('schema', () => {
+    it('advertises images, audio and PDFs to models with vision', () => {
+      expect(tool.schema.description).toContain('Handles text, images');
+    });
+
+    it('describes a text-only tool to models without vision', () => {
+      const textOnlyTool = new ReadFileTool(
+        {
+          getTargetDir: () => tempRootDir,
+          getFileFilteringOptions: () => ({}),
+          getModelCapabilities: () => ({ vision: false }),
+        } as unknown as Config,
+        createMockMessageBus(),
+      );
+
+      expect(textOnlyTool.schema.description).toContain(
+        'Handles text files only',
+      );
+      expect(textOnlyTool.schema.description).not.toContain('images (PNG');
+    });
+  });
+
   describe('getDescription', () => {
     it('should return relative path without limit/offset', () => {
       const subDir = path.join(tempRootDir, 'sub', 'dir');
@@ -320,6 +346,25 @@ describe('ReadFileTool', () => {
       expect(result.returnDisplay).toBe('Read image file: image.png');
     });
 
+    it('should refuse images when the model cannot view them', async () => {
+      vi.spyOn(mockConfig, 'getModelCapabilities').mockReturnValue({
+        vision: false,
+      } as ModelCapabilities);
+      const imagePath = path.join(tempRootDir, 'image.png');
+      await fsp.writeFile(
+        imagePath,
+        Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+      );
+      const invocation = tool.build({ file_path: imagePath });
+
+      const result = await invocation.execute(abortSignal);
+
+      expect(result.llmContent).toBe(
+        'The current model cannot view images, audio or PDF files.',
+      );
+      expect(result.error?.type).toBe(ToolErrorType.READ_CONTENT_FAILURE);
+    });
+
     it('should handle PDF file and return appropriate content', async () => {
       const pdfPath = path.join(tempRootDir, 'document.pdf');
       // Minimal PDF header
@@ -447,6 +492,7 @@ describe('ReadFileTool', () => {
           getFileSystemService: () => new StandardFileSystemService(),
           getTargetDir: () => tempRootDir,
           getWorkspaceContext: () => new WorkspaceContext(tempRootDir),
+          getModelCapabilities: () => undefined,
           getFileFilteringOptions: () => ({
             respectGitIgnore: true,
             respectGeminiIgnore: true,
@@ -520,6 +566,7 @@ describe('ReadFileTool', () => {
           getFileSystemService: () => new StandardFileSystemService(),
           getTargetDir: () => tempRootDir,
           getWorkspaceContext: () => new WorkspaceContext(tempRootDir),
+          getModelCapabilities: () => undefined,
           getFileFilteringOptions: () => ({
             respectGitIgnore: true,
             respectGeminiIgnore: false,
@@ -11,8 +11,9 @@ import type { ToolInvocation, ToolLocation, ToolResult } from './tools.js';
 import { BaseDeclarativeTool, BaseToolInvocation, Kind } from './tools.js';
 import { ToolErrorType } from './tool-error.js';
 
-import type { PartUnion } from '@google/genai';
+import type { FunctionDeclaration, PartUnion } from '@google/genai';
 import {
+  detectFileType,
   processSingleFileContent,
   getSpecificMimeType,
 } from '../utils/fileUtils.js';
@@ -23,6 +24,13 @@ import { logFileOperation } from '../telemetry/loggers.js';
 import { FileOperationEvent } from '../telemetry/types.js';
 import { READ_FILE_TOOL_NAME } from './tool-names.js';
 import { FileDiscoveryService } from '../services/fileDiscoveryService.js';
+import {
+  canViewMedia,
+  getMediaAwareSchema,
+  isMediaFileType,
+  MEDIA_NOT_SUPPORTED_MESSAGE,
+  type MediaSupportText,
+} from './media-support.js';
 
 /**
  * Parameters for the ReadFile tool
@@ -88,6 +96,20 @@ class ReadFileToolInvocation extends BaseToolInvocation<
       };
     }
 
+    if (
+      !canViewMedia(this.config) &&
+      isMediaFileType(await detectFileType(this.resolvedPath))
+    ) {
+      return {
+        llmContent: MEDIA_NOT_SUPPORTED_MESSAGE,
+        returnDisplay: 'File type not supported by the model.',
+        error: {
+          message: MEDIA_NOT_SUPPORTED_MESSAGE,
+          type: ToolErrorType.READ_CONTENT_FAILURE,
+        },
+      };
+    }
+
     const result = await processSingleFileContent(
       this.resolvedPath,
       this.config.getTargetDir(),
@@ -152,6 +174,13 @@ ${result.llmContent}`;
   }
 }
 
+const MEDIA_SUPPORT: MediaSupportText = {
+  media:
+    'Handles text, images (PNG, JPG, GIF, WEBP, SVG, BMP), audio files (MP3, WAV, AIFF, AAC, OGG, FLAC), and PDF files.',
+  textOnly:
+    'Handles text files only; the current model cannot view images, audio or PDF files.',
+};
+
 /**
  * Implementation of the ReadFile tool logic
  */
@@ -169,7 +198,7 @@ export class ReadFileTool extends BaseDeclarativeTool<
     super(
       ReadFileTool.Name,
       'ReadFile',
-      `Reads and returns the content of a specified file. If the file is large, the content will be truncated. The tool's response will clearly indicate if truncation has occurred and will provide details on how to read more of the file using the 'offset' and 'limit' parameters. Handles text, images (PNG, JPG, GIF, WEBP, SVG, BMP), audio files (MP3, WAV, AIFF, AAC, OGG, FLAC), and PDF files. For text files, it can read specific line ranges.`,
+      `Reads and returns the content of a specified file. If the file is large, the content will be truncated. The tool's response will clearly indicate if truncation has occurred and will provide details on how to read more of the file using the 'offset' and 'limit' parameters. ${MEDIA_SUPPORT.media} For text files, it can read specific line ranges.`,
       Kind.Read,
       {
         properties: {
@@ -201,6 +230,10 @@ export class ReadFileTool extends BaseDeclarativeTool<
     );
   }
 
+  override get schema(): FunctionDeclaration {
+    return getMediaAwareSchema(super.schema, this.config, MEDIA_SUPPORT);
+  }
+
   protected override validateToolParamValues(
     params: ReadFileToolParams,
   ): string | null {
@@ -14,6 +14,7 @@ import { isSubpath } from '../utils/paths.js';
 import fs from 'node:fs'; // Actual fs for setup
 import os from 'node:os';
 import type { Config } from '../config/config.js';
+import type { ModelCapabilities } from '../custom_llm/types.js';
 import { WorkspaceContext } from '../utils/workspaceContext.js';
 import { StandardFileSystemService } from '../services/fileSystemService.js';
 import { ToolErrorType } from './tool-error.js';
@@ -60,6 +61,7 @@ vi.mock('../telemetry/loggers.js', () => ({
 
 describe('ReadManyFilesTool', () => {
   let tool: ReadManyFilesTool;
+  let config: Config;
   let tempRootDir: string;
   let tempDirOutsideRoot: string;
   let mockReadFileFn: Mock;
@@ -77,6 +79,8 @@ describe('ReadManyFilesTool', () => {
       getFileService: () => fileService,
       getFileSystemService: () => new StandardFileSystemService(),
 
+      getModelCapabilities: () => undefined,
+
       getFileFilteringOptions: () => ({
         respectGitIgnore: true,
         respectGeminiIgnore: true,
@@ -115,6 +119,7 @@ describe('ReadManyFilesTool', () => {
         return `Path not in workspace: Attempted path "${absolutePath}" resolves outside the allowed workspace directories: ${workspaceDirs.join(', ')} or the project temp directory: ${projectTempDir}`;
       },
     } as unknown as Config;
+    config = mockConfig;
     tool = new ReadManyFilesTool(mockConfig, createMockMessageBus());
 
     mockReadFileFn = mockControl.mockReadFile;
@@ -238,6 +243,25 @@ describe('ReadManyFilesTool', () => {
     });
   });
 
+  describe('schema', () => {
+    it('describes a text-only tool to models without vision', () => {
+      const textOnlyTool = new ReadManyFilesTool(
+        {
+          getModelCapabilities: () => ({ vision: false }),
+        } as unknown as Config,
+        createMockMessageBus(),
+      );
+
+      expect(tool.schema.description).toContain('can also process image');
+      expect(textOnlyTool.schema.description).toContain(
+        'cannot view images, audio or PDF files',
+      );
+      expect(textOnlyTool.schema.description).not.toContain(
+        'can also process image',
+      );
+    });
+  });
+
   describe('execute', () => {
     const createFile = (filePath: string, content = '') => {
       const fullPath = path.join(tempRootDir, filePath);
@@ -418,6 +442,26 @@ describe('ReadManyFilesTool', () => {
       );
     });
 
+    it('should skip explicitly requested images when the model cannot view them', async () => {
+      vi.spyOn(config, 'getModelCapabilities').mockReturnValue({
+        vision: false,
+      } as ModelCapabilities);
+      createBinaryFile(
+        'image.png',
+        Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+      );
+      const invocation = tool.build({ include: ['*.png'] });
+
+      const result = await invocation.execute(new AbortController().signal);
+
+      expect(result.llmContent).toEqual([
+        'No files matching the criteria were found or all were skipped.',
+      ]);
+      expect(result.returnDisplay).toContain(
+        'the current model cannot view images, audio or PDF files',
+      );
+    });
+
     it('should include images as inlineData parts if explicitly requested by name', async () => {
       createBinaryFile(
         'myExactImage.png',
@@ -515,6 +559,7 @@ describe('ReadManyFilesTool', () => {
       const mockConfig = {
         getFileService: () => fileService,
         getFileSystemService: () => new StandardFileSystemService(),
+        getModelCapabilities: () => undefined,
         getFileFilteringOptions: () => ({
           respectGitIgnore: true,
           respectGeminiIgnore: true,
@@ -18,7 +18,7 @@ import {
   DEFAULT_ENCODING,
   getSpecificMimeType,
 } from '../utils/fileUtils.js';
-import type { PartListUnion } from '@google/genai';
+import type { FunctionDeclaration, PartListUnion } from '@google/genai';
 import {
   type Config,
   DEFAULT_FILE_FILTERING_OPTIONS,
@@ -29,6 +29,12 @@ import { logFileOperation } from '../telemetry/loggers.js';
 import { FileOperationEvent } from '../telemetry/types.js';
 import { ToolErrorType } from './tool-error.js';
 import { READ_MANY_FILES_TOOL_NAME } from './tool-names.js';
+import {
+  canViewMedia,
+  getMediaAwareSchema,
+  isMediaFileType,
+  type MediaSupportText,
+} from './media-support.js';
 
 import { REFERENCE_CONTENT_END } from '../utils/constants.js';
 
@@ -262,11 +268,17 @@ ${finalExclusionPatternsForDescription
 
           const fileType = await detectFileType(filePath);
 
-          if (
-            fileType === 'image' ||
-            fileType === 'pdf' ||
-            fileType === 'audio'
-          ) {
+          if (isMediaFileType(fileType)) {
+            if (!canViewMedia(this.config)) {
+              return {
+                success: false,
+                filePath,
+                relativePathForDisplay,
+                reason:
+                  'the current model cannot view images, audio or PDF files',
+              };
+            }
+
             const fileExtension = path.extname(filePath).toLowerCase();
             const fileNameWithoutExtension = path.basename(
               filePath,
@@ -445,6 +457,13 @@ ${finalExclusionPatternsForDescription
   }
 }
 
+const MEDIA_SUPPORT: MediaSupportText = {
+  media:
+    "However, it can also process image (e.g., .png, .jpg), audio (e.g., .mp3, .wav), and PDF (.pdf) files if their file names or extensions are explicitly included in the 'include' argument. For these explicitly requested non-text files, their data is read and included in a format suitable for model consumption (e.g., base64 encoded).",
+  textOnly:
+    'The current model cannot view images, audio or PDF files, so do not include them.',
+};
+
 /**
  * Tool implementation for finding and reading multiple text files from the local filesystem
  * within a specified target directory. The content is concatenated.
@@ -519,7 +538,7 @@ export class ReadManyFilesTool extends BaseDeclarativeTool<
     super(
       ReadManyFilesTool.Name,
       'ReadManyFiles',
-      `Reads content from multiple files specified by glob patterns within a configured target directory. For text files, it concatenates their content into a single string. It is primarily designed for text-based files. However, it can also process image (e.g., .png, .jpg), audio (e.g., .mp3, .wav), and PDF (.pdf) files if their file names or extensions are explicitly included in the 'include' argument. For these explicitly requested non-text files, their data is read and included in a format suitable for model consumption (e.g., base64 encoded).
+      `Reads content from multiple files specified by glob patterns within a configured target directory. For text files, it concatenates their content into a single string. It is primarily designed for text-based files. ${MEDIA_SUPPORT.media}
 
 This tool is useful when you need to understand or analyze a collection of files, such as:
 - Getting an overview of a codebase or parts of it (e.g., all TypeScript files in the 'src' directory).
@@ -537,6 +556,10 @@ Use this tool when the user's query implies needing the content of several files
     );
   }
 
+  override get schema(): FunctionDeclaration {
+    return getMediaAwareSchema(super.schema, this.config, MEDIA_SUPPORT);
+  }
+
   protected createInvocation(
     params: ReadManyFilesParams,
     messageBus: MessageBus,
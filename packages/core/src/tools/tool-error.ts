@@ -21,6 +21,11 @@ export enum ToolErrorType {
   UNKNOWN = 'unknown',
   UNHANDLED_EXCEPTION = 'unhandled_exception',
   TOOL_NOT_REGISTERED = 'tool_not_registered',
+  /**
+   * The model produced a tool call that cannot be executed as is, such as a
+   * call to a tool that was not offered in the request.
+   */
+  INVALID_TOOL_CALL = 'invalid_tool_call',
   EXECUTION_FAILED = 'execution_failed',
 
   // File System Errors
@@ -43,3 +43,57 @@ export class ModelNotFoundError extends Error {
     this.code = code ? code : 404;
   }
 }
+
+/**
+ * Thrown when a request does not fit in the model's context window. The
+ * history needs to be compressed before the request can be sent again.
+ */
+export class ContextWindowExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ContextWindowExceededError';
+  }
+}
+
+/**
+ * Reads the delay requested by the `retry-after-ms` or `retry-after` header of
+ * an error response. `retry-after` may be a number of seconds or an HTTP date.
+ * @param error The error object.
+ * @returns The delay in milliseconds, or undefined if the response has none.
+ */
+export function getRetryAfterMs(error: unknown): number | undefined {
+  const retryAfterMs = Number.parseFloat(
+    getResponseHeader(error, 'retry-after-ms') ?? '',
+  );
+  if (Number.isFinite(retryAfterMs) && retryAfterMs >= 0) {
+    return retryAfterMs;
+  }
+
+  const retryAfter = getResponseHeader(error, 'retry-after');
+  if (!retryAfter) {
+    return undefined;
+  }
+  const seconds = Number(retryAfter);
+  if (Number.isFinite(seconds) && seconds >= 0) {
+    return seconds * 1000;
+  }
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function getResponseHeader(error: unknown, name: string): string | undefined {
+  if (typeof error !== 'object' || error === null) {
+    return undefined;
+  }
+  const headers =
+    (error as { headers?: unknown }).headers ??
+    (error as { response?: { headers?: unknown } }).response?.headers;
+  if (headers instanceof Headers) {
+    return headers.get(name) ?? undefined;
+  }
+  if (typeof headers === 'object' && headers !== null) {
+    const value = (headers as Record<string, unknown>)[name];
+    return typeof value === 'string' ? value : undefined;
+  }
+  return undefined;
+}
@@ -0,0 +1,140 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { APIError } from 'openai';
+import { classifyOpenAIError } from './openaiErrors.js';
+import {
+  RetryableQuotaError,
+  TerminalQuotaError,
+} from './googleQuotaErrors.js';
+import {
+  ContextWindowExceededError,
+  ModelNotFoundError,
+} from './httpErrors.js';
+import { UnauthorizedError } from './errors.js';
+import { classifyFailureKind } from '../availability/errorClassification.js';
+
+function apiError(
+  status: number,
+  error: { message: string; code?: string; type?: string },
+  headers: Record<string, string> = {},
+): APIError {
+  return APIError.generate(status, { error }, undefined, new Headers(headers));
+}
+
+describe('classifyOpenAIError', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('maps a rate limit to a RetryableQuotaError with the Retry-After delay', () => {
+    const error = classifyOpenAIError(
+      apiError(
+        429,
+        { message: 'Rate limit reached', code: 'rate_limit_exceeded' },
+        { 'retry-after': '20' },
+      ),
+    );
+
+    expect(error).toBeInstanceOf(RetryableQuotaError);
+    expect((error as RetryableQuotaError).retryDelayMs).toBe(20000);
+  });
+
+  it('reads Retry-After as an HTTP date', () => {
+    vi.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+
+    const error = classifyOpenAIError(
+      apiError(
+        429,
+        { message: 'Rate limit reached' },
+        { 'retry-after': 'Thu, 01 Jan 2026 00:00:30 GMT' },
+      ),
+    );
+
+    expect((error as RetryableQuotaError).retryDelayMs).toBe(30000);
+  });
+
+  it('leaves the delay to backoff when a rate limit has no Retry-After', () => {
+    const error = classifyOpenAIError(
+      apiError(429, { message: 'Rate limit reached' }),
+    );
+
+    expect(error).toBeInstanceOf(RetryableQuotaError);
+    expect((error as RetryableQuotaError).retryDelayMs).toBeUndefined();
+  });
+
+  it('maps an exhausted quota to a TerminalQuotaError', () => {
+    const error = classifyOpenAIError(
+      apiError(429, {
+        message: 'You exceeded your current quota',
+        type: 'insufficient_quota',
+      }),
+    );
+
+    expect(error).toBeInstanceOf(TerminalQuotaError);
+  });
+
+  it('maps a missing model to a ModelNotFoundError', () => {
+    const error = classifyOpenAIError(
+      apiError(404, { message: 'The model `gpt-9` does not exist' }),
+    );
+
+    expect(error).toBeInstanceOf(ModelNotFoundError);
+    expect((error as ModelNotFoundError).code).toBe(404);
+  });
+
+  it('maps an invalid API key to an UnauthorizedError', () => {
+    const error = classifyOpenAIError(
+      apiError(401, {
+        message: 'Incorrect API key provided',
+        code: 'invalid_api_key',
+      }),
+    );
+
+    expect(error).toBeInstanceOf(UnauthorizedError);
+    expect((error as Error).message).toContain('Incorrect API key provided');
+  });
+
+  it.each([
+    [{ message: 'Too long', code: 'context_length_exceeded' }],
+    [
+      {
+        message:
+          "This model's maximum context length is 32768 tokens. However, you requested 40000 tokens.",
+      },
+    ],
+    [{ message: 'the request exceeds the available context size' }],
+  ])('maps a context overflow to a ContextWindowExceededError', (body) => {
+    const error = classifyOpenAIError(apiError(400, body));
+
+    expect(error).toBeInstanceOf(ContextWindowExceededError);
+  });
+
+  it('returns other errors unchanged', () => {
+    const serverError = apiError(500, { message: 'Internal error' });
+    const badRequest = apiError(400, { message: 'Invalid tool schema' });
+    const plainError = new Error('boom');
+
+    expect(classifyOpenAIError(serverError)).toBe(serverError);
+    expect(classifyOpenAIError(badRequest)).toBe(badRequest);
+    expect(classifyOpenAIError(plainError)).toBe(plainError);
+  });
+
+  it('lets classifyFailureKind recognize OpenAI errors', () => {
+    expect(
+      classifyFailureKind(apiError(429, { message: 'Rate limit reached' })),
+    ).toBe('transient');
+    expect(
+      classifyFailureKind(
+        apiError(429, { message: 'Quota', code: 'insufficient_quota' }),
+      ),
+    ).toBe('terminal');
+    expect(
+      classifyFailureKind(apiError(404, { message: 'Model not found' })),
+    ).toBe('not_found');
+  });
+});
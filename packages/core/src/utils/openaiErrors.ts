@@ -0,0 +1,82 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { APIError } from 'openai';
+import type { GoogleApiError } from './googleErrors.js';
+import {
+  RetryableQuotaError,
+  TerminalQuotaError,
+} from './googleQuotaErrors.js';
+import {
+  ContextWindowExceededError,
+  getRetryAfterMs,
+  ModelNotFoundError,
+} from './httpErrors.js';
+import { UnauthorizedError } from './errors.js';
+
+/**
+ * Error codes of 429 responses that will not succeed on retry, because the
+ * account has run out of credit rather than hit a rate limit.
+ */
+const TERMINAL_QUOTA_CODES = new Set([
+  'insufficient_quota',
+  'billing_hard_limit_reached',
+]);
+
+/**
+ * OpenAI reports context overflows with this code. Compatible servers such as
+ * vLLM, llama.cpp and LM Studio only describe them in the message.
+ */
+const CONTEXT_LENGTH_CODE = 'context_length_exceeded';
+const CONTEXT_LENGTH_MESSAGE =
+  /maximum context length|context length|context window|context size|prompt is too long|too many tokens/i;
+
+/**
+ * Maps an error thrown by the `openai` SDK to the error types used by retry,
+ * fallback and model availability:
+ *
+ * - 429 becomes a `RetryableQuotaError` that waits for `Retry-After`, or a
+ *   `TerminalQuotaError` when the account is out of quota.
+ * - 404 becomes a `ModelNotFoundError`.
+ * - 401 becomes an `UnauthorizedError`.
+ * - A request that does not fit in the context window becomes a
+ *   `ContextWindowExceededError`.
+ *
+ * Other errors, including 5xx responses, are returned unchanged.
+ */
+export function classifyOpenAIError(error: unknown): unknown {
+  if (!(error instanceof APIError) || error.status === undefined) {
+    return error;
+  }
+  const { status, message } = error;
+  const code = error.code ?? error.type;
+
+  if (
+    (status === 400 || status === 413) &&
+    (code === CONTEXT_LENGTH_CODE || CONTEXT_LENGTH_MESSAGE.test(message))
+  ) {
+    return new ContextWindowExceededError(message);
+  }
+  if (status === 401) {
+    return new UnauthorizedError(message);
+  }
+  if (status === 404) {
+    return new ModelNotFoundError(message, status);
+  }
+  if (status === 429) {
+    const cause: GoogleApiError = { code: status, message, details: [] };
+    if (code && TERMINAL_QUOTA_CODES.has(code)) {
+      return new TerminalQuotaError(message, cause);
+    }
+    const retryAfterMs = getRetryAfterMs(error);
+    return new RetryableQuotaError(
+      message,
+      cause,
+      retryAfterMs !== undefined ? retryAfterMs / 1000 : undefined,
+    );
+  }
+  return error;
+}
@@ -7,8 +7,13 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { ApiError } from '@google/genai';
+import { APIError } from 'openai';
 import { AuthType } from '../core/contentGenerator.js';
-import { type HttpError, ModelNotFoundError } from './httpErrors.js';
+import {
+  ContextWindowExceededError,
+  type HttpError,
+  ModelNotFoundError,
+} from './httpErrors.js';
 import { retryWithBackoff } from './retry.js';
 import { setSimulate429 } from './testUtils.js';
 import { debugLogger } from './debugLogger.js';
@@ -483,6 +488,137 @@ describe('retryWithBackoff', () => {
       },
     );
   });
+  it('should rethrow the original error when a non-OpenAI error is not retried', async () => {
+    const error: HttpError = new Error('Bad request');
+    error.status = 400;
+    const mockFn = vi.fn().mockRejectedValue(error);
+
+    await expect(retryWithBackoff(mockFn)).rejects.toBe(error);
+    expect(mockFn).toHaveBeenCalledTimes(1);
+  });
+
+  describe('OpenAI SDK errors', () => {
+    it('should wait for the Retry-After header of a 429', async () => {
+      const setTimeoutSpy = vi.spyOn(global, 'setTimeout');
+      const mockFn = vi
+        .fn()
+        .mockRejectedValueOnce(
+          APIError.generate(
+            429,
+            { error: { message: 'Rate limit reached' } },
+            undefined,
+            new Headers({ 'retry-after': '7' }),
+          ),
+        )
+        .mockResolvedValue('success');
+
+      const promise = retryWithBackoff(mockFn, { initialDelayMs: 100 });
+      await vi.runAllTimersAsync();
+
+      await expect(promise).resolves.toBe('success');
+      expect(setTimeoutSpy).toHaveBeenCalledWith(expect.any(Function), 7000);
+    });
+
+    it('should wait for the Retry-After header of a 5xx', async () => {
+      const setTimeoutSpy = vi.spyOn(global, 'setTimeout');
+      const mockFn = vi
+        .fn()
+        .mockRejectedValueOnce(
+          APIError.generate(
+            503,
+            { error: { message: 'Overloaded' } },
+            undefined,
+            new Headers({ 'retry-after-ms': '1500' }),
+          ),
+        )
+        .mockResolvedValue('success');
+
+      const promise = retryWithBackoff(mockFn, { initialDelayMs: 100 });
+      await vi.runAllTimersAsync();
+
+      await expect(promise).resolves.toBe('success');
+      expect(setTimeoutSpy).toHaveBeenCalledWith(expect.any(Function), 1500);
+    });
+
+    it('should cap the Retry-After header at maxDelayMs', async () => {
+      const setTimeoutSpy = vi.spyOn(global, 'setTimeout');
+      const mockFn = vi
+        .fn()
+        .mockRejectedValueOnce(
+          APIError.generate(
+            429,
+            { error: { message: 'Rate limit reached' } },
+            undefined,
+            new Headers({ 'retry-after': '86400' }),
+          ),
+        )
+        .mockResolvedValue('success');
+
+      const promise = retryWithBackoff(mockFn, {
+        initialDelayMs: 100,
+        maxDelayMs: 5000,
+      });
+      await vi.runAllTimersAsync();
+
+      await expect(promise).resolves.toBe('success');
+      expect(setTimeoutSpy).toHaveBeenCalledWith(expect.any(Function), 5000);
+      expect(setTimeoutSpy).not.toHaveBeenCalledWith(
+        expect.any(Function),
+        86_400_000,
+      );
+    });
+
+    it('should fall back without retrying when the quota is exhausted', async () => {
+      const fallbackCallback = vi.fn().mockResolvedValue(false);
+      const mockFn = vi.fn().mockRejectedValue(
+        APIError.generate(
+          429,
+          {
+            error: {
+              message: 'You exceeded your current quota',
+              code: 'insufficient_quota',
+            },
+          },
+          undefined,
+          new Headers(),
+        ),
+      );
+
+      const promise = retryWithBackoff(mockFn, {
+        maxAttempts: 3,
+        onPersistent429: fallbackCallback,
+      });
+
+      await expect(promise).rejects.toBeInstanceOf(TerminalQuotaError);
+      expect(fallbackCallback).toHaveBeenCalledWith(
+        undefined,
+        expect.any(TerminalQuotaError),
+      );
+      expect(mockFn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should throw a ContextWindowExceededError without retrying', async () => {
+      const mockFn = vi.fn().mockRejectedValue(
+        APIError.generate(
+          400,
+          {
+            error: {
+              message: "This model's maximum context length is 8192 tokens.",
+              code: 'context_length_exceeded',
+            },
+          },
+          undefined,
+          new Headers(),
+        ),
+      );
+
+      await expect(retryWithBackoff(mockFn)).rejects.toBeInstanceOf(
+        ContextWindowExceededError,
+      );
+      expect(mockFn).toHaveBeenCalledTimes(1);
+    });
+  });
+
   it('should abort the retry loop when the signal is aborted', async () => {
     const abortController = new AbortController();
     const mockFn = vi.fn().mockImplementation(async () => {
@@ -6,6 +6,7 @@
 
 import type { GenerateContentResponse } from '@google/genai';
 import { ApiError } from '@google/genai';
+import { APIError } from 'openai';
 import {
   TerminalQuotaError,
   RetryableQuotaError,
@@ -14,7 +15,12 @@ import {
 } from './googleQuotaErrors.js';
 import { delay, createAbortError } from './delay.js';
 import { debugLogger } from './debugLogger.js';
-import { getErrorStatus, ModelNotFoundError } from './httpErrors.js';
+import {
+  getErrorStatus,
+  getRetryAfterMs,
+  ModelNotFoundError,
+} from './httpErrors.js';
+import { classifyOpenAIError } from './openaiErrors.js';
 import type { RetryAvailabilityContext } from '../availability/modelPolicy.js';
 
 export type { RetryAvailabilityContext };
@@ -198,7 +204,10 @@ export async function retryWithBackoff<T>(
         throw error;
       }
 
-      const classifiedError = classifyGoogleError(error);
+      const classifiedError =
+        error instanceof APIError
+          ? classifyOpenAIError(error)
+          : classifyGoogleError(error);
 
       const errorCode = getErrorStatus(error);
 
@@ -275,17 +284,32 @@ export async function retryWithBackoff<T>(
             : error;
         }
 
-        if (
+        // Wait as long as the server asked, either in the Gemini quota
+        // error details or in a Retry-After header, which OpenAI-compatible
+        // quota errors are also built from. Headers are capped at maxDelayMs
+        // so that a huge value cannot stall the session.
+        const hasGeminiQuotaDelay =
           classifiedError instanceof RetryableQuotaError &&
-          classifiedError.retryDelayMs !== undefined
-        ) {
+          classifiedError.retryDelayMs !== undefined &&
+          !(error instanceof APIError);
+        const retryAfterMs = getRetryAfterMs(error);
+        const retryDelayMs = hasGeminiQuotaDelay
+          ? classifiedError.retryDelayMs
+          : retryAfterMs !== undefined
+            ? Math.min(retryAfterMs, maxDelayMs)
+            : undefined;
+        if (retryDelayMs !== undefined) {
+          const errorMessage =
+            classifiedError instanceof Error
+              ? classifiedError.message
+              : String(classifiedError);
           debugLogger.warn(
-            `Attempt ${attempt} failed: ${classifiedError.message}. Retrying after ${classifiedError.retryDelayMs}ms...`,
+            `Attempt ${attempt} failed: ${errorMessage}. Retrying after ${retryDelayMs}ms...`,
           );
           if (onRetry) {
-            onRetry(attempt, error, classifiedError.retryDelayMs);
+            onRetry(attempt, error, retryDelayMs);
           }
-          await delay(classifiedError.retryDelayMs, signal);
+          await delay(retryDelayMs, signal);
           continue;
         } else {
           const errorStatus = getErrorStatus(error);
@@ -308,7 +332,9 @@ export async function retryWithBackoff<T>(
         attempt >= maxAttempts ||
         !shouldRetryOnError(error as Error, retryFetchErrors)
       ) {
-        throw error;
+        // Only OpenAI-compatible errors are surfaced in classified form;
+        // Gemini callers keep receiving the original error.
+        throw error instanceof APIError ? classifiedError : error;
       }
 
       const errorStatus = getErrorStatus(error);
@@ -86,6 +86,7 @@ describe('doesToolInvocationMatch', () => {
   describe('for non-shell tools', () => {
     const mockConfig = {
       getTargetDir: () => '/tmp',
+      getModelCapabilities: () => undefined,
       getFileFilteringOptions: () => ({}),
     } as unknown as Config;
     const readFileTool = new ReadFileTool(mockConfig, createMockMessageBus());